@@ -0,0 +1,118 @@
+import { randomUUID } from 'node:crypto';
+import { WebSocketServer } from 'ws';
+
+/**
+ * Multiplayer relay. Clients in the same room (the URL path, e.g. ws://localhost:8787/lobby)
+ * see each other: the relay stamps each player's id on their messages and fans them out.
+ * It keeps no world state beyond who is in which room. The message shapes live in
+ * packages/web/src/cesium/multiplayer/MultiplayerProtocol.ts.
+ */
+const PORT = Number(process.env.PORT) || 8787;
+const PROTOCOL_VERSION = 1;
+const PING_INTERVAL = 15000; // ms
+const MAX_NAME_LENGTH = 24;
+// Hello and state messages are well under 1 KB
+const MAX_PAYLOAD = 16 * 1024; // bytes
+
+// room -> Map<WebSocket, { id, name, vehicleType }>
+const rooms = new Map();
+
+const wss = new WebSocketServer({ port: PORT, maxPayload: MAX_PAYLOAD });
+
+wss.on('error', (error) => {
+  console.error(`❌ Relay error: ${error.message}`);
+});
+
+function send(socket, message) {
+  if (socket.readyState === socket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+}
+
+function broadcast(room, sender, message) {
+  const data = JSON.stringify(message);
+  for (const socket of room.keys()) {
+    if (socket !== sender && socket.readyState === socket.OPEN) {
+      socket.send(data);
+    }
+  }
+}
+
+function roomName(url) {
+  const path = new URL(url ?? '/', 'http://relay').pathname.replace(/^\/+|\/+$/g, '');
+  return path || 'lobby';
+}
+
+wss.on('connection', (socket, request) => {
+  const name = roomName(request.url);
+  let room = null;
+  let player = null;
+  socket.isAlive = true;
+  // An invalid frame or oversized payload errors this socket only; without a listener
+  // it would be thrown and take every room down
+  socket.on('error', (error) => {
+    console.warn(`⚠️ Dropping ${player?.name ?? 'client'}: ${error.message}`);
+    socket.terminate();
+  });
+  socket.on('pong', () => {
+    socket.isAlive = true;
+  });
+
+  socket.on('message', (data) => {
+    let message;
+    try {
+      message = JSON.parse(data.toString());
+    } catch {
+      return;
+    }
+    if (!message || typeof message !== 'object') return;
+
+    if (message.type === 'hello' && !player) {
+      if (message.version !== PROTOCOL_VERSION) {
+        socket.close(4000, `Protocol ${message.version} not supported (relay speaks ${PROTOCOL_VERSION})`);
+        return;
+      }
+      player = {
+        id: randomUUID(),
+        name: String(message.name || 'Pilot').slice(0, MAX_NAME_LENGTH),
+        vehicleType: String(message.vehicleType || ''),
+      };
+      if (!rooms.has(name)) rooms.set(name, new Map());
+      room = rooms.get(name);
+      send(socket, { type: 'welcome', id: player.id, players: [...room.values()] });
+      broadcast(room, socket, { type: 'joined', player });
+      room.set(socket, player);
+      console.log(`🌐 ${player.name} joined /${name} (${room.size} in room)`);
+      return;
+    }
+
+    if (message.type === 'state' && player && message.state) {
+      player.vehicleType = String(message.vehicleType || player.vehicleType);
+      broadcast(room, socket, { type: 'state', id: player.id, vehicleType: player.vehicleType, state: message.state });
+    }
+  });
+
+  socket.on('close', () => {
+    if (!player) return;
+    room.delete(socket);
+    broadcast(room, socket, { type: 'left', id: player.id });
+    console.log(`🌐 ${player.name} left /${name} (${room.size} in room)`);
+    if (room.size === 0) rooms.delete(name);
+  });
+});
+
+// Drop sockets that stopped answering pings; their close handler tells the room
+const pingTimer = setInterval(() => {
+  for (const socket of wss.clients) {
+    if (!socket.isAlive) {
+      socket.terminate();
+      continue;
+    }
+    socket.isAlive = false;
+    socket.ping();
+  }
+}, PING_INTERVAL);
+
+wss.on('close', () => clearInterval(pingTimer));
+
+console.log(`🌐 Relay listening on ws://localhost:${PORT}`);
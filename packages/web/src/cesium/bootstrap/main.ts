@@ -1,54 +1,112 @@
 import * as Cesium from 'cesium';
 import { Scene } from '../core/Scene';
 import { GameLoop } from '../core/GameLoop';
+import { Environment } from '../core/Environment';
 import { VehicleManager } from '../managers/VehicleManager';
 import { CameraManager } from '../managers/CameraManager';
 import { InputManager } from '../input/InputManager';
 import { ObjectManager } from '../builder/ObjectManager';
 import { PlacementController } from '../builder/PlacementController';
 import { TouchInputManager } from '../input/TouchInputManager';
+import { GamepadInput } from '../input/GamepadInput';
+import { MouseInput } from '../input/MouseInput';
 import { AutopilotManager } from '../managers/AutopilotManager';
 import { RecordingManager } from '../managers/RecordingManager';
+import { KeyframeAnimator } from '../managers/KeyframeAnimator';
+import { ProjectManager } from '../project/ProjectManager';
+import { RaceManager } from '../modes/RaceManager';
+import { GhostManager } from '../modes/GhostManager';
+import { MultiplayerManager } from '../multiplayer/MultiplayerManager';
+import { AUTOSAVE_LAYOUT_KEY, LayoutStorage } from '../builder/LayoutStorage';
+import { validateLayout } from '../project/ProjectFile';
+import { DEFAULT_VEHICLE_ID } from '../vehicles/VehicleRegistry';
+
+const LAYOUT_AUTOSAVE_DELAY = 1000;
 
 export class CesiumVehicleGame {
   private scene: Scene;
   private gameLoop: GameLoop;
+  private environment: Environment;
   private vehicleManager: VehicleManager;
   private cameraManager: CameraManager;
   private inputManager: InputManager;
+  private gamepadInput: GamepadInput;
+  private mouseInput: MouseInput;
   private objectManager: ObjectManager;
   private placementController: PlacementController;
   private touchInputManager: TouchInputManager | null = null;
   private autopilotManager: AutopilotManager;
   private recordingManager: RecordingManager;
+  private keyframeAnimator: KeyframeAnimator;
+  private projectManager: ProjectManager;
+  private raceManager: RaceManager;
+  private ghostManager: GhostManager;
+  private multiplayerManager: MultiplayerManager;
+  private layoutStorage: LayoutStorage | null = null;
+  private layoutSaveTimeout: number | null = null;
 
   constructor(containerId: string = "cesiumContainer") {
     this.scene = new Scene(containerId);
     this.gameLoop = new GameLoop(this.scene);
+    this.environment = new Environment();
     this.vehicleManager = new VehicleManager(this.scene);
     this.cameraManager = new CameraManager(this.scene.camera);
     this.inputManager = new InputManager();
+    this.gamepadInput = new GamepadInput(this.inputManager);
+    this.mouseInput = new MouseInput(this.inputManager, this.cameraManager, this.scene.viewer.canvas);
     this.objectManager = new ObjectManager(this.scene.viewer);
     this.placementController = new PlacementController(this.scene.viewer, this.objectManager);
     this.autopilotManager = new AutopilotManager(this);
-    this.recordingManager = new RecordingManager(this.scene);
+    this.recordingManager = new RecordingManager(this.scene, this.gameLoop, this.vehicleManager, this.cameraManager);
+    this.keyframeAnimator = new KeyframeAnimator(this.scene.camera, this.cameraManager);
+    this.projectManager = new ProjectManager(this.scene, this.objectManager, this.cameraManager);
+    this.raceManager = new RaceManager(this.objectManager, this.vehicleManager);
+    this.ghostManager = new GhostManager(this.scene.scene, this.vehicleManager, this.raceManager);
+    this.multiplayerManager = new MultiplayerManager(this.scene.scene, this.vehicleManager);
 
     this.setupSystems();
     this.setupInputHandling();
-    this.setupTouchControls(containerId);
+    this.setupTouchControls();
+    this.setupLayoutPersistence();
   }
 
   private setupSystems(): void {
+    // Gamepads are polled, so read them before anything acts on input this frame
+    this.gameLoop.addUpdatable(this.gamepadInput);
+    // Advance the weather before anything samples it this frame
+    this.gameLoop.addUpdatable(this.environment);
     this.gameLoop.addUpdatable(this.vehicleManager);
+    // Telemetry replay must drive the vehicle before cameras follow it
+    this.gameLoop.addUpdatable(this.recordingManager);
+    // Sends the pose the vehicle has just settled on and moves the other players
+    this.gameLoop.addUpdatable(this.multiplayerManager);
     this.gameLoop.addUpdatable(this.cameraManager);
+    this.gameLoop.addUpdatable(this.keyframeAnimator);
+    this.gameLoop.addUpdatable(this.raceManager);
+    // Samples the lap the RaceManager has just timed
+    this.gameLoop.addUpdatable(this.ghostManager);
+    this.gameLoop.addUpdatable({
+      update: () => {
+        const vehicle = this.vehicleManager.getActiveVehicle();
+        if (vehicle && !this.placementController.isActive()) {
+          this.objectManager.collectAt(vehicle.getPosition());
+        }
+      }
+    });
     this.gameLoop.addUpdatable({
       update: (deltaTime: number) => {
         this.placementController.update(deltaTime);
       }
     });
     
+    this.vehicleManager.setEnvironment(this.environment);
+    this.cameraManager.getFPVCamera()?.setEnvironment(this.environment);
+
     this.vehicleManager.onVehicleChange((vehicle) => {
       this.cameraManager.setTarget(vehicle);
+      this.objectManager.resetCollectibles();
+      // A respawn during a race goes back to the start gate
+      this.raceManager.restart();
       console.log('📷 Camera target updated to new vehicle');
     });
   }
@@ -58,12 +116,12 @@ export class CesiumVehicleGame {
     this.cameraManager.setupInputHandling(this.inputManager);
     
     // Builder placement inputs
-    this.inputManager.onInput('throttle', (pressed) => this.placementController.setMoveInput({ forward: pressed }));
-    this.inputManager.onInput('brake', (pressed) => this.placementController.setMoveInput({ backward: pressed }));
-    this.inputManager.onInput('turnLeft', (pressed) => this.placementController.setMoveInput({ left: pressed }));
-    this.inputManager.onInput('turnRight', (pressed) => this.placementController.setMoveInput({ right: pressed }));
-    this.inputManager.onInput('altitudeUp', (pressed) => this.placementController.setMoveInput({ up: pressed }));
-    this.inputManager.onInput('altitudeDown', (pressed) => this.placementController.setMoveInput({ down: pressed }));
+    this.inputManager.onInput('builderForward', (pressed) => this.placementController.setMoveInput({ forward: pressed }));
+    this.inputManager.onInput('builderBack', (pressed) => this.placementController.setMoveInput({ backward: pressed }));
+    this.inputManager.onInput('builderLeft', (pressed) => this.placementController.setMoveInput({ left: pressed }));
+    this.inputManager.onInput('builderRight', (pressed) => this.placementController.setMoveInput({ right: pressed }));
+    this.inputManager.onInput('builderUp', (pressed) => this.placementController.setMoveInput({ up: pressed }));
+    this.inputManager.onInput('builderDown', (pressed) => this.placementController.setMoveInput({ down: pressed }));
     
     // Space bar to spawn object
     this.inputManager.onInput('spawnObject', (pressed) => {
@@ -73,27 +131,44 @@ export class CesiumVehicleGame {
     });
   }
 
-  private setupTouchControls(containerId: string): void {
+  /**
+   * Restore the last builder layout from IndexedDB and autosave it on every change
+   */
+  private setupLayoutPersistence(): void {
+    if (!LayoutStorage.isSupported()) return;
+    const storage = new LayoutStorage();
+
+    storage.load(AUTOSAVE_LAYOUT_KEY)
+      .then((saved) => {
+        // Anything placed while the load was pending wins over the stored layout
+        if (saved && this.objectManager.getObjectCount() === 0) {
+          this.objectManager.importLayout(validateLayout(saved));
+        }
+      })
+      .catch((error) => console.warn('⚠️ Could not restore builder layout:', error))
+      .finally(() => {
+        this.layoutStorage = storage;
+      });
+
+    this.objectManager.addChangeListener(() => {
+      if (!this.layoutStorage) return;
+      if (this.layoutSaveTimeout !== null) {
+        clearTimeout(this.layoutSaveTimeout);
+      }
+      this.layoutSaveTimeout = window.setTimeout(() => {
+        this.layoutSaveTimeout = null;
+        this.layoutStorage?.save(AUTOSAVE_LAYOUT_KEY, this.objectManager.exportLayout())
+          .catch((error) => console.warn('⚠️ Could not save builder layout:', error));
+      }, LAYOUT_AUTOSAVE_DELAY);
+    });
+  }
+
+  private setupTouchControls(): void {
     const isMobile = 'ontouchstart' in window || navigator.maxTouchPoints > 0;
     if (!isMobile) return;
 
-    const container = document.getElementById(containerId);
-    if (!container) return;
-
-    this.touchInputManager = new TouchInputManager(container);
-    
-    this.touchInputManager.onInput('rollLeft', (pressed) => 
-      this.vehicleManager.handleInput('rollLeft', pressed)
-    );
-    this.touchInputManager.onInput('rollRight', (pressed) => 
-      this.vehicleManager.handleInput('rollRight', pressed)
-    );
-    this.touchInputManager.onInput('altitudeUp', (pressed) => 
-      this.vehicleManager.handleInput('altitudeUp', pressed)
-    );
-    this.touchInputManager.onInput('altitudeDown', (pressed) => 
-      this.vehicleManager.handleInput('altitudeDown', pressed)
-    );
+    // The sticks themselves are drawn by the UI, which reports their positions here
+    this.touchInputManager = new TouchInputManager(this.inputManager);
 
     console.log('📱 Touch controls initialized');
   }
@@ -110,7 +185,7 @@ export class CesiumVehicleGame {
     await this.scene.zoomToLocation(spawnPosition, 4500);
     
     console.log('✈️ Spawning aircraft...');
-    const aircraft = await this.vehicleManager.spawnAircraft();
+    const aircraft = await this.vehicleManager.spawnVehicle(DEFAULT_VEHICLE_ID);
     this.cameraManager.setTarget(aircraft);
     this.start();
     
@@ -126,6 +201,7 @@ export class CesiumVehicleGame {
 
     // Initialize terrain avoidance system for content creation
     this.autopilotManager.initTerrainAvoidance();
+    this.environment.setTerrain(this.autopilotManager.getTerrainAvoidance());
 
     console.log('🚀 Cesium Vehicle Game started!');
   }
@@ -134,6 +210,10 @@ export class CesiumVehicleGame {
     this.gameLoop.stop();
   }
 
+  public getEnvironment(): Environment {
+    return this.environment;
+  }
+
   public getVehicleManager(): VehicleManager {
     return this.vehicleManager;
   }
@@ -146,6 +226,18 @@ export class CesiumVehicleGame {
     return this.inputManager;
   }
 
+  public getGamepadInput(): GamepadInput {
+    return this.gamepadInput;
+  }
+
+  public getTouchInputManager(): TouchInputManager | null {
+    return this.touchInputManager;
+  }
+
+  public getMouseInput(): MouseInput {
+    return this.mouseInput;
+  }
+
   public getScene(): Scene {
     return this.scene;
   }
@@ -166,13 +258,39 @@ export class CesiumVehicleGame {
     return this.recordingManager;
   }
 
+  public getKeyframeAnimator(): KeyframeAnimator {
+    return this.keyframeAnimator;
+  }
+
+  public getProjectManager(): ProjectManager {
+    return this.projectManager;
+  }
+
+  public getRaceManager(): RaceManager {
+    return this.raceManager;
+  }
+
+  public getGhostManager(): GhostManager {
+    return this.ghostManager;
+  }
+
+  public getMultiplayerManager(): MultiplayerManager {
+    return this.multiplayerManager;
+  }
+
   public destroy(): void {
     this.stop();
+    if (this.layoutSaveTimeout !== null) {
+      clearTimeout(this.layoutSaveTimeout);
+    }
     this.scene.stopEarthSpin();
     this.vehicleManager.destroy();
     this.cameraManager.destroy();
     this.inputManager.destroy();
+    this.mouseInput.destroy();
     this.touchInputManager?.destroy();
+    this.ghostManager.destroy();
+    this.multiplayerManager.destroy();
   }
 }
 
@@ -1,11 +1,31 @@
 import * as Cesium from 'cesium';
 import { TypedEventEmitter } from './TypedEventEmitter';
-import type { GameEvents, VehicleStateData, GameMode, CameraPositionData } from './types';
+import type { GameEvents, VehicleStateData, GameMode, CameraPositionData, LandingGearData, TouchdownData, MapObjectData, FlightGuideData } from './types';
 import type { CesiumVehicleGame } from '../bootstrap/main';
 import type { CameraType } from '../managers/CameraManager';
 import type { QualityConfig } from '../core/Scene';
+import type { OfflineRenderOptions } from '../managers/RecordingManager';
+import type { CameraKeyframe, KeyframeInterpolation } from '../managers/KeyframeAnimator';
+import type { PathWaypoint } from '../managers/AutopilotManager';
+import type { DirectorSettings, ExportSettingsData, ProjectFile } from '../project/ProjectFile';
+import type { GameObjectType } from '../objects/GameObject';
+import type { RaceState } from '../modes/RaceManager';
+import type { GhostRun, GhostState } from '../modes/GhostManager';
+import type { FlightModelType } from '../vehicles/aircraft/AircraftPhysics';
+import type { EnvironmentSettings } from '../core/Environment';
+import type { VehicleSummary } from '../vehicles/VehicleRegistry';
+import type { GamepadProfileSummary, GamepadStatus } from '../input/GamepadInput';
+import type { GamepadTuning } from '../input/GamepadProfiles';
+import type { MouseSettings, MouseStatus } from '../input/MouseInput';
+import type { StickSide, TouchControlConfig, TouchStatus } from '../input/TouchInputManager';
+import type { InputAction } from '../input/InputManager';
+import type { BindingConflict, BindingContext, KeyBindingMap } from '../input/KeyBindings';
+import type { InputContextId } from '../input/InputContexts';
+import type { MultiplayerStatus, OnlinePlayerSnapshot } from '../multiplayer/MultiplayerManager';
 import { Car } from '../vehicles/car/Car';
+import { FlyingVehicle } from '../vehicles/FlyingVehicle';
 import { Aircraft } from '../vehicles/aircraft/Aircraft';
+import { Boat } from '../vehicles/boat/Boat';
 import type { Vehicle } from '../vehicles/Vehicle';
 import { ModeManager } from '../modes/ModeManager';
 
@@ -13,6 +33,8 @@ export class GameBridge extends TypedEventEmitter<GameEvents> {
   private game: CesiumVehicleGame;
   private updateInterval: number | null = null;
   private currentMode: GameMode = 'play';
+  private lastLandingGear: LandingGearData | null = null;
+  private lastTouchdown: TouchdownData | null = null;
   private modeManager: ModeManager;
 
   constructor(game: CesiumVehicleGame) {
@@ -22,6 +44,18 @@ export class GameBridge extends TypedEventEmitter<GameEvents> {
     this.startUpdates();
     this.setupVehicleChangeListener();
     this.setupBuilderModeListener();
+    this.setupReplayListener();
+    this.setupRenderProgressListener();
+    this.setupKeyframeListener();
+    this.setupProjectListener();
+    this.setupMapListeners();
+    this.setupRaceListeners();
+    this.setupRestartListener();
+    this.setupGamepadListener();
+    this.setupMouseListener();
+    this.setupTouchListener();
+    this.setupKeyBindingListeners();
+    this.setupMultiplayerListeners();
     this.applyQualityPreset('performance');
     console.log('🎮 Applied performance mode on startup');
   }
@@ -34,9 +68,117 @@ export class GameBridge extends TypedEventEmitter<GameEvents> {
     });
   }
 
+  private setupGamepadListener(): void {
+    this.game.getGamepadInput().addStatusListener((status) => {
+      this.emit('gamepadChanged', status);
+    });
+  }
+
+  private setupMouseListener(): void {
+    this.game.getMouseInput().addStatusListener((status) => {
+      this.emit('mouseControlChanged', status);
+    });
+  }
+
+  private setupTouchListener(): void {
+    this.game.getTouchInputManager()?.addStatusListener((status) => {
+      this.emit('touchControlsChanged', status);
+    });
+  }
+
+  private setupKeyBindingListeners(): void {
+    const inputManager = this.game.getInputManager();
+    inputManager.addBindingsListener((bindings) => {
+      this.emit('keyBindingsChanged', bindings);
+    });
+    for (const action of ['toggleHud', 'toggleControls', 'toggleDebug'] as const) {
+      inputManager.onInput(action, (pressed) => {
+        if (pressed) {
+          this.emit('studioAction', { action });
+        }
+      });
+    }
+  }
+
+  private setupMultiplayerListeners(): void {
+    const multiplayerManager = this.game.getMultiplayerManager();
+    multiplayerManager.addPlayersListener((update) => {
+      this.emit('playersUpdated', update);
+    });
+    multiplayerManager.addStatusListener((status) => {
+      this.emit('multiplayerStatusChanged', status);
+    });
+  }
+
+  private setupRestartListener(): void {
+    // Restarts also come from the R key, not only the crash screen
+    this.game.getVehicleManager().addRestartListener(() => {
+      this.emit('crashed', { crashed: false });
+    });
+  }
+
+  private setupReplayListener(): void {
+    this.game.getRecordingManager().addReplayListener((state) => {
+      this.emit('replayStateChanged', state);
+      this.emit('cameraChanged', {
+        type: this.game.getCameraManager().getActiveCameraType(),
+      });
+    });
+  }
+
+  private setupRenderProgressListener(): void {
+    this.game.getRecordingManager().addRenderProgressListener((progress) => {
+      this.emit('offlineRenderProgress', progress);
+    });
+  }
+
+  private setupKeyframeListener(): void {
+    this.game.getKeyframeAnimator().addStateListener((state) => {
+      this.emit('keyframeStateChanged', state);
+    });
+  }
+
+  private setupProjectListener(): void {
+    this.game.getProjectManager().addProjectLoadListener((project) => {
+      this.emit('projectLoaded', project);
+      this.emit('cameraChanged', {
+        type: this.game.getCameraManager().getActiveCameraType(),
+      });
+    });
+  }
+
+  private setupMapListeners(): void {
+    this.game.getProjectManager().addWaypointListener((waypoints) => {
+      this.emit('waypointsChanged', { waypoints });
+    });
+    this.game.getObjectManager().addChangeListener(() => {
+      this.emit('builderObjectsChanged', { objects: this.getBuilderObjects() });
+    });
+  }
+
+  private setupRaceListeners(): void {
+    const raceManager = this.game.getRaceManager();
+    raceManager.addStateListener((state) => {
+      this.emit('raceStateChanged', state);
+    });
+    raceManager.addCheckpointListener((split) => {
+      this.emit('raceCheckpoint', split);
+    });
+    raceManager.addLapListener((lap) => {
+      this.emit('raceLap', lap);
+    });
+    this.game.getGhostManager().addStateListener((state) => {
+      this.emit('ghostStateChanged', state);
+    });
+  }
+
   private setupVehicleChangeListener(): void {
     this.game.getVehicleManager().addVehicleChangeListener((vehicle) => {
       this.emitVehicleChangeEvents(vehicle);
+      const definition = this.game.getVehicleManager().getRegistry().get(vehicle.id);
+      if (definition) {
+        this.emit('vehicleChanged', { id: vehicle.id, kind: definition.kind });
+      }
     });
   }
 
@@ -52,35 +194,72 @@ export class GameBridge extends TypedEventEmitter<GameEvents> {
     const vehicle = this.game.getVehicleManager().getActiveVehicle();
 
     // Emit Camera Position independently
-    const camera = this.game.getScene().camera;
-    const positionCartographic = Cesium.Cartographic.fromCartesian(camera.position);
-    this.emit('cameraPositionChanged', {
-      latitude: Cesium.Math.toDegrees(positionCartographic.latitude),
-      longitude: Cesium.Math.toDegrees(positionCartographic.longitude),
-      altitude: positionCartographic.height,
-      heading: Cesium.Math.toDegrees(camera.heading),
-      pitch: Cesium.Math.toDegrees(camera.pitch),
-      roll: Cesium.Math.toDegrees(camera.roll),
-    });
+    this.emit('cameraPositionChanged', this.getCurrentCameraPosition());
 
     if (vehicle && vehicle.isModelReady()) {
-      const state = vehicle.getState();
-      this.emit('vehicleStateChanged', {
-        speed: state.speed,
-        velocity: state.velocity,
-        position: state.position,
-        heading: state.heading,
-        pitch: state.pitch,
-        roll: state.roll,
-      });
+      this.emit('vehicleStateChanged', this.buildVehicleStateData(vehicle));
+
+      if (vehicle instanceof Aircraft) {
+        this.emitLandingState(vehicle);
+      }
 
       // Check for crash
-      if (vehicle instanceof Aircraft && vehicle.isCrashed()) {
-        this.emit('crashed', { crashed: true });
+      if (vehicle instanceof FlyingVehicle && vehicle.isCrashed()) {
+        const impact = vehicle.getLastImpact();
+        this.emit('crashed', {
+          crashed: true,
+          damage: impact?.damage,
+          cause: impact?.cause,
+          impactSpeed: impact?.speed,
+          impactAngle: impact?.angle,
+        });
       }
     }
   }
 
+  private buildVehicleStateData(vehicle: Vehicle): VehicleStateData {
+    const state = vehicle.getState();
+    const cartographic = Cesium.Cartographic.fromCartesian(state.position);
+    const data: VehicleStateData = {
+      speed: state.speed,
+      velocity: state.velocity,
+      position: state.position,
+      latitude: Cesium.Math.toDegrees(cartographic.latitude),
+      longitude: Cesium.Math.toDegrees(cartographic.longitude),
+      heading: state.heading,
+      pitch: state.pitch,
+      roll: state.roll,
+      altitude: cartographic.height,
+    };
+
+    if (vehicle instanceof FlyingVehicle) {
+      const flight = vehicle.getFlightData();
+      data.verticalVelocity = flight.verticalSpeed;
+      data.altitudeAgl = flight.altitudeAgl;
+      data.gLoad = flight.gLoad;
+    }
+    return data;
+  }
+
+  /**
+   * Gear and touchdowns change inside the physics step; report them when they differ
+   * from what was last sent
+   */
+  private emitLandingState(aircraft: Aircraft): void {
+    const gearDown = aircraft.isGearDown();
+    const onGround = aircraft.isOnGround();
+    if (gearDown !== this.lastLandingGear?.gearDown || onGround !== this.lastLandingGear?.onGround) {
+      this.lastLandingGear = { gearDown, onGround };
+      this.emit('landingGearChanged', this.lastLandingGear);
+    }
+
+    const touchdown = aircraft.getLastTouchdown();
+    if (touchdown && touchdown !== this.lastTouchdown) {
+      this.emit('touchdown', touchdown);
+    }
+    this.lastTouchdown = touchdown;
+  }
+
   public emitVehicleChangeEvents(vehicle: Vehicle): void {
     if (vehicle instanceof Car) {
       this.emit('collisionDetectionChanged', {
@@ -89,7 +268,7 @@ export class GameBridge extends TypedEventEmitter<GameEvents> {
       this.emit('roverModeChanged', {
         enabled: vehicle.getRoverMode(),
       });
-    } else if (vehicle instanceof Aircraft) {
+    } else if (vehicle instanceof FlyingVehicle || vehicle instanceof Boat) {
       this.emit('collisionDetectionChanged', { enabled: false });
       this.emit('roverModeChanged', { enabled: false });
     }
@@ -122,11 +301,29 @@ export class GameBridge extends TypedEventEmitter<GameEvents> {
     this.game.getVehicleManager().toggleVehicleType();
   }
 
+  public listVehicles(): VehicleSummary[] {
+    return this.game.getVehicleManager().getRegistry().list();
+  }
+
+  public getActiveVehicleId(): string | null {
+    return this.game.getVehicleManager().getActiveVehicleId();
+  }
+
+  /**
+   * Swap the active vehicle for a registry entry, keeping its position and heading
+   */
+  public async spawnVehicle(id: string): Promise<void> {
+    const vehicleManager = this.game.getVehicleManager();
+    const active = vehicleManager.getActiveVehicle();
+    const state = active?.getState();
+    await vehicleManager.spawnVehicle(id, state && Cesium.Cartesian3.clone(state.position), state?.heading ?? 0);
+  }
+
   public getRoverMode(): boolean {
     const active = this.game.getVehicleManager().getActiveVehicle();
     if (!active) return true;
     if (active instanceof Car) return active.getRoverMode();
-    if (active instanceof Aircraft) return false;
+    if (active instanceof FlyingVehicle || active instanceof Boat) return false;
     return true;
   }
 
@@ -153,22 +350,16 @@ export class GameBridge extends TypedEventEmitter<GameEvents> {
   public getVehicleState(): VehicleStateData | null {
     const vehicle = this.game.getVehicleManager().getActiveVehicle();
     if (vehicle && vehicle.isModelReady()) {
-      const state = vehicle.getState();
-      return {
-        speed: state.speed,
-        velocity: state.velocity,
-        position: state.position,
-        heading: state.heading,
-        pitch: state.pitch,
-        roll: state.roll,
-      };
+      return this.buildVehicleStateData(vehicle);
     }
     return null;
   }
 
   public getCurrentCameraPosition(): CameraPositionData {
     const camera = this.game.getScene().camera;
-    const positionCartographic = Cesium.Cartographic.fromCartesian(camera.position);
+    // camera.position is relative to the lookAt frame the follow cameras set; positionWC is
+    // always world space, and Cesium derives heading/pitch/roll in its local frame too
+    const positionCartographic = Cesium.Cartographic.fromCartesian(camera.positionWC);
     return {
       latitude: Cesium.Math.toDegrees(positionCartographic.latitude),
       longitude: Cesium.Math.toDegrees(positionCartographic.longitude),
@@ -193,6 +384,7 @@ export class GameBridge extends TypedEventEmitter<GameEvents> {
         velocity: 0,
         speed: 0
       });
+      this.game.getVehicleManager().setFlightStart(newPosition, Cesium.Math.toRadians(heading));
       this.emit('locationChanged', {
         longitude,
         latitude,
@@ -201,26 +393,115 @@ export class GameBridge extends TypedEventEmitter<GameEvents> {
     }
   }
 
-  public restart(): void {
-    const vehicle = this.game.getVehicleManager().getActiveVehicle();
-    if (vehicle && vehicle instanceof Aircraft && vehicle.isCrashed()) {
-      vehicle.resetCrash();
-      // Reset to spawn position
-      const spawnPosition = Cesium.Cartesian3.fromDegrees(11.9746, 57.7089, 200);
-      const currentState = vehicle.getState();
-      vehicle.setState({
-        ...currentState,
-        position: spawnPosition,
-        heading: 0,
-        pitch: 0,
-        roll: 0,
-        velocity: 0,
-        speed: 0
-      });
-      this.emit('crashed', { crashed: false });
+  /**
+   * Park the aircraft on the ground below for a take-off roll
+   */
+  public startOnGround(): void {
+    this.game.getVehicleManager().startOnGround();
+  }
+
+  public toggleLandingGear(): void {
+    const active = this.game.getVehicleManager().getActiveVehicle();
+    if (active instanceof Aircraft) {
+      active.toggleGear();
     }
   }
 
+  public getGamepadStatus(): GamepadStatus {
+    return this.game.getGamepadInput().getStatus();
+  }
+
+  public getGamepadProfiles(): GamepadProfileSummary[] {
+    return this.game.getGamepadInput().getProfiles();
+  }
+
+  public setGamepadProfile(profileId: string): void {
+    this.game.getGamepadInput().setProfile(profileId);
+  }
+
+  public setGamepadTuning(profileId: string, tuning: Partial<GamepadTuning>): void {
+    this.game.getGamepadInput().setTuning(profileId, tuning);
+  }
+
+  public getMouseStatus(): MouseStatus {
+    return this.game.getMouseInput().getStatus();
+  }
+
+  public setMouseSettings(settings: Partial<MouseSettings>): void {
+    this.game.getMouseInput().setSettings(settings);
+  }
+
+  public getTouchStatus(): TouchStatus | null {
+    return this.game.getTouchInputManager()?.getStatus() ?? null;
+  }
+
+  public setTouchStick(side: StickSide, x: number, y: number): void {
+    this.game.getTouchInputManager()?.setStick(side, x, y);
+  }
+
+  public setTouchConfig(config: Partial<Omit<TouchControlConfig, 'tiltEnabled'>>): void {
+    this.game.getTouchInputManager()?.setConfig(config);
+  }
+
+  public enableTilt(): Promise<boolean> {
+    return this.game.getTouchInputManager()?.enableTilt() ?? Promise.resolve(false);
+  }
+
+  public disableTilt(): void {
+    this.game.getTouchInputManager()?.disableTilt();
+  }
+
+  public calibrateTilt(): void {
+    this.game.getTouchInputManager()?.calibrateTilt();
+  }
+
+  public getKeyBindings(): KeyBindingMap {
+    return this.game.getInputManager().getBindings();
+  }
+
+  public bindKey(context: BindingContext, code: string, action: InputAction, replace: boolean = false): BindingConflict | null {
+    return this.game.getInputManager().bindKey(context, code, action, replace);
+  }
+
+  public unbindKey(context: BindingContext, code: string): void {
+    this.game.getInputManager().unbindKey(context, code);
+  }
+
+  public resetKeyBindings(context?: BindingContext): void {
+    this.game.getInputManager().resetBindings(context);
+  }
+
+  public pushInputContext(id: InputContextId): void {
+    this.game.getInputManager().pushContext(id);
+  }
+
+  public popInputContext(id: InputContextId): void {
+    this.game.getInputManager().popContext(id);
+  }
+
+  public joinMultiplayer(url: string, name: string): Promise<void> {
+    return this.game.getMultiplayerManager().join(url, name);
+  }
+
+  public leaveMultiplayer(): void {
+    this.game.getMultiplayerManager().leave();
+  }
+
+  public getMultiplayerStatus(): MultiplayerStatus {
+    return this.game.getMultiplayerManager().getStatus();
+  }
+
+  public getOnlinePlayers(): OnlinePlayerSnapshot[] {
+    return this.game.getMultiplayerManager().getPlayers();
+  }
+
+  /**
+   * Back to the last checkpoint or the start of the flight
+   */
+  public restart(): void {
+    this.game.getVehicleManager().restartCurrentVehicle();
+  }
+
   public destroy(): void {
     if (this.updateInterval !== null) {
       clearInterval(this.updateInterval);
@@ -238,7 +519,7 @@ export class GameBridge extends TypedEventEmitter<GameEvents> {
   }
 
   public toggleBuilderMode(): void {
-    const newMode: GameMode = this.currentMode === 'play' ? 'builder' : 'play';
+    const newMode: GameMode = this.currentMode === 'builder' ? 'play' : 'builder';
     this.setMode(newMode);
   }
 
@@ -258,6 +539,58 @@ export class GameBridge extends TypedEventEmitter<GameEvents> {
     console.log(`🎮 Mode changed: ${previousMode} → ${mode}`);
   }
 
+  public setFlightModel(model: FlightModelType): Promise<void> {
+    return this.game.getVehicleManager().setAircraftFlightModel(model);
+  }
+
+  public getFlightModel(): FlightModelType {
+    return this.game.getVehicleManager().getAircraftFlightModel();
+  }
+
+  public getEnvironmentSettings(): EnvironmentSettings {
+    return this.game.getEnvironment().getSettings();
+  }
+
+  public setEnvironmentSettings(settings: Partial<EnvironmentSettings>): void {
+    this.game.getEnvironment().setSettings(settings);
+  }
+
+  public restartRace(): void {
+    this.game.getRaceManager().restart();
+  }
+
+  public getRaceState(): RaceState {
+    return this.game.getRaceManager().getState();
+  }
+
+  public getGhostState(): GhostState {
+    return this.game.getGhostManager().getState();
+  }
+
+  public setGhostVisible(visible: boolean): void {
+    this.game.getGhostManager().setVisible(visible);
+  }
+
+  public clearGhost(): void {
+    this.game.getGhostManager().clearGhost();
+  }
+
+  public exportGhost(): void {
+    this.game.getGhostManager().exportGhost();
+  }
+
+  public importGhost(file: Blob): Promise<GhostRun> {
+    return this.game.getGhostManager().importGhost(file);
+  }
+
+  public setBuilderObjectType(type: GameObjectType): void {
+    this.game.getPlacementController().setObjectType(type);
+  }
+
+  public getBuilderObjectType(): GameObjectType {
+    return this.game.getPlacementController().getObjectType();
+  }
+
   public getMode(): GameMode {
     return this.currentMode;
   }
@@ -317,25 +650,195 @@ export class GameBridge extends TypedEventEmitter<GameEvents> {
     this.game.getInputManager().setThrottlePercent(percent * 100);
   }
 
-  public async flyPath(waypoints: { lat: number; lon: number }[], options: { speed?: number; altitude?: number } = {}): Promise<void> {
+  public async flyPath(waypoints: PathWaypoint[], options: { speed?: number; altitude?: number } = {}): Promise<void> {
     await this.game.getAutopilotManager().flyPath(waypoints, options);
   }
 
-  public startRecording(): void {
-    this.game.getRecordingManager().startRecording();
+  public startRecording(size?: { width: number; height: number }): void {
+    this.game.getRecordingManager().startRecording(size);
   }
 
   public stopRecording(fileName?: string): void {
     this.game.getRecordingManager().stopRecording(fileName);
   }
 
+  public setPreviewRenderSize(size: { width: number; height: number } | null): void {
+    this.game.getScene().setPreviewRenderSize(size);
+  }
+
+  public startTrackRecording(): void {
+    this.game.getRecordingManager().startTrackRecording();
+  }
+
+  public stopTrackRecording(): boolean {
+    return this.game.getRecordingManager().stopTrackRecording() !== null;
+  }
+
+  public hasTrack(): boolean {
+    return this.game.getRecordingManager().getTrack() !== null;
+  }
+
+  /**
+   * Replay the last recorded telemetry track, either through the recorded camera
+   * or re-shot with a different camera type
+   */
+  public startReplay(camera: 'recorded' | CameraType = 'recorded', loop: boolean = false): boolean {
+    return this.game.getRecordingManager().startReplay({ camera, loop });
+  }
+
+  public stopReplay(): void {
+    this.game.getRecordingManager().stopReplay();
+  }
+
+  /**
+   * Render frame-by-frame at a fixed timestep and encode the result, independent
+   * of the real-time frame rate
+   */
+  public renderOffline(options: OfflineRenderOptions): Promise<void> {
+    return this.game.getRecordingManager().renderOffline(options);
+  }
+
+  public cancelOfflineRender(): void {
+    this.game.getRecordingManager().cancelOfflineRender();
+  }
+
+  /**
+   * Capture the current camera pose as a keyframe at the given time
+   */
+  public addKeyframe(time: number, label?: string): CameraKeyframe {
+    const pose = this.getCurrentCameraPosition();
+    const keyframe: CameraKeyframe = {
+      id: `kf_${Date.now()}_${Math.random().toString(36).slice(2, 7)}`,
+      time,
+      lat: pose.latitude,
+      lon: pose.longitude,
+      altitude: pose.altitude,
+      heading: pose.heading,
+      pitch: pose.pitch,
+      roll: pose.roll,
+      label,
+    };
+    this.game.getKeyframeAnimator().addKeyframe(keyframe);
+    return keyframe;
+  }
+
+  public getKeyframes(): CameraKeyframe[] {
+    return this.game.getKeyframeAnimator().getKeyframes();
+  }
+
+  public getKeyframeInterpolation(): KeyframeInterpolation {
+    return this.game.getKeyframeAnimator().getInterpolation();
+  }
+
+  public setKeyframes(keyframes: CameraKeyframe[]): void {
+    this.game.getKeyframeAnimator().setKeyframes(keyframes);
+  }
+
+  public removeKeyframe(id: string): void {
+    this.game.getKeyframeAnimator().removeKeyframe(id);
+  }
+
+  public setKeyframeInterpolation(interpolation: KeyframeInterpolation): void {
+    this.game.getKeyframeAnimator().setInterpolation(interpolation);
+  }
+
+  public seekKeyframes(time: number): void {
+    this.game.getKeyframeAnimator().seek(time);
+  }
+
+  public playKeyframes(loop: boolean = false): boolean {
+    return this.game.getKeyframeAnimator().play(loop);
+  }
+
+  public pauseKeyframes(): void {
+    this.game.getKeyframeAnimator().pause();
+  }
+
+  public stopKeyframes(): void {
+    this.game.getKeyframeAnimator().stop();
+  }
+
+  /**
+   * Download the current session as a .skyproj file
+   */
+  public saveProject(name?: string): void {
+    const projectManager = this.game.getProjectManager();
+    if (name !== undefined) {
+      projectManager.setProjectName(name);
+    }
+    projectManager.saveProject();
+  }
+
+  /**
+   * Load a .skyproj file; rejects with a validation message if the file can't be used
+   */
+  public loadProject(file: Blob): Promise<ProjectFile> {
+    return this.game.getProjectManager().loadProject(file);
+  }
+
+  public getProjectName(): string {
+    return this.game.getProjectManager().getProjectName();
+  }
+
+  public getDirectorSettings(): DirectorSettings {
+    return this.game.getProjectManager().getDirectorSettings();
+  }
+
+  public setDirectorSettings(settings: Partial<DirectorSettings>): void {
+    this.game.getProjectManager().setDirectorSettings(settings);
+  }
+
+  public getExportSettings(): ExportSettingsData {
+    return this.game.getProjectManager().getExportSettings();
+  }
+
+  public setExportSettings(settings: Partial<ExportSettingsData>): void {
+    this.game.getProjectManager().setExportSettings(settings);
+  }
+
   public showFlightGuide(target: { lat: number, lon: number }): void {
     const targetCart = Cesium.Cartographic.fromDegrees(target.lon, target.lat);
     this.game.getAutopilotManager().showGuideLine(targetCart);
+    this.emit('flightGuideChanged', { target: { lat: target.lat, lon: target.lon } });
   }
 
   public hideFlightGuide(): void {
     this.game.getAutopilotManager().hideGuideLine();
+    this.emit('flightGuideChanged', { target: null });
+  }
+
+  public getFlightGuideTarget(): FlightGuideData['target'] {
+    const target = this.game.getAutopilotManager().getGuideTarget();
+    if (!target) return null;
+    return {
+      lat: Cesium.Math.toDegrees(target.latitude),
+      lon: Cesium.Math.toDegrees(target.longitude),
+    };
+  }
+
+  /**
+   * Append a waypoint to the director route; the director panel picks it up from the event
+   */
+  public addWaypoint(lat: number, lon: number, name?: string): void {
+    const waypoint = {
+      lat,
+      lon,
+      name: name ?? `Map point ${this.game.getProjectManager().getDirectorSettings().waypoints.length + 1}`,
+    };
+    this.game.getProjectManager().addWaypoint(waypoint);
+    this.emit('waypointAdded', waypoint);
+  }
+
+  /**
+   * Placed builder objects as map positions
+   */
+  public getBuilderObjects(): MapObjectData[] {
+    return this.game.getObjectManager().exportLayout().objects.map((object) => ({
+      id: object.id,
+      type: object.type,
+      lat: object.lat,
+      lon: object.lon,
+    }));
   }
 
   public startOrbit(lat: number, lon: number, height: number, radius: number = 200, speed: number = 0.5, onComplete?: () => void): void {
@@ -351,7 +854,7 @@ export class GameBridge extends TypedEventEmitter<GameEvents> {
     this.game.getAutopilotManager().stopOrbit();
   }
 
-  public flyPathWithTargetLock(waypoints: { lat: number; lon: number }[], target: { lat: number; lon: number }, options: { speed?: number; duration?: number } = {}): void {
+  public flyPathWithTargetLock(waypoints: PathWaypoint[], target: { lat: number; lon: number }, options: { speed?: number; duration?: number } = {}): void {
     const defaultAltitude = 300; 
     const path = waypoints.map(wp => new Cesium.Cartographic(Cesium.Math.toRadians(wp.lon), Cesium.Math.toRadians(wp.lat), defaultAltitude)); // Flight altitude handling is inside AutopilotManager for spline sampling?
     // Wait, flyPathWithTargetLock in AutopilotManager takes Cartographic[] path. 
@@ -365,7 +868,7 @@ export class GameBridge extends TypedEventEmitter<GameEvents> {
     // Let's assume the user wants to fly AT the set altitude.
     
     const targetCart = new Cesium.Cartographic(Cesium.Math.toRadians(target.lon), Cesium.Math.toRadians(target.lat), 0);
-    this.game.getAutopilotManager().flyPathWithTargetLock(path, targetCart, options);
+    this.game.getAutopilotManager().flyPathWithTargetLock(path, targetCart, { ...options, timings: waypoints });
   }
 
   public stopLock(): void {
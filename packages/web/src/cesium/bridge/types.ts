@@ -1,15 +1,38 @@
 import * as Cesium from 'cesium';
 import type { CameraType } from '../managers/CameraManager';
+import type { ProjectFile, ProjectWaypoint } from '../project/ProjectFile';
+import type { GameObjectType } from '../objects/GameObject';
+import type { GamepadStatus } from '../input/GamepadInput';
+import type { KeyBindingMap } from '../input/KeyBindings';
+import type { MouseStatus } from '../input/MouseInput';
+import type { TouchStatus } from '../input/TouchInputManager';
+import type { RaceLap, RaceSplit, RaceState } from '../modes/RaceManager';
+import type { GhostState } from '../modes/GhostManager';
+import type { MultiplayerStatus, OnlinePlayerSnapshot, PlayersUpdate } from '../multiplayer/MultiplayerManager';
+import type { VehicleKind } from '../vehicles/VehicleRegistry';
+import type { DamageState, ImpactCause, TouchdownReport } from '../vehicles/ImpactModel';
 
-export type GameMode = 'play' | 'builder';
+export type GameMode = 'play' | 'builder' | 'race';
 
 export interface VehicleStateData {
   speed: number;
   velocity: number;
   position: Cesium.Cartesian3;
+  latitude: number;
+  longitude: number;
   heading: number;
   pitch: number;
   roll: number;
+  altitude: number; // m above the ellipsoid
+  // Flying vehicles only
+  verticalVelocity?: number; // m/s, positive climbing
+  altitudeAgl?: number | null; // null until the ground below has been probed
+  gLoad?: number;
+}
+
+export interface VehicleChangedData {
+  id: string;
+  kind: VehicleKind;
 }
 
 export interface CameraStateData {
@@ -33,18 +56,11 @@ export interface CollisionDetectionData {
   enabled: boolean;
 }
 
-export interface OnlinePlayer {
-  id: string;
-  name: string;
-  position: Cesium.Cartesian3;
-  heading: number;
-  vehicleType: string;
-}
+export type OnlinePlayer = OnlinePlayerSnapshot;
 
-export interface PlayersData {
-  players: OnlinePlayer[];
-  updateType: 'full' | 'incremental';
-}
+export type PlayersData = PlayersUpdate;
+
+export type MultiplayerStatusData = MultiplayerStatus;
 
 export interface GameReadyData {
   ready: boolean;
@@ -58,6 +74,29 @@ export interface LocationChangedData {
 
 export interface CrashData {
   crashed: boolean;
+  damage?: DamageState;
+  cause?: ImpactCause;
+  impactSpeed?: number; // m/s
+  impactAngle?: number; // degrees below the horizon
+}
+
+export interface LandingGearData {
+  gearDown: boolean;
+  onGround: boolean;
+}
+
+export type TouchdownData = TouchdownReport;
+
+export type GamepadStatusData = GamepadStatus;
+
+export type MouseStatusData = MouseStatus;
+
+export type TouchStatusData = TouchStatus;
+
+export type KeyBindingsData = KeyBindingMap;
+
+export interface StudioActionData {
+  action: 'toggleHud' | 'toggleControls' | 'toggleDebug';
 }
 
 export interface ModeChangedData {
@@ -65,17 +104,89 @@ export interface ModeChangedData {
   previousMode: GameMode;
 }
 
+export interface ReplayStateData {
+  active: boolean;
+  time: number;
+  duration: number;
+}
+
+export interface OfflineRenderProgressData {
+  active: boolean;
+  phase: 'rendering' | 'encoding' | 'done' | 'cancelled' | 'failed';
+  frame: number;
+  totalFrames: number;
+}
+
+export interface KeyframeStateData {
+  playing: boolean;
+  time: number;
+  duration: number;
+  keyframeCount: number;
+}
+
+export type ProjectLoadedData = ProjectFile;
+
+export interface WaypointsData {
+  waypoints: ProjectWaypoint[];
+}
+
+export type WaypointAddedData = ProjectWaypoint;
+
+export interface MapObjectData {
+  id: string;
+  type: GameObjectType;
+  lat: number;
+  lon: number;
+}
+
+export interface BuilderObjectsData {
+  objects: MapObjectData[];
+}
+
+export interface FlightGuideData {
+  target: { lat: number; lon: number } | null;
+}
+
+export type RaceStateData = RaceState;
+
+export type RaceCheckpointData = RaceSplit;
+
+export type RaceLapData = RaceLap;
+
+export type GhostStateData = GhostState;
+
 export interface GameEvents {
   gameReady: GameReadyData;
   vehicleStateChanged: VehicleStateData;
+  vehicleChanged: VehicleChangedData;
   cameraChanged: CameraStateData;
   cameraPositionChanged: CameraPositionData;
   roverModeChanged: RoverModeData;
   collisionDetectionChanged: CollisionDetectionData;
   playersUpdated: PlayersData;
+  multiplayerStatusChanged: MultiplayerStatusData;
   locationChanged: LocationChangedData;
   crashed: CrashData;
+  landingGearChanged: LandingGearData;
+  touchdown: TouchdownData;
+  gamepadChanged: GamepadStatusData;
+  mouseControlChanged: MouseStatusData;
+  touchControlsChanged: TouchStatusData;
+  keyBindingsChanged: KeyBindingsData;
+  studioAction: StudioActionData;
   modeChanged: ModeChangedData;
+  replayStateChanged: ReplayStateData;
+  offlineRenderProgress: OfflineRenderProgressData;
+  keyframeStateChanged: KeyframeStateData;
+  projectLoaded: ProjectLoadedData;
+  waypointsChanged: WaypointsData;
+  waypointAdded: WaypointAddedData;
+  builderObjectsChanged: BuilderObjectsData;
+  flightGuideChanged: FlightGuideData;
+  raceStateChanged: RaceStateData;
+  raceCheckpoint: RaceCheckpointData;
+  raceLap: RaceLapData;
+  ghostStateChanged: GhostStateData;
   [key: string]: unknown;
 }
 
@@ -0,0 +1,71 @@
+import type { BuilderLayout } from './ObjectManager';
+
+const DB_NAME = 'skystudio-builder';
+const DB_VERSION = 1;
+const STORE_NAME = 'layouts';
+
+export const AUTOSAVE_LAYOUT_KEY = 'autosave';
+
+/**
+ * Small IndexedDB store for builder layouts, keyed by name
+ */
+export class LayoutStorage {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  public static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  public async save(key: string, layout: BuilderLayout): Promise<void> {
+    const store = await this.getStore('readwrite');
+    await this.request(store.put(layout, key));
+  }
+
+  public async load(key: string): Promise<BuilderLayout | null> {
+    const store = await this.getStore('readonly');
+    const layout = await this.request<BuilderLayout | undefined>(store.get(key));
+    return layout ?? null;
+  }
+
+  public async delete(key: string): Promise<void> {
+    const store = await this.getStore('readwrite');
+    await this.request(store.delete(key));
+  }
+
+  public async listKeys(): Promise<string[]> {
+    const store = await this.getStore('readonly');
+    const keys = await this.request(store.getAllKeys());
+    return keys.map(String);
+  }
+
+  private async getStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.open();
+    return db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+            request.result.createObjectStore(STORE_NAME);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private request<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
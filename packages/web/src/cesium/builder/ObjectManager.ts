@@ -1,48 +1,127 @@
 import * as Cesium from 'cesium';
-import { GameObject, GameObjectType } from '../objects/GameObject';
+import { GameObject, GameObjectData, GameObjectLayoutData, GameObjectType } from '../objects/GameObject';
 import { Waypoint } from '../objects/Waypoint';
+import { Ring } from '../objects/Ring';
+import { Collectible } from '../objects/Collectible';
+import { StartGate } from '../objects/StartGate';
+import { FinishGate } from '../objects/FinishGate';
+
+export const BUILDER_LAYOUT_VERSION = 1;
+
+export interface BuilderLayout {
+  version: number;
+  nextWaypointIndex: number;
+  objects: GameObjectLayoutData[];
+}
 
 export class ObjectManager {
   private objects: Map<string, GameObject> = new Map();
   private viewer: Cesium.Viewer;
   private nextWaypointIndex: number = 1;
+  private changeListeners: Array<() => void> = [];
+  private collectListeners: Array<(collectible: Collectible) => void> = [];
 
   constructor(viewer: Cesium.Viewer) {
     this.viewer = viewer;
   }
 
-  public placeObject(type: GameObjectType, position: Cesium.Cartesian3): GameObject {
+  public placeObject(
+    type: GameObjectType,
+    position: Cesium.Cartesian3,
+    rotation?: { heading: number; pitch: number; roll: number }
+  ): GameObject {
     const id = `${type}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-    
-    let object: GameObject;
-    
-    switch (type) {
-      case 'waypoint':
-        object = new Waypoint({
-          id,
-          type,
-          position,
-          properties: { index: this.nextWaypointIndex++ }
-        });
-        break;
-      default:
-        throw new Error(`Unknown object type: ${type}`);
-    }
+    const properties = type === 'waypoint' ? { index: this.nextWaypointIndex++ } : {};
 
+    const object = this.createObject({ id, type, position, rotation, properties });
     object.initialize(this.viewer);
     this.objects.set(id, object);
     
     console.log(`✨ Placed ${type} at position`, position);
+    this.notifyChange();
     
     return object;
   }
 
+  public exportLayout(): BuilderLayout {
+    return {
+      version: BUILDER_LAYOUT_VERSION,
+      nextWaypointIndex: this.nextWaypointIndex,
+      objects: this.getAllObjects().map(obj => obj.toLayoutJSON()),
+    };
+  }
+
+  /**
+   * Replace the current objects with a saved layout
+   */
+  public importLayout(layout: BuilderLayout): void {
+    this.clearObjects();
+
+    for (const data of layout.objects) {
+      try {
+        this.restoreObject({
+          id: data.id,
+          type: data.type,
+          position: Cesium.Cartesian3.fromDegrees(data.lon, data.lat, data.height),
+          rotation: data.rotation,
+          properties: data.properties,
+        });
+      } catch (error) {
+        console.warn(`⚠️ Skipped layout object ${data.id}:`, error);
+      }
+    }
+
+    this.nextWaypointIndex = Math.max(this.nextWaypointIndex, layout.nextWaypointIndex);
+    console.log(`📐 Imported layout with ${this.objects.size} objects`);
+    this.notifyChange();
+  }
+
+  public addChangeListener(callback: () => void): void {
+    this.changeListeners.push(callback);
+  }
+
+  private notifyChange(): void {
+    for (const listener of this.changeListeners) {
+      listener();
+    }
+  }
+
+  private restoreObject(data: GameObjectData): GameObject {
+    const object = this.createObject(data);
+    object.initialize(this.viewer);
+    this.objects.set(object.id, object);
+
+    if (object.type === 'waypoint' && typeof object.properties.index === 'number') {
+      this.nextWaypointIndex = Math.max(this.nextWaypointIndex, object.properties.index + 1);
+    }
+
+    return object;
+  }
+
+  private createObject(data: GameObjectData): GameObject {
+    switch (data.type) {
+      case 'waypoint':
+        return new Waypoint(data);
+      case 'ring':
+        return new Ring(data);
+      case 'collectible':
+        return new Collectible(data);
+      case 'start':
+        return new StartGate(data);
+      case 'finish':
+        return new FinishGate(data);
+      default:
+        throw new Error(`Unknown object type: ${data.type}`);
+    }
+  }
+
   public removeObject(id: string): boolean {
     const object = this.objects.get(id);
     if (object) {
       object.destroy();
       this.objects.delete(id);
       console.log(`🗑️ Removed object: ${id}`);
+      this.notifyChange();
       return true;
     }
     return false;
@@ -57,10 +136,44 @@ export class ObjectManager {
   }
 
   public clear(): void {
+    this.clearObjects();
+    console.log('🧹 Cleared all objects');
+    this.notifyChange();
+  }
+
+  private clearObjects(): void {
     this.objects.forEach(obj => obj.destroy());
     this.objects.clear();
     this.nextWaypointIndex = 1;
-    console.log('🧹 Cleared all objects');
+  }
+
+  /**
+   * Pick up every collectible within reach of `position`
+   */
+  public collectAt(position: Cesium.Cartesian3): Collectible[] {
+    const collected: Collectible[] = [];
+    for (const object of this.objects.values()) {
+      if (object instanceof Collectible && object.tryCollect(position)) {
+        collected.push(object);
+        console.log(`⭐ Collected ${object.id}`);
+        for (const listener of this.collectListeners) {
+          listener(object);
+        }
+      }
+    }
+    return collected;
+  }
+
+  public resetCollectibles(): void {
+    for (const object of this.objects.values()) {
+      if (object instanceof Collectible) {
+        object.reset();
+      }
+    }
+  }
+
+  public addCollectListener(callback: (collectible: Collectible) => void): void {
+    this.collectListeners.push(callback);
   }
 
   public getObjectCount(): number {
@@ -3,6 +3,9 @@ import { ObjectManager } from './ObjectManager';
 import { GameObjectType } from '../objects/GameObject';
 import { BuilderCursor } from './BuilderCursor';
 
+// Object types whose orientation matters; they are placed facing the camera's view direction
+const ORIENTED_TYPES: GameObjectType[] = ['ring', 'start', 'finish'];
+
 export class PlacementController {
   private viewer: Cesium.Viewer;
   private objectManager: ObjectManager;
@@ -74,7 +77,11 @@ export class PlacementController {
     if (!this.builderCursor) return;
     
     const position = this.builderCursor.getPosition();
-    this.objectManager.placeObject(this.currentObjectType, position);
+    // Camera heading is measured from north, object frames from east
+    const rotation = ORIENTED_TYPES.includes(this.currentObjectType)
+      ? { heading: this.viewer.camera.heading - Cesium.Math.PI_OVER_TWO, pitch: 0, roll: 0 }
+      : undefined;
+    this.objectManager.placeObject(this.currentObjectType, position, rotation);
   }
 
   public update(deltaTime: number): void {
@@ -0,0 +1,253 @@
+import * as Cesium from 'cesium';
+
+export type EasingType = 'linear' | 'easeIn' | 'easeOut' | 'easeInOut' | 'cubic' | 'bezier';
+
+// CSS-style cubic-bezier(x1, y1, x2, y2) control handles
+export type BezierHandles = [number, number, number, number];
+
+/**
+ * Timing of one path segment. Stored on the point the segment arrives at:
+ * `easing`/`bezier` shape the move into the point, `hold` is the dwell time after arriving.
+ */
+export interface SegmentTiming {
+  easing?: EasingType;
+  bezier?: BezierHandles;
+  hold?: number; // seconds
+}
+
+export const DEFAULT_BEZIER: BezierHandles = [0.42, 0, 0.58, 1];
+
+const EASING_FUNCTIONS: Record<Exclude<EasingType, 'bezier'>, (t: number) => number> = {
+  linear: (t) => t,
+  easeIn: Cesium.EasingFunction.QUADRATIC_IN,
+  easeOut: Cesium.EasingFunction.QUADRATIC_OUT,
+  easeInOut: Cesium.EasingFunction.QUADRATIC_IN_OUT,
+  cubic: Cesium.EasingFunction.CUBIC_IN_OUT,
+};
+
+/**
+ * Map linear progress (0-1) through a segment's easing curve
+ */
+export function applyEasing(timing: SegmentTiming | undefined, t: number, fallback: EasingType = 'linear'): number {
+  const clamped = Cesium.Math.clamp(t, 0, 1);
+  const easing = timing?.easing ?? fallback;
+
+  if (easing === 'bezier') {
+    return evaluateBezier(timing?.bezier ?? DEFAULT_BEZIER, clamped);
+  }
+  return EASING_FUNCTIONS[easing](clamped);
+}
+
+/**
+ * Solve a CSS cubic-bezier for x = t and return y
+ */
+export function evaluateBezier(handles: BezierHandles, t: number): number {
+  const [x1, y1, x2, y2] = handles;
+  const sample = (a: number, b: number, s: number) =>
+    3 * a * s * (1 - s) * (1 - s) + 3 * b * s * s * (1 - s) + s * s * s;
+  const slope = (a: number, b: number, s: number) =>
+    3 * a * (1 - s) * (1 - s) + 6 * (b - a) * s * (1 - s) + 3 * (1 - b) * s * s;
+
+  // Newton-Raphson first, bisection if the slope gets too flat
+  let s = t;
+  for (let i = 0; i < 8; i++) {
+    const error = sample(x1, x2, s) - t;
+    if (Math.abs(error) < 1e-6) return sample(y1, y2, s);
+    const d = slope(x1, x2, s);
+    if (Math.abs(d) < 1e-6) break;
+    s -= error / d;
+  }
+
+  let low = 0;
+  let high = 1;
+  s = t;
+  for (let i = 0; i < 32; i++) {
+    const x = sample(x1, x2, s);
+    if (Math.abs(x - t) < 1e-6) break;
+    if (x < t) low = s; else high = s;
+    s = (low + high) / 2;
+  }
+  return sample(y1, y2, s);
+}
+
+/**
+ * Lookup table from arc length to curve parameter, built per segment so that equal
+ * steps in progress cover equal distances regardless of how the knots are spaced.
+ */
+export class ArcLengthTable {
+  private knots: number[];
+  private segmentParams: number[][] = [];
+  private segmentDistances: number[][] = [];
+  private segmentLengths: number[] = [];
+
+  private static readonly scratchA = new Cesium.Cartesian3();
+  private static readonly scratchB = new Cesium.Cartesian3();
+
+  constructor(
+    evaluate: (u: number, result: Cesium.Cartesian3) => Cesium.Cartesian3,
+    knots: number[],
+    samplesPerSegment: number = 32
+  ) {
+    this.knots = knots;
+
+    for (let i = 0; i < knots.length - 1; i++) {
+      const params: number[] = [knots[i]];
+      const distances: number[] = [0];
+      let previous = Cesium.Cartesian3.clone(evaluate(knots[i], ArcLengthTable.scratchA), ArcLengthTable.scratchB);
+      let length = 0;
+
+      for (let j = 1; j <= samplesPerSegment; j++) {
+        const u = Cesium.Math.lerp(knots[i], knots[i + 1], j / samplesPerSegment);
+        const point = evaluate(u, ArcLengthTable.scratchA);
+        length += Cesium.Cartesian3.distance(previous, point);
+        previous = Cesium.Cartesian3.clone(point, ArcLengthTable.scratchB);
+        params.push(u);
+        distances.push(length);
+      }
+
+      this.segmentParams.push(params);
+      this.segmentDistances.push(distances);
+      this.segmentLengths.push(length);
+    }
+  }
+
+  public getSegmentLength(segment: number): number {
+    return this.segmentLengths[segment] ?? 0;
+  }
+
+  public getTotalLength(): number {
+    return this.segmentLengths.reduce((sum, length) => sum + length, 0);
+  }
+
+  /**
+   * Curve parameter at `fraction` (0-1) of the segment's arc length
+   */
+  public parameterAt(segment: number, fraction: number): number {
+    const params = this.segmentParams[segment];
+    const distances = this.segmentDistances[segment];
+    if (!params) return this.knots[this.knots.length - 1];
+
+    const target = Cesium.Math.clamp(fraction, 0, 1) * this.segmentLengths[segment];
+    let low = 0;
+    let high = distances.length - 1;
+    while (high - low > 1) {
+      const mid = (low + high) >> 1;
+      if (distances[mid] <= target) low = mid; else high = mid;
+    }
+
+    const span = distances[high] - distances[low];
+    const t = span > 0 ? (target - distances[low]) / span : 0;
+    return Cesium.Math.lerp(params[low], params[high], t);
+  }
+}
+
+interface PathPhase {
+  segment: number; // index of the segment being travelled, or of the point being held at
+  start: number;
+  duration: number;
+  hold: boolean;
+}
+
+/**
+ * A timed camera path through points: per-segment easing, holds at points and
+ * arc-length parameterisation on a Catmull-Rom curve.
+ */
+export class CameraPath {
+  private spline: Cesium.CatmullRomSpline;
+  private arcLengths: ArcLengthTable;
+  private timings: SegmentTiming[];
+  private phases: PathPhase[] = [];
+  private duration: number = 0;
+  private defaultEasing: EasingType;
+
+  /**
+   * @param points path points (at least two)
+   * @param segmentDurations travel time of each segment, excluding holds
+   * @param timings per-point timing, see {@link SegmentTiming}
+   */
+  constructor(
+    points: Cesium.Cartesian3[],
+    segmentDurations: number[],
+    timings: SegmentTiming[] = [],
+    defaultEasing: EasingType = 'linear'
+  ) {
+    const { spline, table } = CameraPath.buildCurve(points);
+    this.spline = spline;
+    this.arcLengths = table;
+    this.timings = timings;
+    this.defaultEasing = defaultEasing;
+
+    let time = 0;
+    for (let i = 0; i < points.length; i++) {
+      const hold = timings[i]?.hold ?? 0;
+      if (hold > 0) {
+        this.phases.push({ segment: i, start: time, duration: hold, hold: true });
+        time += hold;
+      }
+      if (i < points.length - 1) {
+        const duration = Math.max(segmentDurations[i] ?? 0, 0.001);
+        this.phases.push({ segment: i, start: time, duration, hold: false });
+        time += duration;
+      }
+    }
+    this.duration = time;
+  }
+
+  /**
+   * Split a total duration across segments in proportion to their arc length
+   */
+  public static durationsForTotal(points: Cesium.Cartesian3[], totalDuration: number): number[] {
+    const { table } = CameraPath.buildCurve(points);
+    const total = table.getTotalLength();
+    return points.slice(0, -1).map((_, i) =>
+      total > 0 ? totalDuration * table.getSegmentLength(i) / total : totalDuration / (points.length - 1)
+    );
+  }
+
+  /**
+   * Segment durations that travel the curve at a constant speed
+   */
+  public static durationsForSpeed(points: Cesium.Cartesian3[], speed: number): number[] {
+    const { table } = CameraPath.buildCurve(points);
+    return points.slice(0, -1).map((_, i) => table.getSegmentLength(i) / speed);
+  }
+
+  // Uniform knots: the arc-length table takes care of speed, so knot spacing only affects shape
+  private static buildCurve(points: Cesium.Cartesian3[]): { spline: Cesium.CatmullRomSpline; table: ArcLengthTable } {
+    const knots = points.map((_, i) => i);
+    const spline = new Cesium.CatmullRomSpline({ times: knots, points });
+    const table = new ArcLengthTable((u, result) => spline.evaluate(u, result) as Cesium.Cartesian3, knots);
+    return { spline, table };
+  }
+
+  public getDuration(): number {
+    return this.duration;
+  }
+
+  public evaluate(time: number, result: Cesium.Cartesian3 = new Cesium.Cartesian3()): Cesium.Cartesian3 {
+    const phase = this.findPhase(Cesium.Math.clamp(time, 0, this.duration));
+    if (!phase) {
+      return this.spline.evaluate(0, result) as Cesium.Cartesian3;
+    }
+
+    if (phase.hold) {
+      return this.spline.evaluate(phase.segment, result) as Cesium.Cartesian3;
+    }
+
+    // The segment's easing belongs to the point it arrives at
+    const progress = applyEasing(
+      this.timings[phase.segment + 1],
+      (time - phase.start) / phase.duration,
+      this.defaultEasing
+    );
+    const u = this.arcLengths.parameterAt(phase.segment, progress);
+    return this.spline.evaluate(u, result) as Cesium.Cartesian3;
+  }
+
+  private findPhase(time: number): PathPhase | undefined {
+    for (const phase of this.phases) {
+      if (time < phase.start + phase.duration) return phase;
+    }
+    return this.phases[this.phases.length - 1];
+  }
+}
@@ -1,5 +1,6 @@
 import * as Cesium from 'cesium';
 import { Camera } from './Camera';
+import type { Environment } from '../core/Environment';
 
 /**
  * FPVCamera - First Person View camera that simulates a drone pilot's perspective
@@ -35,6 +36,11 @@ export class FPVCamera extends Camera {
     // Shake effect for immersion
     private shakeAmount: number = 0;
     private shakeDecay: number = 0.95;
+    private readonly maxTurbulenceShake: number = 0.8;
+    private readonly turbulenceReferenceSpeed: number = 60; // m/s at which turbulence is felt in full
+
+    // Air the vehicle flies through
+    private environment: Environment | null = null;
 
     // Input state
     private gimbalInput = {
@@ -117,6 +123,13 @@ export class FPVCamera extends Camera {
             new Cesium.Cartesian3()
         );
 
+        // Turbulence shakes the camera, the more so the faster the vehicle flies through it
+        if (this.environment) {
+            const turbulence = this.environment.getTurbulenceIntensity(targetPosition);
+            const speedFactor = Math.min(state.speed / this.turbulenceReferenceSpeed, 1);
+            this.shakeAmount = Math.max(this.shakeAmount, turbulence * speedFactor * this.maxTurbulenceShake);
+        }
+
         // Apply shake effect
         if (this.shakeAmount > 0.01) {
             const shakeX = (Math.random() - 0.5) * this.shakeAmount;
@@ -210,6 +223,14 @@ export class FPVCamera extends Camera {
         this.targetGimbalYaw = Cesium.Math.clamp(yaw, -this.maxGimbalYaw, this.maxGimbalYaw);
     }
 
+    /**
+     * Move the gimbal target by a relative amount in degrees, as mouse-look does
+     */
+    public nudgeGimbal(pitchDelta: number, yawDelta: number): void {
+        this.setGimbalPitch(this.targetGimbalPitch + pitchDelta);
+        this.setGimbalYaw(this.targetGimbalYaw + yawDelta);
+    }
+
     public getGimbalPitch(): number {
         return this.gimbalPitch;
     }
@@ -222,6 +243,10 @@ export class FPVCamera extends Camera {
         this.shakeAmount = Math.min(this.shakeAmount + amount, 5);
     }
 
+    public setEnvironment(environment: Environment | null): void {
+        this.environment = environment;
+    }
+
     public setCameraOffset(forward: number, up: number): void {
         this.cameraOffset = new Cesium.Cartesian3(0, forward, up);
     }
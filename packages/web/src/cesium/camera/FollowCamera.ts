@@ -47,6 +47,10 @@ export class FollowCamera extends Camera {
     }
   }
 
+  public setBaseDistance(distance: number): void {
+    this.baseDistance = distance;
+  }
+
   public update(_deltaTime: number): void {
     if (!this.isActive || !this.target || !this.target.isModelReady()) {
       return;
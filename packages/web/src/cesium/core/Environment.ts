@@ -0,0 +1,294 @@
+import * as Cesium from 'cesium';
+import { Updatable } from './GameLoop';
+import type { TerrainAvoidanceSystem } from '../managers/TerrainAvoidanceSystem';
+
+export interface EnvironmentSettings {
+  windDirection: number; // degrees the surface wind blows from, clockwise from north
+  windSpeed: number; // m/s, 10 m above the ground
+  windVeer: number; // degrees the wind turns clockwise per 1000 m of height
+  gustiness: number; // 0-1, gust strength as a fraction of the mean wind
+  turbulence: number; // 0-1
+  thermals: boolean;
+  ridgeLift: boolean;
+}
+
+export const DEFAULT_ENVIRONMENT_SETTINGS: EnvironmentSettings = {
+  windDirection: 240,
+  windSpeed: 4,
+  windVeer: 20,
+  gustiness: 0.3,
+  turbulence: 0.2,
+  thermals: true,
+  ridgeLift: true,
+};
+
+const EARTH_RADIUS = 6371000;
+const WIND_REFERENCE_HEIGHT = 10; // m
+const WIND_SHEAR_EXPONENT = 1 / 7; // power-law profile over open terrain
+const MAX_WIND_GRADIENT = 3; // upper-air wind as a multiple of the surface wind
+
+const GUST_PERIOD = 6; // s
+const TURBULENCE_SCALE = 120; // m, size of the turbulent eddies
+const TURBULENCE_RATE = 0.8; // eddies per second
+const TURBULENCE_VELOCITY = 4; // m/s at full turbulence
+const BUFFET_RATE = 0.6; // Hz
+const BUFFET_AMPLITUDE = 3; // m at full turbulence
+
+const THERMAL_CELL = 1200; // m, one potential thermal per cell
+const THERMAL_DENSITY = 0.35;
+const THERMAL_STRENGTH = { min: 1.5, max: 4.5 }; // m/s
+const THERMAL_RADIUS = { min: 60, max: 200 }; // m
+const THERMAL_CEILING = 1500; // m above ground
+const THERMAL_FADE = 300; // m below the ceiling where lift dies out
+const THERMAL_LEAN_RATE = 3; // m/s of climb used to work out how far a column leans downwind
+
+const RIDGE_SAMPLE_DISTANCE = 60; // m
+const RIDGE_LIFT_DEPTH = 250; // m above ground over which ridge lift decays
+const MAX_RIDGE_LIFT = 6; // m/s
+
+interface AirSample {
+  x: number; // local metres east
+  y: number; // local metres north
+  height: number; // above the ellipsoid
+  agl: number; // above the terrain
+  lon: number; // degrees
+  lat: number; // degrees
+}
+
+// Integer hash of a lattice point to [0, 1)
+function hash(x: number, y: number, z: number): number {
+  let h = (Math.imul(x, 374761393) + Math.imul(y, 668265263) + Math.imul(z, 1274126177)) | 0;
+  h = Math.imul(h ^ (h >>> 13), 1274126177);
+  h ^= h >>> 16;
+  return (h >>> 0) / 4294967296;
+}
+
+function smooth(t: number): number {
+  return t * t * (3 - 2 * t);
+}
+
+// Smooth value noise in [-1, 1]
+function valueNoise(x: number, y: number, z: number): number {
+  const ix = Math.floor(x);
+  const iy = Math.floor(y);
+  const iz = Math.floor(z);
+  const fx = smooth(x - ix);
+  const fy = smooth(y - iy);
+  const fz = smooth(z - iz);
+
+  const lerp = Cesium.Math.lerp;
+  const x00 = lerp(hash(ix, iy, iz), hash(ix + 1, iy, iz), fx);
+  const x10 = lerp(hash(ix, iy + 1, iz), hash(ix + 1, iy + 1, iz), fx);
+  const x01 = lerp(hash(ix, iy, iz + 1), hash(ix + 1, iy, iz + 1), fx);
+  const x11 = lerp(hash(ix, iy + 1, iz + 1), hash(ix + 1, iy + 1, iz + 1), fx);
+  return lerp(lerp(x00, x10, fy), lerp(x01, x11, fy), fz) * 2 - 1;
+}
+
+/**
+ * The atmosphere the vehicles and cameras move through: a wind that strengthens and
+ * veers with height, gusts and turbulence from smooth noise, and optionally thermals
+ * and ridge lift near the terrain.
+ *
+ * Winds are air-mass velocities in the local east-north-up frame, in m/s.
+ */
+export class Environment implements Updatable {
+  private settings: EnvironmentSettings = { ...DEFAULT_ENVIRONMENT_SETTINGS };
+  private terrain: TerrainAvoidanceSystem | null = null;
+  private time: number = 0;
+
+  private static readonly scratchCartographic = new Cesium.Cartographic();
+  private static readonly scratchEnu = new Cesium.Matrix4();
+  private static readonly scratchLocal = new Cesium.Cartesian3();
+  private static readonly scratchMean = new Cesium.Cartesian3();
+
+  public update(deltaTime: number): void {
+    this.time += deltaTime;
+  }
+
+  /**
+   * Terrain used for heights above ground, thermals and ridge lift. Without it heights
+   * are taken above the ellipsoid and there is no lift.
+   */
+  public setTerrain(terrain: TerrainAvoidanceSystem | null): void {
+    this.terrain = terrain;
+  }
+
+  public getSettings(): EnvironmentSettings {
+    return { ...this.settings };
+  }
+
+  public setSettings(settings: Partial<EnvironmentSettings>): void {
+    this.settings = { ...this.settings, ...settings };
+    this.settings.gustiness = Cesium.Math.clamp(this.settings.gustiness, 0, 1);
+    this.settings.turbulence = Cesium.Math.clamp(this.settings.turbulence, 0, 1);
+    this.settings.windSpeed = Math.max(0, this.settings.windSpeed);
+  }
+
+  /**
+   * Air-mass velocity at a position, east-north-up
+   */
+  public getWind(position: Cesium.Cartesian3, result: Cesium.Cartesian3): Cesium.Cartesian3 {
+    const sample = this.samplePosition(position);
+    const mean = this.getMeanWind(sample, Environment.scratchMean);
+    Cesium.Cartesian3.clone(mean, result);
+
+    const s = this.settings;
+    const gust = 1 + s.gustiness * valueNoise(this.time / GUST_PERIOD, sample.x / 2000, sample.y / 2000);
+    result.x *= gust;
+    result.y *= gust;
+
+    const turbulence = this.turbulenceIntensity(sample, mean) * TURBULENCE_VELOCITY;
+    if (turbulence > 0) {
+      const tx = sample.x / TURBULENCE_SCALE + this.time * TURBULENCE_RATE;
+      const ty = sample.y / TURBULENCE_SCALE;
+      const tz = sample.height / TURBULENCE_SCALE;
+      result.x += valueNoise(tx, ty, tz) * turbulence;
+      result.y += valueNoise(tx, ty, tz + 31.7) * turbulence;
+      result.z += valueNoise(tx, ty, tz + 63.1) * turbulence * 0.6;
+    }
+
+    if (s.thermals && this.terrain) {
+      result.z += this.thermalLift(sample, mean);
+    }
+    if (s.ridgeLift && this.terrain) {
+      result.z += this.ridgeLift(sample, mean);
+    }
+    return result;
+  }
+
+  /**
+   * Air-mass velocity at a position in Earth-fixed coordinates
+   */
+  public getWindFixed(position: Cesium.Cartesian3, result: Cesium.Cartesian3): Cesium.Cartesian3 {
+    const wind = this.getWind(position, Environment.scratchLocal);
+    const enu = Cesium.Transforms.eastNorthUpToFixedFrame(position, undefined, Environment.scratchEnu);
+    return Cesium.Matrix4.multiplyByPointAsVector(enu, wind, result);
+  }
+
+  /**
+   * How rough the air is at a position, 0 (smooth) to 1
+   */
+  public getTurbulenceIntensity(position: Cesium.Cartesian3): number {
+    const sample = this.samplePosition(position);
+    const mean = this.getMeanWind(sample, Environment.scratchLocal);
+    return this.turbulenceIntensity(sample, mean);
+  }
+
+  /**
+   * Smooth buffeting displacement for cameras that follow a fixed path, in Earth-fixed
+   * coordinates. Zero in still air.
+   */
+  public getTurbulenceOffset(position: Cesium.Cartesian3, result: Cesium.Cartesian3): Cesium.Cartesian3 {
+    const amplitude = this.getTurbulenceIntensity(position) * BUFFET_AMPLITUDE;
+    const t = this.time * BUFFET_RATE;
+
+    const local = Environment.scratchLocal;
+    local.x = valueNoise(t, 0, 0) * amplitude;
+    local.y = valueNoise(t, 17.3, 0) * amplitude;
+    local.z = valueNoise(t, 0, 41.9) * amplitude * 0.5;
+
+    const enu = Cesium.Transforms.eastNorthUpToFixedFrame(position, undefined, Environment.scratchEnu);
+    return Cesium.Matrix4.multiplyByPointAsVector(enu, local, result);
+  }
+
+  private samplePosition(position: Cesium.Cartesian3): AirSample {
+    const cartographic = Cesium.Cartographic.fromCartesian(position, undefined, Environment.scratchCartographic);
+    const lon = Cesium.Math.toDegrees(cartographic.longitude);
+    const lat = Cesium.Math.toDegrees(cartographic.latitude);
+    const ground = this.terrain ? this.terrain.getTerrainHeight(lon, lat) : 0;
+
+    return {
+      // Flattened around the sample, good enough for noise lookups and thermal cells
+      x: cartographic.longitude * EARTH_RADIUS * Math.cos(cartographic.latitude),
+      y: cartographic.latitude * EARTH_RADIUS,
+      height: cartographic.height,
+      agl: Math.max(0, cartographic.height - ground),
+      lon,
+      lat,
+    };
+  }
+
+  // Mean wind from the power-law profile, veering with height
+  private getMeanWind(sample: AirSample, result: Cesium.Cartesian3): Cesium.Cartesian3 {
+    const s = this.settings;
+    const heightRatio = Math.max(sample.agl, 1) / WIND_REFERENCE_HEIGHT;
+    const speed = s.windSpeed * Math.min(Math.pow(heightRatio, WIND_SHEAR_EXPONENT), MAX_WIND_GRADIENT);
+    const from = Cesium.Math.toRadians(s.windDirection + s.windVeer * sample.agl / 1000);
+
+    // Blowing from `from` means moving towards the opposite bearing
+    result.x = -Math.sin(from) * speed;
+    result.y = -Math.cos(from) * speed;
+    result.z = 0;
+    return result;
+  }
+
+  // Stronger in wind and close to the ground, where the terrain churns the air
+  private turbulenceIntensity(sample: AirSample, meanWind: Cesium.Cartesian3): number {
+    const turbulence = this.settings.turbulence;
+    if (turbulence <= 0) return 0;
+
+    const windSpeed = Math.hypot(meanWind.x, meanWind.y);
+    const windFactor = 0.4 + windSpeed / 15;
+    const groundFactor = 0.5 + 0.5 * Math.exp(-sample.agl / 400);
+    return Cesium.Math.clamp(turbulence * windFactor * groundFactor, 0, 1);
+  }
+
+  /**
+   * Columns of rising air scattered over a grid of cells. Each column leans downwind
+   * with height and dies out below the ceiling.
+   */
+  private thermalLift(sample: AirSample, wind: Cesium.Cartesian3): number {
+    if (sample.agl >= THERMAL_CEILING) return 0;
+
+    // Trace the air back down the column to where it left the ground
+    const drift = sample.agl / THERMAL_LEAN_RATE;
+    const baseX = sample.x - wind.x * drift;
+    const baseY = sample.y - wind.y * drift;
+
+    const cellX = Math.floor(baseX / THERMAL_CELL);
+    const cellY = Math.floor(baseY / THERMAL_CELL);
+    let lift = 0;
+
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        const cx = cellX + dx;
+        const cy = cellY + dy;
+        if (hash(cx, cy, 1) > THERMAL_DENSITY) continue;
+
+        const strength = Cesium.Math.lerp(THERMAL_STRENGTH.min, THERMAL_STRENGTH.max, hash(cx, cy, 2));
+        const radius = Cesium.Math.lerp(THERMAL_RADIUS.min, THERMAL_RADIUS.max, hash(cx, cy, 3));
+        const centerX = (cx + hash(cx, cy, 4)) * THERMAL_CELL;
+        const centerY = (cy + hash(cx, cy, 5)) * THERMAL_CELL;
+
+        const distance = Math.hypot(baseX - centerX, baseY - centerY);
+        lift += strength * Math.exp(-((distance / radius) ** 2));
+      }
+    }
+
+    const groundFade = Math.min(1, sample.agl / 50);
+    const ceilingFade = Math.min(1, (THERMAL_CEILING - sample.agl) / THERMAL_FADE);
+    return lift * groundFade * ceilingFade;
+  }
+
+  /**
+   * Wind blowing up a slope is pushed upwards, and down on the lee side
+   */
+  private ridgeLift(sample: AirSample, wind: Cesium.Cartesian3): number {
+    if (!this.terrain) return 0;
+
+    const metresPerDegreeLat = EARTH_RADIUS * Math.PI / 180;
+    const metresPerDegreeLon = metresPerDegreeLat * Math.cos(Cesium.Math.toRadians(sample.lat));
+    const dLon = RIDGE_SAMPLE_DISTANCE / metresPerDegreeLon;
+    const dLat = RIDGE_SAMPLE_DISTANCE / metresPerDegreeLat;
+
+    const east = this.terrain.getTerrainHeight(sample.lon + dLon, sample.lat);
+    const west = this.terrain.getTerrainHeight(sample.lon - dLon, sample.lat);
+    const north = this.terrain.getTerrainHeight(sample.lon, sample.lat + dLat);
+    const south = this.terrain.getTerrainHeight(sample.lon, sample.lat - dLat);
+
+    const slopeX = (east - west) / (2 * RIDGE_SAMPLE_DISTANCE);
+    const slopeY = (north - south) / (2 * RIDGE_SAMPLE_DISTANCE);
+    const lift = (wind.x * slopeX + wind.y * slopeY) * Math.exp(-sample.agl / RIDGE_LIFT_DEPTH);
+    return Cesium.Math.clamp(lift, -MAX_RIDGE_LIFT, MAX_RIDGE_LIFT);
+  }
+}
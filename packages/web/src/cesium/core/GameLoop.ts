@@ -10,6 +10,7 @@ export class GameLoop {
   private updatables: Updatable[] = [];
   private lastTime: number = 0;
   private isRunning: boolean = false;
+  private isPaused: boolean = false;
 
   constructor(scene: Scene) {
     this.scene = scene;
@@ -41,8 +42,29 @@ export class GameLoop {
     // In a real implementation, we'd track the listener reference
   }
 
+  // Pausing detaches the loop from wall-clock time; step() then advances it manually
+  public pause(): void {
+    this.isPaused = true;
+  }
+
+  public resume(): void {
+    if (!this.isPaused) return;
+    this.isPaused = false;
+    this.lastTime = performance.now();
+  }
+
+  public isPausedState(): boolean {
+    return this.isPaused;
+  }
+
+  public step(deltaTime: number): void {
+    for (const updatable of this.updatables) {
+      updatable.update(deltaTime);
+    }
+  }
+
   private update(): void {
-    if (!this.isRunning) return;
+    if (!this.isRunning || this.isPaused) return;
 
     const currentTime = performance.now();
     const deltaTime = (currentTime - this.lastTime) / 1000; // Convert to seconds
@@ -51,8 +73,6 @@ export class GameLoop {
     const clampedDeltaTime = Math.min(deltaTime, 1/30); // Max 30 FPS equivalent
 
     // Update all registered systems
-    for (const updatable of this.updatables) {
-      updatable.update(clampedDeltaTime);
-    }
+    this.step(clampedDeltaTime);
   }
 }
@@ -23,6 +23,11 @@ export class Scene {
   private rotationSpeed = Cesium.Math.toRadians(0.1);
   private earthSpinListener: Cesium.Event.RemoveCallback | null = null;
   private tileset: Cesium.Cesium3DTileset | null = null;
+  private buildingsTileset: Cesium.Cesium3DTileset | null = null;
+  private renderSize: { width: number; height: number } | null = null;
+  private renderSizeListener: Cesium.Event.RemoveCallback | null = null;
+  private previewSize: { width: number; height: number } | null = null;
+  private captureSizeLocked: boolean = false;
 
   constructor(containerId: string) {
     Cesium.Ion.defaultAccessToken = getTokens().cesium;
@@ -63,7 +68,7 @@ export class Scene {
   private async loadBuildings(): Promise<void> {
     try {
       const buildings = await Cesium.createOsmBuildingsAsync();
-      this.primitives.add(buildings);
+      this.buildingsTileset = this.primitives.add(buildings);
       console.log('osM 3D Buildings layer added');
     } catch (e) {
       console.error('Failed to load 3D buildings:', e);
@@ -136,6 +141,154 @@ export class Scene {
     return this.scene.clampToHeight(position, objectsToExclude);
   }
 
+  /**
+   * True once every tileset has loaded all tiles needed for the last rendered frame
+   */
+  public areTilesLoaded(): boolean {
+    const tilesets = [this.tileset, this.buildingsTileset];
+    return tilesets.every(tileset => !tileset || !tileset.show || tileset.tilesLoaded);
+  }
+
+  /**
+   * Lock the drawing buffer to an exact output size (e.g. 1080×1920 for a vertical export).
+   * The canvas is letterboxed inside the window at the same aspect ratio, so what is on
+   * screen is exactly the framing that gets captured.
+   */
+  public setRenderSize(width: number, height: number): void {
+    this.captureSizeLocked = true;
+    this.lockRenderSize(width, height);
+  }
+
+  /**
+   * Release the capture size. While an output framing is being previewed the canvas
+   * goes back to that instead of the full window.
+   */
+  public clearRenderSize(): void {
+    this.captureSizeLocked = false;
+    if (this.previewSize) {
+      this.lockRenderSize(this.previewSize.width, this.previewSize.height);
+    } else {
+      this.unlockRenderSize();
+    }
+  }
+
+  /**
+   * Letterbox the canvas to an output aspect ratio so the live view has the framing
+   * a capture at that size will get. The buffer is scaled down to what the window can
+   * show; only the aspect ratio decides the framing. Pass null to stop previewing.
+   */
+  public setPreviewRenderSize(size: { width: number; height: number } | null): void {
+    if (size) {
+      const container = this.viewer.container;
+      const pixelRatio = window.devicePixelRatio * this.viewer.resolutionScale;
+      const scale = Math.min(
+        1,
+        (container.clientWidth * pixelRatio) / size.width,
+        (container.clientHeight * pixelRatio) / size.height
+      );
+      this.previewSize = {
+        width: Math.max(1, Math.floor(size.width * scale)),
+        height: Math.max(1, Math.floor(size.height * scale)),
+      };
+    } else {
+      this.previewSize = null;
+    }
+
+    // A running capture keeps its exact size; clearRenderSize picks the preview up after
+    if (this.captureSizeLocked) return;
+    if (this.previewSize) {
+      this.lockRenderSize(this.previewSize.width, this.previewSize.height);
+    } else {
+      this.unlockRenderSize();
+    }
+  }
+
+  private lockRenderSize(width: number, height: number): void {
+    this.renderSize = { width, height };
+
+    if (!this.renderSizeListener) {
+      // Cesium re-derives the buffer size from the CSS size on every window resize
+      this.renderSizeListener = this.scene.preUpdate.addEventListener(this.applyRenderSize, this);
+      window.addEventListener('resize', this.handleWindowResize);
+    }
+
+    this.fitCanvasToRenderSize();
+    console.log(`🖼️ Render size locked to ${width}×${height}`);
+  }
+
+  private unlockRenderSize(): void {
+    if (!this.renderSize) return;
+
+    this.renderSize = null;
+    if (this.renderSizeListener) {
+      this.renderSizeListener();
+      this.renderSizeListener = null;
+    }
+    window.removeEventListener('resize', this.handleWindowResize);
+
+    const canvas = this.viewer.canvas;
+    canvas.style.width = '';
+    canvas.style.height = '';
+    canvas.style.margin = '';
+    canvas.style.display = '';
+
+    // Back to the regular window-sized buffer, using the same pixel ratio Cesium would
+    const pixelRatio = (this.viewer.useBrowserRecommendedResolution ? 1 : window.devicePixelRatio) * this.viewer.resolutionScale;
+    this.resizeDrawingBuffer(
+      Math.floor(canvas.clientWidth * pixelRatio),
+      Math.floor(canvas.clientHeight * pixelRatio)
+    );
+    console.log('🖼️ Render size unlocked');
+  }
+
+  public getRenderSize(): { width: number; height: number } | null {
+    return this.renderSize ? { ...this.renderSize } : null;
+  }
+
+  private handleWindowResize = (): void => {
+    this.fitCanvasToRenderSize();
+  };
+
+  private fitCanvasToRenderSize(): void {
+    if (!this.renderSize) return;
+
+    const container = this.viewer.container;
+    const { width, height } = this.renderSize;
+    const scale = Math.min(container.clientWidth / width, container.clientHeight / height);
+    const displayWidth = Math.floor(width * scale);
+    const displayHeight = Math.floor(height * scale);
+
+    const canvas = this.viewer.canvas;
+    canvas.style.display = 'block';
+    canvas.style.width = `${displayWidth}px`;
+    canvas.style.height = `${displayHeight}px`;
+    canvas.style.margin = `${Math.floor((container.clientHeight - displayHeight) / 2)}px ${Math.floor((container.clientWidth - displayWidth) / 2)}px`;
+
+    this.viewer.resize();
+    this.applyRenderSize();
+  }
+
+  private applyRenderSize(): void {
+    if (!this.renderSize) return;
+
+    const canvas = this.viewer.canvas;
+    if (canvas.width !== this.renderSize.width || canvas.height !== this.renderSize.height) {
+      this.resizeDrawingBuffer(this.renderSize.width, this.renderSize.height);
+    }
+  }
+
+  private resizeDrawingBuffer(width: number, height: number): void {
+    const canvas = this.viewer.canvas;
+    canvas.width = width;
+    canvas.height = height;
+
+    const frustum = this.camera.frustum;
+    if (frustum instanceof Cesium.PerspectiveFrustum) {
+      frustum.aspectRatio = width / height;
+    }
+    this.scene.requestRender();
+  }
+
   public setVehicleQualityMode(vehicleType: 'aircraft' | 'car'): void {
     if (!this.tileset) return;
     
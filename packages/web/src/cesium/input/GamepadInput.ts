@@ -0,0 +1,206 @@
+import type { Updatable } from '../core/GameLoop';
+import { ANALOG_ACTIONS, AnalogAction, InputAction, InputManager } from './InputManager';
+import {
+  GAMEPAD_PROFILES,
+  GamepadProfile,
+  GamepadTuning,
+  matchGamepadProfile,
+  shapeAxis,
+  shapeLever,
+} from './GamepadProfiles';
+
+export interface GamepadStatus {
+  connected: boolean;
+  id: string | null;
+  profileId: string | null;
+}
+
+export interface GamepadProfileSummary extends GamepadTuning {
+  id: string;
+  name: string;
+}
+
+// Lever movement, as a fraction of travel, that counts as a new throttle setting
+const LEVER_STEP = 0.005;
+
+/**
+ * Polls the Gamepad API every frame and feeds the InputManager: axes and triggers as
+ * analogue values, buttons as presses. One device is read at a time, the most recently
+ * connected, through the profile matched to it or chosen for it.
+ */
+export class GamepadInput implements Updatable {
+  private profiles: GamepadProfile[] = GAMEPAD_PROFILES.map(profile => ({ ...profile }));
+  // Profile picked by hand for a device id, overriding the automatic match
+  private deviceProfiles: Map<string, string> = new Map();
+  private activeIndex: number | null = null;
+  // Buttons currently held, with the action each one pressed
+  private heldButtons: Map<number, InputAction> = new Map();
+  private lastLever: number | null = null;
+  private statusListeners: Array<(status: GamepadStatus) => void> = [];
+
+  private readonly handleConnected = (event: GamepadEvent) => {
+    this.activeIndex = event.gamepad.index;
+    this.resetControls();
+    console.log(`🎮 Gamepad connected: ${event.gamepad.id} (${this.getProfileFor(event.gamepad.id).name})`);
+    this.notifyStatus();
+  };
+
+  private readonly handleDisconnected = (event: GamepadEvent) => {
+    if (event.gamepad.index !== this.activeIndex) return;
+    this.releaseControls();
+    this.activeIndex = this.findConnectedIndex();
+    console.log(`🎮 Gamepad disconnected: ${event.gamepad.id}`);
+    this.notifyStatus();
+  };
+
+  constructor(private inputManager: InputManager) {
+    if (!GamepadInput.isSupported()) return;
+    window.addEventListener('gamepadconnected', this.handleConnected);
+    window.addEventListener('gamepaddisconnected', this.handleDisconnected);
+  }
+
+  public static isSupported(): boolean {
+    return typeof navigator !== 'undefined' && typeof navigator.getGamepads === 'function';
+  }
+
+  public update(): void {
+    const pad = this.getActivePad();
+    if (!pad) return;
+
+    const profile = this.getProfileFor(pad.id);
+    // Several bindings may drive one action; the largest deflection wins
+    const values = new Map<AnalogAction, number>();
+    const drive = (action: AnalogAction, value: number) => {
+      values.set(action, Math.max(values.get(action) ?? 0, value));
+    };
+
+    for (const binding of profile.axes) {
+      const raw = pad.axes[binding.axis];
+      if (raw === undefined) continue;
+      const value = binding.invert ? -raw : raw;
+
+      if (binding.lever) {
+        this.updateLever(shapeLever((value + 1) / 2, profile));
+        continue;
+      }
+
+      const shaped = shapeAxis(value, profile);
+      if (binding.positive) drive(binding.positive, Math.max(0, shaped));
+      if (binding.negative) drive(binding.negative, Math.max(0, -shaped));
+    }
+
+    for (const binding of profile.buttons) {
+      const button = pad.buttons[binding.button];
+      if (!button) continue;
+
+      if (ANALOG_ACTIONS.has(binding.action)) {
+        drive(binding.action as AnalogAction, shapeLever(button.value, profile));
+        continue;
+      }
+
+      const wasPressed = this.heldButtons.has(binding.button);
+      if (button.pressed && !wasPressed) {
+        this.heldButtons.set(binding.button, binding.action);
+        this.inputManager.pressAction(binding.action);
+      } else if (!button.pressed && wasPressed) {
+        this.heldButtons.delete(binding.button);
+        this.inputManager.releaseAction(binding.action);
+      }
+    }
+
+    for (const [action, value] of values) {
+      this.inputManager.setAxisValue(action, value);
+    }
+  }
+
+  private updateLever(position: number): void {
+    if (!this.inputManager.accepts('throttle')) return;
+    if (this.lastLever !== null && Math.abs(position - this.lastLever) < LEVER_STEP) return;
+    this.lastLever = position;
+    this.inputManager.setThrottlePercent(position * 100);
+  }
+
+  private getActivePad(): Gamepad | null {
+    if (this.activeIndex === null || !GamepadInput.isSupported()) return null;
+    // Chrome hands out snapshots, so the pad has to be fetched again every frame
+    return navigator.getGamepads()[this.activeIndex] ?? null;
+  }
+
+  private findConnectedIndex(): number | null {
+    if (!GamepadInput.isSupported()) return null;
+    const pad = Array.from(navigator.getGamepads()).find((candidate): candidate is Gamepad => candidate !== null && candidate.connected);
+    return pad ? pad.index : null;
+  }
+
+  private getProfileFor(gamepadId: string): GamepadProfile {
+    const chosen = this.deviceProfiles.get(gamepadId);
+    return this.profiles.find(profile => profile.id === chosen) ?? matchGamepadProfile(this.profiles, gamepadId);
+  }
+
+  /**
+   * Let go of everything the pad was holding so a stick left deflected doesn't stick
+   */
+  private releaseControls(): void {
+    for (const action of this.heldButtons.values()) {
+      this.inputManager.releaseAction(action);
+    }
+    for (const action of ANALOG_ACTIONS) {
+      this.inputManager.setAxisValue(action as AnalogAction, 0);
+    }
+    this.resetControls();
+  }
+
+  private resetControls(): void {
+    this.heldButtons.clear();
+    this.lastLever = null;
+  }
+
+  public getStatus(): GamepadStatus {
+    const pad = this.getActivePad();
+    return {
+      connected: pad !== null,
+      id: pad?.id ?? null,
+      profileId: pad ? this.getProfileFor(pad.id).id : null,
+    };
+  }
+
+  public getProfiles(): GamepadProfileSummary[] {
+    return this.profiles.map(({ id, name, deadzone, curve }) => ({ id, name, deadzone, curve }));
+  }
+
+  /**
+   * Use a profile for the connected device from now on
+   */
+  public setProfile(profileId: string): void {
+    const pad = this.getActivePad();
+    if (!pad || !this.profiles.some(profile => profile.id === profileId)) return;
+    this.releaseControls();
+    this.deviceProfiles.set(pad.id, profileId);
+    console.log(`🎮 ${pad.id} now uses the "${profileId}" profile`);
+    this.notifyStatus();
+  }
+
+  public setTuning(profileId: string, tuning: Partial<GamepadTuning>): void {
+    const profile = this.profiles.find(candidate => candidate.id === profileId);
+    if (!profile) return;
+    if (tuning.deadzone !== undefined) profile.deadzone = Math.max(0, Math.min(0.9, tuning.deadzone));
+    if (tuning.curve !== undefined) profile.curve = Math.max(0, Math.min(1, tuning.curve));
+  }
+
+  public addStatusListener(callback: (status: GamepadStatus) => void): void {
+    this.statusListeners.push(callback);
+  }
+
+  private notifyStatus(): void {
+    const status = this.getStatus();
+    for (const listener of this.statusListeners) {
+      listener(status);
+    }
+  }
+
+  public destroy(): void {
+    window.removeEventListener('gamepadconnected', this.handleConnected);
+    window.removeEventListener('gamepaddisconnected', this.handleDisconnected);
+    this.statusListeners = [];
+  }
+}
@@ -0,0 +1,108 @@
+import type { AnalogAction, InputAction } from './InputManager';
+
+export interface AxisBinding {
+  axis: number;
+  positive?: AnalogAction; // driven as the axis moves towards +1
+  negative?: AnalogAction; // driven as the axis moves towards -1
+  invert?: boolean;
+  // A throttle lever: its position sets the target speed instead of driving an action
+  lever?: boolean;
+}
+
+export interface ButtonBinding {
+  button: number;
+  // Analogue actions follow the button's pressure (triggers), others fire on press
+  action: InputAction;
+}
+
+export interface GamepadTuning {
+  deadzone: number; // fraction of travel around centre that reads as zero
+  curve: number; // 0 = linear, 1 = fully cubic, softer around centre
+}
+
+export interface GamepadProfile extends GamepadTuning {
+  id: string;
+  name: string;
+  // Matched against Gamepad.id; profiles without a pattern only match the standard mapping
+  match?: RegExp;
+  axes: AxisBinding[];
+  buttons: ButtonBinding[];
+}
+
+/**
+ * Xbox/PlayStation layout in the browser's standard mapping. Sticks follow the keyboard:
+ * left stick is A/D and the arrows, right stick is Q/E.
+ */
+const STANDARD_PROFILE: GamepadProfile = {
+  id: 'standard',
+  name: 'Gamepad',
+  deadzone: 0.12,
+  curve: 0.35,
+  axes: [
+    { axis: 0, negative: 'turnLeft', positive: 'turnRight' },
+    // Stick pulled back reads positive, which is nose up
+    { axis: 1, negative: 'altitudeDown', positive: 'altitudeUp' },
+    { axis: 2, negative: 'rollLeft', positive: 'rollRight' },
+  ],
+  buttons: [
+    { button: 7, action: 'throttle' }, // right trigger
+    { button: 6, action: 'brake' }, // left trigger
+    { button: 0, action: 'toggleGear' },
+    { button: 3, action: 'switchCamera' },
+    { button: 8, action: 'restart' },
+  ],
+};
+
+/**
+ * Flight stick with a throttle lever: stick for pitch and roll, twist for rudder
+ */
+const HOTAS_PROFILE: GamepadProfile = {
+  id: 'hotas',
+  name: 'Flight Stick / HOTAS',
+  match: /hotas|joystick|flight stick|extreme 3d|x52|x56|t\.?16000|warthog|thrustmaster/i,
+  deadzone: 0.05,
+  curve: 0.2,
+  axes: [
+    { axis: 0, negative: 'rollLeft', positive: 'rollRight' },
+    { axis: 1, negative: 'altitudeDown', positive: 'altitudeUp' },
+    // Levers read -1 fully forward
+    { axis: 2, lever: true, invert: true },
+    { axis: 5, negative: 'turnLeft', positive: 'turnRight' },
+  ],
+  buttons: [
+    { button: 1, action: 'switchCamera' },
+    { button: 2, action: 'toggleGear' },
+    { button: 3, action: 'restart' },
+  ],
+};
+
+export const GAMEPAD_PROFILES: GamepadProfile[] = [HOTAS_PROFILE, STANDARD_PROFILE];
+
+export const DEFAULT_GAMEPAD_PROFILE_ID = STANDARD_PROFILE.id;
+
+/**
+ * Pick a profile for a device: the first whose pattern matches its id, else the standard layout
+ */
+export function matchGamepadProfile(profiles: GamepadProfile[], gamepadId: string): GamepadProfile {
+  return profiles.find(profile => profile.match?.test(gamepadId))
+    ?? profiles.find(profile => profile.id === DEFAULT_GAMEPAD_PROFILE_ID)
+    ?? profiles[0];
+}
+
+/**
+ * Centre-sprung axis, -1 to 1: deadzone removed, travel rescaled, then the response curve
+ */
+export function shapeAxis(value: number, tuning: GamepadTuning): number {
+  const magnitude = Math.abs(value);
+  if (magnitude <= tuning.deadzone) return 0;
+  const scaled = Math.min(1, (magnitude - tuning.deadzone) / (1 - tuning.deadzone));
+  return Math.sign(value) * ((1 - tuning.curve) * scaled + tuning.curve * scaled * scaled * scaled);
+}
+
+/**
+ * One-sided control, 0 to 1 (triggers, levers): the deadzone sits at the bottom of travel
+ */
+export function shapeLever(value: number, tuning: GamepadTuning): number {
+  if (value <= tuning.deadzone) return 0;
+  return Math.min(1, (value - tuning.deadzone) / (1 - tuning.deadzone));
+}
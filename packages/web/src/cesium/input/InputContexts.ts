@@ -0,0 +1,28 @@
+import type { BindingContext } from './KeyBindings';
+
+/**
+ * Who owns the input while on top of the context stack. Play sits at the bottom;
+ * modes and overlays push over it and pop themselves when done.
+ */
+export type InputContextId = 'play' | 'builder' | 'autopilot' | 'textInput' | 'timeline';
+
+/**
+ * Binding sets each context reads keys from. Actions outside them are dropped,
+ * whichever device they come from.
+ */
+export const INPUT_CONTEXT_BINDINGS: Record<InputContextId, BindingContext[]> = {
+  play: ['play', 'studio'],
+  builder: ['builder', 'studio'],
+  // Hands off the vehicle while the autopilot flies, studio shortcuts still work
+  autopilot: ['studio'],
+  // Every key belongs to the field being typed in
+  textInput: [],
+  timeline: ['studio'],
+};
+
+export function isFormField(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+
+  const tagName = target.tagName.toLowerCase();
+  return tagName === 'input' || tagName === 'textarea' || tagName === 'select' || target.isContentEditable;
+}
@@ -1,6 +1,14 @@
-export interface KeyBinding {
-  [key: string]: string;
-}
+import {
+  BindingConflict,
+  BindingContext,
+  CONTEXT_ACTIONS,
+  DEFAULT_KEY_BINDINGS,
+  KeyBindingMap,
+  KeyBindingStore,
+  cloneBindings,
+  overlappingContexts,
+} from './KeyBindings';
+import { INPUT_CONTEXT_BINDINGS, InputContextId, isFormField } from './InputContexts';
 
 export interface InputState {
   // Vehicle controls
@@ -31,6 +39,20 @@ export interface InputState {
   // Aircraft specific
   altitudeUp: boolean;
   altitudeDown: boolean;
+  toggleGear: boolean;
+
+  // Builder camera and spawn cursor
+  builderForward: boolean;
+  builderBack: boolean;
+  builderLeft: boolean;
+  builderRight: boolean;
+  builderUp: boolean;
+  builderDown: boolean;
+
+  // Studio UI
+  toggleHud: boolean;
+  toggleControls: boolean;
+  toggleDebug: boolean;
 
   // System
   restart: boolean;
@@ -38,45 +60,30 @@ export interface InputState {
 
 export type InputAction = keyof InputState;
 
-export class InputManager {
-  private keyBindings: KeyBinding = {
-    // Vehicle controls (WASD)
-    'KeyW': 'throttle',
-    'KeyS': 'brake',
-    'KeyA': 'turnLeft',
-    'KeyD': 'turnRight',
-    
-    // Arrow keys: turn/steer for ground vehicles, altitude for aircraft
-    'ArrowUp': 'altitudeUp',
-    'ArrowDown': 'altitudeDown',
-    'ArrowLeft': 'turnLeft',
-    'ArrowRight': 'turnRight',
-    
-    // Q/E for roll (aircraft)
-    'KeyQ': 'rollLeft',
-    'KeyE': 'rollRight',
-    
-    // Camera controls
-    'KeyF': 'cameraDown',
-    'KeyT': 'cameraCloser',
-    'KeyG': 'cameraFarther',
-    
-    // Mode toggles
-    'KeyM': 'toggleRoverMode',
-    'KeyC': 'switchCamera',
-    'KeyV': 'toggleCollision',
-    'KeyB': 'toggleBuilder',
-    
-    // Builder mode
-    'Space': 'spawnObject',
+/**
+ * Actions that can be held part-way. Keys give 0 or 1, gamepad axes anything between.
+ */
+export type AnalogAction = 'throttle' | 'brake' | 'turnLeft' | 'turnRight' | 'altitudeUp' | 'altitudeDown' | 'rollLeft' | 'rollRight';
 
-    // Alternative altitude controls (for those who prefer PageUp/PageDown)
-    'PageUp': 'altitudeUp',
-    'PageDown': 'altitudeDown',
+export const ANALOG_ACTIONS: ReadonlySet<InputAction> = new Set<InputAction>([
+  'throttle', 'brake', 'turnLeft', 'turnRight', 'altitudeUp', 'altitudeDown', 'rollLeft', 'rollRight'
+]);
 
-    // Restart
-    'KeyR': 'restart'
-  };
+/**
+ * Devices that drive analogue actions. Each keeps its own values so they don't overwrite each other.
+ */
+export type AxisSource = 'gamepad' | 'mouse' | 'touch' | 'tilt';
+
+export type InputListener = (pressed: boolean, value: number) => void;
+
+export class InputManager {
+  private bindingStore = new KeyBindingStore();
+  private bindings: KeyBindingMap = this.bindingStore.load();
+  // Top-most context gets every key; play is always at the bottom
+  private contextStack: InputContextId[] = ['play'];
+  // Keys held down and the action each one pressed, so a release always matches its press
+  private heldKeys: Map<string, InputAction> = new Map();
+  private bindingListeners: Array<(bindings: KeyBindingMap) => void> = [];
 
   private inputState: InputState = {
     throttle: false,
@@ -100,14 +107,28 @@ export class InputManager {
     spawnObject: false,
     altitudeUp: false,
     altitudeDown: false,
+    toggleGear: false,
+    builderForward: false,
+    builderBack: false,
+    builderLeft: false,
+    builderRight: false,
+    builderUp: false,
+    builderDown: false,
+    toggleHud: false,
+    toggleControls: false,
+    toggleDebug: false,
     restart: false
   };
 
-  private listeners: Map<InputAction, Array<(pressed: boolean) => void>> = new Map();
-  private oneTimeActions: Set<InputAction> = new Set(['toggleRoverMode', 'switchCamera', 'toggleCollision', 'toggleBuilder', 'spawnObject', 'restart']);
+  // Each source holds its own value so a resting gamepad doesn't cancel a held key
+  private keyValues: Map<InputAction, number> = new Map();
+  private axisValues: Map<AxisSource, Map<InputAction, number>> = new Map();
+  private actionValues: Map<InputAction, number> = new Map();
+
+  private listeners: Map<InputAction, InputListener[]> = new Map();
+  private oneTimeActions: Set<InputAction> = new Set(['toggleRoverMode', 'switchCamera', 'toggleCollision', 'toggleBuilder', 'spawnObject', 'toggleGear', 'restart', 'toggleHud', 'toggleControls', 'toggleDebug']);
   private throttlePercent: number = 0;
   private targetSpeedCallback: ((speed: number) => void) | null = null;
-  private isInputLocked: boolean = false;
 
   constructor() {
     this.setupEventListeners();
@@ -116,53 +137,101 @@ export class InputManager {
   private setupEventListeners(): void {
     document.addEventListener('keydown', this.handleKeyDown.bind(this));
     document.addEventListener('keyup', this.handleKeyUp.bind(this));
+
+    // Typing in a form field takes the keyboard until focus leaves it
+    document.addEventListener('focusin', (e) => {
+      if (isFormField(e.target)) this.pushContext('textInput');
+    });
+    document.addEventListener('focusout', (e) => {
+      if (isFormField(e.target)) this.popContext('textInput');
+    });
     
     // Prevent context menu on right click for better camera controls
     document.addEventListener('contextmenu', (e) => e.preventDefault());
   }
 
-  public setInputLocked(locked: boolean): void {
-    this.isInputLocked = locked;
-    if (locked) {
-      // Reset all inputs when locking
-      for (const key in this.inputState) {
-        this.setInputState(key as InputAction, false);
-      }
-    }
+  /**
+   * Put a context on top of the stack. Whatever was held under the old top is let go.
+   */
+  public pushContext(id: InputContextId): void {
+    this.releaseAll();
+    this.contextStack.push(id);
+    console.log(`⌨️ Input context: ${this.contextStack.join(' › ')}`);
   }
 
-  private isTypingInFormField(event: KeyboardEvent): boolean {
-    const target = event.target as HTMLElement;
-    if (!target) return false;
+  /**
+   * Remove the latest entry for a context, wherever it is in the stack
+   */
+  public popContext(id: InputContextId): void {
+    const index = this.contextStack.lastIndexOf(id);
+    if (index <= 0) return;
 
-    // Check if target is an input element
-    const tagName = target.tagName.toLowerCase();
-    if (tagName === 'input' || tagName === 'textarea' || tagName === 'select') {
-      return true;
+    if (index === this.contextStack.length - 1) {
+      this.releaseAll();
     }
+    this.contextStack.splice(index, 1);
+    console.log(`⌨️ Input context: ${this.contextStack.join(' › ')}`);
+  }
 
-    // Check for contenteditable elements
-    if (target.isContentEditable) {
-      return true;
-    }
+  public getActiveContext(): InputContextId {
+    return this.contextStack[this.contextStack.length - 1];
+  }
 
-    return false;
+  /**
+   * Whether the top-most context takes this action, from keys or any other device
+   */
+  public accepts(action: InputAction): boolean {
+    return INPUT_CONTEXT_BINDINGS[this.getActiveContext()].some(context => CONTEXT_ACTIONS[context].includes(action));
   }
 
-  private handleKeyDown(event: KeyboardEvent): void {
-    if (this.isInputLocked) return;
+  private releaseAll(): void {
+    this.heldKeys.clear();
+    this.axisValues.clear();
+    for (const key in this.inputState) {
+      this.setInputState(key as InputAction, false);
+    }
+  }
 
-    // Skip game shortcuts when typing in form fields
-    if (this.isTypingInFormField(event)) return;
+  private handleKeyDown(event: KeyboardEvent): void {
+    // A field removed while focused never sends focusout
+    if (this.getActiveContext() === 'textInput' && !isFormField(document.activeElement)) {
+      this.popContext('textInput');
+    }
 
-    const action = this.keyBindings[event.code] as InputAction;
+    const action = this.heldKeys.get(event.code) ?? this.resolveAction(event.code);
     if (!action) return;
+    this.heldKeys.set(event.code, action);
 
-    // Prevent default browser behavior for game controls
-    if (event.code === 'PageUp' || event.code === 'PageDown' || event.code.startsWith('Arrow')) {
+    // Prevent default browser behavior for game controls and studio shortcuts (/ opens quick find)
+    if (event.code === 'PageUp' || event.code === 'PageDown' || event.code.startsWith('Arrow') || CONTEXT_ACTIONS.studio.includes(action)) {
       event.preventDefault();
     }
 
+    this.pressAction(action);
+  }
+
+  private handleKeyUp(event: KeyboardEvent): void {
+    const action = this.heldKeys.get(event.code);
+    if (!action) return;
+    this.heldKeys.delete(event.code);
+
+    this.releaseAction(action);
+  }
+
+  private resolveAction(code: string): InputAction | undefined {
+    for (const context of INPUT_CONTEXT_BINDINGS[this.getActiveContext()]) {
+      const action = this.bindings[context][code];
+      if (action) return action;
+    }
+    return undefined;
+  }
+
+  /**
+   * Press an action as a key or button would; one-time actions fire once and reset
+   */
+  public pressAction(action: InputAction): void {
+    if (!this.accepts(action)) return;
+
     // For one-time actions, only trigger on initial press
     if (this.oneTimeActions.has(action)) {
       if (!this.inputState[action]) {
@@ -175,27 +244,45 @@ export class InputManager {
     }
   }
 
-  private handleKeyUp(event: KeyboardEvent): void {
-    if (this.isInputLocked) return;
-
-    // Skip game shortcuts when typing in form fields
-    if (this.isTypingInFormField(event)) return;
-
-    const action = this.keyBindings[event.code] as InputAction;
-    if (!action || this.oneTimeActions.has(action)) return;
-
+  public releaseAction(action: InputAction): void {
+    if (this.oneTimeActions.has(action)) return;
     this.setInputState(action, false);
   }
 
+  /**
+   * Drive an analogue action from an axis, 0 to 1. Combined with the keyboard and
+   * other devices by taking the larger.
+   */
+  public setAxisValue(action: AnalogAction, value: number, source: AxisSource = 'gamepad'): void {
+    if (!this.accepts(action)) return;
+    if (!this.axisValues.has(source)) {
+      this.axisValues.set(source, new Map());
+    }
+    this.axisValues.get(source)!.set(action, Math.max(0, Math.min(1, value)));
+    this.refreshAction(action);
+  }
+
   private setInputState(action: InputAction, pressed: boolean): void {
-    this.inputState[action] = pressed;
-    this.notifyListeners(action, pressed);
+    this.keyValues.set(action, pressed ? 1 : 0);
+    this.refreshAction(action);
+  }
+
+  private refreshAction(action: InputAction): void {
+    let value = this.keyValues.get(action) ?? 0;
+    for (const values of this.axisValues.values()) {
+      value = Math.max(value, values.get(action) ?? 0);
+    }
+    if (value === (this.actionValues.get(action) ?? 0) && this.inputState[action] === value > 0) return;
+
+    this.actionValues.set(action, value);
+    this.inputState[action] = value > 0;
+    this.notifyListeners(action, value > 0, value);
   }
 
-  private notifyListeners(action: InputAction, pressed: boolean): void {
+  private notifyListeners(action: InputAction, pressed: boolean, value: number): void {
     const actionListeners = this.listeners.get(action);
     if (actionListeners) {
-      actionListeners.forEach(listener => listener(pressed));
+      actionListeners.forEach(listener => listener(pressed, value));
     }
   }
 
@@ -207,14 +294,21 @@ export class InputManager {
     return this.inputState[action];
   }
 
-  public onInput(action: InputAction, callback: (pressed: boolean) => void): void {
+  /**
+   * How far an action is held, 0 to 1
+   */
+  public getValue(action: InputAction): number {
+    return this.actionValues.get(action) ?? 0;
+  }
+
+  public onInput(action: InputAction, callback: InputListener): void {
     if (!this.listeners.has(action)) {
       this.listeners.set(action, []);
     }
     this.listeners.get(action)!.push(callback);
   }
 
-  public offInput(action: InputAction, callback: (pressed: boolean) => void): void {
+  public offInput(action: InputAction, callback: InputListener): void {
     const actionListeners = this.listeners.get(action);
     if (actionListeners) {
       const index = actionListeners.indexOf(callback);
@@ -224,12 +318,81 @@ export class InputManager {
     }
   }
 
-  public setKeyBinding(key: string, action: InputAction): void {
-    this.keyBindings[key] = action;
+  public getBindings(): KeyBindingMap {
+    return cloneBindings(this.bindings);
   }
 
-  public getKeyBindings(): Readonly<KeyBinding> {
-    return this.keyBindings;
+  /**
+   * The binding a key would clash with in this context or one live alongside it
+   */
+  public findConflict(context: BindingContext, code: string, action: InputAction): BindingConflict | null {
+    for (const other of overlappingContexts(context)) {
+      const existing = this.bindings[other][code];
+      if (existing && existing !== action) {
+        return { context: other, code, action: existing };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Bind a key to an action. A clash is returned and nothing changes, unless replace
+   * is set, in which case the clashing binding is removed first.
+   */
+  public bindKey(context: BindingContext, code: string, action: InputAction, replace: boolean = false): BindingConflict | null {
+    if (!CONTEXT_ACTIONS[context].includes(action)) {
+      throw new Error(`"${action}" can't be bound in the ${context} context`);
+    }
+
+    const conflict = this.findConflict(context, code, action);
+    if (conflict && !replace) return conflict;
+    if (conflict) {
+      delete this.bindings[conflict.context][code];
+    }
+
+    this.releaseHeldKeys();
+    this.bindings[context][code] = action;
+    this.onBindingsChanged();
+    return null;
+  }
+
+  public unbindKey(context: BindingContext, code: string): void {
+    if (!(code in this.bindings[context])) return;
+    this.releaseHeldKeys();
+    delete this.bindings[context][code];
+    this.onBindingsChanged();
+  }
+
+  /**
+   * Back to the default keys, for one context or all of them
+   */
+  public resetBindings(context?: BindingContext): void {
+    this.releaseHeldKeys();
+    if (context) {
+      this.bindings[context] = { ...DEFAULT_KEY_BINDINGS[context] };
+    } else {
+      this.bindings = cloneBindings(DEFAULT_KEY_BINDINGS);
+    }
+    this.onBindingsChanged();
+  }
+
+  public addBindingsListener(callback: (bindings: KeyBindingMap) => void): void {
+    this.bindingListeners.push(callback);
+  }
+
+  private onBindingsChanged(): void {
+    this.bindingStore.save(this.bindings);
+    const bindings = this.getBindings();
+    for (const listener of this.bindingListeners) {
+      listener(bindings);
+    }
+  }
+
+  private releaseHeldKeys(): void {
+    for (const action of this.heldKeys.values()) {
+      this.releaseAction(action);
+    }
+    this.heldKeys.clear();
   }
 
   public setThrottlePercent(percent: number): void {
@@ -0,0 +1,207 @@
+import type { InputAction } from './InputManager';
+
+/**
+ * Which set of bindings a key is looked up in. Play or builder follows the game mode;
+ * studio shortcuts work on top of either.
+ */
+export type BindingContext = 'play' | 'builder' | 'studio';
+
+// KeyboardEvent.code → action
+export type ContextBindings = Record<string, InputAction>;
+
+export type KeyBindingMap = Record<BindingContext, ContextBindings>;
+
+export interface BindingConflict {
+  context: BindingContext;
+  code: string;
+  action: InputAction;
+}
+
+export const BINDING_CONTEXTS: BindingContext[] = ['play', 'builder', 'studio'];
+
+const STORAGE_KEY = 'skystudio-key-bindings';
+const STORAGE_VERSION = 1;
+
+/**
+ * Actions that can be bound in each context
+ */
+export const CONTEXT_ACTIONS: Record<BindingContext, InputAction[]> = {
+  play: [
+    'throttle', 'brake', 'turnLeft', 'turnRight', 'altitudeUp', 'altitudeDown', 'rollLeft', 'rollRight',
+    'toggleGear', 'cameraDown', 'cameraCloser', 'cameraFarther', 'switchCamera',
+    'toggleRoverMode', 'toggleCollision', 'toggleBuilder', 'restart',
+  ],
+  builder: [
+    'builderForward', 'builderBack', 'builderLeft', 'builderRight', 'builderUp', 'builderDown',
+    'spawnObject', 'toggleBuilder',
+  ],
+  studio: ['toggleHud', 'toggleControls', 'toggleDebug'],
+};
+
+export const DEFAULT_KEY_BINDINGS: KeyBindingMap = {
+  play: {
+    // Vehicle controls (WASD)
+    'KeyW': 'throttle',
+    'KeyS': 'brake',
+    'KeyA': 'turnLeft',
+    'KeyD': 'turnRight',
+
+    // Arrow keys: turn/steer for ground vehicles, altitude for aircraft
+    'ArrowUp': 'altitudeUp',
+    'ArrowDown': 'altitudeDown',
+    'ArrowLeft': 'turnLeft',
+    'ArrowRight': 'turnRight',
+
+    // Alternative altitude controls (for those who prefer PageUp/PageDown)
+    'PageUp': 'altitudeUp',
+    'PageDown': 'altitudeDown',
+
+    // Q/E for roll (aircraft)
+    'KeyQ': 'rollLeft',
+    'KeyE': 'rollRight',
+
+    // Landing gear
+    'KeyL': 'toggleGear',
+
+    // Camera controls
+    'KeyF': 'cameraDown',
+    'KeyT': 'cameraCloser',
+    'KeyG': 'cameraFarther',
+    'KeyC': 'switchCamera',
+
+    // Mode toggles
+    'KeyM': 'toggleRoverMode',
+    'KeyV': 'toggleCollision',
+    'KeyB': 'toggleBuilder',
+
+    // Restart
+    'KeyR': 'restart',
+  },
+  builder: {
+    // Fly the builder camera and the spawn cursor with it
+    'KeyW': 'builderForward',
+    'KeyS': 'builderBack',
+    'KeyA': 'builderLeft',
+    'KeyD': 'builderRight',
+    'KeyE': 'builderUp',
+    'KeyQ': 'builderDown',
+    'ArrowUp': 'builderUp',
+    'ArrowDown': 'builderDown',
+    'PageUp': 'builderUp',
+    'PageDown': 'builderDown',
+
+    'Space': 'spawnObject',
+    'KeyB': 'toggleBuilder',
+  },
+  studio: {
+    'KeyH': 'toggleHud',
+    'Slash': 'toggleControls',
+    'Backquote': 'toggleDebug',
+  },
+};
+
+/**
+ * Contexts whose keys are live at the same time as this one, so must not collide with it
+ */
+export function overlappingContexts(context: BindingContext): BindingContext[] {
+  return context === 'studio' ? ['studio', 'play', 'builder'] : [context, 'studio'];
+}
+
+export function cloneBindings(bindings: KeyBindingMap): KeyBindingMap {
+  return {
+    play: { ...bindings.play },
+    builder: { ...bindings.builder },
+    studio: { ...bindings.studio },
+  };
+}
+
+const KEY_LABELS: Record<string, string> = {
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  PageUp: 'PgUp',
+  PageDown: 'PgDn',
+  Space: 'Space',
+  Slash: '/',
+  Backquote: '`',
+  Backslash: '\\',
+  BracketLeft: '[',
+  BracketRight: ']',
+  Semicolon: ';',
+  Quote: "'",
+  Comma: ',',
+  Period: '.',
+  Minus: '-',
+  Equal: '=',
+  ShiftLeft: 'L Shift',
+  ShiftRight: 'R Shift',
+  ControlLeft: 'L Ctrl',
+  ControlRight: 'R Ctrl',
+  AltLeft: 'L Alt',
+  AltRight: 'R Alt',
+};
+
+/**
+ * Short label for a KeyboardEvent.code, e.g. KeyW → W, ArrowUp → ↑
+ */
+export function formatKeyCode(code: string): string {
+  if (KEY_LABELS[code]) return KEY_LABELS[code];
+  if (code.startsWith('Key')) return code.slice(3);
+  if (code.startsWith('Digit')) return code.slice(5);
+  if (code.startsWith('Numpad')) return `Num ${code.slice(6)}`;
+  return code;
+}
+
+/**
+ * User bindings in localStorage. Anything unreadable falls back to the defaults
+ * for that context, and actions that don't belong to a context are dropped.
+ */
+export class KeyBindingStore {
+  public static isSupported(): boolean {
+    try {
+      return typeof localStorage !== 'undefined';
+    } catch {
+      return false;
+    }
+  }
+
+  public load(): KeyBindingMap {
+    const bindings = cloneBindings(DEFAULT_KEY_BINDINGS);
+    if (!KeyBindingStore.isSupported()) return bindings;
+
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      if (!raw) return bindings;
+
+      const stored = JSON.parse(raw);
+      if (stored?.version !== STORAGE_VERSION || typeof stored.bindings !== 'object') return bindings;
+
+      for (const context of BINDING_CONTEXTS) {
+        const saved = stored.bindings[context];
+        if (!saved || typeof saved !== 'object') continue;
+
+        const allowed = CONTEXT_ACTIONS[context];
+        const restored: ContextBindings = {};
+        for (const [code, action] of Object.entries(saved)) {
+          if (typeof action === 'string' && allowed.includes(action as InputAction)) {
+            restored[code] = action as InputAction;
+          }
+        }
+        bindings[context] = restored;
+      }
+    } catch (error) {
+      console.warn('⚠️ Could not read saved key bindings:', error);
+    }
+    return bindings;
+  }
+
+  public save(bindings: KeyBindingMap): void {
+    if (!KeyBindingStore.isSupported()) return;
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: STORAGE_VERSION, bindings }));
+    } catch (error) {
+      console.warn('⚠️ Could not save key bindings:', error);
+    }
+  }
+}
@@ -0,0 +1,171 @@
+import type { InputManager } from './InputManager';
+import type { CameraManager } from '../managers/CameraManager';
+
+export type MouseMode = 'off' | 'yoke' | 'look';
+
+export interface MouseSettings {
+  mode: MouseMode;
+  sensitivity: number; // 1 is the default feel
+  invertY: boolean;
+}
+
+export interface MouseStatus extends MouseSettings {
+  locked: boolean;
+}
+
+// Mouse travel in px for full yoke deflection at sensitivity 1
+const YOKE_TRAVEL = 300;
+// Gimbal degrees per px of mouse travel at sensitivity 1
+const LOOK_DEGREES_PER_PIXEL = 0.15;
+
+const MIN_SENSITIVITY = 0.2;
+const MAX_SENSITIVITY = 3;
+
+/**
+ * Pointer-lock mouse control. As a yoke, mouse travel moves a virtual stick that holds its
+ * deflection, so a steady bank is a steady hand: sideways rolls, pulling back raises the nose.
+ * As mouse-look it steers the FPV camera gimbal instead.
+ * Click the view to capture the mouse, Esc releases it, middle click centres the yoke.
+ */
+export class MouseInput {
+  private settings: MouseSettings = { mode: 'off', sensitivity: 1, invertY: false };
+  // Virtual stick, -1 to 1: x is left to right, y is nose down to nose up
+  private yokeX: number = 0;
+  private yokeY: number = 0;
+  private statusListeners: Array<(status: MouseStatus) => void> = [];
+
+  private readonly handleClick = () => {
+    if (this.settings.mode === 'off' || this.isLocked()) return;
+    // Only over play; builder mode needs the mouse for Cesium's own camera
+    if (!this.inputManager.accepts('rollLeft')) return;
+
+    Promise.resolve(this.canvas.requestPointerLock()).catch(() => {
+      console.warn('⚠️ Pointer lock was refused');
+    });
+  };
+
+  private readonly handleMouseDown = (event: MouseEvent) => {
+    if (event.button === 1 && this.isLocked() && this.settings.mode === 'yoke') {
+      event.preventDefault();
+      this.centreYoke();
+    }
+  };
+
+  private readonly handleLockChange = () => {
+    if (!this.isLocked()) {
+      this.centreYoke();
+    }
+    console.log(`🖱️ Mouse ${this.isLocked() ? 'captured' : 'released'}`);
+    this.notifyStatus();
+  };
+
+  private readonly handleMouseMove = (event: MouseEvent) => {
+    if (!this.isLocked()) return;
+    // Builder mode or the autopilot took over, hand the mouse back
+    if (!this.inputManager.accepts('rollLeft')) {
+      document.exitPointerLock();
+      return;
+    }
+
+    if (this.settings.mode === 'yoke') {
+      this.moveYoke(event.movementX, event.movementY);
+    } else if (this.settings.mode === 'look') {
+      this.look(event.movementX, event.movementY);
+    }
+  };
+
+  constructor(
+    private inputManager: InputManager,
+    private cameraManager: CameraManager,
+    private canvas: HTMLCanvasElement
+  ) {
+    if (!MouseInput.isSupported()) return;
+    canvas.addEventListener('click', this.handleClick);
+    canvas.addEventListener('mousedown', this.handleMouseDown);
+    document.addEventListener('pointerlockchange', this.handleLockChange);
+    document.addEventListener('mousemove', this.handleMouseMove);
+  }
+
+  public static isSupported(): boolean {
+    return typeof document !== 'undefined' && 'exitPointerLock' in document;
+  }
+
+  private isLocked(): boolean {
+    return MouseInput.isSupported() && document.pointerLockElement === this.canvas;
+  }
+
+  private moveYoke(dx: number, dy: number): void {
+    const scale = this.settings.sensitivity / YOKE_TRAVEL;
+    const pull = this.settings.invertY ? -dy : dy;
+    this.yokeX = Math.max(-1, Math.min(1, this.yokeX + dx * scale));
+    this.yokeY = Math.max(-1, Math.min(1, this.yokeY + pull * scale));
+    this.applyYoke();
+  }
+
+  private applyYoke(): void {
+    this.inputManager.setAxisValue('rollRight', Math.max(0, this.yokeX), 'mouse');
+    this.inputManager.setAxisValue('rollLeft', Math.max(0, -this.yokeX), 'mouse');
+    this.inputManager.setAxisValue('altitudeUp', Math.max(0, this.yokeY), 'mouse');
+    this.inputManager.setAxisValue('altitudeDown', Math.max(0, -this.yokeY), 'mouse');
+  }
+
+  private centreYoke(): void {
+    if (this.yokeX === 0 && this.yokeY === 0) return;
+    this.yokeX = 0;
+    this.yokeY = 0;
+    this.applyYoke();
+  }
+
+  private look(dx: number, dy: number): void {
+    if (this.cameraManager.getActiveCameraType() !== 'fpv') return;
+    const fpvCamera = this.cameraManager.getFPVCamera();
+    if (!fpvCamera) return;
+
+    // Gimbal yaw adds to a Cesium heading, so it is positive to the right; pitch positive up
+    const scale = this.settings.sensitivity * LOOK_DEGREES_PER_PIXEL;
+    const pitch = (this.settings.invertY ? dy : -dy) * scale;
+    fpvCamera.nudgeGimbal(pitch, dx * scale);
+  }
+
+  public getStatus(): MouseStatus {
+    return { ...this.settings, locked: this.isLocked() };
+  }
+
+  public setSettings(settings: Partial<MouseSettings>): void {
+    if (settings.mode !== undefined) this.settings.mode = settings.mode;
+    if (settings.sensitivity !== undefined) {
+      this.settings.sensitivity = Math.max(MIN_SENSITIVITY, Math.min(MAX_SENSITIVITY, settings.sensitivity));
+    }
+    if (settings.invertY !== undefined) this.settings.invertY = settings.invertY;
+
+    if (this.settings.mode !== 'yoke') {
+      this.centreYoke();
+    }
+    if (this.settings.mode === 'off' && this.isLocked()) {
+      document.exitPointerLock();
+    }
+    this.notifyStatus();
+  }
+
+  public addStatusListener(callback: (status: MouseStatus) => void): void {
+    this.statusListeners.push(callback);
+  }
+
+  private notifyStatus(): void {
+    const status = this.getStatus();
+    for (const listener of this.statusListeners) {
+      listener(status);
+    }
+  }
+
+  public destroy(): void {
+    if (this.isLocked()) {
+      document.exitPointerLock();
+    }
+    this.canvas.removeEventListener('click', this.handleClick);
+    this.canvas.removeEventListener('mousedown', this.handleMouseDown);
+    document.removeEventListener('pointerlockchange', this.handleLockChange);
+    document.removeEventListener('mousemove', this.handleMouseMove);
+    this.statusListeners = [];
+  }
+}
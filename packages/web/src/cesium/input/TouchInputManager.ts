@@ -1,175 +1,243 @@
-import { InputAction } from './InputManager';
+import type { AnalogAction, InputManager } from './InputManager';
+import { shapeAxis } from './GamepadProfiles';
+
+/**
+ * RC transmitter layouts. Mode 2 puts throttle and yaw on the left stick, pitch and roll on
+ * the right; mode 1 swaps throttle and pitch.
+ */
+export type StickLayout = 'mode1' | 'mode2';
+
+export type StickSide = 'left' | 'right';
 
 export interface TouchControlConfig {
-  sensitivity: number;
-  throttleZoneWidth: number;
-  enableHaptics: boolean;
+  layout: StickLayout;
+  deadzone: number;
+  tiltEnabled: boolean;
+  tiltSensitivity: number;
 }
 
-class HapticFeedback {
-  private static isSupported = typeof navigator !== 'undefined' && 'vibrate' in navigator;
+export interface TouchStatus extends TouchControlConfig {
+  tiltAvailable: boolean;
+}
 
-  static light(): void {
-    if (this.isSupported) {
-      navigator.vibrate(10);
-    }
-  }
+// Negative and positive direction of one stick axis
+type AxisPair = [AnalogAction, AnalogAction];
 
-  static medium(): void {
-    if (this.isSupported) {
-      navigator.vibrate(15);
-    }
-  }
+interface StickAxes {
+  x: AxisPair;
+  y: AxisPair; // stick up is the positive side
 }
 
+const THROTTLE: AxisPair = ['brake', 'throttle'];
+const YAW: AxisPair = ['turnLeft', 'turnRight'];
+const ROLL: AxisPair = ['rollLeft', 'rollRight'];
+// Stick up pushes the nose down, as on a transmitter or a yoke
+const PITCH: AxisPair = ['altitudeUp', 'altitudeDown'];
+
+const STICK_LAYOUTS: Record<StickLayout, Record<StickSide, StickAxes>> = {
+  mode1: {
+    left: { x: YAW, y: PITCH },
+    right: { x: ROLL, y: THROTTLE },
+  },
+  mode2: {
+    left: { x: YAW, y: THROTTLE },
+    right: { x: ROLL, y: PITCH },
+  },
+};
+
+// Tilt banks flying vehicles and steers cars and boats, which never read roll
+const TILT_AXES: AxisPair[] = [ROLL, YAW];
+
+// Tilt in degrees from the calibrated neutral that gives full deflection at sensitivity 1
+const FULL_TILT = 30;
+
+type OrientationPermission = { requestPermission?: () => Promise<'granted' | 'denied'> };
+
+/**
+ * Touch flight controls: two virtual sticks drawn by the UI and tilt-to-steer from
+ * DeviceOrientationEvent. Both feed the InputManager as analogue axes, so they mix with
+ * keys and gamepads and respect whichever input context is on top.
+ */
 export class TouchInputManager {
-  private touchStartX: number = 0;
-  private touchStartY: number = 0;
-  private currentTouchX: number = 0;
-  private currentTouchY: number = 0;
-  private isThrottleTouch: boolean = false;
-  private isTouching: boolean = false;
-  
   private config: TouchControlConfig = {
-    sensitivity: 1.5,
-    throttleZoneWidth: 96,
-    enableHaptics: true
+    layout: 'mode2',
+    deadzone: 0.08,
+    tiltEnabled: false,
+    tiltSensitivity: 1,
   };
 
-  private inputCallbacks = new Map<InputAction, (pressed: boolean) => void>();
-  private activeInputs = new Set<InputAction>();
+  private sticks: Record<StickSide, { x: number; y: number }> = {
+    left: { x: 0, y: 0 },
+    right: { x: 0, y: 0 },
+  };
+  // Steering angle read at calibration, and the latest raw reading
+  private tiltNeutral: number = 0;
+  private tiltAngle: number | null = null;
+  private statusListeners: Array<(status: TouchStatus) => void> = [];
+
+  private readonly handleOrientation = (event: DeviceOrientationEvent) => {
+    if (event.beta === null || event.gamma === null) return;
+    const firstReading = this.tiltAngle === null;
+    this.tiltAngle = this.readSteeringAngle(event.beta, event.gamma);
+    if (firstReading) {
+      this.tiltNeutral = this.tiltAngle;
+    }
+    this.applyTilt();
+  };
 
-  constructor(
-    private containerElement: HTMLElement,
-    config?: Partial<TouchControlConfig>
-  ) {
+  constructor(private inputManager: InputManager, config?: Partial<TouchControlConfig>) {
     if (config) {
       Object.assign(this.config, config);
     }
-    this.setupTouchListeners();
-  }
-
-  private setupTouchListeners(): void {
-    this.containerElement.addEventListener('touchstart', this.handleTouchStart.bind(this), { passive: false });
-    this.containerElement.addEventListener('touchmove', this.handleTouchMove.bind(this), { passive: false });
-    this.containerElement.addEventListener('touchend', this.handleTouchEnd.bind(this), { passive: false });
-    this.containerElement.addEventListener('touchcancel', this.handleTouchEnd.bind(this), { passive: false });
-  }
-
-  private handleTouchStart(event: TouchEvent): void {
-    if (event.touches.length === 0) return;
-    
-    event.preventDefault();
-    
-    const touch = event.touches[0];
-    this.touchStartX = touch.clientX;
-    this.touchStartY = touch.clientY;
-    this.currentTouchX = touch.clientX;
-    this.currentTouchY = touch.clientY;
-    this.isTouching = true;
-    
-    this.isThrottleTouch = this.isInThrottleZone(touch.clientX);
-    
-    if (!this.isThrottleTouch && this.config.enableHaptics) {
-      HapticFeedback.light();
-    }
   }
 
-  private handleTouchMove(event: TouchEvent): void {
-    if (!this.isTouching || event.touches.length === 0) return;
-    
-    event.preventDefault();
-    
-    const touch = event.touches[0];
-    this.currentTouchX = touch.clientX;
-    this.currentTouchY = touch.clientY;
-    
-    if (!this.isThrottleTouch) {
-      this.updateFlightControls();
+  public static isTiltSupported(): boolean {
+    return typeof window !== 'undefined' && 'DeviceOrientationEvent' in window;
+  }
+
+  /**
+   * Stick position from the UI, -1 to 1 on each axis with up and right positive
+   */
+  public setStick(side: StickSide, x: number, y: number): void {
+    this.sticks[side] = {
+      x: Math.max(-1, Math.min(1, x)),
+      y: Math.max(-1, Math.min(1, y)),
+    };
+    this.applySticks();
+  }
+
+  private applySticks(): void {
+    const tuning = { deadzone: this.config.deadzone, curve: 0 };
+    // Each action is driven from one stick only, so write every axis of the layout
+    for (const side of ['left', 'right'] as const) {
+      const axes = STICK_LAYOUTS[this.config.layout][side];
+      this.driveAxis(axes.x, shapeAxis(this.sticks[side].x, tuning), 'touch');
+      this.driveAxis(axes.y, shapeAxis(this.sticks[side].y, tuning), 'touch');
     }
   }
 
-  private handleTouchEnd(event: TouchEvent): void {
-    event.preventDefault();
-    
-    this.isTouching = false;
-    this.isThrottleTouch = false;
-    
-    this.clearAllInputs();
-  }
-
-  private isInThrottleZone(x: number): boolean {
-    const screenWidth = window.innerWidth;
-    return x >= screenWidth - this.config.throttleZoneWidth;
-  }
-
-  private updateFlightControls(): void {
-    const deltaX = this.currentTouchX - this.touchStartX;
-    const deltaY = this.currentTouchY - this.touchStartY;
-    
-    const rollThreshold = 30 / this.config.sensitivity;
-    const altitudeThreshold = 30 / this.config.sensitivity;
-    
-    this.setInput('rollLeft', deltaX < -rollThreshold);
-    this.setInput('rollRight', deltaX > rollThreshold);
-    this.setInput('altitudeUp', deltaY < -altitudeThreshold);
-    this.setInput('altitudeDown', deltaY > altitudeThreshold);
-  }
-
-  private setInput(action: InputAction, pressed: boolean): void {
-    const wasPressed = this.activeInputs.has(action);
-    
-    if (pressed && !wasPressed) {
-      this.activeInputs.add(action);
-      this.notifyCallback(action, true);
-      if (this.config.enableHaptics) {
-        HapticFeedback.light();
+  private driveAxis([negative, positive]: AxisPair, value: number, source: 'touch' | 'tilt'): void {
+    this.inputManager.setAxisValue(positive, Math.max(0, value), source);
+    this.inputManager.setAxisValue(negative, Math.max(0, -value), source);
+  }
+
+  /**
+   * Start tilt-to-steer. iOS asks for permission, which only works from a tap.
+   */
+  public async enableTilt(): Promise<boolean> {
+    if (!TouchInputManager.isTiltSupported()) return false;
+
+    const permission = (DeviceOrientationEvent as unknown as OrientationPermission).requestPermission;
+    if (permission) {
+      try {
+        if (await permission() !== 'granted') {
+          console.warn('⚠️ Motion sensor access was denied');
+          return false;
+        }
+      } catch (error) {
+        console.warn('⚠️ Could not ask for motion sensor access:', error);
+        return false;
       }
-    } else if (!pressed && wasPressed) {
-      this.activeInputs.delete(action);
-      this.notifyCallback(action, false);
     }
+
+    if (!this.config.tiltEnabled) {
+      this.tiltAngle = null;
+      window.addEventListener('deviceorientation', this.handleOrientation);
+      this.config.tiltEnabled = true;
+      console.log('📱 Tilt steering on');
+      this.notifyStatus();
+    }
+    return true;
   }
 
-  private clearAllInputs(): void {
-    const actions: InputAction[] = ['rollLeft', 'rollRight', 'altitudeUp', 'altitudeDown'];
-    
-    actions.forEach(action => {
-      if (this.activeInputs.has(action)) {
-        this.activeInputs.delete(action);
-        this.notifyCallback(action, false);
-      }
-    });
+  public disableTilt(): void {
+    if (!this.config.tiltEnabled) return;
+    window.removeEventListener('deviceorientation', this.handleOrientation);
+    this.config.tiltEnabled = false;
+    this.tiltAngle = null;
+    this.releaseTilt();
+    console.log('📱 Tilt steering off');
+    this.notifyStatus();
+  }
+
+  /**
+   * Take the way the device is held right now as level
+   */
+  public calibrateTilt(): void {
+    if (this.tiltAngle === null) return;
+    this.tiltNeutral = this.tiltAngle;
+    this.applyTilt();
+    console.log(`📱 Tilt calibrated at ${this.tiltNeutral.toFixed(1)}°`);
+  }
+
+  /**
+   * Rotation about the axis pointing out of the top of the screen, positive when the right
+   * edge dips. Which sensor angle that is depends on how the screen is turned.
+   */
+  private readSteeringAngle(beta: number, gamma: number): number {
+    const angle = typeof screen !== 'undefined' && screen.orientation ? screen.orientation.angle : 0;
+    if (angle === 90) return beta;
+    if (angle === 270 || angle === -90) return -beta;
+    return gamma;
   }
 
-  private notifyCallback(action: InputAction, pressed: boolean): void {
-    const callback = this.inputCallbacks.get(action);
-    if (callback) {
-      callback(pressed);
+  private applyTilt(): void {
+    if (this.tiltAngle === null) return;
+    const deflection = (this.tiltAngle - this.tiltNeutral) * this.config.tiltSensitivity / FULL_TILT;
+    const value = shapeAxis(Math.max(-1, Math.min(1, deflection)), { deadzone: this.config.deadzone, curve: 0 });
+    for (const axis of TILT_AXES) {
+      this.driveAxis(axis, value, 'tilt');
     }
   }
 
-  public onInput(action: InputAction, callback: (pressed: boolean) => void): void {
-    this.inputCallbacks.set(action, callback);
+  private releaseTilt(): void {
+    for (const axis of TILT_AXES) {
+      this.driveAxis(axis, 0, 'tilt');
+    }
   }
 
-  public getCurrentTouch(): { x: number; y: number; deltaX: number; deltaY: number } | null {
-    if (!this.isTouching || this.isThrottleTouch) return null;
-    
-    return {
-      x: this.currentTouchX,
-      y: this.currentTouchY,
-      deltaX: this.currentTouchX - this.touchStartX,
-      deltaY: this.currentTouchY - this.touchStartY
-    };
+  public getStatus(): TouchStatus {
+    return { ...this.config, tiltAvailable: TouchInputManager.isTiltSupported() };
+  }
+
+  public setConfig(config: Partial<Omit<TouchControlConfig, 'tiltEnabled'>>): void {
+    if (config.layout !== undefined && config.layout !== this.config.layout) {
+      // Let go of the old layout's actions before the sticks move onto new ones
+      this.releaseSticks();
+      this.config.layout = config.layout;
+    }
+    if (config.deadzone !== undefined) this.config.deadzone = Math.max(0, Math.min(0.5, config.deadzone));
+    if (config.tiltSensitivity !== undefined) {
+      this.config.tiltSensitivity = Math.max(0.25, Math.min(3, config.tiltSensitivity));
+    }
+    this.applySticks();
+    this.applyTilt();
+    this.notifyStatus();
+  }
+
+  private releaseSticks(): void {
+    for (const side of ['left', 'right'] as const) {
+      const axes = STICK_LAYOUTS[this.config.layout][side];
+      this.driveAxis(axes.x, 0, 'touch');
+      this.driveAxis(axes.y, 0, 'touch');
+    }
+  }
+
+  public addStatusListener(callback: (status: TouchStatus) => void): void {
+    this.statusListeners.push(callback);
+  }
+
+  private notifyStatus(): void {
+    const status = this.getStatus();
+    for (const listener of this.statusListeners) {
+      listener(status);
+    }
   }
 
   public destroy(): void {
-    this.containerElement.removeEventListener('touchstart', this.handleTouchStart.bind(this));
-    this.containerElement.removeEventListener('touchmove', this.handleTouchMove.bind(this));
-    this.containerElement.removeEventListener('touchend', this.handleTouchEnd.bind(this));
-    this.containerElement.removeEventListener('touchcancel', this.handleTouchEnd.bind(this));
-    this.inputCallbacks.clear();
-    this.activeInputs.clear();
+    window.removeEventListener('deviceorientation', this.handleOrientation);
+    this.releaseSticks();
+    this.releaseTilt();
+    this.statusListeners = [];
   }
 }
@@ -1,11 +1,22 @@
 import * as Cesium from 'cesium';
 import { CesiumVehicleGame } from '../bootstrap/main';
 import { TerrainAvoidanceSystem } from './TerrainAvoidanceSystem';
+import { CameraPath, SegmentTiming, applyEasing } from '../camera/CameraPath';
+
+/**
+ * Autopilot waypoint; the timing fields shape the move into this waypoint
+ * and the optional hold after reaching it
+ */
+export interface PathWaypoint extends SegmentTiming {
+    lat: number;
+    lon: number;
+}
 
 export class AutopilotManager {
     private game: CesiumVehicleGame;
     private isFlying: boolean = false;
     private guideLineEntity?: Cesium.Entity;
+    private guideTarget: Cesium.Cartographic | null = null;
     private terrainAvoidance: TerrainAvoidanceSystem | null = null;
 
     // Content creation mode settings
@@ -39,11 +50,11 @@ export class AutopilotManager {
         console.log(`🎬 Content Creation Mode: ${enabled ? 'ON' : 'OFF'}`);
     }
 
-    public async flyPath(waypoints: { lat: number; lon: number }[], options: { speed?: number; altitude?: number } = {}) {
+    public async flyPath(waypoints: PathWaypoint[], options: { speed?: number; altitude?: number } = {}) {
         if (this.isFlying || waypoints.length === 0) return;
 
         this.isFlying = true;
-        this.game.getInputManager().setInputLocked(true);
+        this.game.getInputManager().pushContext('autopilot');
 
         const viewer = this.game.getScene().viewer;
         const camera = viewer.camera;
@@ -82,7 +93,10 @@ export class AutopilotManager {
                 });
             }
 
-            for (const point of adjustedWaypoints) {
+            for (let i = 0; i < adjustedWaypoints.length; i++) {
+                const point = adjustedWaypoints[i];
+                const timing = waypoints[i];
+
                 // Dynamic speed adjustment based on terrain ahead
                 let pointSpeed = speed;
                 if (this.contentCreationMode && this.terrainAvoidance) {
@@ -101,11 +115,16 @@ export class AutopilotManager {
                     point.altitude
                 );
 
-                await this.flyToPointWithAvoidance(camera, destination, pointSpeed, viewer);
+                await this.flyToPointWithAvoidance(camera, destination, pointSpeed, viewer, timing);
+
+                if (timing.hold && timing.hold > 0 && this.isFlying) {
+                    console.log(`⏸️ Holding at waypoint ${i + 1} for ${timing.hold}s`);
+                    await new Promise(resolve => setTimeout(resolve, timing.hold! * 1000));
+                }
             }
         } finally {
             this.isFlying = false;
-            this.game.getInputManager().setInputLocked(false);
+            this.game.getInputManager().popContext('autopilot');
             console.log('✅ Autopilot Flight Complete');
         }
     }
@@ -114,12 +133,13 @@ export class AutopilotManager {
         camera: Cesium.Camera,
         destination: Cesium.Cartesian3,
         speed: number,
-        _viewer?: Cesium.Viewer // Optional, kept for API compatibility
+        _viewer?: Cesium.Viewer, // Optional, kept for API compatibility
+        timing?: SegmentTiming
     ): Promise<void> {
         return new Promise((resolve) => {
             const currentPos = camera.position;
             const distance = Cesium.Cartesian3.distance(currentPos, destination);
-            const duration = Math.max(3, distance / speed);
+            const duration = Math.max(3, distance / this.getGroundSpeed(currentPos, destination, speed));
 
             // Check if destination is safe
             if (this.contentCreationMode && this.terrainAvoidance) {
@@ -149,7 +169,7 @@ export class AutopilotManager {
                     roll: 0.0,
                 },
                 duration: duration,
-                easingFunction: Cesium.EasingFunction.QUADRATIC_IN_OUT,
+                easingFunction: (time: number) => applyEasing(timing, time, 'easeInOut'),
                 complete: () => resolve(),
                 cancel: () => {
                     this.isFlying = false;
@@ -159,6 +179,24 @@ export class AutopilotManager {
         });
     }
 
+    /**
+     * Speed over the ground for a leg flown at `airspeed`: a tailwind shortens the leg,
+     * a headwind stretches it. Never drops below half the airspeed.
+     */
+    private getGroundSpeed(from: Cesium.Cartesian3, to: Cesium.Cartesian3, airspeed: number): number {
+        const environment = this.game.getEnvironment();
+        const distance = Cesium.Cartesian3.distance(from, to);
+        if (distance < 1) return airspeed;
+
+        const midpoint = Cesium.Cartesian3.midpoint(from, to, new Cesium.Cartesian3());
+        const wind = environment.getWindFixed(midpoint, new Cesium.Cartesian3());
+        const direction = Cesium.Cartesian3.subtract(to, from, new Cesium.Cartesian3());
+        Cesium.Cartesian3.divideByScalar(direction, distance, direction);
+
+        const tailwind = Cesium.Cartesian3.dot(wind, direction);
+        return Math.max(airspeed * 0.5, airspeed + tailwind);
+    }
+
     // Legacy method for backward compatibility
     private _flyToPoint(camera: Cesium.Camera, destination: Cesium.Cartesian3, speed: number): Promise<void> {
         return this.flyToPointWithAvoidance(camera, destination, speed);
@@ -172,7 +210,7 @@ export class AutopilotManager {
         if (this.isLocked) this.stopLock();
 
         this.isOrbiting = true;
-        this.game.getInputManager().setInputLocked(true);
+        this.game.getInputManager().pushContext('autopilot');
 
         const viewer = this.game.getScene().viewer;
         const camera = viewer.camera;
@@ -217,7 +255,7 @@ export class AutopilotManager {
 
         if (this.isOrbiting) {
             this.isOrbiting = false;
-            this.game.getInputManager().setInputLocked(false);
+            this.game.getInputManager().popContext('autopilot');
 
             // Release camera from local frame
             const viewer = this.game.getScene().viewer;
@@ -230,42 +268,31 @@ export class AutopilotManager {
     private lockListener: Cesium.Event.RemoveCallback | undefined;
     private isLocked: boolean = false;
 
-    public flyPathWithTargetLock(path: Cesium.Cartographic[], target: Cesium.Cartographic, options: { speed?: number; duration?: number } = {}) {
+    public flyPathWithTargetLock(
+        path: Cesium.Cartographic[],
+        target: Cesium.Cartographic,
+        options: { speed?: number; duration?: number; timings?: SegmentTiming[] } = {}
+    ) {
         if (this.isLocked || path.length < 2) return;
         if (this.isOrbiting) this.stopOrbit();
         if (this.isFlying) this.isFlying = false; // Override normal flight if any
 
         this.isLocked = true;
-        this.game.getInputManager().setInputLocked(true);
+        this.game.getInputManager().pushContext('autopilot');
         console.log('🎯 Starting Target Lock Flight');
 
         const viewer = this.game.getScene().viewer;
         const camera = viewer.camera;
 
-        // Create Spline
         const cartesianPath = path.map(p => Cesium.Cartographic.toCartesian(p));
 
-        // Calculate Total Duration
-        let totalDuration = options.duration || 20;
-
-        // If speed is provided, it overrides duration (roughly)
-        if (options.speed && options.speed > 0) {
-            // Calculate total path length
-            let totalLength = 0;
-            for (let i = 0; i < cartesianPath.length - 1; i++) {
-                totalLength += Cesium.Cartesian3.distance(cartesianPath[i], cartesianPath[i + 1]);
-            }
-            totalDuration = totalLength / options.speed;
-        }
-
-        // Time points (normalized 0 to 1 would be easier, then scale by duration)
-        // Or specific times. Let's do equally spaced for simplicity of this demo.
-        const times = cartesianPath.map((_, i) => i / (cartesianPath.length - 1) * totalDuration);
-
-        const spline = new Cesium.CatmullRomSpline({
-            times: times,
-            points: cartesianPath
-        });
+        // Segment times follow arc length, so the camera keeps a steady speed however
+        // unevenly the waypoints are spaced; easing and holds are applied per segment
+        const segmentDurations = options.speed && options.speed > 0
+            ? CameraPath.durationsForSpeed(cartesianPath, options.speed)
+            : CameraPath.durationsForTotal(cartesianPath, options.duration || 20);
+        const cameraPath = new CameraPath(cartesianPath, segmentDurations, options.timings);
+        const totalDuration = cameraPath.getDuration();
 
         const targetPos = Cesium.Cartographic.toCartesian(target);
         const startTime = viewer.clock.currentTime.clone();
@@ -281,8 +308,10 @@ export class AutopilotManager {
                 return;
             }
 
-            // Sample Position
-            const currentPos = spline.evaluate(elapsed);
+            // Sample Position, buffeted by the turbulence along the path
+            const currentPos = cameraPath.evaluate(elapsed);
+            const buffet = this.game.getEnvironment().getTurbulenceOffset(currentPos, new Cesium.Cartesian3());
+            Cesium.Cartesian3.add(currentPos, buffet, currentPos);
 
             // Set Camera Position
             camera.position = currentPos;
@@ -321,7 +350,7 @@ export class AutopilotManager {
         }
         if (this.isLocked) {
             this.isLocked = false;
-            this.game.getInputManager().setInputLocked(false);
+            this.game.getInputManager().popContext('autopilot');
             console.log('⏹️ Stopped Target Lock Flight');
         }
     }
@@ -329,6 +358,7 @@ export class AutopilotManager {
     public showGuideLine(target: Cesium.Cartographic): void {
         const viewer = this.game.getScene().viewer;
         this.hideGuideLine(); // Clear existing
+        this.guideTarget = target;
 
         this.guideLineEntity = viewer.entities.add({
             polyline: {
@@ -347,6 +377,7 @@ export class AutopilotManager {
     }
 
     public hideGuideLine(): void {
+        this.guideTarget = null;
         if (this.guideLineEntity) {
             const viewer = this.game.getScene().viewer;
             viewer.entities.remove(this.guideLineEntity);
@@ -354,6 +385,13 @@ export class AutopilotManager {
         }
     }
 
+    /**
+     * Where the guide line points, or null while it is hidden
+     */
+    public getGuideTarget(): Cesium.Cartographic | null {
+        return this.guideTarget;
+    }
+
     public isActive(): boolean {
         return this.isFlying || this.isOrbiting || this.isLocked;
     }
@@ -89,6 +89,14 @@ export class CameraManager implements Updatable {
     for (const camera of this.cameras.values()) {
       camera.setTarget(vehicle);
     }
+
+    // Frame the new vehicle at its own distances
+    if (vehicle) {
+      const offsets = vehicle.getCameraOffsets();
+      this.getFollowCamera()?.setBaseDistance(offsets.followDistance);
+      this.getFollowCloseCamera()?.setBaseDistance(offsets.followCloseDistance);
+      this.getFPVCamera()?.setCameraOffset(offsets.fpvForward, offsets.fpvUp);
+    }
   }
 
   public update(deltaTime: number): void {
@@ -0,0 +1,295 @@
+import * as Cesium from 'cesium';
+import { Updatable } from '../core/GameLoop';
+import { CameraManager, CameraType } from './CameraManager';
+import { ArcLengthTable, SegmentTiming, applyEasing } from '../camera/CameraPath';
+
+export type KeyframeInterpolation = 'catmullRom' | 'hermite';
+
+/**
+ * Camera keyframe. The timing fields shape the move into this keyframe; a hold keeps
+ * the camera here for the start of the following segment.
+ */
+export interface CameraKeyframe extends SegmentTiming {
+  id: string;
+  time: number; // seconds
+  lat: number;
+  lon: number;
+  altitude: number;
+  heading: number; // degrees
+  pitch: number; // degrees
+  roll: number; // degrees
+  label?: string;
+}
+
+export interface KeyframeAnimatorState {
+  playing: boolean;
+  time: number;
+  duration: number;
+  keyframeCount: number;
+}
+
+type PositionSpline = Cesium.CatmullRomSpline | Cesium.HermiteSpline | Cesium.LinearSpline;
+
+/**
+ * Drives the Cesium camera through a list of keyframes.
+ * Positions follow a Catmull-Rom or natural-cubic Hermite curve, reparameterised by
+ * arc length so each segment's easing controls the actual speed. Orientations are
+ * slerped between neighbouring keyframes in the local east-north-up frame.
+ */
+export class KeyframeAnimator implements Updatable {
+  private camera: Cesium.Camera;
+  private cameraManager: CameraManager;
+
+  private keyframes: CameraKeyframe[] = [];
+  private interpolation: KeyframeInterpolation = 'catmullRom';
+  private positionSpline: PositionSpline | null = null;
+  private arcLengths: ArcLengthTable | null = null;
+  private positions: Cesium.Cartesian3[] = [];
+  private orientations: Cesium.Quaternion[] = [];
+
+  private time: number = 0;
+  private isPlaying: boolean = false;
+  private loop: boolean = false;
+  private isDrivingCamera: boolean = false;
+  private cameraRestore: CameraType | null = null;
+  private listeners: Array<(state: KeyframeAnimatorState) => void> = [];
+
+  private static readonly scratchPosition = new Cesium.Cartesian3();
+  private static readonly scratchQuaternion = new Cesium.Quaternion();
+  private static readonly scratchHpr = new Cesium.HeadingPitchRoll();
+
+  constructor(camera: Cesium.Camera, cameraManager: CameraManager) {
+    this.camera = camera;
+    this.cameraManager = cameraManager;
+  }
+
+  public update(deltaTime: number): void {
+    if (!this.isPlaying) return;
+
+    const duration = this.getDuration();
+    this.time += deltaTime;
+
+    if (this.time >= duration) {
+      if (this.loop && duration > 0) {
+        this.time %= duration;
+      } else {
+        this.time = duration;
+        this.applyPoseAt(this.time);
+        this.stop();
+        return;
+      }
+    }
+
+    this.applyPoseAt(this.time);
+    this.notifyListeners();
+  }
+
+  public setKeyframes(keyframes: CameraKeyframe[]): void {
+    this.keyframes = [...keyframes].sort((a, b) => a.time - b.time);
+    this.rebuildCurves();
+
+    if (this.keyframes.length < 2 && this.isPlaying) {
+      this.stop();
+    } else {
+      this.time = Cesium.Math.clamp(this.time, 0, this.getDuration());
+      if (this.isDrivingCamera) this.applyPoseAt(this.time);
+      this.notifyListeners();
+    }
+  }
+
+  public addKeyframe(keyframe: CameraKeyframe): void {
+    this.setKeyframes([...this.keyframes.filter(kf => kf.id !== keyframe.id), keyframe]);
+  }
+
+  public removeKeyframe(id: string): void {
+    this.setKeyframes(this.keyframes.filter(kf => kf.id !== id));
+  }
+
+  public getKeyframes(): CameraKeyframe[] {
+    return [...this.keyframes];
+  }
+
+  public setInterpolation(interpolation: KeyframeInterpolation): void {
+    this.interpolation = interpolation;
+    this.rebuildCurves();
+    if (this.isDrivingCamera) this.applyPoseAt(this.time);
+  }
+
+  public getInterpolation(): KeyframeInterpolation {
+    return this.interpolation;
+  }
+
+  public getDuration(): number {
+    if (this.keyframes.length === 0) return 0;
+    return this.keyframes[this.keyframes.length - 1].time - this.keyframes[0].time;
+  }
+
+  public play(loop: boolean = false): boolean {
+    if (this.keyframes.length < 2) {
+      console.warn('⚠️ Need at least two keyframes to play an animation');
+      return false;
+    }
+
+    this.loop = loop;
+    if (this.time >= this.getDuration()) {
+      this.time = 0;
+    }
+
+    this.takeCamera();
+    this.isPlaying = true;
+    this.applyPoseAt(this.time);
+    this.notifyListeners();
+    console.log(`▶️ Keyframe animation playing (${this.getDuration().toFixed(1)}s, ${this.interpolation})`);
+    return true;
+  }
+
+  /**
+   * Pause playback but keep the camera on the animated path
+   */
+  public pause(): void {
+    if (!this.isPlaying) return;
+    this.isPlaying = false;
+    this.notifyListeners();
+  }
+
+  /**
+   * Stop playback and hand the camera back to the previously active camera
+   */
+  public stop(): void {
+    const wasActive = this.isPlaying || this.isDrivingCamera;
+    this.isPlaying = false;
+    this.releaseCamera();
+
+    if (wasActive) {
+      this.notifyListeners();
+      console.log('⏹️ Keyframe animation stopped');
+    }
+  }
+
+  /**
+   * Jump to a time (relative to the first keyframe) and show that frame
+   */
+  public seek(time: number): void {
+    if (this.keyframes.length === 0) return;
+
+    this.time = Cesium.Math.clamp(time, 0, this.getDuration());
+    this.takeCamera();
+    this.applyPoseAt(this.time);
+    this.notifyListeners();
+  }
+
+  public isActive(): boolean {
+    return this.isPlaying;
+  }
+
+  public getState(): KeyframeAnimatorState {
+    return {
+      playing: this.isPlaying,
+      time: this.time,
+      duration: this.getDuration(),
+      keyframeCount: this.keyframes.length,
+    };
+  }
+
+  public addStateListener(callback: (state: KeyframeAnimatorState) => void): void {
+    this.listeners.push(callback);
+  }
+
+  private notifyListeners(): void {
+    const state = this.getState();
+    for (const listener of this.listeners) {
+      listener(state);
+    }
+  }
+
+  private takeCamera(): void {
+    if (this.isDrivingCamera) return;
+    this.cameraRestore = this.cameraManager.getActiveCameraType();
+    this.cameraManager.getActiveCamera()?.deactivate();
+    this.isDrivingCamera = true;
+  }
+
+  private releaseCamera(): void {
+    if (!this.isDrivingCamera) return;
+    this.isDrivingCamera = false;
+    if (this.cameraRestore) {
+      this.cameraManager.setActiveCamera(this.cameraRestore);
+      this.cameraRestore = null;
+    }
+  }
+
+  private rebuildCurves(): void {
+    this.positions = this.keyframes.map(kf => Cesium.Cartesian3.fromDegrees(kf.lon, kf.lat, kf.altitude));
+    this.orientations = this.keyframes.map(kf => Cesium.Quaternion.fromHeadingPitchRoll(
+      Cesium.HeadingPitchRoll.fromDegrees(kf.heading, kf.pitch, kf.roll)
+    ));
+
+    this.positionSpline = null;
+    this.arcLengths = null;
+    if (this.keyframes.length < 2) return;
+
+    const times = this.keyframes.map(kf => kf.time - this.keyframes[0].time);
+    if (times.some((t, i) => i > 0 && t <= times[i - 1])) {
+      console.warn('⚠️ Keyframes must have distinct times, animation disabled');
+      return;
+    }
+
+    const spline = this.interpolation === 'hermite'
+      ? Cesium.HermiteSpline.createNaturalCubic({ times, points: this.positions })
+      : new Cesium.CatmullRomSpline({ times, points: this.positions });
+    this.positionSpline = spline;
+    this.arcLengths = new ArcLengthTable((u, result) => spline.evaluate(u, result) as Cesium.Cartesian3, times);
+  }
+
+  private applyPoseAt(time: number): void {
+    if (this.keyframes.length === 0) return;
+
+    const first = this.keyframes[0].time;
+    const index = this.findSegmentIndex(first + time);
+    let position: Cesium.Cartesian3;
+    let orientation: Cesium.Quaternion;
+
+    const a = this.keyframes[index];
+    const b = this.keyframes[index + 1];
+    // The hold at `a` eats into the start of the segment
+    const moveStart = b ? a.time + Math.min(a.hold ?? 0, b.time - a.time) : a.time;
+
+    if (!this.positionSpline || !this.arcLengths || !b || first + time <= moveStart) {
+      position = this.positions[index];
+      orientation = this.orientations[index];
+    } else {
+      const t = applyEasing(b, (first + time - moveStart) / (b.time - moveStart));
+      const u = this.arcLengths.parameterAt(index, t);
+
+      position = this.positionSpline.evaluate(u, KeyframeAnimator.scratchPosition) as Cesium.Cartesian3;
+      orientation = Cesium.Quaternion.slerp(
+        this.orientations[index],
+        this.orientations[index + 1],
+        t,
+        KeyframeAnimator.scratchQuaternion
+      );
+    }
+
+    const hpr = Cesium.HeadingPitchRoll.fromQuaternion(orientation, KeyframeAnimator.scratchHpr);
+    this.camera.setView({
+      destination: position,
+      orientation: { heading: hpr.heading, pitch: hpr.pitch, roll: hpr.roll },
+      endTransform: Cesium.Matrix4.IDENTITY
+    });
+  }
+
+  // Binary search for the last keyframe at or before `time`
+  private findSegmentIndex(time: number): number {
+    let low = 0;
+    let high = this.keyframes.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (this.keyframes[mid].time <= time) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return low;
+  }
+}
@@ -1,22 +1,121 @@
+import * as Cesium from 'cesium';
 import { Scene } from '../core/Scene';
+import { GameLoop, Updatable } from '../core/GameLoop';
+import { VehicleManager } from './VehicleManager';
+import { CameraManager, CameraType } from './CameraManager';
+import type { VehicleState } from '../vehicles/Vehicle';
+import type { FFmpeg } from '@ffmpeg/ffmpeg';
 
-export class RecordingManager {
+export interface CameraPoseSample {
+    position: Cesium.Cartesian3;
+    direction: Cesium.Cartesian3;
+    up: Cesium.Cartesian3;
+    fov?: number;
+}
+
+export interface TelemetrySample {
+    time: number; // seconds since the track started
+    vehicle: VehicleState | null;
+    camera: CameraPoseSample;
+}
+
+export interface TelemetryTrack {
+    samples: TelemetrySample[];
+    duration: number;
+}
+
+export interface ReplayOptions {
+    // 'recorded' reproduces the original camera pose, a CameraType re-shoots the flight with that camera
+    camera?: 'recorded' | CameraType;
+    loop?: boolean;
+    startTime?: number;
+}
+
+export interface ReplayState {
+    active: boolean;
+    time: number;
+    duration: number;
+}
+
+export type OfflineRenderFormat = 'mp4' | 'webm' | 'gif';
+
+export interface OfflineRenderOptions {
+    fps: number;
+    duration?: number; // seconds, defaults to the telemetry track length
+    width?: number;
+    height?: number;
+    format?: OfflineRenderFormat;
+    quality?: number; // 50-100
+    fileName?: string;
+    replay?: ReplayOptions; // drive the render from the telemetry track
+}
+
+export interface OfflineRenderProgress {
+    active: boolean;
+    phase: 'rendering' | 'encoding' | 'done' | 'cancelled' | 'failed';
+    frame: number;
+    totalFrames: number;
+}
+
+const OFFLINE_FRAME_PATTERN = 'frame_%05d.jpg';
+const OFFLINE_TILE_TIMEOUT_MS = 15000;
+
+export class RecordingManager implements Updatable {
     private scene: Scene;
+    private gameLoop: GameLoop;
+    private vehicleManager: VehicleManager;
+    private cameraManager: CameraManager;
     private mediaRecorder: MediaRecorder | null = null;
     private chunks: Blob[] = [];
     private isRecording: boolean = false;
 
-    constructor(scene: Scene) {
+    // Telemetry track recording
+    private isTrackRecording: boolean = false;
+    private trackTime: number = 0;
+    private trackSamples: TelemetrySample[] = [];
+    private track: TelemetryTrack | null = null;
+    private removePostUpdateListener: Cesium.Event.RemoveCallback | null = null;
+
+    // Telemetry replay
+    private isReplaying: boolean = false;
+    private replayTime: number = 0;
+    private replayOptions: ReplayOptions = {};
+    private replayCameraRestore: CameraType | null = null;
+    private replayPhysicsRestore: boolean = true;
+    private replayListeners: Array<(state: ReplayState) => void> = [];
+
+    // Offline (frame-accurate) rendering
+    private isOfflineRendering: boolean = false;
+    private offlineRenderCancelled: boolean = false;
+    private renderProgressListeners: Array<(progress: OfflineRenderProgress) => void> = [];
+
+    private static readonly scratchReplayPosition = new Cesium.Cartesian3();
+    private static readonly scratchCameraPosition = new Cesium.Cartesian3();
+    private static readonly scratchCameraDirection = new Cesium.Cartesian3();
+    private static readonly scratchCameraUp = new Cesium.Cartesian3();
+
+    constructor(scene: Scene, gameLoop: GameLoop, vehicleManager: VehicleManager, cameraManager: CameraManager) {
         this.scene = scene;
+        this.gameLoop = gameLoop;
+        this.vehicleManager = vehicleManager;
+        this.cameraManager = cameraManager;
     }
 
-    public startRecording(): void {
+    /**
+     * Record the canvas in real time. When an output size is given the drawing buffer is
+     * locked to it for the duration of the recording.
+     */
+    public startRecording(size?: { width: number; height: number }): void {
         const canvas = this.scene.viewer.canvas;
         if (!canvas) {
             console.error('❌ Cannot start recording: Canvas not found');
             return;
         }
 
+        if (size) {
+            this.scene.setRenderSize(size.width, size.height);
+        }
+
         const stream = canvas.captureStream(60); // 60 FPS
         const options = { mimeType: 'video/webm; codecs=vp9' };
         
@@ -47,6 +146,7 @@ export class RecordingManager {
         if (this.mediaRecorder && this.isRecording) {
             this.mediaRecorder.stop();
             this.isRecording = false;
+            this.scene.clearRenderSize();
 
             await new Promise<void>((resolve) => {
                 if (this.mediaRecorder) {
@@ -70,17 +170,8 @@ export class RecordingManager {
         window.dispatchEvent(new CustomEvent('recording-conversion-start'));
 
         try {
-            const { FFmpeg } = await import('@ffmpeg/ffmpeg');
-            const { fetchFile, toBlobURL } = await import('@ffmpeg/util');
-
-            const ffmpeg = new FFmpeg();
-
-            // Load FFmpeg
-            const baseURL = 'https://unpkg.com/@ffmpeg/core@0.12.6/dist/umd';
-            await ffmpeg.load({
-                coreURL: await toBlobURL(`${baseURL}/ffmpeg-core.js`, 'text/javascript'),
-                wasmURL: await toBlobURL(`${baseURL}/ffmpeg-core.wasm`, 'application/wasm'),
-            });
+            const { fetchFile } = await import('@ffmpeg/util');
+            const ffmpeg = await this.loadFFmpeg();
 
             // Write raw webm to FFmpeg FS
             await ffmpeg.writeFile('input.webm', await fetchFile(blob));
@@ -93,14 +184,7 @@ export class RecordingManager {
             const mp4Blob = new Blob([data as any], { type: 'video/mp4' });
 
             // Download MP4
-            const url = URL.createObjectURL(mp4Blob);
-            const a = document.createElement('a');
-            a.href = url;
-            a.download = fileName || `flight-recording-${new Date().toISOString()}.mp4`;
-            document.body.appendChild(a);
-            a.click();
-            document.body.removeChild(a);
-            URL.revokeObjectURL(url);
+            this.downloadBlob(mp4Blob, fileName || `flight-recording-${new Date().toISOString()}.mp4`);
 
             console.log('💾 MP4 Recording saved');
         } catch (error) {
@@ -108,21 +192,534 @@ export class RecordingManager {
             alert('MP4 Conversion failed. Downloading WebM instead.');
 
             // Fallback to WebM using the existing blob
-            const url = URL.createObjectURL(blob);
-            const a = document.createElement('a');
-            a.href = url;
-            a.download = fileName ? fileName.replace('.mp4', '.webm') : `flight-recording-${new Date().toISOString()}.webm`;
-            document.body.appendChild(a);
-            a.click();
-            document.body.removeChild(a);
-            URL.revokeObjectURL(url);
+            this.downloadBlob(blob, fileName ? fileName.replace('.mp4', '.webm') : `flight-recording-${new Date().toISOString()}.webm`);
         } finally {
             // Notify UI that conversion ended
             window.dispatchEvent(new CustomEvent('recording-conversion-end'));
         }
     }
 
+    private async loadFFmpeg(): Promise<FFmpeg> {
+        const { FFmpeg } = await import('@ffmpeg/ffmpeg');
+        const { toBlobURL } = await import('@ffmpeg/util');
+
+        const ffmpeg = new FFmpeg();
+
+        // Load FFmpeg
+        const baseURL = 'https://unpkg.com/@ffmpeg/core@0.12.6/dist/umd';
+        await ffmpeg.load({
+            coreURL: await toBlobURL(`${baseURL}/ffmpeg-core.js`, 'text/javascript'),
+            wasmURL: await toBlobURL(`${baseURL}/ffmpeg-core.wasm`, 'application/wasm'),
+        });
+
+        return ffmpeg;
+    }
+
+    private downloadBlob(blob: Blob, fileName: string): void {
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = fileName;
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+        URL.revokeObjectURL(url);
+    }
+
     public isActive(): boolean {
         return this.isRecording;
     }
+
+    /**
+     * Frame-accurate export: pauses the GameLoop, advances the simulation by a fixed
+     * deltaTime per frame, waits for the tilesets to finish loading and only then
+     * captures the frame. Frames are encoded with FFmpeg once the pass completes.
+     */
+    public async renderOffline(options: OfflineRenderOptions): Promise<void> {
+        if (this.isOfflineRendering) return;
+        if (this.isRecording) {
+            console.warn('⚠️ Stop the live recording before starting an offline render');
+            return;
+        }
+
+        const fps = options.fps;
+        const deltaTime = 1 / fps;
+        const useTrack = options.replay !== undefined && this.track !== null;
+        const duration = options.duration ?? this.track?.duration ?? 0;
+        if (duration <= 0) {
+            console.warn('⚠️ Nothing to render: no duration given and no telemetry track recorded');
+            return;
+        }
+
+        const totalFrames = Math.max(1, Math.round(duration * fps));
+        const format = options.format ?? 'mp4';
+        const viewer = this.scene.viewer;
+        const clock = viewer.clock;
+        const clockRestore = {
+            clockStep: clock.clockStep,
+            multiplier: clock.multiplier,
+            shouldAnimate: clock.shouldAnimate
+        };
+
+        this.isOfflineRendering = true;
+        this.offlineRenderCancelled = false;
+        this.notifyRenderProgress({ active: true, phase: 'rendering', frame: 0, totalFrames });
+        console.log(`🎞️ Offline render started: ${totalFrames} frames @ ${fps} FPS`);
+
+        let ffmpeg: FFmpeg | null = null;
+        let framesWritten = 0;
+        // Exactly one terminal phase is reported, whichever way the render ends
+        let phase: OfflineRenderProgress['phase'] = 'rendering';
+
+        try {
+            ffmpeg = await this.loadFFmpeg();
+
+            // Take the simulation off the wall clock: every Cesium tick is exactly one frame
+            this.gameLoop.pause();
+            viewer.useDefaultRenderLoop = false;
+            if (options.width && options.height) {
+                this.scene.setRenderSize(options.width, options.height);
+            }
+            clock.clockStep = Cesium.ClockStep.TICK_DEPENDENT;
+            clock.multiplier = deltaTime;
+            clock.shouldAnimate = true;
+
+            if (useTrack) {
+                this.startReplay(options.replay);
+            }
+
+            const capture = this.createCaptureContext(options.width, options.height);
+
+            for (let frame = 0; frame < totalFrames; frame++) {
+                if (this.offlineRenderCancelled) break;
+
+                clock.tick();
+                this.gameLoop.step(deltaTime);
+
+                await this.renderUntilTilesLoaded();
+                const frameData = await this.captureFrame(capture);
+                await ffmpeg.writeFile(RecordingManager.frameFileName(frame), frameData);
+                framesWritten++;
+
+                this.notifyRenderProgress({ active: true, phase: 'rendering', frame: frame + 1, totalFrames });
+            }
+        } catch (error) {
+            console.error('Offline render failed:', error);
+            phase = 'failed';
+        } finally {
+            if (useTrack) {
+                this.stopReplay();
+            }
+            clock.clockStep = clockRestore.clockStep;
+            clock.multiplier = clockRestore.multiplier;
+            clock.shouldAnimate = clockRestore.shouldAnimate;
+            this.scene.clearRenderSize();
+            viewer.useDefaultRenderLoop = true;
+            this.gameLoop.resume();
+        }
+
+        if (phase === 'rendering') {
+            if (this.offlineRenderCancelled) {
+                phase = 'cancelled';
+            } else if (framesWritten === 0) {
+                phase = 'failed';
+            }
+        }
+
+        try {
+            if (phase === 'rendering' && ffmpeg) {
+                phase = 'encoding';
+                this.notifyRenderProgress({ active: true, phase, frame: framesWritten, totalFrames });
+                await this.encodeFrames(ffmpeg, fps, format, options.quality ?? 90, options.fileName);
+                phase = 'done';
+                console.log('💾 Offline render saved');
+            } else if (phase === 'cancelled') {
+                console.log('⏹️ Offline render cancelled');
+            }
+        } catch (error) {
+            console.error('Offline render encoding failed:', error);
+            phase = 'failed';
+        } finally {
+            ffmpeg?.terminate();
+            this.isOfflineRendering = false;
+            this.notifyRenderProgress({ active: false, phase, frame: framesWritten, totalFrames });
+        }
+    }
+
+    public cancelOfflineRender(): void {
+        if (this.isOfflineRendering) {
+            this.offlineRenderCancelled = true;
+        }
+    }
+
+    public isOfflineRenderActive(): boolean {
+        return this.isOfflineRendering;
+    }
+
+    public addRenderProgressListener(callback: (progress: OfflineRenderProgress) => void): void {
+        this.renderProgressListeners.push(callback);
+    }
+
+    private notifyRenderProgress(progress: OfflineRenderProgress): void {
+        for (const listener of this.renderProgressListeners) {
+            listener(progress);
+        }
+    }
+
+    private async renderUntilTilesLoaded(): Promise<void> {
+        const scene = this.scene.scene;
+        const time = this.scene.clock.currentTime;
+        const start = performance.now();
+
+        scene.render(time);
+        while (!this.scene.areTilesLoaded() && performance.now() - start < OFFLINE_TILE_TIMEOUT_MS) {
+            // Yield so tile requests can resolve, then render again at the same simulation time
+            await new Promise(resolve => setTimeout(resolve, 16));
+            scene.render(time);
+        }
+
+        if (!this.scene.areTilesLoaded()) {
+            console.warn('⚠️ Tiles still loading after timeout, capturing frame anyway');
+        }
+    }
+
+    private createCaptureContext(width?: number, height?: number): CanvasRenderingContext2D {
+        const source = this.scene.viewer.canvas;
+        const canvas = document.createElement('canvas');
+        // Encoders need even dimensions for yuv420p
+        canvas.width = RecordingManager.toEven(width ?? source.width);
+        canvas.height = RecordingManager.toEven(height ?? source.height);
+
+        const context = canvas.getContext('2d');
+        if (!context) {
+            throw new Error('Cannot create 2D context for frame capture');
+        }
+        return context;
+    }
+
+    private async captureFrame(context: CanvasRenderingContext2D): Promise<Uint8Array> {
+        const source = this.scene.viewer.canvas;
+        const target = context.canvas;
+
+        // The WebGL drawing buffer is only valid right after a render, so render and copy in one go
+        this.scene.scene.render(this.scene.clock.currentTime);
+
+        // Normally a 1:1 copy since the buffer is locked to the output size; center-crop otherwise
+        const targetAspect = target.width / target.height;
+        let sx = 0;
+        let sy = 0;
+        let sw = source.width;
+        let sh = source.height;
+        if (sw / sh > targetAspect) {
+            sw = sh * targetAspect;
+            sx = (source.width - sw) / 2;
+        } else {
+            sh = sw / targetAspect;
+            sy = (source.height - sh) / 2;
+        }
+        context.drawImage(source, sx, sy, sw, sh, 0, 0, target.width, target.height);
+
+        const blob = await new Promise<Blob | null>(resolve => target.toBlob(resolve, 'image/jpeg', 0.95));
+        if (!blob) {
+            throw new Error('Frame capture failed');
+        }
+        return new Uint8Array(await blob.arrayBuffer());
+    }
+
+    private async encodeFrames(
+        ffmpeg: FFmpeg,
+        fps: number,
+        format: OfflineRenderFormat,
+        quality: number,
+        fileName?: string
+    ): Promise<void> {
+        // Map 50-100% quality onto a CRF range of 31 (low) to 11 (high)
+        const crf = String(Math.round(51 - Cesium.Math.clamp(quality, 50, 100) * 0.4));
+        const output = `output.${format}`;
+
+        const codecArgs: Record<OfflineRenderFormat, string[]> = {
+            mp4: ['-c:v', 'libx264', '-pix_fmt', 'yuv420p', '-crf', crf],
+            webm: ['-c:v', 'libvpx-vp9', '-pix_fmt', 'yuv420p', '-b:v', '0', '-crf', crf],
+            gif: ['-vf', 'split[a][b];[a]palettegen[p];[b][p]paletteuse'],
+        };
+        const mimeTypes: Record<OfflineRenderFormat, string> = {
+            mp4: 'video/mp4',
+            webm: 'video/webm',
+            gif: 'image/gif',
+        };
+
+        await ffmpeg.exec(['-framerate', String(fps), '-i', OFFLINE_FRAME_PATTERN, ...codecArgs[format], output]);
+
+        const data = await ffmpeg.readFile(output);
+        const blob = new Blob([data as any], { type: mimeTypes[format] });
+        const name = fileName
+            ? (fileName.endsWith(`.${format}`) ? fileName : `${fileName}.${format}`)
+            : `flight-render-${new Date().toISOString()}.${format}`;
+        this.downloadBlob(blob, name);
+    }
+
+    private static frameFileName(frame: number): string {
+        return `frame_${String(frame + 1).padStart(5, '0')}.jpg`;
+    }
+
+    private static toEven(value: number): number {
+        return Math.max(2, Math.round(value / 2) * 2);
+    }
+
+    /**
+     * Drives an active replay. Registered in the GameLoop before the CameraManager
+     * so that live cameras follow the replayed vehicle pose in the same frame.
+     */
+    public update(deltaTime: number): void {
+        if (this.isTrackRecording) {
+            this.trackTime += deltaTime;
+        }
+
+        if (!this.isReplaying || !this.track) return;
+
+        this.replayTime += deltaTime;
+        if (this.replayTime >= this.track.duration) {
+            if (this.replayOptions.loop && this.track.duration > 0) {
+                this.replayTime %= this.track.duration;
+            } else {
+                this.applySampleAt(this.track.duration);
+                this.stopReplay();
+                return;
+            }
+        }
+
+        this.applySampleAt(this.replayTime);
+    }
+
+    /**
+     * Start sampling the active vehicle state and camera pose every GameLoop tick
+     */
+    public startTrackRecording(): void {
+        if (this.isTrackRecording) return;
+        if (this.isReplaying) this.stopReplay();
+
+        this.trackSamples = [];
+        this.trackTime = 0;
+        this.isTrackRecording = true;
+
+        // Sample after the GameLoop (preUpdate) has moved both vehicle and camera for this frame
+        this.removePostUpdateListener = this.scene.scene.postUpdate.addEventListener(() => {
+            this.captureSample();
+        });
+
+        console.log('📼 Telemetry track recording started');
+    }
+
+    public stopTrackRecording(): TelemetryTrack | null {
+        if (!this.isTrackRecording) return this.track;
+
+        this.isTrackRecording = false;
+        if (this.removePostUpdateListener) {
+            this.removePostUpdateListener();
+            this.removePostUpdateListener = null;
+        }
+
+        if (this.trackSamples.length > 0) {
+            this.track = {
+                samples: this.trackSamples,
+                duration: this.trackSamples[this.trackSamples.length - 1].time
+            };
+            console.log(`📼 Telemetry track recorded: ${this.track.samples.length} samples, ${this.track.duration.toFixed(1)}s`);
+        }
+        this.trackSamples = [];
+
+        return this.track;
+    }
+
+    public isTrackRecordingActive(): boolean {
+        return this.isTrackRecording;
+    }
+
+    public getTrack(): TelemetryTrack | null {
+        return this.track;
+    }
+
+    public setTrack(track: TelemetryTrack | null): void {
+        if (this.isReplaying) this.stopReplay();
+        this.track = track;
+    }
+
+    private captureSample(): void {
+        const vehicle = this.vehicleManager.getActiveVehicle();
+        const camera = this.scene.camera;
+        const frustum = camera.frustum;
+
+        let vehicleState: VehicleState | null = null;
+        if (vehicle && vehicle.isModelReady()) {
+            const state = vehicle.getState();
+            // getState() hands out a shared scratch position, so keep our own copy
+            vehicleState = { ...state, position: Cesium.Cartesian3.clone(state.position) };
+        }
+
+        this.trackSamples.push({
+            time: this.trackTime,
+            vehicle: vehicleState,
+            camera: {
+                position: Cesium.Cartesian3.clone(camera.positionWC),
+                direction: Cesium.Cartesian3.clone(camera.directionWC),
+                up: Cesium.Cartesian3.clone(camera.upWC),
+                fov: frustum instanceof Cesium.PerspectiveFrustum ? frustum.fov : undefined
+            }
+        });
+    }
+
+    /**
+     * Replay the recorded track, driving the vehicle (and optionally the camera) from
+     * the buffer instead of physics
+     */
+    public startReplay(options: ReplayOptions = {}): boolean {
+        if (!this.track || this.track.samples.length === 0) {
+            console.warn('⚠️ No telemetry track to replay');
+            return false;
+        }
+        if (this.isTrackRecording) this.stopTrackRecording();
+        if (this.isReplaying) this.stopReplay();
+
+        this.replayOptions = { camera: 'recorded', ...options };
+        this.replayTime = Cesium.Math.clamp(options.startTime ?? 0, 0, this.track.duration);
+        this.isReplaying = true;
+
+        const vehicle = this.vehicleManager.getActiveVehicle();
+        if (vehicle) {
+            this.replayPhysicsRestore = vehicle.physicsEnabled;
+            vehicle.physicsEnabled = false;
+        }
+
+        this.replayCameraRestore = this.cameraManager.getActiveCameraType();
+        if (this.replayOptions.camera === 'recorded') {
+            this.cameraManager.getActiveCamera()?.deactivate();
+        } else if (this.replayOptions.camera) {
+            this.cameraManager.setActiveCamera(this.replayOptions.camera);
+        }
+
+        this.applySampleAt(this.replayTime);
+        this.notifyReplayListeners();
+        console.log(`▶️ Replaying telemetry track (${this.track.duration.toFixed(1)}s, camera: ${this.replayOptions.camera})`);
+        return true;
+    }
+
+    public stopReplay(): void {
+        if (!this.isReplaying) return;
+        this.isReplaying = false;
+
+        const vehicle = this.vehicleManager.getActiveVehicle();
+        if (vehicle) {
+            vehicle.physicsEnabled = this.replayPhysicsRestore;
+        }
+
+        if (this.replayCameraRestore) {
+            this.cameraManager.setActiveCamera(this.replayCameraRestore);
+            this.replayCameraRestore = null;
+        }
+
+        this.notifyReplayListeners();
+        console.log('⏹️ Telemetry replay stopped');
+    }
+
+    public seekReplay(time: number): void {
+        if (!this.track) return;
+        this.replayTime = Cesium.Math.clamp(time, 0, this.track.duration);
+        if (this.isReplaying) {
+            this.applySampleAt(this.replayTime);
+        }
+    }
+
+    public isReplayActive(): boolean {
+        return this.isReplaying;
+    }
+
+    public getReplayState(): ReplayState {
+        return {
+            active: this.isReplaying,
+            time: this.replayTime,
+            duration: this.track?.duration ?? 0
+        };
+    }
+
+    public addReplayListener(callback: (state: ReplayState) => void): void {
+        this.replayListeners.push(callback);
+    }
+
+    private notifyReplayListeners(): void {
+        const state = this.getReplayState();
+        for (const listener of this.replayListeners) {
+            listener(state);
+        }
+    }
+
+    private applySampleAt(time: number): void {
+        if (!this.track) return;
+        const samples = this.track.samples;
+        const index = this.findSampleIndex(time);
+        const a = samples[index];
+        const b = samples[Math.min(index + 1, samples.length - 1)];
+        const span = b.time - a.time;
+        const t = span > 0 ? Cesium.Math.clamp((time - a.time) / span, 0, 1) : 0;
+
+        const vehicle = this.vehicleManager.getActiveVehicle();
+        if (vehicle && a.vehicle && b.vehicle) {
+            vehicle.setState({
+                position: Cesium.Cartesian3.lerp(a.vehicle.position, b.vehicle.position, t, RecordingManager.scratchReplayPosition),
+                heading: Cesium.Math.zeroToTwoPi(RecordingManager.lerpAngle(a.vehicle.heading, b.vehicle.heading, t)),
+                pitch: RecordingManager.lerpAngle(a.vehicle.pitch, b.vehicle.pitch, t),
+                roll: RecordingManager.lerpAngle(a.vehicle.roll, b.vehicle.roll, t),
+                velocity: Cesium.Math.lerp(a.vehicle.velocity, b.vehicle.velocity, t),
+                speed: Cesium.Math.lerp(a.vehicle.speed, b.vehicle.speed, t)
+            });
+        }
+
+        if (this.replayOptions.camera === 'recorded') {
+            this.applyCameraPose(a.camera, b.camera, t);
+        }
+    }
+
+    private applyCameraPose(a: CameraPoseSample, b: CameraPoseSample, t: number): void {
+        const camera = this.scene.camera;
+        const position = Cesium.Cartesian3.lerp(a.position, b.position, t, RecordingManager.scratchCameraPosition);
+        const direction = Cesium.Cartesian3.lerp(a.direction, b.direction, t, RecordingManager.scratchCameraDirection);
+        const up = Cesium.Cartesian3.lerp(a.up, b.up, t, RecordingManager.scratchCameraUp);
+        Cesium.Cartesian3.normalize(direction, direction);
+        Cesium.Cartesian3.normalize(up, up);
+
+        camera.setView({
+            destination: position,
+            orientation: { direction, up },
+            endTransform: Cesium.Matrix4.IDENTITY
+        });
+
+        if (a.fov !== undefined && b.fov !== undefined && camera.frustum instanceof Cesium.PerspectiveFrustum) {
+            camera.frustum.fov = Cesium.Math.lerp(a.fov, b.fov, t);
+        }
+    }
+
+    // Binary search for the last sample at or before `time`
+    private findSampleIndex(time: number): number {
+        const samples = this.track!.samples;
+        let low = 0;
+        let high = samples.length - 1;
+        while (low < high) {
+            const mid = (low + high + 1) >> 1;
+            if (samples[mid].time <= time) {
+                low = mid;
+            } else {
+                high = mid - 1;
+            }
+        }
+        return low;
+    }
+
+    private static lerpAngle(start: number, end: number, t: number): number {
+        let delta = end - start;
+        if (delta > Math.PI) {
+            delta -= Cesium.Math.TWO_PI;
+        } else if (delta < -Math.PI) {
+            delta += Cesium.Math.TWO_PI;
+        }
+        return start + delta * t;
+    }
 }
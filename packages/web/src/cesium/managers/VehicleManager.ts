@@ -1,22 +1,44 @@
 import * as Cesium from 'cesium';
 import { Vehicle } from '../vehicles/Vehicle';
-import { Car } from '../vehicles/car/Car';
 import { Aircraft } from '../vehicles/aircraft/Aircraft';
+import { FlyingVehicle } from '../vehicles/FlyingVehicle';
+import { Boat } from '../vehicles/boat/Boat';
+import { DEFAULT_VEHICLE_ID, VehicleRegistry } from '../vehicles/VehicleRegistry';
+import type { FlightModelType } from '../vehicles/aircraft/AircraftPhysics';
 import { Scene } from '../core/Scene';
 import { Updatable } from '../core/GameLoop';
 import { InputManager } from '../input/InputManager';
+import type { Environment } from '../core/Environment';
 
 const DEFAULT_SPAWN_LOCATION = {
   lng: 11.9746,
   lat: 57.7089
 };
 
+/**
+ * Where a restart puts the vehicle back
+ */
+export interface RestartPoint {
+  position: Cesium.Cartesian3;
+  heading: number;
+  onGround?: boolean; // aircraft restart parked on the ground below
+}
+
 export class VehicleManager implements Updatable {
   private vehicles: Map<string, Vehicle> = new Map();
   private activeVehicle: Vehicle | null = null;
   private scene: Scene;
   private onVehicleChangeCallback: ((vehicle: Vehicle) => void) | null = null;
   private onVehicleChangeCallbacks: Array<(vehicle: Vehicle) => void> = [];
+  private aircraftFlightModel: FlightModelType = 'arcade';
+  private environment: Environment | null = null;
+  private registry: VehicleRegistry = new VehicleRegistry();
+  // What the vehicle toggle switches to; any flying vehicle counts as the aircraft
+  private lastAircraftId: string = DEFAULT_VEHICLE_ID;
+  private lastGroundVehicleId: string = 'car';
+  private flightStart: RestartPoint | null = null;
+  private checkpoint: RestartPoint | null = null;
+  private restartListeners: Array<(vehicle: Vehicle) => void> = [];
 
   constructor(scene: Scene) {
     this.scene = scene;
@@ -140,43 +162,44 @@ export class VehicleManager implements Updatable {
     return null;
   }
 
-  public async spawnCar(id: string = 'car', position?: Cesium.Cartesian3, heading: number = 0): Promise<Vehicle> {
+  /**
+   * Spawn a vehicle from the registry, replacing the active one
+   */
+  public async spawnVehicle(definitionId: string, position?: Cesium.Cartesian3, heading: number = 0): Promise<Vehicle> {
+    const definition = this.registry.get(definitionId);
+    if (!definition) {
+      throw new Error(`Unknown vehicle "${definitionId}"`);
+    }
+
+    const onSurface = definition.kind === 'car' || definition.kind === 'boat';
     const spawnPosition = position || Cesium.Cartesian3.fromDegrees(
       DEFAULT_SPAWN_LOCATION.lng,
       DEFAULT_SPAWN_LOCATION.lat,
-      100
+      onSurface ? 100 : 200
     );
-    
-    const car = new Car(id, {
-      modelUrl: './walter.glb',
-      scale: 10,
-      position: spawnPosition,
-      heading,
-      modelHeadingOffset: Cesium.Math.toRadians(90)
-    });
 
-    await this.addVehicle(car);
-    this.scene.setVehicleQualityMode('car');
-    return car;
+    const vehicle = this.registry.create(definitionId, spawnPosition, heading, this.aircraftFlightModel);
+    if (vehicle instanceof FlyingVehicle || vehicle instanceof Boat) {
+      vehicle.setEnvironment(this.environment);
+    }
+    if (vehicle instanceof FlyingVehicle) {
+      this.lastAircraftId = definitionId;
+    } else {
+      this.lastGroundVehicleId = definitionId;
+    }
+
+    this.setFlightStart(spawnPosition, heading);
+    await this.addVehicle(vehicle);
+    this.scene.setVehicleQualityMode(onSurface ? 'car' : 'aircraft');
+    return vehicle;
   }
 
-  public async spawnAircraft(id: string = 'aircraft', position?: Cesium.Cartesian3, heading: number = 0): Promise<Vehicle> {
-    const spawnPosition = position || Cesium.Cartesian3.fromDegrees(
-      DEFAULT_SPAWN_LOCATION.lng,
-      DEFAULT_SPAWN_LOCATION.lat,
-      200
-    );
-    
-    const aircraft = new Aircraft(id, {
-      modelUrl: './plane.glb',
-      scale: 5,
-      position: spawnPosition,
-      heading
-    });
+  public spawnCar(position?: Cesium.Cartesian3, heading: number = 0): Promise<Vehicle> {
+    return this.spawnVehicle(this.lastGroundVehicleId, position, heading);
+  }
 
-    await this.addVehicle(aircraft);
-    this.scene.setVehicleQualityMode('aircraft');
-    return aircraft;
+  public spawnAircraft(position?: Cesium.Cartesian3, heading: number = 0): Promise<Vehicle> {
+    return this.spawnVehicle(this.lastAircraftId, position, heading);
   }
 
   public async toggleVehicleType(): Promise<void> {
@@ -184,39 +207,131 @@ export class VehicleManager implements Updatable {
     if (!active) return;
 
     const state = active.getState();
-    const isAircraft = active instanceof Aircraft;
-
-    if (isAircraft) {
+    if (active instanceof FlyingVehicle) {
       console.log('🛬 Switching to Vehicle');
-      await this.spawnCar('car', state.position, state.heading);
+      await this.spawnCar(state.position, state.heading);
     } else {
       console.log('🛫 Switching to Aircraft');
-      await this.spawnAircraft('aircraft', state.position, state.heading);
+      await this.spawnAircraft(state.position, state.heading);
     }
   }
 
-  public async restartCurrentVehicle(): Promise<void> {
+  public getRegistry(): VehicleRegistry {
+    return this.registry;
+  }
+
+  /**
+   * Registry id of the active vehicle
+   */
+  public getActiveVehicleId(): string | null {
+    return this.activeVehicle?.id ?? null;
+  }
+
+  /**
+   * Choose the flight model for aircraft spawned from now on. An active aircraft is
+   * respawned in place with the new model.
+   */
+  public async setAircraftFlightModel(model: FlightModelType): Promise<void> {
+    if (this.aircraftFlightModel === model) return;
+    this.aircraftFlightModel = model;
+    console.log(`✈️ Flight model: ${model}`);
+
+    const active = this.activeVehicle;
+    if (active instanceof Aircraft) {
+      const state = active.getState();
+      await this.spawnVehicle(active.id, Cesium.Cartesian3.clone(state.position), state.heading);
+    }
+  }
+
+  public getAircraftFlightModel(): FlightModelType {
+    return this.aircraftFlightModel;
+  }
+
+  /**
+   * Wind field that flying vehicles move through and that raises waves for boats
+   */
+  public setEnvironment(environment: Environment | null): void {
+    this.environment = environment;
+    for (const vehicle of this.vehicles.values()) {
+      if (vehicle instanceof FlyingVehicle || vehicle instanceof Boat) {
+        vehicle.setEnvironment(environment);
+      }
+    }
+  }
+
+  /**
+   * Start a new flight from here: restarts come back to this point until a checkpoint
+   * is reached
+   */
+  public setFlightStart(position: Cesium.Cartesian3, heading: number, onGround: boolean = false): void {
+    this.flightStart = { position: Cesium.Cartesian3.clone(position), heading, onGround };
+    this.checkpoint = null;
+  }
+
+  /**
+   * Park the active aircraft on the ground below it, ready for a take-off roll, and
+   * start the flight from there
+   */
+  public startOnGround(): void {
+    const active = this.activeVehicle;
+    if (!(active instanceof Aircraft)) return;
+
+    active.startOnGround();
+    const state = active.getState();
+    this.setFlightStart(state.position, state.heading, true);
+  }
+
+  public setCheckpoint(position: Cesium.Cartesian3, heading: number): void {
+    this.checkpoint = { position: Cesium.Cartesian3.clone(position), heading };
+  }
+
+  /**
+   * The last checkpoint, else the start of the flight
+   */
+  public getRestartPoint(): RestartPoint {
+    return this.checkpoint ?? this.flightStart ?? {
+      position: Cesium.Cartesian3.fromDegrees(DEFAULT_SPAWN_LOCATION.lng, DEFAULT_SPAWN_LOCATION.lat, 200),
+      heading: 0,
+    };
+  }
+
+  /**
+   * Put the active vehicle back at the restart point, repaired and at rest
+   */
+  public restartCurrentVehicle(): void {
     const active = this.activeVehicle;
     if (!active) return;
 
-    const isAircraft = active instanceof Aircraft;
-    const originalSpawn = Cesium.Cartesian3.fromDegrees(
-      DEFAULT_SPAWN_LOCATION.lng,
-      DEFAULT_SPAWN_LOCATION.lat,
-      isAircraft ? 200 : 100
-    );
-    const heading = 0;
+    const point = this.getRestartPoint();
+    if (active instanceof FlyingVehicle) {
+      active.resetCrash();
+    }
+    active.setState({
+      ...active.getState(),
+      position: Cesium.Cartesian3.clone(point.position),
+      heading: point.heading,
+      pitch: 0,
+      roll: 0,
+      velocity: 0,
+      speed: 0
+    });
 
-    if (isAircraft) {
-      await this.spawnAircraft('aircraft', originalSpawn, heading);
-    } else {
-      await this.spawnCar('car', originalSpawn, heading);
+    if (point.onGround && active instanceof Aircraft) {
+      active.startOnGround();
+    }
+
+    console.log(`🔄 Restarted at ${this.checkpoint ? 'last checkpoint' : 'flight start'}`);
+    for (const listener of this.restartListeners) {
+      listener(active);
     }
   }
 
-  public handleInput(inputName: string, pressed: boolean): void {
+  /**
+   * Forward a control to the active vehicle; value is how far it is held, 0 to 1
+   */
+  public handleInput(inputName: string, pressed: boolean, value: number = pressed ? 1 : 0): void {
     if (!this.activeVehicle) return;
-    this.activeVehicle.setInput({ [inputName]: pressed });
+    this.activeVehicle.setInput({ [inputName]: value });
   }
 
   public setTargetSpeed(speed: number): void {
@@ -225,14 +340,14 @@ export class VehicleManager implements Updatable {
   }
 
   public setupInputHandling(inputManager: InputManager): void {
-    inputManager.onInput('throttle', (pressed) => this.handleInput('throttle', pressed));
-    inputManager.onInput('brake', (pressed) => this.handleInput('brake', pressed));
-    inputManager.onInput('turnLeft', (pressed) => this.handleInput('turnLeft', pressed));
-    inputManager.onInput('turnRight', (pressed) => this.handleInput('turnRight', pressed));
-    inputManager.onInput('altitudeUp', (pressed) => this.handleInput('altitudeUp', pressed));
-    inputManager.onInput('altitudeDown', (pressed) => this.handleInput('altitudeDown', pressed));
-    inputManager.onInput('rollLeft', (pressed) => this.handleInput('rollLeft', pressed));
-    inputManager.onInput('rollRight', (pressed) => this.handleInput('rollRight', pressed));
+    inputManager.onInput('throttle', (pressed, value) => this.handleInput('throttle', pressed, value));
+    inputManager.onInput('brake', (pressed, value) => this.handleInput('brake', pressed, value));
+    inputManager.onInput('turnLeft', (pressed, value) => this.handleInput('turnLeft', pressed, value));
+    inputManager.onInput('turnRight', (pressed, value) => this.handleInput('turnRight', pressed, value));
+    inputManager.onInput('altitudeUp', (pressed, value) => this.handleInput('altitudeUp', pressed, value));
+    inputManager.onInput('altitudeDown', (pressed, value) => this.handleInput('altitudeDown', pressed, value));
+    inputManager.onInput('rollLeft', (pressed, value) => this.handleInput('rollLeft', pressed, value));
+    inputManager.onInput('rollRight', (pressed, value) => this.handleInput('rollRight', pressed, value));
 
     inputManager.onTargetSpeedChange((speed) => this.setTargetSpeed(speed));
 
@@ -240,6 +355,12 @@ export class VehicleManager implements Updatable {
       if (pressed) this.toggleVehicleType();
     });
 
+    inputManager.onInput('toggleGear', (pressed) => {
+      if (pressed && this.activeVehicle instanceof Aircraft) {
+        this.activeVehicle.toggleGear();
+      }
+    });
+
     inputManager.onInput('toggleCollision', (pressed) => {
       if (pressed) {
         const vehicle = this.activeVehicle;
@@ -273,4 +394,8 @@ export class VehicleManager implements Updatable {
   public addVehicleChangeListener(callback: (vehicle: Vehicle) => void): void {
     this.onVehicleChangeCallbacks.push(callback);
   }
+
+  public addRestartListener(callback: (vehicle: Vehicle) => void): void {
+    this.restartListeners.push(callback);
+  }
 }
@@ -0,0 +1,405 @@
+import * as Cesium from 'cesium';
+import { Updatable } from '../core/GameLoop';
+import { VehicleManager } from '../managers/VehicleManager';
+import { RaceManager } from './RaceManager';
+
+export const GHOST_FILE_FORMAT = 'skyghost';
+export const GHOST_FILE_EXTENSION = '.skyghost';
+export const GHOST_FILE_VERSION = 1;
+
+export interface GhostSample {
+  time: number; // seconds since lap start
+  lon: number;
+  lat: number;
+  height: number;
+  heading: number; // radians, like VehicleState
+  pitch: number;
+  roll: number;
+}
+
+export interface GhostVehicle {
+  modelUrl: string;
+  scale: number;
+  modelHeadingOffset: number;
+}
+
+export interface GhostRun {
+  format: typeof GHOST_FILE_FORMAT;
+  version: number;
+  courseKey: string;
+  lapTime: number;
+  recordedAt: string;
+  vehicle: GhostVehicle;
+  samples: GhostSample[];
+}
+
+export interface GhostState {
+  available: boolean;
+  visible: boolean;
+  lapTime: number | null;
+}
+
+const SAMPLE_INTERVAL = 0.05; // seconds
+const GHOST_COLOR = Cesium.Color.WHITE.withAlpha(0.4);
+const GHOST_SAMPLE_FIELDS = ['time', 'lon', 'lat', 'height', 'heading', 'pitch', 'roll'] as const;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * The first field of a ghost sample that isn't a finite number, or null if there is none
+ */
+function findInvalidSampleField(value: unknown): keyof GhostSample | null {
+  if (!isRecord(value)) return GHOST_SAMPLE_FIELDS[0];
+  const field = GHOST_SAMPLE_FIELDS.find(name => typeof value[name] !== 'number' || !Number.isFinite(value[name]));
+  return field ?? null;
+}
+
+function isGhostSample(value: unknown): value is GhostSample {
+  return findInvalidSampleField(value) === null;
+}
+
+/**
+ * Records each race lap and keeps the best one per course as a ghost: a translucent
+ * copy of the vehicle model that replays the lap against the race clock.
+ */
+export class GhostManager implements Updatable {
+  private scene: Cesium.Scene;
+  private vehicleManager: VehicleManager;
+  private raceManager: RaceManager;
+
+  private ghosts: Map<string, GhostRun> = new Map();
+  private buffer: GhostSample[] = [];
+  private lastSampleTime: number = -Infinity;
+  private visible: boolean = true;
+
+  private model: Cesium.Model | null = null;
+  private modelUrl: string | null = null;
+  private modelLoading: boolean = false;
+  private listeners: Array<(state: GhostState) => void> = [];
+  private courseKey: string | null = null;
+
+  private static readonly scratchHpr = new Cesium.HeadingPitchRoll();
+  private static readonly scratchPosition = new Cesium.Cartesian3();
+
+  constructor(scene: Cesium.Scene, vehicleManager: VehicleManager, raceManager: RaceManager) {
+    this.scene = scene;
+    this.vehicleManager = vehicleManager;
+    this.raceManager = raceManager;
+
+    this.raceManager.addLapListener((lap) => {
+      // Same rule as RaceManager's best lap: a lap that skipped gates is never kept
+      if (lap.clean) {
+        this.keepBufferAsGhost(lap.time);
+      } else {
+        this.clearBuffer();
+      }
+    });
+    this.raceManager.addStateListener(() => {
+      const courseKey = this.raceManager.getCourseKey();
+      if (courseKey === this.courseKey) return;
+      this.courseKey = courseKey;
+      this.hideModel();
+      this.notifyListeners();
+    });
+  }
+
+  public update(_deltaTime: number): void {
+    const state = this.raceManager.getState();
+    if (state.phase !== 'running') {
+      this.hideModel();
+      return;
+    }
+
+    // The lap clock went backwards: a new lap or a restart, so start a fresh buffer
+    if (state.lapTime < this.lastSampleTime) {
+      this.clearBuffer();
+    }
+    if (state.lapTime - this.lastSampleTime >= SAMPLE_INTERVAL) {
+      this.captureSample(state.lapTime);
+    }
+
+    this.updateModel(state.lapTime);
+  }
+
+  private captureSample(time: number): void {
+    const vehicle = this.vehicleManager.getActiveVehicle();
+    if (!vehicle || !vehicle.isModelReady()) return;
+
+    const state = vehicle.getState();
+    const cartographic = Cesium.Cartographic.fromCartesian(state.position);
+    this.buffer.push({
+      time,
+      lon: Cesium.Math.toDegrees(cartographic.longitude),
+      lat: Cesium.Math.toDegrees(cartographic.latitude),
+      height: cartographic.height,
+      heading: state.heading,
+      pitch: state.pitch,
+      roll: state.roll,
+    });
+    this.lastSampleTime = time;
+  }
+
+  private keepBufferAsGhost(lapTime: number): void {
+    const courseKey = this.raceManager.getCourseKey();
+    const vehicle = this.vehicleManager.getActiveVehicle();
+    if (!courseKey || !vehicle || this.buffer.length < 2) return;
+
+    // RaceManager's best lap resets with every course edit and knows nothing of imported
+    // ghosts, so compare against the ghost actually stored for this course
+    const current = this.ghosts.get(courseKey);
+    if (current && current.lapTime <= lapTime) {
+      this.clearBuffer();
+      return;
+    }
+
+    this.ghosts.set(courseKey, {
+      format: GHOST_FILE_FORMAT,
+      version: GHOST_FILE_VERSION,
+      courseKey,
+      lapTime,
+      recordedAt: new Date().toISOString(),
+      vehicle: {
+        modelUrl: vehicle.config.modelUrl,
+        scale: vehicle.config.scale ?? 1,
+        modelHeadingOffset: vehicle.config.modelHeadingOffset ?? 0,
+      },
+      samples: this.buffer,
+    });
+    this.clearBuffer();
+
+    console.log(`👻 Ghost saved (${lapTime.toFixed(2)}s)`);
+    this.notifyListeners();
+  }
+
+  private clearBuffer(): void {
+    this.buffer = [];
+    this.lastSampleTime = -Infinity;
+  }
+
+  private getCurrentGhost(): GhostRun | null {
+    const courseKey = this.raceManager.getCourseKey();
+    return courseKey ? this.ghosts.get(courseKey) ?? null : null;
+  }
+
+  private updateModel(time: number): void {
+    const ghost = this.getCurrentGhost();
+    if (!ghost || !this.visible) {
+      this.hideModel();
+      return;
+    }
+
+    if (this.modelUrl !== ghost.vehicle.modelUrl) {
+      this.loadModel(ghost.vehicle);
+      return;
+    }
+    if (!this.model) return;
+
+    const samples = ghost.samples;
+    const last = samples[samples.length - 1];
+    // Past the end of the ghost lap it waits at the line
+    const index = this.findSampleIndex(samples, Math.min(time, last.time));
+    const a = samples[index];
+    const b = samples[Math.min(index + 1, samples.length - 1)];
+    const span = b.time - a.time;
+    const t = span > 0 ? Cesium.Math.clamp((time - a.time) / span, 0, 1) : 0;
+
+    const position = Cesium.Cartesian3.fromDegrees(
+      Cesium.Math.lerp(a.lon, b.lon, t),
+      Cesium.Math.lerp(a.lat, b.lat, t),
+      Cesium.Math.lerp(a.height, b.height, t),
+      Cesium.Ellipsoid.WGS84,
+      GhostManager.scratchPosition
+    );
+    const hpr = GhostManager.scratchHpr;
+    hpr.heading = GhostManager.lerpAngle(a.heading, b.heading, t) + ghost.vehicle.modelHeadingOffset;
+    hpr.pitch = GhostManager.lerpAngle(a.pitch, b.pitch, t);
+    hpr.roll = GhostManager.lerpAngle(a.roll, b.roll, t);
+
+    Cesium.Transforms.headingPitchRollToFixedFrame(position, hpr, Cesium.Ellipsoid.WGS84, undefined, this.model.modelMatrix);
+    this.model.show = true;
+  }
+
+  private async loadModel(vehicle: GhostVehicle): Promise<void> {
+    if (this.modelLoading) return;
+    this.modelLoading = true;
+    this.destroyModel();
+
+    try {
+      const model = await Cesium.Model.fromGltfAsync({
+        url: vehicle.modelUrl,
+        scale: vehicle.scale,
+        color: GHOST_COLOR,
+        colorBlendMode: Cesium.ColorBlendMode.MIX,
+        colorBlendAmount: 0.5,
+        shadows: Cesium.ShadowMode.DISABLED,
+      });
+      model.show = false;
+      this.model = this.scene.primitives.add(model);
+      this.modelUrl = vehicle.modelUrl;
+    } catch (error) {
+      console.error(`Failed to load ghost model: ${error}`);
+    } finally {
+      this.modelLoading = false;
+    }
+  }
+
+  private hideModel(): void {
+    if (this.model) {
+      this.model.show = false;
+    }
+  }
+
+  private destroyModel(): void {
+    if (this.model) {
+      this.scene.primitives.remove(this.model);
+      this.model = null;
+      this.modelUrl = null;
+    }
+  }
+
+  public setVisible(visible: boolean): void {
+    this.visible = visible;
+    if (!visible) this.hideModel();
+    this.notifyListeners();
+  }
+
+  public clearGhost(): void {
+    const courseKey = this.raceManager.getCourseKey();
+    if (courseKey && this.ghosts.delete(courseKey)) {
+      this.hideModel();
+      this.notifyListeners();
+    }
+  }
+
+  public getState(): GhostState {
+    const ghost = this.getCurrentGhost();
+    return {
+      available: !!ghost,
+      visible: this.visible,
+      lapTime: ghost?.lapTime ?? null,
+    };
+  }
+
+  public exportGhost(): void {
+    const ghost = this.getCurrentGhost();
+    if (!ghost) {
+      console.warn('⚠️ No ghost for this course yet');
+      return;
+    }
+
+    const blob = new Blob([JSON.stringify(ghost)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `ghost_${ghost.lapTime.toFixed(2).replace('.', '-')}s${GHOST_FILE_EXTENSION}`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+
+    console.log(`💾 Ghost exported (${ghost.lapTime.toFixed(2)}s)`);
+  }
+
+  /**
+   * Load a shared ghost for the armed course. Rejects if the file is unusable or was
+   * recorded on another course.
+   */
+  public async importGhost(file: Blob): Promise<GhostRun> {
+    const ghost = GhostManager.parseGhost(await file.text());
+    const courseKey = this.raceManager.getCourseKey();
+    if (!courseKey) {
+      throw new Error('Arm a race before importing a ghost');
+    }
+    if (ghost.courseKey !== courseKey) {
+      throw new Error('Ghost was recorded on a different course');
+    }
+
+    this.ghosts.set(courseKey, ghost);
+    console.log(`👻 Ghost imported (${ghost.lapTime.toFixed(2)}s)`);
+    this.notifyListeners();
+    return ghost;
+  }
+
+  private static parseGhost(text: string): GhostRun {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new Error('Ghost file is not valid JSON');
+    }
+
+    if (!isRecord(data) || data.format !== GHOST_FILE_FORMAT) {
+      throw new Error('Not a ghost file');
+    }
+    if (data.version !== GHOST_FILE_VERSION) {
+      throw new Error(`Unsupported ghost file version ${data.version}`);
+    }
+    if (typeof data.courseKey !== 'string' || typeof data.lapTime !== 'number') {
+      throw new Error('Ghost file is missing its course or lap time');
+    }
+    const vehicle = data.vehicle;
+    if (!isRecord(vehicle) || typeof vehicle.modelUrl !== 'string') {
+      throw new Error('Ghost file has no vehicle model');
+    }
+    const samples = data.samples;
+    if (!Array.isArray(samples) || samples.length < 2) {
+      throw new Error('Ghost file has no track');
+    }
+    const track: GhostSample[] = [];
+    samples.forEach((sample: unknown, i: number) => {
+      if (!isGhostSample(sample)) {
+        throw new Error(`samples[${i}].${findInvalidSampleField(sample)} must be a number`);
+      }
+      track.push(sample);
+    });
+
+    return {
+      format: GHOST_FILE_FORMAT,
+      version: GHOST_FILE_VERSION,
+      courseKey: data.courseKey,
+      lapTime: data.lapTime,
+      recordedAt: typeof data.recordedAt === 'string' ? data.recordedAt : new Date().toISOString(),
+      vehicle: {
+        modelUrl: vehicle.modelUrl,
+        scale: typeof vehicle.scale === 'number' ? vehicle.scale : 1,
+        modelHeadingOffset: typeof vehicle.modelHeadingOffset === 'number' ? vehicle.modelHeadingOffset : 0,
+      },
+      samples: track,
+    };
+  }
+
+  public addStateListener(callback: (state: GhostState) => void): void {
+    this.listeners.push(callback);
+  }
+
+  private notifyListeners(): void {
+    const state = this.getState();
+    for (const listener of this.listeners) {
+      listener(state);
+    }
+  }
+
+  private findSampleIndex(samples: GhostSample[], time: number): number {
+    let low = 0;
+    let high = samples.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (samples[mid].time <= time) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return low;
+  }
+
+  private static lerpAngle(a: number, b: number, t: number): number {
+    return a + Cesium.Math.negativePiToPi(b - a) * t;
+  }
+
+  public destroy(): void {
+    this.destroyModel();
+  }
+}
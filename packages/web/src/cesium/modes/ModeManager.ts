@@ -15,13 +15,30 @@ export class ModeManager {
     console.log(`🔄 Mode transition: ${from} → ${to}`);
     this.currentMode = to;
     
+    if (from === 'builder') {
+      this.exitBuilderMode();
+    } else if (from === 'race') {
+      this.exitRaceMode();
+    }
+
     if (to === 'builder') {
       this.enterBuilderMode();
-    } else if (to === 'play') {
-      this.exitBuilderMode();
+    } else if (to === 'race') {
+      this.enterRaceMode();
     }
   }
 
+  private enterRaceMode(): void {
+    console.log('🏁 Entering race mode...');
+    if (!this.game.getRaceManager().arm()) {
+      console.warn('⚠️ Race mode has no course, flying freely');
+    }
+  }
+
+  private exitRaceMode(): void {
+    this.game.getRaceManager().disarm();
+  }
+
   public setCameraSpeed(speed: number): void {
     this.cameraSpeed = speed;
     console.log(`📷 Camera speed set to ${speed} m/s`);
@@ -29,6 +46,7 @@ export class ModeManager {
 
   private enterBuilderMode(): void {
     console.log('🏗️ Entering builder mode...');
+    this.game.getInputManager().pushContext('builder');
     
     const scene = this.game.getScene();
     const vehicleManager = this.game.getVehicleManager();
@@ -103,46 +121,29 @@ export class ModeManager {
 
     const moveAmount = this.cameraSpeed * dt;
 
-    // WASD Handling (Mapped to Throttle/Brake/TurnLeft/TurnRight)
-    if (input.isPressed('throttle')) { // W
+    if (input.isPressed('builderForward')) {
       camera.moveForward(moveAmount);
     }
-    if (input.isPressed('brake')) { // S
+    if (input.isPressed('builderBack')) {
       camera.moveBackward(moveAmount);
     }
-    if (input.isPressed('turnLeft')) { // A
+    if (input.isPressed('builderLeft')) {
       camera.moveLeft(moveAmount);
     }
-    if (input.isPressed('turnRight')) { // D
+    if (input.isPressed('builderRight')) {
       camera.moveRight(moveAmount);
     }
-
-    // Vertical Movement (Q/E or Arrows)
-    // InputManager maps Q->rollLeft, E->rollRight. 
-    // Builder Mode: Q = Down, E = Up? Or Shift/Space?
-    // Let's check InputManager again.
-    // Q=rollLeft, E=rollRight.
-    // ArrowUp=altitudeUp, ArrowDown=altitudeDown.
-
-    if (input.isPressed('rollRight')) { // E -> Up
-      camera.moveUp(moveAmount);
-    }
-    if (input.isPressed('rollLeft')) { // Q -> Down
-      camera.moveDown(moveAmount);
-    }
-
-    // Also support Arrows for altitude if desired, or leave them for rotation? 
-    // InputManager maps arrows to altitudeUp/Down (Up/Down) and turnLeft/Right (Left/Right).
-    if (input.isPressed('altitudeUp')) {
+    if (input.isPressed('builderUp')) {
       camera.moveUp(moveAmount);
     }
-    if (input.isPressed('altitudeDown')) {
+    if (input.isPressed('builderDown')) {
       camera.moveDown(moveAmount);
     }
   }
 
   private exitBuilderMode(): void {
     console.log('🎮 Exiting builder mode...');
+    this.game.getInputManager().popContext('builder');
     
     if (this.removeTickListener) {
       this.removeTickListener();
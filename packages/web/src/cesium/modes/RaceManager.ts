@@ -0,0 +1,372 @@
+import * as Cesium from 'cesium';
+import { Updatable } from '../core/GameLoop';
+import { ObjectManager } from '../builder/ObjectManager';
+import { VehicleManager } from '../managers/VehicleManager';
+import { GameObject } from '../objects/GameObject';
+import { GateObject } from '../objects/GateObject';
+
+export type RacePhase = 'idle' | 'armed' | 'running' | 'finished';
+
+export interface RaceSplit {
+  gateId: string;
+  gateIndex: number;
+  time: number; // seconds since lap start
+  delta: number | null; // vs the best lap's split at this gate
+  missed: boolean;
+}
+
+export interface RaceLap {
+  lap: number;
+  time: number;
+  splits: RaceSplit[];
+  missedGates: number;
+  clean: boolean;
+  best: boolean;
+}
+
+export interface RaceState {
+  phase: RacePhase;
+  lap: number;
+  totalLaps: number;
+  lapTime: number;
+  totalTime: number;
+  nextGate: number;
+  gateCount: number;
+  splits: RaceSplit[];
+  bestLapTime: number | null;
+  lastLap: RaceLap | null;
+}
+
+export interface RaceCourse {
+  start: GateObject | null;
+  checkpoints: GameObject[];
+  finish: GateObject | null;
+  circuit: boolean;
+}
+
+const DEFAULT_WAYPOINT_RADIUS = 25;
+const START_RUN_UP = 60; // metres behind the start gate
+
+/**
+ * Time trial over the course placed in builder mode. The course is the start gate,
+ * then rings and waypoints in placement order, then the finish gate. Without a finish
+ * the course is a circuit and every start crossing completes a lap.
+ */
+export class RaceManager implements Updatable {
+  private objectManager: ObjectManager;
+  private vehicleManager: VehicleManager;
+
+  private course: RaceCourse | null = null;
+  private phase: RacePhase = 'idle';
+  private totalLaps: number = 1;
+  private lap: number = 1;
+  private lapTime: number = 0;
+  private totalTime: number = 0;
+  private nextGate: number = 0;
+  private splits: RaceSplit[] = [];
+  private bestLap: RaceLap | null = null;
+  private lastLap: RaceLap | null = null;
+  private previousPosition: Cesium.Cartesian3 | null = null;
+
+  private stateListeners: Array<(state: RaceState) => void> = [];
+  private checkpointListeners: Array<(split: RaceSplit) => void> = [];
+  private lapListeners: Array<(lap: RaceLap) => void> = [];
+
+  constructor(objectManager: ObjectManager, vehicleManager: VehicleManager) {
+    this.objectManager = objectManager;
+    this.vehicleManager = vehicleManager;
+
+    // Best times only make sense for the course they were set on
+    this.objectManager.addChangeListener(() => {
+      this.bestLap = null;
+    });
+    // A restart jumps back to a checkpoint; don't read the jump as flying through gates
+    this.vehicleManager.addRestartListener(() => {
+      this.previousPosition = null;
+    });
+  }
+
+  /**
+   * Build the course from the placed objects and wait for the start gate.
+   * Returns false when there is nothing to race.
+   */
+  public arm(laps: number = 1): boolean {
+    const course = this.buildCourse();
+    if (!course) {
+      console.warn('⚠️ No course to race - place a start gate, rings or waypoints in builder mode');
+      return false;
+    }
+
+    this.course = course;
+    this.totalLaps = Math.max(1, Math.floor(laps));
+    this.resetRun();
+    this.moveVehicleToStart();
+
+    console.log(`🏁 Race armed: ${course.checkpoints.length} checkpoints, ${this.totalLaps} lap(s)${course.circuit ? ', circuit' : ''}`);
+    this.notifyState();
+    return true;
+  }
+
+  public disarm(): void {
+    if (this.phase === 'idle') return;
+    this.course = null;
+    this.phase = 'idle';
+    this.previousPosition = null;
+    this.notifyState();
+    console.log('🏁 Race disarmed');
+  }
+
+  /**
+   * Back to the start of the armed course, keeping the best lap
+   */
+  public restart(): void {
+    if (!this.course) return;
+    this.resetRun();
+    this.moveVehicleToStart();
+    this.notifyState();
+  }
+
+  public update(deltaTime: number): void {
+    if (!this.course || this.phase === 'idle' || this.phase === 'finished') return;
+
+    const vehicle = this.vehicleManager.getActiveVehicle();
+    if (!vehicle) return;
+
+    const position = Cesium.Cartesian3.clone(vehicle.getPosition());
+    const from = this.previousPosition;
+    this.previousPosition = position;
+
+    if (this.phase === 'running') {
+      this.lapTime += deltaTime;
+      this.totalTime += deltaTime;
+    }
+    if (!from) return;
+
+    if (this.phase === 'armed') {
+      if (this.course.start && this.course.start.isCrossedBy(from, position)) {
+        this.phase = 'running';
+        console.log('🏁 Race started');
+        this.notifyState();
+      }
+      return;
+    }
+
+    this.checkGates(from, position);
+    // Keep the running clock live for the HUD
+    this.notifyState();
+  }
+
+  private checkGates(from: Cesium.Cartesian3, to: Cesium.Cartesian3): void {
+    const course = this.course!;
+    const checkpoints = course.checkpoints;
+
+    // Any later checkpoint counts, and everything skipped on the way is missed
+    for (let i = this.nextGate; i < checkpoints.length; i++) {
+      if (this.isPassed(checkpoints[i], from, to)) {
+        for (let missed = this.nextGate; missed < i; missed++) {
+          this.recordSplit(missed, true);
+        }
+        this.recordSplit(i, false);
+        this.nextGate = i + 1;
+        return;
+      }
+    }
+
+    const lapGate = course.circuit ? course.start : course.finish;
+    const lapGatePassed = lapGate
+      ? lapGate.isCrossedBy(from, to)
+      : this.nextGate >= checkpoints.length;
+
+    if (lapGatePassed) {
+      for (let missed = this.nextGate; missed < checkpoints.length; missed++) {
+        this.recordSplit(missed, true);
+      }
+      this.completeLap();
+    }
+  }
+
+  private isPassed(object: GameObject, from: Cesium.Cartesian3, to: Cesium.Cartesian3): boolean {
+    if (object instanceof GateObject) {
+      return object.isCrossedBy(from, to);
+    }
+    const radius = object.properties.radius ?? DEFAULT_WAYPOINT_RADIUS;
+    return this.distanceToSegment(object.position, from, to) <= radius;
+  }
+
+  private recordSplit(gateIndex: number, missed: boolean): void {
+    const gate = this.course!.checkpoints[gateIndex];
+    const bestSplit = this.bestLap?.splits.find(split => split.gateIndex === gateIndex && !split.missed);
+    const split: RaceSplit = {
+      gateId: gate.id,
+      gateIndex,
+      time: this.lapTime,
+      delta: !missed && bestSplit ? this.lapTime - bestSplit.time : null,
+      missed,
+    };
+
+    this.splits.push(split);
+    if (missed) {
+      console.log(`❌ Missed checkpoint ${gateIndex + 1}`);
+    } else {
+      const vehicle = this.vehicleManager.getActiveVehicle();
+      if (vehicle) {
+        const state = vehicle.getState();
+        this.vehicleManager.setCheckpoint(state.position, state.heading);
+      }
+    }
+    for (const listener of this.checkpointListeners) {
+      listener(split);
+    }
+  }
+
+  private completeLap(): void {
+    const missedGates = this.splits.filter(split => split.missed).length;
+    const clean = missedGates === 0;
+    const best = clean && (!this.bestLap || this.lapTime < this.bestLap.time);
+
+    const lap: RaceLap = {
+      lap: this.lap,
+      time: this.lapTime,
+      splits: [...this.splits],
+      missedGates,
+      clean,
+      best,
+    };
+    if (best) {
+      this.bestLap = lap;
+    }
+    this.lastLap = lap;
+
+    console.log(`⏱️ Lap ${lap.lap}: ${lap.time.toFixed(2)}s${best ? ' (best)' : ''}${clean ? '' : `, ${missedGates} missed`}`);
+    for (const listener of this.lapListeners) {
+      listener(lap);
+    }
+
+    if (this.lap >= this.totalLaps) {
+      this.phase = 'finished';
+      console.log(`🏁 Race finished in ${this.totalTime.toFixed(2)}s`);
+    } else {
+      this.lap++;
+      this.lapTime = 0;
+      this.nextGate = 0;
+      this.splits = [];
+    }
+  }
+
+  private buildCourse(): RaceCourse | null {
+    const objects = this.objectManager.getAllObjects();
+    const start = objects.find((obj): obj is GateObject => obj.type === 'start') ?? null;
+    const finish = objects.find((obj): obj is GateObject => obj.type === 'finish') ?? null;
+
+    const checkpoints = objects.filter(obj => obj.type === 'ring' || obj.type === 'waypoint');
+
+    if (!start && checkpoints.length === 0) return null;
+
+    return {
+      start,
+      checkpoints,
+      finish,
+      circuit: !!start && !finish,
+    };
+  }
+
+  private resetRun(): void {
+    this.lap = 1;
+    this.lapTime = 0;
+    this.totalTime = 0;
+    this.nextGate = 0;
+    this.splits = [];
+    this.lastLap = null;
+    this.previousPosition = null;
+    // Without a start gate the clock runs from the moment the race is armed
+    this.phase = this.course?.start ? 'armed' : 'running';
+    this.objectManager.resetCollectibles();
+  }
+
+  private moveVehicleToStart(): void {
+    const start = this.course?.start;
+    const vehicle = this.vehicleManager.getActiveVehicle();
+    if (!start || !vehicle) return;
+
+    const forward = start.getForward();
+    const position = Cesium.Cartesian3.add(
+      start.position,
+      Cesium.Cartesian3.multiplyByScalar(forward, -START_RUN_UP, new Cesium.Cartesian3()),
+      new Cesium.Cartesian3()
+    );
+    // Race gates stand on their position, so aim through the middle of the opening
+    const lift = (start.properties.height ?? 0) / 2;
+    const cartographic = Cesium.Cartographic.fromCartesian(position);
+    cartographic.height += lift;
+
+    const state = vehicle.getState();
+    const startPosition = Cesium.Cartographic.toCartesian(cartographic);
+    vehicle.setState({
+      ...state,
+      position: startPosition,
+      heading: start.rotation.heading,
+      pitch: 0,
+      roll: 0,
+    });
+    this.vehicleManager.setFlightStart(startPosition, start.rotation.heading);
+  }
+
+  private distanceToSegment(point: Cesium.Cartesian3, a: Cesium.Cartesian3, b: Cesium.Cartesian3): number {
+    const ab = Cesium.Cartesian3.subtract(b, a, new Cesium.Cartesian3());
+    const lengthSquared = Cesium.Cartesian3.magnitudeSquared(ab);
+    if (lengthSquared === 0) return Cesium.Cartesian3.distance(point, a);
+
+    const ap = Cesium.Cartesian3.subtract(point, a, new Cesium.Cartesian3());
+    const t = Cesium.Math.clamp(Cesium.Cartesian3.dot(ap, ab) / lengthSquared, 0, 1);
+    const closest = Cesium.Cartesian3.add(a, Cesium.Cartesian3.multiplyByScalar(ab, t, ab), new Cesium.Cartesian3());
+    return Cesium.Cartesian3.distance(point, closest);
+  }
+
+  public getState(): RaceState {
+    return {
+      phase: this.phase,
+      lap: this.lap,
+      totalLaps: this.totalLaps,
+      lapTime: this.lapTime,
+      totalTime: this.totalTime,
+      nextGate: this.nextGate,
+      gateCount: this.course?.checkpoints.length ?? 0,
+      splits: [...this.splits],
+      bestLapTime: this.bestLap?.time ?? null,
+      lastLap: this.lastLap,
+    };
+  }
+
+  /**
+   * Identifies the armed course by its objects, so per-course data survives a reload
+   * of the same layout or project
+   */
+  public getCourseKey(): string | null {
+    if (!this.course) return null;
+    const { start, checkpoints, finish } = this.course;
+    return [start?.id ?? '-', ...checkpoints.map(obj => obj.id), finish?.id ?? '-'].join('|');
+  }
+
+  public getBestLap(): RaceLap | null {
+    return this.bestLap;
+  }
+
+  public addStateListener(callback: (state: RaceState) => void): void {
+    this.stateListeners.push(callback);
+  }
+
+  public addCheckpointListener(callback: (split: RaceSplit) => void): void {
+    this.checkpointListeners.push(callback);
+  }
+
+  public addLapListener(callback: (lap: RaceLap) => void): void {
+    this.lapListeners.push(callback);
+  }
+
+  private notifyState(): void {
+    const state = this.getState();
+    for (const listener of this.stateListeners) {
+      listener(state);
+    }
+  }
+}
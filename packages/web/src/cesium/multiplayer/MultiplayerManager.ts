@@ -0,0 +1,296 @@
+import * as Cesium from 'cesium';
+import { Updatable } from '../core/GameLoop';
+import { VehicleManager } from '../managers/VehicleManager';
+import { DEFAULT_VEHICLE_ID } from '../vehicles/VehicleRegistry';
+import { MULTIPLAYER_PROTOCOL_VERSION, NetPlayerInfo, ServerMessage, isNetVehicleState } from './MultiplayerProtocol';
+import { MultiplayerTransport, WebSocketTransport } from './MultiplayerTransport';
+import { RemotePlayer } from './RemotePlayer';
+
+export type MultiplayerConnection = 'offline' | 'connecting' | 'online' | 'error';
+
+export interface MultiplayerStatus {
+  connection: MultiplayerConnection;
+  url: string | null;
+  playerId: string | null;
+  name: string | null;
+  error: string | null;
+}
+
+export interface OnlinePlayerSnapshot {
+  id: string;
+  name: string;
+  position: Cesium.Cartesian3;
+  heading: number;
+  vehicleType: string;
+}
+
+export interface PlayersUpdate {
+  players: OnlinePlayerSnapshot[];
+  updateType: 'full' | 'incremental';
+}
+
+const SEND_INTERVAL = 0.1; // seconds
+const PLAYERS_UPDATE_INTERVAL = 0.5; // seconds
+// ms without a state before a remote player is hidden. They stay in the session until the
+// relay says they left: a backgrounded tab stops sending but still answers the relay's pings
+const PLAYER_TIMEOUT = 10000;
+
+/**
+ * The online session: sends the local vehicle to the relay at a fixed rate and keeps a
+ * RemotePlayer for everyone else in the room.
+ */
+export class MultiplayerManager implements Updatable {
+  private scene: Cesium.Scene;
+  private vehicleManager: VehicleManager;
+  private transport: MultiplayerTransport;
+  private labels: Cesium.LabelCollection;
+
+  private status: MultiplayerStatus = { connection: 'offline', url: null, playerId: null, name: null, error: null };
+  private remotes: Map<string, RemotePlayer> = new Map();
+  private movedPlayers: Set<string> = new Set();
+  private sendTimer: number = 0;
+  private playersTimer: number = 0;
+
+  private playersListeners: Array<(update: PlayersUpdate) => void> = [];
+  private statusListeners: Array<(status: MultiplayerStatus) => void> = [];
+
+  constructor(scene: Cesium.Scene, vehicleManager: VehicleManager, transport: MultiplayerTransport = new WebSocketTransport()) {
+    this.scene = scene;
+    this.vehicleManager = vehicleManager;
+    this.transport = transport;
+    this.labels = this.scene.primitives.add(new Cesium.LabelCollection());
+  }
+
+  /**
+   * Connect to a relay room and announce the local player
+   */
+  public async join(url: string, name: string): Promise<void> {
+    this.leave();
+    this.setStatus({ connection: 'connecting', url, playerId: null, name, error: null });
+
+    try {
+      await this.transport.connect(url, {
+        onMessage: (message) => this.handleMessage(message),
+        onClose: (reason) => {
+          console.warn(`🌐 Relay connection lost: ${reason}`);
+          this.clearRemotes();
+          this.setStatus({ ...this.status, connection: 'error', playerId: null, error: `Disconnected: ${reason}` });
+        },
+      });
+    } catch (error) {
+      if (this.status.connection === 'connecting') {
+        this.setStatus({ ...this.status, connection: 'error', error: error instanceof Error ? error.message : String(error) });
+      }
+      return;
+    }
+    // Left again while the socket was opening
+    if (this.status.connection !== 'connecting') return;
+
+    this.transport.send({
+      type: 'hello',
+      version: MULTIPLAYER_PROTOCOL_VERSION,
+      name,
+      vehicleType: this.getLocalVehicleType(),
+    });
+  }
+
+  public leave(): void {
+    if (this.status.connection === 'offline') return;
+
+    this.transport.close();
+    this.clearRemotes();
+    this.setStatus({ connection: 'offline', url: null, playerId: null, name: null, error: null });
+    console.log('🌐 Left multiplayer session');
+  }
+
+  private handleMessage(message: ServerMessage): void {
+    switch (message.type) {
+      case 'welcome':
+        for (const player of message.players) {
+          this.addRemote(player);
+        }
+        this.setStatus({ ...this.status, connection: 'online', playerId: message.id, error: null });
+        this.notifyPlayers('full');
+        console.log(`🌐 Joined ${this.status.url} as ${this.status.name} (${message.players.length} other players)`);
+        break;
+      case 'joined':
+        this.addRemote(message.player);
+        this.notifyPlayers('full');
+        console.log(`🌐 ${message.player.name} joined`);
+        break;
+      case 'state': {
+        if (typeof message.vehicleType !== 'string' || !isNetVehicleState(message.state)) return;
+        const remote = this.remotes.get(message.id)
+          ?? this.addRemote({ id: message.id, name: 'Pilot', vehicleType: message.vehicleType });
+        if (remote.vehicleType !== message.vehicleType) {
+          remote.vehicleType = message.vehicleType;
+          this.loadRemoteModel(remote);
+        }
+        remote.addState(message.state, performance.now());
+        this.movedPlayers.add(remote.id);
+        break;
+      }
+      case 'left': {
+        const remote = this.remotes.get(message.id);
+        if (!remote) return;
+        this.removeRemote(remote);
+        this.notifyPlayers('full');
+        console.log(`🌐 ${remote.name} left`);
+        break;
+      }
+    }
+  }
+
+  private addRemote(info: NetPlayerInfo): RemotePlayer {
+    const existing = this.remotes.get(info.id);
+    if (existing) {
+      existing.setName(info.name);
+      return existing;
+    }
+
+    const remote = new RemotePlayer(info, this.scene, this.labels);
+    this.remotes.set(info.id, remote);
+    this.loadRemoteModel(remote);
+    return remote;
+  }
+
+  private loadRemoteModel(remote: RemotePlayer): void {
+    const registry = this.vehicleManager.getRegistry();
+    const definition = registry.get(remote.vehicleType) ?? registry.get(DEFAULT_VEHICLE_ID);
+    if (!definition) return;
+
+    remote.setModel({
+      modelUrl: definition.modelUrl,
+      scale: definition.scale ?? 1,
+      modelHeadingOffset: definition.modelHeadingOffset ?? 0,
+    });
+  }
+
+  private removeRemote(remote: RemotePlayer): void {
+    remote.destroy(this.labels);
+    this.remotes.delete(remote.id);
+    this.movedPlayers.delete(remote.id);
+  }
+
+  private clearRemotes(): void {
+    if (this.remotes.size === 0) return;
+    for (const remote of this.remotes.values()) {
+      remote.destroy(this.labels);
+    }
+    this.remotes.clear();
+    this.movedPlayers.clear();
+    this.notifyPlayers('full');
+  }
+
+  public update(deltaTime: number): void {
+    if (this.status.connection !== 'online') return;
+
+    this.sendTimer += deltaTime;
+    if (this.sendTimer >= SEND_INTERVAL) {
+      this.sendTimer = 0;
+      this.sendLocalState();
+    }
+
+    const now = performance.now();
+    for (const remote of this.remotes.values()) {
+      if (now - remote.getLastReceivedAt() > PLAYER_TIMEOUT) {
+        remote.hide();
+      } else {
+        remote.update(now);
+      }
+    }
+
+    this.playersTimer += deltaTime;
+    if (this.playersTimer >= PLAYERS_UPDATE_INTERVAL && this.movedPlayers.size > 0) {
+      this.playersTimer = 0;
+      this.notifyPlayers('incremental');
+    }
+  }
+
+  private sendLocalState(): void {
+    const vehicle = this.vehicleManager.getActiveVehicle();
+    if (!vehicle || !vehicle.isModelReady()) return;
+
+    const state = vehicle.getState();
+    const cartographic = Cesium.Cartographic.fromCartesian(state.position);
+    this.transport.send({
+      type: 'state',
+      vehicleType: this.getLocalVehicleType(),
+      state: {
+        t: performance.now(),
+        lon: Cesium.Math.toDegrees(cartographic.longitude),
+        lat: Cesium.Math.toDegrees(cartographic.latitude),
+        height: cartographic.height,
+        heading: state.heading,
+        pitch: state.pitch,
+        roll: state.roll,
+        speed: state.speed,
+      },
+    });
+  }
+
+  private getLocalVehicleType(): string {
+    return this.vehicleManager.getActiveVehicleId() ?? DEFAULT_VEHICLE_ID;
+  }
+
+  /**
+   * Everyone else in the room that has a position yet
+   */
+  public getPlayers(): OnlinePlayerSnapshot[] {
+    return [...this.remotes.values()]
+      .filter(remote => remote.hasPosition())
+      .map(remote => this.snapshot(remote));
+  }
+
+  private snapshot(remote: RemotePlayer): OnlinePlayerSnapshot {
+    return {
+      id: remote.id,
+      name: remote.name,
+      position: Cesium.Cartesian3.clone(remote.getPosition()),
+      heading: remote.getHeading(),
+      vehicleType: remote.vehicleType,
+    };
+  }
+
+  public getStatus(): MultiplayerStatus {
+    return { ...this.status };
+  }
+
+  private setStatus(status: MultiplayerStatus): void {
+    this.status = status;
+    const snapshot = this.getStatus();
+    this.statusListeners.forEach(listener => listener(snapshot));
+  }
+
+  /**
+   * 'full' carries the whole roster after a join or leave; 'incremental' only the
+   * players that moved since the last update
+   */
+  private notifyPlayers(updateType: PlayersUpdate['updateType']): void {
+    const players = updateType === 'full'
+      ? this.getPlayers()
+      : [...this.movedPlayers]
+        .map(id => this.remotes.get(id))
+        .filter((remote): remote is RemotePlayer => !!remote && remote.hasPosition())
+        .map(remote => this.snapshot(remote));
+    this.movedPlayers.clear();
+
+    const update: PlayersUpdate = { players, updateType };
+    this.playersListeners.forEach(listener => listener(update));
+  }
+
+  public addPlayersListener(callback: (update: PlayersUpdate) => void): void {
+    this.playersListeners.push(callback);
+  }
+
+  public addStatusListener(callback: (status: MultiplayerStatus) => void): void {
+    this.statusListeners.push(callback);
+  }
+
+  public destroy(): void {
+    this.leave();
+    this.scene.primitives.remove(this.labels);
+    this.playersListeners = [];
+    this.statusListeners = [];
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * Messages between the game and the relay (packages/relay). The relay only stamps player
+ * ids and fans messages out to the rest of the room, so both sides of it speak this.
+ */
+export const MULTIPLAYER_PROTOCOL_VERSION = 1;
+
+export interface NetVehicleState {
+  t: number; // sender clock, ms
+  lon: number;
+  lat: number;
+  height: number;
+  heading: number; // radians, like VehicleState
+  pitch: number;
+  roll: number;
+  speed: number; // m/s
+}
+
+const NET_VEHICLE_STATE_FIELDS = ['t', 'lon', 'lat', 'height', 'heading', 'pitch', 'roll', 'speed'] as const;
+
+/**
+ * The relay forwards states unchecked, and one NaN in a model matrix can stop the scene
+ * rendering, so every field has to be a finite number
+ */
+export function isNetVehicleState(value: unknown): value is NetVehicleState {
+  if (!value || typeof value !== 'object') return false;
+  const state = value as Record<string, unknown>;
+  return NET_VEHICLE_STATE_FIELDS.every(field => typeof state[field] === 'number' && Number.isFinite(state[field]));
+}
+
+export interface NetPlayerInfo {
+  id: string;
+  name: string;
+  vehicleType: string; // VehicleRegistry id
+}
+
+export type ClientMessage =
+  | { type: 'hello'; version: number; name: string; vehicleType: string }
+  | { type: 'state'; vehicleType: string; state: NetVehicleState };
+
+export type ServerMessage =
+  | { type: 'welcome'; id: string; players: NetPlayerInfo[] }
+  | { type: 'joined'; player: NetPlayerInfo }
+  | { type: 'state'; id: string; vehicleType: string; state: NetVehicleState }
+  | { type: 'left'; id: string };
@@ -0,0 +1,65 @@
+import type { ClientMessage, ServerMessage } from './MultiplayerProtocol';
+
+export interface TransportHandlers {
+  onMessage: (message: ServerMessage) => void;
+  onClose: (reason: string) => void;
+}
+
+/**
+ * How messages reach the relay. The session only needs these three calls, so a WebRTC
+ * or in-page transport can stand in for the WebSocket one.
+ */
+export interface MultiplayerTransport {
+  connect(url: string, handlers: TransportHandlers): Promise<void>;
+  send(message: ClientMessage): void;
+  close(): void;
+}
+
+export class WebSocketTransport implements MultiplayerTransport {
+  private socket: WebSocket | null = null;
+
+  public connect(url: string, handlers: TransportHandlers): Promise<void> {
+    this.close();
+
+    return new Promise((resolve, reject) => {
+      const socket = new WebSocket(url);
+      let opened = false;
+      this.socket = socket;
+
+      socket.onopen = () => {
+        opened = true;
+        resolve();
+      };
+      socket.onerror = () => {
+        if (!opened) reject(new Error(`Could not reach ${url}`));
+      };
+      socket.onclose = (event) => {
+        if (this.socket === socket) this.socket = null;
+        if (opened) handlers.onClose(event.reason || `closed (${event.code})`);
+      };
+      socket.onmessage = (event) => {
+        try {
+          handlers.onMessage(JSON.parse(event.data) as ServerMessage);
+        } catch {
+          console.warn('⚠️ Ignoring malformed relay message');
+        }
+      };
+    });
+  }
+
+  public send(message: ClientMessage): void {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+
+  public close(): void {
+    if (!this.socket) return;
+    const socket = this.socket;
+    this.socket = null;
+    // Leaving on purpose isn't a dropped connection
+    socket.onclose = null;
+    socket.onmessage = null;
+    socket.close();
+  }
+}
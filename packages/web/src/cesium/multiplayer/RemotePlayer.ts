@@ -0,0 +1,232 @@
+import * as Cesium from 'cesium';
+import type { NetPlayerInfo, NetVehicleState } from './MultiplayerProtocol';
+
+export interface RemoteModel {
+  modelUrl: string;
+  scale: number;
+  modelHeadingOffset: number;
+}
+
+// Render this far behind the newest state so there is usually a later one to blend towards
+const INTERPOLATION_DELAY = 150; // ms
+// Past the newest state, keep moving along the last velocity for this long, then hold
+const MAX_EXTRAPOLATION = 500; // ms
+// States older than this behind the render time are dropped
+const BUFFER_LENGTH = 1000; // ms
+
+/**
+ * Another player in the session: the states received for them, blended into a smooth
+ * pose each frame, and the model and name label drawn there.
+ */
+export class RemotePlayer {
+  public readonly id: string;
+  public name: string;
+  public vehicleType: string;
+
+  private states: NetVehicleState[] = [];
+  // Local clock minus sender clock, taken from the least delayed state seen
+  private clockOffset: number = Infinity;
+  private lastReceivedAt: number = 0;
+
+  private model: Cesium.Model | null = null;
+  private loadedModel: RemoteModel | null = null;
+  private requestedModel: RemoteModel | null = null;
+  private modelLoading: boolean = false;
+  private destroyed: boolean = false;
+  private label: Cesium.Label;
+
+  private position = new Cesium.Cartesian3();
+  private hpr = new Cesium.HeadingPitchRoll();
+  private hasPose: boolean = false;
+
+  private static readonly scratchHpr = new Cesium.HeadingPitchRoll();
+
+  constructor(
+    info: NetPlayerInfo,
+    private scene: Cesium.Scene,
+    labels: Cesium.LabelCollection
+  ) {
+    this.id = info.id;
+    this.name = info.name;
+    this.vehicleType = info.vehicleType;
+    this.label = labels.add({
+      position: this.position,
+      text: info.name,
+      font: '600 13px sans-serif',
+      fillColor: Cesium.Color.WHITE,
+      outlineColor: Cesium.Color.BLACK.withAlpha(0.8),
+      outlineWidth: 3,
+      style: Cesium.LabelStyle.FILL_AND_OUTLINE,
+      verticalOrigin: Cesium.VerticalOrigin.BOTTOM,
+      pixelOffset: new Cesium.Cartesian2(0, -36),
+      disableDepthTestDistance: Number.POSITIVE_INFINITY,
+      show: false,
+    });
+  }
+
+  public addState(state: NetVehicleState, receivedAt: number): void {
+    const last = this.states[this.states.length - 1];
+    if (last && state.t <= last.t) return; // out of order
+    // Back after a silence (a backgrounded tab): start afresh rather than glide from where they were
+    if (last && state.t - last.t > BUFFER_LENGTH) {
+      this.states = [];
+    }
+
+    this.states.push(state);
+    this.clockOffset = Math.min(this.clockOffset, receivedAt - state.t);
+    this.lastReceivedAt = receivedAt;
+  }
+
+  public getLastReceivedAt(): number {
+    return this.lastReceivedAt;
+  }
+
+  /**
+   * Move the model and label to where the player should be at this local time
+   */
+  public update(now: number): void {
+    if (this.states.length === 0) return;
+
+    const renderTime = now - this.clockOffset - INTERPOLATION_DELAY;
+    while (this.states.length > 2 && this.states[1].t < renderTime - BUFFER_LENGTH) {
+      this.states.shift();
+    }
+
+    this.samplePose(renderTime);
+    this.hasPose = true;
+
+    this.label.position = this.position;
+    this.label.show = true;
+    if (this.model) {
+      const hpr = RemotePlayer.scratchHpr;
+      hpr.heading = this.hpr.heading + (this.loadedModel?.modelHeadingOffset ?? 0);
+      hpr.pitch = this.hpr.pitch;
+      hpr.roll = this.hpr.roll;
+      Cesium.Transforms.headingPitchRollToFixedFrame(this.position, hpr, Cesium.Ellipsoid.WGS84, undefined, this.model.modelMatrix);
+      this.model.show = true;
+    }
+  }
+
+  /**
+   * Keep the player but stop drawing them, while nothing is arriving for them
+   */
+  public hide(): void {
+    this.label.show = false;
+    if (this.model) {
+      this.model.show = false;
+    }
+  }
+
+  private samplePose(time: number): void {
+    const states = this.states;
+    const newest = states[states.length - 1];
+
+    let a: NetVehicleState;
+    let b: NetVehicleState;
+    let t: number;
+    if (states.length === 1 || time <= states[0].t) {
+      a = b = time <= states[0].t ? states[0] : newest;
+      t = 0;
+    } else if (time >= newest.t) {
+      // Extrapolate from the last two states along their velocity
+      a = states[states.length - 2];
+      b = newest;
+      const span = b.t - a.t;
+      t = span > 0 ? 1 + Math.min(time - b.t, MAX_EXTRAPOLATION) / span : 1;
+    } else {
+      let index = 0;
+      while (states[index + 1].t < time) index++;
+      a = states[index];
+      b = states[index + 1];
+      t = (time - a.t) / (b.t - a.t);
+    }
+
+    Cesium.Cartesian3.fromDegrees(
+      a.lon + (b.lon - a.lon) * t,
+      a.lat + (b.lat - a.lat) * t,
+      a.height + (b.height - a.height) * t,
+      Cesium.Ellipsoid.WGS84,
+      this.position
+    );
+    this.hpr.heading = RemotePlayer.lerpAngle(a.heading, b.heading, t);
+    this.hpr.pitch = RemotePlayer.lerpAngle(a.pitch, b.pitch, t);
+    this.hpr.roll = RemotePlayer.lerpAngle(a.roll, b.roll, t);
+  }
+
+  public hasPosition(): boolean {
+    return this.hasPose;
+  }
+
+  public getPosition(): Cesium.Cartesian3 {
+    return this.position;
+  }
+
+  public getHeading(): number {
+    return this.hpr.heading;
+  }
+
+  /**
+   * Show the given vehicle model, replacing the current one if it differs. A request made
+   * while another model is loading is picked up once that load finishes.
+   */
+  public async setModel(remoteModel: RemoteModel): Promise<void> {
+    this.requestedModel = remoteModel;
+    if (RemotePlayer.sameModel(remoteModel, this.loadedModel)) {
+      this.loadedModel = remoteModel; // same mesh, the heading offset may still differ
+    }
+    if (this.modelLoading) return;
+
+    while (!this.destroyed && this.requestedModel && !RemotePlayer.sameModel(this.requestedModel, this.loadedModel)) {
+      const request = this.requestedModel;
+      this.modelLoading = true;
+      try {
+        const model = await Cesium.Model.fromGltfAsync({
+          url: request.modelUrl,
+          scale: request.scale,
+          shadows: Cesium.ShadowMode.DISABLED,
+        });
+        // Left, or asked for another vehicle, while this one was loading
+        if (this.destroyed || !RemotePlayer.sameModel(this.requestedModel, request)) {
+          model.destroy();
+          continue;
+        }
+        model.show = false;
+        this.destroyModel();
+        this.model = this.scene.primitives.add(model);
+        this.loadedModel = request;
+      } catch (error) {
+        console.error(`Failed to load model for ${this.name}: ${error}`);
+        break;
+      } finally {
+        this.modelLoading = false;
+      }
+    }
+  }
+
+  public setName(name: string): void {
+    this.name = name;
+    this.label.text = name;
+  }
+
+  private destroyModel(): void {
+    if (this.model) {
+      this.scene.primitives.remove(this.model);
+      this.model = null;
+      this.loadedModel = null;
+    }
+  }
+
+  public destroy(labels: Cesium.LabelCollection): void {
+    this.destroyed = true;
+    this.destroyModel();
+    labels.remove(this.label);
+  }
+
+  private static sameModel(a: RemoteModel | null, b: RemoteModel | null): boolean {
+    return !!a && !!b && a.modelUrl === b.modelUrl && a.scale === b.scale;
+  }
+
+  private static lerpAngle(a: number, b: number, t: number): number {
+    return a + Cesium.Math.negativePiToPi(b - a) * t;
+  }
+}
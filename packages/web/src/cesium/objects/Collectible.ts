@@ -0,0 +1,71 @@
+import * as Cesium from 'cesium';
+import { GameObject, GameObjectData } from './GameObject';
+
+const SPIN_RATE = Cesium.Math.toRadians(90); // radians per second
+const TILT = new Cesium.HeadingPitchRoll(0, Cesium.Math.PI_OVER_FOUR, Cesium.Math.PI_OVER_FOUR);
+
+export class Collectible extends GameObject {
+  private collected: boolean = false;
+
+  private static readonly epoch = Cesium.JulianDate.now();
+  private static readonly scratchHpr = new Cesium.HeadingPitchRoll();
+
+  constructor(data: GameObjectData) {
+    super(data);
+    this.properties = { size: 4, pickupRadius: 10, ...this.properties };
+  }
+
+  public createEntity(_viewer: Cesium.Viewer): Cesium.Entity {
+    const size = this.properties.size;
+
+    return new Cesium.Entity({
+      id: this.id,
+      position: this.position,
+      // Spin follows the scene clock so offline renders see the same motion
+      orientation: new Cesium.CallbackProperty((time) => {
+        const elapsed = time ? Cesium.JulianDate.secondsDifference(time, Collectible.epoch) : 0;
+        const hpr = Collectible.scratchHpr;
+        hpr.heading = this.rotation.heading + elapsed * SPIN_RATE;
+        hpr.pitch = TILT.pitch;
+        hpr.roll = TILT.roll;
+        return Cesium.Transforms.headingPitchRollQuaternion(this.position, hpr);
+      }, false),
+      box: {
+        dimensions: new Cesium.Cartesian3(size, size, size),
+        material: Cesium.Color.GOLD.withAlpha(0.9),
+        outline: true,
+        outlineColor: Cesium.Color.WHITE,
+      },
+      show: !this.collected,
+    });
+  }
+
+  protected updateRotation(): void {
+    // Orientation is read from `rotation` every frame by the spin callback
+  }
+
+  /**
+   * Collect the item if `position` is within its pickup radius
+   */
+  public tryCollect(position: Cesium.Cartesian3): boolean {
+    if (this.collected) return false;
+    if (Cesium.Cartesian3.distance(position, this.position) > this.properties.pickupRadius) return false;
+
+    this.collected = true;
+    if (this.entity) {
+      this.entity.show = false;
+    }
+    return true;
+  }
+
+  public isCollected(): boolean {
+    return this.collected;
+  }
+
+  public reset(): void {
+    this.collected = false;
+    if (this.entity) {
+      this.entity.show = true;
+    }
+  }
+}
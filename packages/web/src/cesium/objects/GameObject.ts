@@ -14,6 +14,21 @@ export interface GameObjectData {
   properties?: Record<string, any>;
 }
 
+// Saved form of an object: position in degrees and metres instead of ECEF coordinates
+export interface GameObjectLayoutData {
+  id: string;
+  type: GameObjectType;
+  lon: number;
+  lat: number;
+  height: number;
+  rotation: {
+    heading: number;
+    pitch: number;
+    roll: number;
+  };
+  properties: Record<string, any>;
+}
+
 export abstract class GameObject {
   public id: string;
   public type: GameObjectType;
@@ -61,6 +76,19 @@ export abstract class GameObject {
     }
   }
 
+  public toLayoutJSON(): GameObjectLayoutData {
+    const cartographic = Cesium.Cartographic.fromCartesian(this.position);
+    return {
+      id: this.id,
+      type: this.type,
+      lon: Cesium.Math.toDegrees(cartographic.longitude),
+      lat: Cesium.Math.toDegrees(cartographic.latitude),
+      height: cartographic.height,
+      rotation: { ...this.rotation },
+      properties: { ...this.properties },
+    };
+  }
+
   public toJSON(): GameObjectData {
     return {
       id: this.id,
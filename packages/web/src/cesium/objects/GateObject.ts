@@ -0,0 +1,116 @@
+import * as Cesium from 'cesium';
+import { GameObject } from './GameObject';
+
+/**
+ * Base for objects the vehicle flies through. The opening lies in the plane across
+ * the object's local forward (+x) axis; `rotation` orients that plane in the world.
+ */
+export abstract class GateObject extends GameObject {
+  private static readonly scratchFrame = new Cesium.Matrix4();
+  private static readonly scratchInverse = new Cesium.Matrix4();
+  private static readonly scratchFrom = new Cesium.Cartesian3();
+  private static readonly scratchTo = new Cesium.Cartesian3();
+
+  /**
+   * Frame outline in gate-local coordinates: x = lateral (right), y = vertical (up)
+   */
+  protected abstract getOutline(): Cesium.Cartesian2[];
+
+  /**
+   * Cross-section swept along the outline to give the frame its thickness
+   */
+  protected abstract getProfile(): Cesium.Cartesian2[];
+
+  /**
+   * Whether a gate-local point lies inside the opening
+   */
+  protected abstract isInsideOpening(lateral: number, vertical: number): boolean;
+
+  protected abstract getColor(): Cesium.Color;
+
+  public createEntity(_viewer: Cesium.Viewer): Cesium.Entity {
+    return new Cesium.Entity({
+      id: this.id,
+      position: this.position,
+      polylineVolume: {
+        positions: this.computeFramePositions(),
+        shape: this.getProfile(),
+        cornerType: Cesium.CornerType.ROUNDED,
+        material: this.getColor(),
+      },
+      label: {
+        text: this.getLabel(),
+        font: '12px sans-serif',
+        fillColor: Cesium.Color.WHITE,
+        outlineColor: Cesium.Color.BLACK,
+        outlineWidth: 2,
+        style: Cesium.LabelStyle.FILL_AND_OUTLINE,
+        verticalOrigin: Cesium.VerticalOrigin.BOTTOM,
+        pixelOffset: new Cesium.Cartesian2(0, -15),
+        disableDepthTestDistance: Number.POSITIVE_INFINITY,
+      },
+    });
+  }
+
+  protected abstract getLabel(): string;
+
+  public setPosition(position: Cesium.Cartesian3): void {
+    super.setPosition(position);
+    this.refreshFrame();
+  }
+
+  protected updateRotation(): void {
+    this.refreshFrame();
+  }
+
+  /**
+   * True when the segment from `from` to `to` passes through the opening along getForward().
+   * Flying back through a gate doesn't count, so a start gate can't be used to cut a lap short.
+   */
+  public isCrossedBy(from: Cesium.Cartesian3, to: Cesium.Cartesian3): boolean {
+    const inverse = Cesium.Matrix4.inverseTransformation(this.getFrame(), GateObject.scratchInverse);
+    const a = Cesium.Matrix4.multiplyByPoint(inverse, from, GateObject.scratchFrom);
+    const b = Cesium.Matrix4.multiplyByPoint(inverse, to, GateObject.scratchTo);
+
+    // Local x is the gate normal: a forward crossing goes from behind to in front of it
+    if (!(a.x < 0 && b.x >= 0)) return false;
+
+    const t = a.x / (a.x - b.x);
+    // Local y points left, so lateral (right) is -y
+    const lateral = -Cesium.Math.lerp(a.y, b.y, t);
+    const vertical = Cesium.Math.lerp(a.z, b.z, t);
+    return this.isInsideOpening(lateral, vertical);
+  }
+
+  /**
+   * Unit vector the gate is meant to be flown through
+   */
+  public getForward(result: Cesium.Cartesian3 = new Cesium.Cartesian3()): Cesium.Cartesian3 {
+    const frame = this.getFrame();
+    Cesium.Matrix4.multiplyByPointAsVector(frame, Cesium.Cartesian3.UNIT_X, result);
+    return Cesium.Cartesian3.normalize(result, result);
+  }
+
+  private getFrame(): Cesium.Matrix4 {
+    return Cesium.Transforms.headingPitchRollToFixedFrame(
+      this.position,
+      new Cesium.HeadingPitchRoll(this.rotation.heading, this.rotation.pitch, this.rotation.roll),
+      Cesium.Ellipsoid.WGS84,
+      Cesium.Transforms.eastNorthUpToFixedFrame,
+      GateObject.scratchFrame
+    );
+  }
+
+  private computeFramePositions(): Cesium.Cartesian3[] {
+    const frame = this.getFrame();
+    return this.getOutline().map(point =>
+      Cesium.Matrix4.multiplyByPoint(frame, new Cesium.Cartesian3(0, -point.x, point.y), new Cesium.Cartesian3())
+    );
+  }
+
+  private refreshFrame(): void {
+    if (this.entity?.polylineVolume) {
+      this.entity.polylineVolume.positions = new Cesium.ConstantProperty(this.computeFramePositions());
+    }
+  }
+}
@@ -0,0 +1,37 @@
+import * as Cesium from 'cesium';
+import { GameObjectData } from './GameObject';
+import { GateObject } from './GateObject';
+
+/**
+ * Rectangular arch standing on its position: two posts and a crossbar
+ */
+export abstract class RaceGate extends GateObject {
+  constructor(data: GameObjectData) {
+    super(data);
+    this.properties = { width: 40, height: 25, ...this.properties };
+  }
+
+  protected getOutline(): Cesium.Cartesian2[] {
+    const halfWidth = this.properties.width / 2;
+    const height = this.properties.height;
+    return [
+      new Cesium.Cartesian2(-halfWidth, 0),
+      new Cesium.Cartesian2(-halfWidth, height),
+      new Cesium.Cartesian2(halfWidth, height),
+      new Cesium.Cartesian2(halfWidth, 0),
+    ];
+  }
+
+  protected getProfile(): Cesium.Cartesian2[] {
+    return [
+      new Cesium.Cartesian2(-1, -1),
+      new Cesium.Cartesian2(1, -1),
+      new Cesium.Cartesian2(1, 1),
+      new Cesium.Cartesian2(-1, 1),
+    ];
+  }
+
+  protected isInsideOpening(lateral: number, vertical: number): boolean {
+    return Math.abs(lateral) <= this.properties.width / 2 && vertical >= 0 && vertical <= this.properties.height;
+  }
+}
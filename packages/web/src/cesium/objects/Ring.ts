@@ -0,0 +1,50 @@
+import * as Cesium from 'cesium';
+import { GameObjectData } from './GameObject';
+import { GateObject } from './GateObject';
+
+const RING_SEGMENTS = 48;
+const TUBE_SEGMENTS = 8;
+
+export class Ring extends GateObject {
+  constructor(data: GameObjectData) {
+    super(data);
+    this.properties = { radius: 15, thickness: 1.5, ...this.properties };
+  }
+
+  public getRadius(): number {
+    return this.properties.radius;
+  }
+
+  protected getOutline(): Cesium.Cartesian2[] {
+    const radius = this.getRadius();
+    const points: Cesium.Cartesian2[] = [];
+    // Close the loop by repeating the first point
+    for (let i = 0; i <= RING_SEGMENTS; i++) {
+      const angle = (i / RING_SEGMENTS) * Cesium.Math.TWO_PI;
+      points.push(new Cesium.Cartesian2(Math.cos(angle) * radius, Math.sin(angle) * radius));
+    }
+    return points;
+  }
+
+  protected getProfile(): Cesium.Cartesian2[] {
+    const tube = this.properties.thickness / 2;
+    const shape: Cesium.Cartesian2[] = [];
+    for (let i = 0; i < TUBE_SEGMENTS; i++) {
+      const angle = (i / TUBE_SEGMENTS) * Cesium.Math.TWO_PI;
+      shape.push(new Cesium.Cartesian2(Math.cos(angle) * tube, Math.sin(angle) * tube));
+    }
+    return shape;
+  }
+
+  protected isInsideOpening(lateral: number, vertical: number): boolean {
+    return lateral * lateral + vertical * vertical <= this.getRadius() * this.getRadius();
+  }
+
+  protected getColor(): Cesium.Color {
+    return Cesium.Color.ORANGE.withAlpha(0.85);
+  }
+
+  protected getLabel(): string {
+    return 'Ring';
+  }
+}
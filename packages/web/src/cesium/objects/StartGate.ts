@@ -0,0 +1,17 @@
+import * as Cesium from 'cesium';
+import { GameObjectData } from './GameObject';
+import { RaceGate } from './RaceGate';
+
+export class StartGate extends RaceGate {
+  constructor(data: GameObjectData) {
+    super(data);
+  }
+
+  protected getColor(): Cesium.Color {
+    return Cesium.Color.LIME.withAlpha(0.85);
+  }
+
+  protected getLabel(): string {
+    return 'START';
+  }
+}
@@ -0,0 +1,308 @@
+import * as Cesium from 'cesium';
+import type { QualityConfig } from '../core/Scene';
+import type { CameraType } from '../managers/CameraManager';
+import type { GameObjectLayoutData, GameObjectType } from '../objects/GameObject';
+import { BUILDER_LAYOUT_VERSION, BuilderLayout } from '../builder/ObjectManager';
+import type { BezierHandles, EasingType, SegmentTiming } from '../camera/CameraPath';
+
+export const PROJECT_FILE_FORMAT = 'skyproj';
+export const PROJECT_FILE_EXTENSION = '.skyproj';
+export const PROJECT_FILE_VERSION = 2;
+
+export type FlightMode = 'linear' | 'orbit' | 'lock';
+
+export interface ProjectWaypoint extends SegmentTiming {
+  lat: number;
+  lon: number;
+  name: string;
+}
+
+export interface DirectorSettings {
+  waypoints: ProjectWaypoint[];
+  flightMode: FlightMode;
+  orbitRadius: number;
+  altitude: number;
+  speed: number;
+}
+
+export interface ExportSettingsData {
+  resolution: '720p' | '1080p' | '4k';
+  aspectRatio: '16:9' | '9:16' | '1:1' | '4:5';
+  format: 'mp4' | 'webm' | 'gif';
+  quality: number;
+  fps: number;
+  filename: string;
+  replayCamera: 'recorded' | CameraType;
+  duration: number;
+}
+
+export interface ProjectFile {
+  format: typeof PROJECT_FILE_FORMAT;
+  version: number;
+  name: string;
+  savedAt: string;
+  director: DirectorSettings;
+  camera: CameraType;
+  layout: BuilderLayout;
+  quality: QualityConfig;
+  exportSettings: ExportSettingsData;
+}
+
+export const DEFAULT_DIRECTOR_SETTINGS: DirectorSettings = {
+  waypoints: [],
+  flightMode: 'linear',
+  orbitRadius: 500,
+  altitude: 200,
+  speed: 60,
+};
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettingsData = {
+  resolution: '1080p',
+  aspectRatio: '16:9',
+  format: 'mp4',
+  quality: 90,
+  fps: 30,
+  filename: 'skystudio_export',
+  replayCamera: 'recorded',
+  duration: 10,
+};
+
+const CAMERA_TYPES: CameraType[] = ['follow', 'followClose', 'fpv', 'cinematic'];
+const OBJECT_TYPES: GameObjectType[] = ['waypoint', 'ring', 'collectible', 'start', 'finish'];
+const EASING_TYPES: EasingType[] = ['linear', 'easeIn', 'easeOut', 'easeInOut', 'cubic', 'bezier'];
+
+/**
+ * Upgrades from version N to N + 1. Every format change bumps PROJECT_FILE_VERSION
+ * and adds the step that converts the previous version here.
+ */
+const MIGRATIONS: Record<number, (data: Record<string, unknown>) => Record<string, unknown>> = {
+  // v1 stored builder objects with raw ECEF positions; v2 stores a geodetic layout
+  1: ({ objects, ...rest }) => ({
+    ...rest,
+    layout: {
+      version: BUILDER_LAYOUT_VERSION,
+      nextWaypointIndex: 1,
+      objects: expectArray(objects ?? [], 'objects').map((obj, i) => {
+        const path = `objects[${i}]`;
+        expectObject(obj, path);
+        expectObject(obj.position, `${path}.position`);
+        const cartographic = Cesium.Cartographic.fromCartesian(new Cesium.Cartesian3(
+          expectNumber(obj.position.x, `${path}.position.x`),
+          expectNumber(obj.position.y, `${path}.position.y`),
+          expectNumber(obj.position.z, `${path}.position.z`)
+        ));
+        if (!cartographic) {
+          throw new Error(`${path}.position is not on the globe`);
+        }
+        const { position, ...data } = obj;
+        return {
+          ...data,
+          lon: Cesium.Math.toDegrees(cartographic.longitude),
+          lat: Cesium.Math.toDegrees(cartographic.latitude),
+          height: cartographic.height,
+        };
+      }),
+    },
+  }),
+};
+
+/**
+ * Parse and validate a .skyproj file, migrating older versions to the current one.
+ * Throws with a readable message when the file can't be used.
+ */
+export function parseProjectFile(text: string): ProjectFile {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('Project file is not valid JSON');
+  }
+
+  if (!isObject(parsed) || parsed.format !== PROJECT_FILE_FORMAT) {
+    throw new Error('Not a SkyStudio project file');
+  }
+  let version = parsed.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new Error('Project file has no valid version');
+  }
+  if (version > PROJECT_FILE_VERSION) {
+    throw new Error(`Project file version ${version} is newer than supported version ${PROJECT_FILE_VERSION}`);
+  }
+
+  let data = parsed;
+  while (version < PROJECT_FILE_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new Error(`No migration from project version ${version}`);
+    }
+    version++;
+    data = { ...migrate(data), version };
+  }
+
+  return validateProject(data);
+}
+
+export function serializeProjectFile(project: ProjectFile): string {
+  return JSON.stringify(project, null, 2);
+}
+
+function validateProject(data: Record<string, unknown>): ProjectFile {
+  return {
+    format: PROJECT_FILE_FORMAT,
+    version: PROJECT_FILE_VERSION,
+    name: typeof data.name === 'string' ? data.name : 'Untitled',
+    savedAt: typeof data.savedAt === 'string' ? data.savedAt : new Date().toISOString(),
+    director: validateDirector(data.director),
+    camera: oneOf(data.camera, CAMERA_TYPES, 'camera'),
+    layout: validateLayout(data.layout ?? { version: BUILDER_LAYOUT_VERSION, nextWaypointIndex: 1, objects: [] }, 'layout'),
+    quality: validateQuality(data.quality),
+    exportSettings: validateExportSettings(data.exportSettings),
+  };
+}
+
+function validateDirector(data: unknown): DirectorSettings {
+  if (data === undefined) return { ...DEFAULT_DIRECTOR_SETTINGS };
+  expectObject(data, 'director');
+
+  return {
+    waypoints: expectArray(data.waypoints ?? [], 'director.waypoints').map((wp, i) => {
+      const path = `director.waypoints[${i}]`;
+      expectObject(wp, path);
+      const waypoint: ProjectWaypoint = {
+        lat: expectNumber(wp.lat, `${path}.lat`, -90, 90),
+        lon: expectNumber(wp.lon, `${path}.lon`, -180, 180),
+        name: typeof wp.name === 'string' ? wp.name : `Waypoint ${i + 1}`,
+      };
+      if (wp.easing !== undefined) waypoint.easing = oneOf(wp.easing, EASING_TYPES, `${path}.easing`);
+      if (wp.bezier !== undefined) waypoint.bezier = validateBezier(wp.bezier, `${path}.bezier`);
+      if (wp.hold !== undefined) waypoint.hold = expectNumber(wp.hold, `${path}.hold`, 0);
+      return waypoint;
+    }),
+    flightMode: oneOf(data.flightMode ?? DEFAULT_DIRECTOR_SETTINGS.flightMode, ['linear', 'orbit', 'lock'], 'director.flightMode'),
+    orbitRadius: expectNumber(data.orbitRadius ?? DEFAULT_DIRECTOR_SETTINGS.orbitRadius, 'director.orbitRadius', 0),
+    altitude: expectNumber(data.altitude ?? DEFAULT_DIRECTOR_SETTINGS.altitude, 'director.altitude'),
+    speed: expectNumber(data.speed ?? DEFAULT_DIRECTOR_SETTINGS.speed, 'director.speed', 0),
+  };
+}
+
+/**
+ * Validate a builder layout, from a project file or from storage
+ */
+export function validateLayout(data: unknown, path: string = 'layout'): BuilderLayout {
+  expectObject(data, path);
+  return {
+    version: BUILDER_LAYOUT_VERSION,
+    nextWaypointIndex: expectNumber(data.nextWaypointIndex ?? 1, `${path}.nextWaypointIndex`, 1),
+    objects: expectArray(data.objects ?? [], `${path}.objects`).map((obj, i) => validateObject(obj, `${path}.objects[${i}]`)),
+  };
+}
+
+function validateObject(data: unknown, path: string): GameObjectLayoutData {
+  expectObject(data, path);
+
+  const object: GameObjectLayoutData = {
+    id: typeof data.id === 'string' ? data.id : '',
+    type: oneOf(data.type, OBJECT_TYPES, `${path}.type`),
+    lon: expectNumber(data.lon, `${path}.lon`, -180, 180),
+    lat: expectNumber(data.lat, `${path}.lat`, -90, 90),
+    height: expectNumber(data.height, `${path}.height`),
+    rotation: { heading: 0, pitch: 0, roll: 0 },
+    properties: {},
+  };
+  if (!object.id) {
+    throw new Error(`${path}.id must be a non-empty string`);
+  }
+  if (data.rotation !== undefined) {
+    expectObject(data.rotation, `${path}.rotation`);
+    object.rotation = {
+      heading: expectNumber(data.rotation.heading, `${path}.rotation.heading`),
+      pitch: expectNumber(data.rotation.pitch, `${path}.rotation.pitch`),
+      roll: expectNumber(data.rotation.roll, `${path}.rotation.roll`),
+    };
+  }
+  if (data.properties !== undefined) {
+    expectObject(data.properties, `${path}.properties`);
+    object.properties = data.properties;
+  }
+  return object;
+}
+
+function validateQuality(data: unknown): QualityConfig {
+  expectObject(data, 'quality');
+  return {
+    fxaaEnabled: expectBoolean(data.fxaaEnabled, 'quality.fxaaEnabled'),
+    maximumScreenSpaceError: expectNumber(data.maximumScreenSpaceError, 'quality.maximumScreenSpaceError', 0),
+    dynamicScreenSpaceError: expectBoolean(data.dynamicScreenSpaceError, 'quality.dynamicScreenSpaceError'),
+    dynamicScreenSpaceErrorFactor: expectNumber(data.dynamicScreenSpaceErrorFactor, 'quality.dynamicScreenSpaceErrorFactor', 0),
+    skipLevelOfDetail: expectBoolean(data.skipLevelOfDetail, 'quality.skipLevelOfDetail'),
+    bloomEnabled: expectBoolean(data.bloomEnabled, 'quality.bloomEnabled'),
+    hdr: expectBoolean(data.hdr, 'quality.hdr'),
+    exposure: expectNumber(data.exposure, 'quality.exposure', 0),
+  };
+}
+
+function validateExportSettings(data: unknown): ExportSettingsData {
+  if (data === undefined) return { ...DEFAULT_EXPORT_SETTINGS };
+  expectObject(data, 'exportSettings');
+
+  const defaults = DEFAULT_EXPORT_SETTINGS;
+  return {
+    resolution: oneOf(data.resolution ?? defaults.resolution, ['720p', '1080p', '4k'], 'exportSettings.resolution'),
+    aspectRatio: oneOf(data.aspectRatio ?? defaults.aspectRatio, ['16:9', '9:16', '1:1', '4:5'], 'exportSettings.aspectRatio'),
+    format: oneOf(data.format ?? defaults.format, ['mp4', 'webm', 'gif'], 'exportSettings.format'),
+    quality: expectNumber(data.quality ?? defaults.quality, 'exportSettings.quality', 50, 100),
+    fps: expectNumber(data.fps ?? defaults.fps, 'exportSettings.fps', 1, 120),
+    filename: typeof data.filename === 'string' ? data.filename : defaults.filename,
+    replayCamera: oneOf(data.replayCamera ?? defaults.replayCamera, ['recorded', ...CAMERA_TYPES], 'exportSettings.replayCamera'),
+    duration: expectNumber(data.duration ?? defaults.duration, 'exportSettings.duration', 1),
+  };
+}
+
+function validateBezier(data: unknown, path: string): BezierHandles {
+  const values = expectArray(data, path);
+  if (values.length !== 4) {
+    throw new Error(`${path} must have 4 numbers`);
+  }
+  return values.map((v, i) => expectNumber(v, `${path}[${i}]`)) as BezierHandles;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function expectObject(value: unknown, path: string): asserts value is Record<string, unknown> {
+  if (!isObject(value)) {
+    throw new Error(`${path} must be an object`);
+  }
+}
+
+function expectArray(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) {
+    throw new Error(`${path} must be an array`);
+  }
+  return value;
+}
+
+function expectNumber(value: unknown, path: string, min: number = -Infinity, max: number = Infinity): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new Error(`${path} must be a number`);
+  }
+  if (value < min || value > max) {
+    throw new Error(`${path} must be between ${min} and ${max}`);
+  }
+  return value;
+}
+
+function expectBoolean(value: unknown, path: string): boolean {
+  if (typeof value !== 'boolean') {
+    throw new Error(`${path} must be true or false`);
+  }
+  return value;
+}
+
+function oneOf<T extends string>(value: unknown, allowed: readonly T[], path: string): T {
+  if (typeof value !== 'string' || !allowed.includes(value as T)) {
+    throw new Error(`${path} must be one of: ${allowed.join(', ')}`);
+  }
+  return value as T;
+}
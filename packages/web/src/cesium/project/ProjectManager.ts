@@ -0,0 +1,146 @@
+import { Scene } from '../core/Scene';
+import { ObjectManager } from '../builder/ObjectManager';
+import { CameraManager } from '../managers/CameraManager';
+import {
+  DEFAULT_DIRECTOR_SETTINGS,
+  DEFAULT_EXPORT_SETTINGS,
+  DirectorSettings,
+  ExportSettingsData,
+  PROJECT_FILE_EXTENSION,
+  PROJECT_FILE_FORMAT,
+  PROJECT_FILE_VERSION,
+  ProjectFile,
+  ProjectWaypoint,
+  parseProjectFile,
+  serializeProjectFile,
+} from './ProjectFile';
+
+/**
+ * Owns the studio session: engine state (builder objects, quality, camera) is read
+ * directly, UI state (director and export settings) is pushed in by the React panels.
+ */
+export class ProjectManager {
+  private scene: Scene;
+  private objectManager: ObjectManager;
+  private cameraManager: CameraManager;
+
+  private projectName: string = 'Untitled';
+  private director: DirectorSettings = { ...DEFAULT_DIRECTOR_SETTINGS };
+  private exportSettings: ExportSettingsData = { ...DEFAULT_EXPORT_SETTINGS };
+  private loadListeners: Array<(project: ProjectFile) => void> = [];
+  private waypointListeners: Array<(waypoints: ProjectWaypoint[]) => void> = [];
+
+  constructor(scene: Scene, objectManager: ObjectManager, cameraManager: CameraManager) {
+    this.scene = scene;
+    this.objectManager = objectManager;
+    this.cameraManager = cameraManager;
+  }
+
+  public getProjectName(): string {
+    return this.projectName;
+  }
+
+  public setProjectName(name: string): void {
+    this.projectName = name.trim() || 'Untitled';
+  }
+
+  public getDirectorSettings(): DirectorSettings {
+    return { ...this.director, waypoints: [...this.director.waypoints] };
+  }
+
+  public setDirectorSettings(settings: Partial<DirectorSettings>): void {
+    this.director = { ...this.director, ...settings };
+    if (settings.waypoints) {
+      this.notifyWaypointsChanged();
+    }
+  }
+
+  /**
+   * Append a waypoint to the director route, e.g. one picked on the minimap
+   */
+  public addWaypoint(waypoint: ProjectWaypoint): void {
+    this.director = { ...this.director, waypoints: [...this.director.waypoints, waypoint] };
+    console.log(`📍 Waypoint "${waypoint.name}" added (${waypoint.lat.toFixed(4)}, ${waypoint.lon.toFixed(4)})`);
+    this.notifyWaypointsChanged();
+  }
+
+  public getExportSettings(): ExportSettingsData {
+    return { ...this.exportSettings };
+  }
+
+  public setExportSettings(settings: Partial<ExportSettingsData>): void {
+    this.exportSettings = { ...this.exportSettings, ...settings };
+  }
+
+  public createProject(): ProjectFile {
+    return {
+      format: PROJECT_FILE_FORMAT,
+      version: PROJECT_FILE_VERSION,
+      name: this.projectName,
+      savedAt: new Date().toISOString(),
+      director: this.getDirectorSettings(),
+      camera: this.cameraManager.getActiveCameraType(),
+      layout: this.objectManager.exportLayout(),
+      quality: this.scene.getQualityConfig(),
+      exportSettings: this.getExportSettings(),
+    };
+  }
+
+  public applyProject(project: ProjectFile): void {
+    this.projectName = project.name;
+    this.director = { ...project.director };
+    this.exportSettings = { ...project.exportSettings };
+
+    this.objectManager.importLayout(project.layout);
+
+    this.scene.updateQualityConfig(project.quality);
+    this.cameraManager.setActiveCamera(project.camera);
+
+    for (const listener of this.loadListeners) {
+      listener(project);
+    }
+    this.notifyWaypointsChanged();
+    console.log(`📂 Project "${project.name}" loaded (${project.layout.objects.length} objects, ${project.director.waypoints.length} waypoints)`);
+  }
+
+  public saveProject(): void {
+    const blob = new Blob([serializeProjectFile(this.createProject())], { type: 'application/json' });
+    const fileName = `${this.projectName.replace(/[^\w-]+/g, '_')}${PROJECT_FILE_EXTENSION}`;
+
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+
+    console.log(`💾 Project saved as ${fileName}`);
+  }
+
+  /**
+   * Load a .skyproj file. Rejects with a validation message if the file is unusable,
+   * in which case the current session is left untouched.
+   */
+  public async loadProject(file: Blob): Promise<ProjectFile> {
+    const project = parseProjectFile(await file.text());
+    this.applyProject(project);
+    return project;
+  }
+
+  public addProjectLoadListener(callback: (project: ProjectFile) => void): void {
+    this.loadListeners.push(callback);
+  }
+
+  public addWaypointListener(callback: (waypoints: ProjectWaypoint[]) => void): void {
+    this.waypointListeners.push(callback);
+  }
+
+  private notifyWaypointsChanged(): void {
+    const waypoints = [...this.director.waypoints];
+    for (const listener of this.waypointListeners) {
+      listener(waypoints);
+    }
+  }
+}
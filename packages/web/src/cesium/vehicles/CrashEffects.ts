@@ -0,0 +1,122 @@
+import * as Cesium from 'cesium';
+import type { DamageState } from './ImpactModel';
+
+const GRAVITY = 9.81;
+
+/**
+ * Smoke, fire and debris left at a crash site. Damaged vehicles smoulder; destroyed
+ * ones also throw a burst of debris and a fireball.
+ */
+export class CrashEffects {
+  private scene: Cesium.Scene;
+  private systems: Cesium.ParticleSystem[] = [];
+
+  private static puffImage: HTMLCanvasElement | null = null;
+  private static readonly scratchGravity = new Cesium.Cartesian3();
+
+  constructor(scene: Cesium.Scene, position: Cesium.Cartesian3, damage: DamageState) {
+    this.scene = scene;
+    // Local frame at the wreck, z up, so emitters spray skywards
+    const modelMatrix = Cesium.Transforms.eastNorthUpToFixedFrame(position);
+    const image = CrashEffects.getPuffImage();
+    const destroyed = damage === 'destroyed';
+
+    this.add(new Cesium.ParticleSystem({
+      image,
+      modelMatrix,
+      startColor: Cesium.Color.fromBytes(60, 60, 60, 200),
+      endColor: Cesium.Color.fromBytes(120, 120, 120, 0),
+      startScale: 1,
+      endScale: destroyed ? 8 : 5,
+      minimumParticleLife: 4,
+      maximumParticleLife: 8,
+      minimumSpeed: 2,
+      maximumSpeed: 5,
+      imageSize: new Cesium.Cartesian2(3, 3),
+      sizeInMeters: true,
+      emissionRate: destroyed ? 30 : 10,
+      emitter: new Cesium.ConeEmitter(Cesium.Math.toRadians(20)),
+    }));
+
+    if (!destroyed) return;
+
+    this.add(new Cesium.ParticleSystem({
+      image,
+      modelMatrix,
+      startColor: Cesium.Color.fromBytes(255, 200, 80, 255),
+      endColor: Cesium.Color.fromBytes(200, 40, 0, 0),
+      startScale: 2,
+      endScale: 6,
+      minimumParticleLife: 0.4,
+      maximumParticleLife: 1.2,
+      minimumSpeed: 4,
+      maximumSpeed: 10,
+      imageSize: new Cesium.Cartesian2(4, 4),
+      sizeInMeters: true,
+      emissionRate: 0,
+      bursts: [new Cesium.ParticleBurst({ time: 0, minimum: 40, maximum: 60 })],
+      loop: false,
+      emitter: new Cesium.SphereEmitter(3),
+    }));
+
+    this.add(new Cesium.ParticleSystem({
+      image,
+      modelMatrix,
+      startColor: Cesium.Color.fromBytes(40, 35, 30, 255),
+      endColor: Cesium.Color.fromBytes(40, 35, 30, 255),
+      startScale: 1,
+      endScale: 1,
+      minimumParticleLife: 2,
+      maximumParticleLife: 3.5,
+      minimumSpeed: 10,
+      maximumSpeed: 25,
+      imageSize: new Cesium.Cartesian2(0.6, 0.6),
+      sizeInMeters: true,
+      emissionRate: 0,
+      bursts: [new Cesium.ParticleBurst({ time: 0, minimum: 30, maximum: 50 })],
+      loop: false,
+      emitter: new Cesium.ConeEmitter(Cesium.Math.toRadians(60)),
+      updateCallback: CrashEffects.applyGravity,
+    }));
+  }
+
+  public destroy(): void {
+    for (const system of this.systems) {
+      try {
+        this.scene.primitives.remove(system);
+      } catch {}
+    }
+    this.systems = [];
+  }
+
+  private add(system: Cesium.ParticleSystem): void {
+    this.systems.push(this.scene.primitives.add(system));
+  }
+
+  // Particle positions and velocities are in world space; pull debris towards the earth's centre
+  private static applyGravity(particle: Cesium.Particle, deltaTime: number): void {
+    const gravity = CrashEffects.scratchGravity;
+    Cesium.Cartesian3.normalize(particle.position, gravity);
+    Cesium.Cartesian3.multiplyByScalar(gravity, -GRAVITY * deltaTime, gravity);
+    Cesium.Cartesian3.add(particle.velocity, gravity, particle.velocity);
+  }
+
+  private static getPuffImage(): HTMLCanvasElement {
+    if (!CrashEffects.puffImage) {
+      const canvas = document.createElement('canvas');
+      canvas.width = 32;
+      canvas.height = 32;
+      const ctx = canvas.getContext('2d');
+      if (ctx) {
+        const gradient = ctx.createRadialGradient(16, 16, 0, 16, 16, 16);
+        gradient.addColorStop(0, 'rgba(255, 255, 255, 1)');
+        gradient.addColorStop(0.5, 'rgba(255, 255, 255, 0.6)');
+        gradient.addColorStop(1, 'rgba(255, 255, 255, 0)');
+        ctx.fillStyle = gradient;
+        ctx.fillRect(0, 0, 32, 32);
+      }
+      CrashEffects.puffImage = canvas;
+    }
+    return CrashEffects.puffImage;
+  }
+}
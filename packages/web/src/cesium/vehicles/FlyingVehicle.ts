@@ -0,0 +1,290 @@
+import * as Cesium from 'cesium';
+import { Vehicle, VehicleState } from './Vehicle';
+import type { Environment } from '../core/Environment';
+import { DamageState, ImpactCause, ImpactReport, evaluateImpact, worstDamage } from './ImpactModel';
+import { CrashEffects } from './CrashEffects';
+
+const COLLISION_CHECK_INTERVAL = 8; // frames between terrain probes
+const HARD_LANDING_CLEARANCE = 1.5; // m above the ground after bouncing off it
+const GRAVITY = 9.81;
+const INSTRUMENT_RESPONSE = 4; // 1/s, smoothing of the derived vertical speed and g-load
+
+/**
+ * What the flight instruments read
+ */
+export interface FlightData {
+  altitude: number; // m above the WGS84 ellipsoid, standing in for MSL (no geoid correction)
+  altitudeAgl: number | null; // m above the ground last probed, null before the first probe
+  verticalSpeed: number; // m/s, positive climbing
+  gLoad: number; // along the vehicle's up axis, 1 in level flight
+}
+
+/**
+ * Base for vehicles that fly: they move through the environment's wind and hit the
+ * ground or anything in front of them. Impacts are graded by speed and angle, from a
+ * hard landing the vehicle flies away from to a crash that destroys it.
+ */
+export abstract class FlyingVehicle extends Vehicle {
+  protected environment: Environment | null = null;
+  protected crashed: boolean = false;
+  private damage: DamageState = 'intact';
+  private lastImpact: ImpactReport | null = null;
+  private crashEffects: CrashEffects | null = null;
+  private framesSinceCollisionCheck: number = 0;
+  private timeSinceCollisionCheck: number = 0;
+  private lastCheckPosition: Cesium.Cartesian3 | null = null;
+  private lastGroundHeight: number | null = null;
+  private flightData: FlightData = { altitude: 0, altitudeAgl: null, verticalSpeed: 0, gLoad: 1 };
+  private lastFlightPosition: Cesium.Cartesian3 | null = null;
+  private lastWorldVelocity: Cesium.Cartesian3 | null = null;
+
+  private static readonly scratchProbeFrame = new Cesium.Matrix4();
+  private static readonly scratchProbeDirection = new Cesium.Cartesian3();
+  private static readonly scratchWorldProbeDirection = new Cesium.Cartesian3();
+  private static readonly scratchProbe = new Cesium.Cartesian3();
+  private static readonly scratchProbeOffset = new Cesium.Cartesian3();
+  private static readonly scratchImpactTravel = new Cesium.Cartesian3();
+  private static readonly scratchImpactUp = new Cesium.Cartesian3();
+  private static readonly scratchFlightCartographic = new Cesium.Cartographic();
+  private static readonly scratchFlightVelocity = new Cesium.Cartesian3();
+  private static readonly scratchFlightAcceleration = new Cesium.Cartesian3();
+  private static readonly scratchFlightUp = new Cesium.Cartesian3();
+  private static readonly scratchBodyFrame = new Cesium.Matrix4();
+  private static readonly scratchBodyUp = new Cesium.Cartesian4();
+
+  /**
+   * Fly through this environment's wind instead of still air
+   */
+  public setEnvironment(environment: Environment | null): void {
+    this.environment = environment;
+  }
+
+  public setState(state: VehicleState): void {
+    super.setState(state);
+    // A teleport is not travel; don't let it count towards an impact speed or the instruments
+    this.lastCheckPosition = null;
+    this.lastFlightPosition = null;
+    this.lastWorldVelocity = null;
+  }
+
+  public getFlightData(): FlightData {
+    return { ...this.flightData };
+  }
+
+  public isCrashed(): boolean {
+    return this.crashed;
+  }
+
+  public getDamageState(): DamageState {
+    return this.damage;
+  }
+
+  /**
+   * The impact that crashed the vehicle, or its last hard landing
+   */
+  public getLastImpact(): ImpactReport | null {
+    return this.lastImpact;
+  }
+
+  /**
+   * Clear the crash and any damage, ready to fly again
+   */
+  public resetCrash(): void {
+    this.crashed = false;
+    this.damage = 'intact';
+    this.lastImpact = null;
+    this.lastCheckPosition = null;
+    this.crashEffects?.destroy();
+    this.crashEffects = null;
+    if (this.primitive) {
+      this.primitive.show = true;
+    }
+  }
+
+  /**
+   * Derive the instrument readings from how the vehicle moved; call once per update
+   * after moving. Works the same for every flight model.
+   */
+  protected updateFlightData(deltaTime: number): void {
+    if (deltaTime <= 0) return;
+
+    const height = Cesium.Cartographic.fromCartesian(this.position, Cesium.Ellipsoid.WGS84, FlyingVehicle.scratchFlightCartographic).height;
+    this.flightData.altitude = height;
+    this.flightData.altitudeAgl = this.lastGroundHeight !== null ? height - this.lastGroundHeight : null;
+
+    if (this.lastFlightPosition) {
+      const velocity = Cesium.Cartesian3.subtract(this.position, this.lastFlightPosition, FlyingVehicle.scratchFlightVelocity);
+      Cesium.Cartesian3.divideByScalar(velocity, deltaTime, velocity);
+      const up = Cesium.Ellipsoid.WGS84.geodeticSurfaceNormal(this.position, FlyingVehicle.scratchFlightUp);
+      const blend = Math.min(1, INSTRUMENT_RESPONSE * deltaTime);
+      this.flightData.verticalSpeed += (Cesium.Cartesian3.dot(velocity, up) - this.flightData.verticalSpeed) * blend;
+
+      if (this.lastWorldVelocity) {
+        // What the pilot feels: acceleration plus the 1 g holding them up, along the seat
+        const acceleration = Cesium.Cartesian3.subtract(velocity, this.lastWorldVelocity, FlyingVehicle.scratchFlightAcceleration);
+        Cesium.Cartesian3.divideByScalar(acceleration, deltaTime, acceleration);
+        Cesium.Cartesian3.add(acceleration, Cesium.Cartesian3.multiplyByScalar(up, GRAVITY, up), acceleration);
+
+        Cesium.Transforms.headingPitchRollToFixedFrame(this.position, this.hpRoll, Cesium.Ellipsoid.WGS84, undefined, FlyingVehicle.scratchBodyFrame);
+        const bodyUp = Cesium.Matrix4.getColumn(FlyingVehicle.scratchBodyFrame, 2, FlyingVehicle.scratchBodyUp);
+        const load = (acceleration.x * bodyUp.x + acceleration.y * bodyUp.y + acceleration.z * bodyUp.z) / GRAVITY;
+        this.flightData.gLoad += (load - this.flightData.gLoad) * blend;
+      }
+      this.lastWorldVelocity = Cesium.Cartesian3.clone(velocity, this.lastWorldVelocity ?? undefined);
+    }
+    this.lastFlightPosition = Cesium.Cartesian3.clone(this.position, this.lastFlightPosition ?? undefined);
+  }
+
+  /**
+   * Probe the terrain every few frames; call once per update after moving
+   */
+  protected checkForCollision(deltaTime: number): void {
+    this.framesSinceCollisionCheck++;
+    this.timeSinceCollisionCheck += deltaTime;
+    if (this.framesSinceCollisionCheck >= COLLISION_CHECK_INTERVAL) {
+      this.performCollisionCheck(this.timeSinceCollisionCheck);
+      this.framesSinceCollisionCheck = 0;
+      this.timeSinceCollisionCheck = 0;
+    }
+  }
+
+  /**
+   * Height of the model origin above the ground at which it counts as touching it
+   */
+  protected getGroundClearance(): number {
+    return 0.5;
+  }
+
+  /**
+   * Direction the collision probe looks in, local east-north-up
+   */
+  protected getProbeDirection(result: Cesium.Cartesian3): Cesium.Cartesian3 {
+    result.x = Math.cos(this.hpRoll.heading);
+    result.y = -Math.sin(this.hpRoll.heading);
+    result.z = 0;
+    return result;
+  }
+
+  private performCollisionCheck(elapsed: number): void {
+    if (!this.primitive || !this.sceneRef) return;
+
+    const currentHeight = Cesium.Cartographic.fromCartesian(this.position).height;
+    const ground = this.sceneRef.clampToHeight(this.position, [this.primitive]);
+    if (ground) {
+      const groundHeight = Cesium.Cartographic.fromCartesian(ground).height;
+      this.lastGroundHeight = groundHeight;
+      if (currentHeight <= groundHeight + this.getGroundClearance()) {
+        this.impact('terrain', elapsed, groundHeight);
+        this.rememberCheckPosition();
+        return;
+      }
+    }
+
+    const localForward = this.getProbeDirection(FlyingVehicle.scratchProbeDirection);
+    if (Cesium.Cartesian3.magnitudeSquared(localForward) < 1e-6) return;
+
+    Cesium.Transforms.eastNorthUpToFixedFrame(this.position, undefined, FlyingVehicle.scratchProbeFrame);
+    const worldForward = Cesium.Matrix4.multiplyByPointAsVector(
+      FlyingVehicle.scratchProbeFrame,
+      localForward,
+      FlyingVehicle.scratchWorldProbeDirection
+    );
+    Cesium.Cartesian3.normalize(worldForward, worldForward);
+
+    const probeDistance = 2.0;
+    Cesium.Cartesian3.multiplyByScalar(worldForward, probeDistance, FlyingVehicle.scratchProbeOffset);
+    const probe = Cesium.Cartesian3.add(
+      this.position,
+      FlyingVehicle.scratchProbeOffset,
+      FlyingVehicle.scratchProbe
+    );
+    const ahead = this.sceneRef.clampToHeight(probe, [this.primitive]);
+    if (ahead) {
+      const aheadHeight = Cesium.Cartographic.fromCartesian(ahead).height;
+      if (aheadHeight > currentHeight + 0.5) {
+        this.impact('obstacle', elapsed, null);
+      }
+    }
+    this.rememberCheckPosition();
+  }
+
+  private rememberCheckPosition(): void {
+    this.lastCheckPosition = Cesium.Cartesian3.clone(this.position, this.lastCheckPosition ?? undefined);
+  }
+
+  /**
+   * Grade the impact from the vehicle's velocity since the last check and act on it
+   */
+  private impact(cause: ImpactCause, elapsed: number, groundHeight: number | null): void {
+    let speed = this.speed;
+    let verticalSpeed = 0;
+    if (this.lastCheckPosition && elapsed > 0) {
+      const travel = Cesium.Cartesian3.subtract(this.position, this.lastCheckPosition, FlyingVehicle.scratchImpactTravel);
+      const up = Cesium.Ellipsoid.WGS84.geodeticSurfaceNormal(this.position, FlyingVehicle.scratchImpactUp);
+      speed = Cesium.Cartesian3.magnitude(travel) / elapsed;
+      verticalSpeed = -Cesium.Cartesian3.dot(travel, up) / elapsed;
+    }
+
+    const report = evaluateImpact(cause, speed, verticalSpeed);
+    if (groundHeight !== null && this.touchDown(report, groundHeight)) return;
+    if (report.damage !== 'intact') {
+      this.recordImpact(report);
+    }
+
+    if ((report.damage === 'intact' || report.damage === 'hardLanding') && groundHeight !== null) {
+      this.hardLanding(report, groundHeight);
+    } else {
+      this.crash(report);
+    }
+  }
+
+  protected recordImpact(report: ImpactReport): void {
+    this.damage = worstDamage(this.damage, report.damage);
+    this.lastImpact = report;
+  }
+
+  /**
+   * Ground contact, before it is treated as an impact. Vehicles that can land return
+   * true once they have handled it.
+   */
+  protected touchDown(_report: ImpactReport, _groundHeight: number): boolean {
+    return false;
+  }
+
+  /**
+   * Survivable impact without landing: bounce back into the air with the nose level
+   */
+  protected hardLanding(report: ImpactReport, groundHeight: number): void {
+    const cartographic = Cesium.Cartographic.fromCartesian(this.position);
+    cartographic.height = groundHeight + HARD_LANDING_CLEARANCE;
+    const state = this.getState();
+    this.setState({
+      ...state,
+      position: Cesium.Cartographic.toCartesian(cartographic),
+      pitch: Math.max(state.pitch, 0),
+      roll: 0,
+    });
+    console.log(`🛬 ${this.id} hard landing at ${report.verticalSpeed.toFixed(1)} m/s descent`);
+  }
+
+  protected crash(report: ImpactReport): void {
+    this.crashed = true;
+    this.velocity = 0;
+    this.speed = 0;
+
+    if (this.sceneRef) {
+      this.crashEffects?.destroy();
+      this.crashEffects = new CrashEffects(this.sceneRef, this.position, report.damage);
+    }
+    if (report.damage === 'destroyed' && this.primitive) {
+      this.primitive.show = false;
+    }
+    console.log(`💥 ${this.id} crashed into ${report.cause} at ${report.speed.toFixed(0)} m/s (${report.damage})`);
+  }
+
+  public destroy(): void {
+    this.crashEffects?.destroy();
+    this.crashEffects = null;
+    super.destroy();
+  }
+}
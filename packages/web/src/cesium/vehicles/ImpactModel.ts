@@ -0,0 +1,97 @@
+/**
+ * How badly a vehicle is hurt. Only ever gets worse until the vehicle is restarted.
+ */
+export type DamageState = 'intact' | 'hardLanding' | 'damaged' | 'destroyed';
+
+export type ImpactCause = 'terrain' | 'obstacle' | 'gearUp';
+
+export interface ImpactReport {
+  damage: DamageState;
+  cause: ImpactCause;
+  speed: number; // m/s at impact
+  verticalSpeed: number; // m/s, positive descending
+  angle: number; // degrees below the horizon
+}
+
+// Contact soft enough to do no harm at all
+const INTACT_MAX_DESCENT = 1.5;
+// Below this horizontal speed the craft is settling straight down, so its flight path angle says nothing
+const SETTLE_MAX_SPEED = 5;
+// A firm arrival the airframe shrugs off
+const HARD_LANDING_MAX_DESCENT = 4;
+const HARD_LANDING_MAX_ANGLE = 12;
+const HARD_LANDING_MAX_SPEED = 70;
+// Bent but in one piece
+const DAMAGED_MAX_DESCENT = 10;
+const DAMAGED_MAX_ANGLE = 30;
+const DAMAGED_MAX_SPEED = 90;
+// Flying into a wall is never survivable at speed
+const OBSTACLE_DAMAGED_MAX_SPEED = 20;
+
+export type TouchdownGrade = 'butter' | 'smooth' | 'firm' | 'hard';
+
+export interface TouchdownReport {
+  grade: TouchdownGrade;
+  score: number; // 0-100
+  verticalSpeed: number; // m/s descending
+  speed: number; // m/s over the ground
+}
+
+// Upper descent rate, m/s, for each touchdown grade
+const TOUCHDOWN_GRADES: Array<[TouchdownGrade, number]> = [
+  ['butter', 0.75],
+  ['smooth', 1.5],
+  ['firm', 2.5],
+  ['hard', HARD_LANDING_MAX_DESCENT],
+];
+
+const DAMAGE_ORDER: DamageState[] = ['intact', 'hardLanding', 'damaged', 'destroyed'];
+
+/**
+ * Grade an impact from the vehicle's speed and flight path angle
+ */
+export function evaluateImpact(cause: ImpactCause, speed: number, verticalSpeed: number): ImpactReport {
+  const horizontalSpeed = Math.sqrt(Math.max(0, speed * speed - verticalSpeed * verticalSpeed));
+  const angle = Math.max(0, Math.atan2(verticalSpeed, horizontalSpeed) * 180 / Math.PI);
+
+  const gentlePath = (angle <= HARD_LANDING_MAX_ANGLE || horizontalSpeed <= SETTLE_MAX_SPEED) && speed <= HARD_LANDING_MAX_SPEED;
+
+  let damage: DamageState;
+  if (cause === 'obstacle') {
+    damage = speed <= OBSTACLE_DAMAGED_MAX_SPEED ? 'damaged' : 'destroyed';
+  } else if (verticalSpeed <= INTACT_MAX_DESCENT && gentlePath) {
+    damage = 'intact';
+  } else if (verticalSpeed <= HARD_LANDING_MAX_DESCENT && gentlePath) {
+    damage = 'hardLanding';
+  } else if (verticalSpeed <= DAMAGED_MAX_DESCENT && angle <= DAMAGED_MAX_ANGLE && speed <= DAMAGED_MAX_SPEED) {
+    damage = 'damaged';
+  } else {
+    damage = 'destroyed';
+  }
+
+  return { damage, cause, speed, verticalSpeed, angle };
+}
+
+/**
+ * The worse of two damage states
+ */
+export function worstDamage(a: DamageState, b: DamageState): DamageState {
+  return DAMAGE_ORDER.indexOf(a) >= DAMAGE_ORDER.indexOf(b) ? a : b;
+}
+
+/**
+ * Whether an impact is gentle enough to land on wheels or skids
+ */
+export function isLandable(report: ImpactReport): boolean {
+  return report.cause === 'terrain' && (report.damage === 'intact' || report.damage === 'hardLanding');
+}
+
+/**
+ * Score a landing by its sink rate: 100 for a kiss, nothing at the structural limit
+ */
+export function gradeTouchdown(verticalSpeed: number, speed: number): TouchdownReport {
+  const sink = Math.max(0, verticalSpeed);
+  const grade = TOUCHDOWN_GRADES.find(([, limit]) => sink <= limit)?.[0] ?? 'hard';
+  const score = Math.round(100 * Math.max(0, 1 - sink / HARD_LANDING_MAX_DESCENT));
+  return { grade, score, verticalSpeed: sink, speed };
+}
@@ -1,6 +1,23 @@
 import * as Cesium from 'cesium';
 import { Updatable } from '../core/GameLoop';
 
+/**
+ * Where the cameras sit relative to a vehicle, in metres
+ */
+export interface VehicleCameraOffsets {
+  followDistance: number;
+  followCloseDistance: number;
+  fpvForward: number;
+  fpvUp: number;
+}
+
+export const DEFAULT_CAMERA_OFFSETS: VehicleCameraOffsets = {
+  followDistance: 25,
+  followCloseDistance: 5,
+  fpvForward: 2,
+  fpvUp: 0.5,
+};
+
 export interface VehicleConfig {
   modelUrl: string;
   scale?: number;
@@ -9,6 +26,7 @@ export interface VehicleConfig {
   pitch?: number;
   roll?: number;
   modelHeadingOffset?: number;
+  camera?: Partial<VehicleCameraOffsets>;
 }
 
 export interface VehicleState {
@@ -114,6 +132,10 @@ export abstract class Vehicle implements Updatable {
     this.updateModelMatrix();
   }
 
+  public getCameraOffsets(): VehicleCameraOffsets {
+    return { ...DEFAULT_CAMERA_OFFSETS, ...this.config.camera };
+  }
+
   public getPosition(): Cesium.Cartesian3 {
     return Cesium.Cartesian3.clone(this.position, Vehicle.scratchPositionClone);
   }
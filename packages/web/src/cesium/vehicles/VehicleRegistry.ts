@@ -0,0 +1,233 @@
+import * as Cesium from 'cesium';
+import { Vehicle, VehicleCameraOffsets } from './Vehicle';
+import { Car } from './car/Car';
+import type { PhysicsConfig } from './car/CarPhysics';
+import { Aircraft } from './aircraft/Aircraft';
+import type { AircraftConfig as ArcadePhysicsConfig, FlightModelType } from './aircraft/AircraftPhysics';
+import type { AeroConfig } from './aircraft/AeroFlightModel';
+import { Rotorcraft } from './rotorcraft/Rotorcraft';
+import type { RotorcraftConfig } from './rotorcraft/RotorcraftPhysics';
+import { Boat } from './boat/Boat';
+import type { BoatConfig } from './boat/BoatPhysics';
+
+export type VehicleKind = 'car' | 'aircraft' | 'rotorcraft' | 'boat';
+
+interface VehicleDefinitionBase {
+  id: string;
+  name: string;
+  icon: string;
+  description: string;
+  modelUrl: string;
+  scale?: number;
+  modelHeadingOffset?: number;
+  camera?: Partial<VehicleCameraOffsets>;
+}
+
+export interface CarDefinition extends VehicleDefinitionBase {
+  kind: 'car';
+  physics?: Partial<PhysicsConfig>;
+}
+
+export interface AircraftDefinition extends VehicleDefinitionBase {
+  kind: 'aircraft';
+  flightModel?: FlightModelType; // pins the flight model regardless of the global choice
+  physics?: Partial<ArcadePhysicsConfig>;
+  aero?: Partial<AeroConfig>;
+}
+
+export interface RotorcraftDefinition extends VehicleDefinitionBase {
+  kind: 'rotorcraft';
+  physics?: Partial<RotorcraftConfig>;
+}
+
+export interface BoatDefinition extends VehicleDefinitionBase {
+  kind: 'boat';
+  physics?: Partial<BoatConfig>;
+  hullLength?: number;
+}
+
+export type VehicleDefinition = CarDefinition | AircraftDefinition | RotorcraftDefinition | BoatDefinition;
+
+/**
+ * What the UI needs to list a vehicle
+ */
+export interface VehicleSummary {
+  id: string;
+  name: string;
+  icon: string;
+  description: string;
+  kind: VehicleKind;
+}
+
+export const DEFAULT_VEHICLE_ID = 'prop';
+
+// The jet, helicopter, quad and boat reuse the plane model until they get their own
+export const DEFAULT_VEHICLES: VehicleDefinition[] = [
+  {
+    id: 'prop',
+    name: 'Light Prop',
+    icon: '🛩️',
+    description: 'Forgiving single-engine trainer',
+    kind: 'aircraft',
+    modelUrl: './plane.glb',
+    scale: 5,
+    physics: {
+      minSpeed: 15,
+      maxSpeed: 90,
+      speedChangeRate: 15,
+      turnRate: Cesium.Math.toRadians(40),
+      climbRate: 12,
+    },
+  },
+  {
+    id: 'jet',
+    name: 'Jet',
+    icon: '✈️',
+    description: 'Fast, wide turns, needs room',
+    kind: 'aircraft',
+    modelUrl: './plane.glb',
+    scale: 7,
+    physics: {
+      minSpeed: 60,
+      maxSpeed: 1200,
+      speedChangeRate: 60,
+      turnRate: Cesium.Math.toRadians(30),
+      climbRate: 40,
+      maxRoll: Cesium.Math.toRadians(70),
+    },
+    aero: {
+      mass: 9000,
+      wingArea: 28,
+      wingSpan: 9.5,
+      chord: 3.2,
+      inertia: { roll: 12000, pitch: 60000, yaw: 70000 },
+      maxThrust: 80000,
+      dragCoefficient0: 0.02,
+    },
+    camera: { followDistance: 40, followCloseDistance: 8, fpvForward: 4, fpvUp: 1 },
+  },
+  {
+    id: 'helicopter',
+    name: 'Helicopter',
+    icon: '🚁',
+    description: 'Hovers, climbs straight up, yaws in place',
+    kind: 'rotorcraft',
+    modelUrl: './plane.glb',
+    scale: 5,
+    camera: { followDistance: 30 },
+  },
+  {
+    id: 'quad',
+    name: 'FPV Quad',
+    icon: '🛸',
+    description: 'Tiny, twitchy racing drone',
+    kind: 'rotorcraft',
+    modelUrl: './plane.glb',
+    scale: 1.5,
+    physics: {
+      maxForwardSpeed: 35,
+      maxSidewaysSpeed: 20,
+      maxClimbRate: 12,
+      maxDescentRate: 10,
+      acceleration: 15,
+      verticalAcceleration: 12,
+      yawRate: Cesium.Math.toRadians(180),
+      yawResponse: 8,
+      maxTilt: Cesium.Math.toRadians(40),
+      tiltResponse: 10,
+    },
+    camera: { followDistance: 8, followCloseDistance: 2.5, fpvForward: 0.3, fpvUp: 0.1 },
+  },
+  {
+    id: 'boat',
+    name: 'Speedboat',
+    icon: '🚤',
+    description: 'Rides the swell in harbours and open water',
+    kind: 'boat',
+    modelUrl: './plane.glb',
+    scale: 3,
+    hullLength: 8,
+    camera: { followDistance: 20, followCloseDistance: 6, fpvUp: 1.5 },
+  },
+  {
+    id: 'car',
+    name: 'Rover',
+    icon: '🚗',
+    description: 'Drives on terrain and buildings',
+    kind: 'car',
+    modelUrl: './walter.glb',
+    scale: 10,
+    modelHeadingOffset: Cesium.Math.toRadians(90),
+  },
+];
+
+/**
+ * Catalogue of spawnable vehicles. New craft are added by registering a definition;
+ * the registry builds the matching Vehicle subclass.
+ */
+export class VehicleRegistry {
+  private definitions: Map<string, VehicleDefinition> = new Map();
+
+  constructor(definitions: VehicleDefinition[] = DEFAULT_VEHICLES) {
+    for (const definition of definitions) {
+      this.register(definition);
+    }
+  }
+
+  /**
+   * Add a vehicle, replacing any existing one with the same id
+   */
+  public register(definition: VehicleDefinition): void {
+    this.definitions.set(definition.id, definition);
+  }
+
+  public get(id: string): VehicleDefinition | undefined {
+    return this.definitions.get(id);
+  }
+
+  public has(id: string): boolean {
+    return this.definitions.has(id);
+  }
+
+  public list(): VehicleSummary[] {
+    return Array.from(this.definitions.values()).map(({ id, name, icon, description, kind }) => ({
+      id, name, icon, description, kind,
+    }));
+  }
+
+  /**
+   * Build a vehicle from its definition. Aircraft use the given flight model unless
+   * the definition pins one.
+   */
+  public create(id: string, position: Cesium.Cartesian3, heading: number, flightModel: FlightModelType): Vehicle {
+    const definition = this.definitions.get(id);
+    if (!definition) {
+      throw new Error(`Unknown vehicle "${id}"`);
+    }
+
+    const base = {
+      modelUrl: definition.modelUrl,
+      scale: definition.scale,
+      modelHeadingOffset: definition.modelHeadingOffset,
+      camera: definition.camera,
+      position,
+      heading,
+    };
+
+    switch (definition.kind) {
+      case 'car':
+        return new Car(definition.id, { ...base, physics: definition.physics });
+      case 'aircraft':
+        return new Aircraft(definition.id, {
+          ...base,
+          flightModel: definition.flightModel ?? flightModel,
+          physics: definition.physics,
+          aero: definition.aero,
+        });
+      case 'rotorcraft':
+        return new Rotorcraft(definition.id, { ...base, physics: definition.physics });
+      case 'boat':
+        return new Boat(definition.id, { ...base, physics: definition.physics, hullLength: definition.hullLength });
+    }
+  }
+}
@@ -0,0 +1,316 @@
+import * as Cesium from 'cesium';
+import type { AircraftInput, AircraftState, AircraftUpdateResult, FlightModel } from './AircraftPhysics';
+
+/**
+ * Airframe and aerodynamic coefficients. Angles in radians, rates are non-dimensional
+ * (p·b/2V, q·c/2V, r·b/2V). Moments are positive for roll right, nose up and nose right.
+ */
+export interface AeroConfig {
+  mass: number; // kg
+  wingArea: number; // m²
+  wingSpan: number; // m
+  chord: number; // m
+  inertia: { roll: number; pitch: number; yaw: number }; // kg·m²
+  maxThrust: number; // N
+  throttleRate: number; // throttle fraction per second from the keys
+
+  liftCoefficient0: number;
+  liftSlope: number; // per radian
+  stallAngle: number;
+  dragCoefficient0: number;
+  inducedDragFactor: number;
+  sideForceSlope: number; // per radian of sideslip
+
+  pitchMoment0: number;
+  pitchStability: number; // Cm per radian of angle of attack
+  pitchDamping: number;
+  elevatorPower: number; // Cm at full elevator
+
+  rollDamping: number;
+  rollDihedral: number; // Cl per radian of sideslip
+  aileronPower: number; // Cl at full aileron
+
+  yawStability: number; // Cn per radian of sideslip
+  yawDamping: number;
+  rudderPower: number; // Cn at full rudder
+}
+
+export const DEFAULT_AERO_CONFIG: AeroConfig = {
+  mass: 1200,
+  wingArea: 16.2,
+  wingSpan: 11,
+  chord: 1.5,
+  inertia: { roll: 1300, pitch: 1800, yaw: 2600 },
+  maxThrust: 9000,
+  throttleRate: 0.5,
+
+  liftCoefficient0: 0.25,
+  liftSlope: 5.0,
+  stallAngle: Cesium.Math.toRadians(15),
+  dragCoefficient0: 0.03,
+  inducedDragFactor: 0.05,
+  sideForceSlope: -0.6,
+
+  pitchMoment0: 0.02,
+  pitchStability: -0.8,
+  pitchDamping: -12,
+  elevatorPower: 0.25,
+
+  rollDamping: -0.5,
+  rollDihedral: -0.1,
+  aileronPower: 0.06,
+
+  yawStability: 0.12,
+  yawDamping: -0.15,
+  rudderPower: 0.08,
+};
+
+const GRAVITY = 9.81;
+const SEA_LEVEL_DENSITY = 1.225;
+const DENSITY_SCALE_HEIGHT = 8500; // m
+const MAX_SUBSTEP = 1 / 120;
+const INITIAL_SPEED = 60;
+const AUTOTHROTTLE_GAIN = 0.05; // throttle per (m/s of speed error) per second
+
+/**
+ * Six-degree-of-freedom flight model: thrust, lift and drag from angle of attack and
+ * sideslip, control surfaces producing moments, and a rigid body integrated in the
+ * local east-north-up frame. The aircraft can stall, sideslip and loop.
+ *
+ * Body axes follow Cesium's heading/pitch/roll frame: x forward, y left, z up.
+ */
+export class AeroFlightModel implements FlightModel {
+  private config: AeroConfig;
+
+  private orientation: Cesium.Quaternion; // body → east-north-up
+  private velocity: Cesium.Cartesian3; // east-north-up, m/s, over the ground
+  private wind = new Cesium.Cartesian3(); // east-north-up air-mass velocity
+  private rates = { roll: 0, pitch: 0, yaw: 0 }; // rad/s, positive roll right, nose up, nose right
+  private throttle: number = 0.15; // roughly level flight at the initial speed
+  private altitude: number = 0;
+
+  private stalled: boolean = false;
+  private angleOfAttack: number = 0;
+  private sideslip: number = 0;
+
+  private static readonly scratchRotation = new Cesium.Matrix3();
+  private static readonly scratchBodyVelocity = new Cesium.Cartesian3();
+  private static readonly scratchAirVelocity = new Cesium.Cartesian3();
+  private static readonly scratchForce = new Cesium.Cartesian3();
+  private static readonly scratchWorldForce = new Cesium.Cartesian3();
+  private static readonly scratchDirection = new Cesium.Cartesian3();
+  private static readonly scratchAxis = new Cesium.Cartesian3();
+  private static readonly scratchDelta = new Cesium.Quaternion();
+  private static readonly scratchHpr = new Cesium.HeadingPitchRoll();
+  private static readonly scratchPositionDelta = new Cesium.Cartesian3();
+  private static readonly scratchTravelled = new Cesium.Cartesian3();
+  private static readonly scratchStep = new Cesium.Cartesian3();
+
+  constructor(config: Partial<AeroConfig> = {}, initialHeading: number = 0) {
+    this.config = { ...DEFAULT_AERO_CONFIG, ...config };
+    this.orientation = Cesium.Quaternion.fromHeadingPitchRoll(new Cesium.HeadingPitchRoll(initialHeading, 0, 0));
+    this.velocity = this.bodyToWorld(new Cesium.Cartesian3(INITIAL_SPEED, 0, 0), new Cesium.Cartesian3());
+  }
+
+  public update(deltaTime: number, input: AircraftInput): AircraftUpdateResult {
+    this.updateThrottle(deltaTime, input);
+
+    const controls = {
+      elevator: input.altitudeUp - input.altitudeDown,
+      aileron: input.rollRight - input.rollLeft,
+      rudder: input.turnRight - input.turnLeft,
+    };
+
+    // Fixed substeps keep the stiff pitch and roll damping stable at low frame rates
+    const steps = Math.max(1, Math.ceil(deltaTime / MAX_SUBSTEP));
+    const dt = deltaTime / steps;
+    const travelled = Cesium.Cartesian3.clone(Cesium.Cartesian3.ZERO, AeroFlightModel.scratchTravelled);
+    for (let i = 0; i < steps; i++) {
+      this.step(dt, controls);
+      Cesium.Cartesian3.add(
+        travelled,
+        Cesium.Cartesian3.multiplyByScalar(this.velocity, dt, AeroFlightModel.scratchStep),
+        travelled
+      );
+    }
+
+    const hpr = Cesium.HeadingPitchRoll.fromQuaternion(this.orientation, AeroFlightModel.scratchHpr);
+    const speed = Cesium.Cartesian3.magnitude(this.velocity);
+
+    // The Aircraft applies positionDelta in its heading/pitch/roll frame, which is our body frame
+    const positionDelta = this.worldToBody(travelled, AeroFlightModel.scratchPositionDelta);
+
+    return {
+      positionDelta,
+      verticalDelta: 0,
+      heading: Cesium.Math.zeroToTwoPi(hpr.heading),
+      pitch: hpr.pitch,
+      roll: hpr.roll,
+      speed,
+    };
+  }
+
+  private updateThrottle(deltaTime: number, input: AircraftInput): void {
+    if (input.targetSpeed !== undefined) {
+      // Like the arcade model, a speed from the throttle slider takes precedence over the keys.
+      // It is held as airspeed, so a headwind slows the aircraft over the ground.
+      const speed = Cesium.Cartesian3.distance(this.velocity, this.wind);
+      this.throttle += (input.targetSpeed - speed) * AUTOTHROTTLE_GAIN * deltaTime;
+    } else {
+      const manual = input.throttle - input.brake;
+      this.throttle += manual * this.config.throttleRate * deltaTime;
+    }
+    this.throttle = Cesium.Math.clamp(this.throttle, 0, 1);
+  }
+
+  private step(dt: number, controls: { elevator: number; aileron: number; rudder: number }): void {
+    const c = this.config;
+    // Aerodynamic forces come from the motion relative to the air, not the ground
+    const airVelocity = Cesium.Cartesian3.subtract(this.velocity, this.wind, AeroFlightModel.scratchAirVelocity);
+    const body = this.worldToBody(airVelocity, AeroFlightModel.scratchBodyVelocity);
+    const trueAirspeed = Cesium.Cartesian3.magnitude(body);
+    const airspeed = Math.max(trueAirspeed, 1);
+
+    // Air coming from below the nose is positive angle of attack; sliding right is positive sideslip
+    const alpha = Math.atan2(-body.z, body.x);
+    const beta = Math.asin(Cesium.Math.clamp(-body.y / airspeed, -1, 1));
+    this.angleOfAttack = alpha;
+    this.sideslip = beta;
+
+    const density = SEA_LEVEL_DENSITY * Math.exp(-Math.max(this.altitude, 0) / DENSITY_SCALE_HEIGHT);
+    const dynamicPressure = 0.5 * density * airspeed * airspeed;
+    const qS = dynamicPressure * c.wingArea;
+
+    const { lift, drag } = this.liftAndDrag(alpha);
+    const sideForce = c.sideForceSlope * beta;
+
+    // Lift is perpendicular to the airflow in the symmetry plane, drag opposes it
+    const direction = trueAirspeed > 1e-6
+      ? Cesium.Cartesian3.normalize(body, AeroFlightModel.scratchDirection)
+      : Cesium.Cartesian3.clone(Cesium.Cartesian3.UNIT_X, AeroFlightModel.scratchDirection);
+    const force = AeroFlightModel.scratchForce;
+    force.x = qS * (lift * Math.sin(alpha) - drag * direction.x) + this.throttle * c.maxThrust;
+    force.y = qS * (-drag * direction.y - sideForce);
+    force.z = qS * (lift * Math.cos(alpha) - drag * direction.z);
+
+    const worldForce = this.bodyToWorld(force, AeroFlightModel.scratchWorldForce);
+    this.velocity.x += (worldForce.x / c.mass) * dt;
+    this.velocity.y += (worldForce.y / c.mass) * dt;
+    this.velocity.z += (worldForce.z / c.mass - GRAVITY) * dt;
+
+    // Moments, with control authority fading as dynamic pressure drops
+    const rollRate = this.rates.roll * c.wingSpan / (2 * airspeed);
+    const pitchRate = this.rates.pitch * c.chord / (2 * airspeed);
+    const yawRate = this.rates.yaw * c.wingSpan / (2 * airspeed);
+
+    const rollMoment = c.aileronPower * controls.aileron + c.rollDamping * rollRate + c.rollDihedral * beta;
+    const pitchMoment = c.pitchMoment0 + c.pitchStability * this.clampedAlpha(alpha)
+      + c.elevatorPower * controls.elevator + c.pitchDamping * pitchRate;
+    const yawMoment = c.rudderPower * controls.rudder + c.yawDamping * yawRate + c.yawStability * beta;
+
+    this.rates.roll += (qS * c.wingSpan * rollMoment / c.inertia.roll) * dt;
+    this.rates.pitch += (qS * c.chord * pitchMoment / c.inertia.pitch) * dt;
+    this.rates.yaw += (qS * c.wingSpan * yawMoment / c.inertia.yaw) * dt;
+
+    this.integrateOrientation(dt);
+  }
+
+  /**
+   * Lift and drag coefficients: linear lift up to the stall, then a flat-plate wing
+   */
+  private liftAndDrag(alpha: number): { lift: number; drag: number } {
+    const c = this.config;
+    const maxLift = c.liftCoefficient0 + c.liftSlope * c.stallAngle;
+
+    this.stalled = Math.abs(alpha) > c.stallAngle;
+    if (!this.stalled) {
+      const lift = c.liftCoefficient0 + c.liftSlope * alpha;
+      return { lift, drag: c.dragCoefficient0 + c.inducedDragFactor * lift * lift };
+    }
+
+    const plateLift = Math.sin(2 * alpha);
+    const plateDrag = 2 * Math.sin(alpha) * Math.sin(alpha);
+    // Lose a third of the lift right at the break, then follow the flat plate
+    const lift = Math.sign(alpha) * Math.min(Math.abs(plateLift), maxLift * 0.66);
+    return { lift, drag: c.dragCoefficient0 + plateDrag };
+  }
+
+  // The stability derivative only holds near the linear range; beyond it the restoring moment saturates
+  private clampedAlpha(alpha: number): number {
+    const limit = this.config.stallAngle * 2;
+    return Cesium.Math.clamp(alpha, -limit, limit);
+  }
+
+  private integrateOrientation(dt: number): void {
+    // Body angular velocity in x-forward/y-left/z-up axes
+    const axis = AeroFlightModel.scratchAxis;
+    axis.x = this.rates.roll;
+    axis.y = -this.rates.pitch;
+    axis.z = -this.rates.yaw;
+
+    const rate = Cesium.Cartesian3.magnitude(axis);
+    if (rate < 1e-9) return;
+
+    Cesium.Cartesian3.divideByScalar(axis, rate, axis);
+    const delta = Cesium.Quaternion.fromAxisAngle(axis, rate * dt, AeroFlightModel.scratchDelta);
+    Cesium.Quaternion.multiply(this.orientation, delta, this.orientation);
+    Cesium.Quaternion.normalize(this.orientation, this.orientation);
+  }
+
+  private bodyToWorld(vector: Cesium.Cartesian3, result: Cesium.Cartesian3): Cesium.Cartesian3 {
+    const rotation = Cesium.Matrix3.fromQuaternion(this.orientation, AeroFlightModel.scratchRotation);
+    return Cesium.Matrix3.multiplyByVector(rotation, vector, result);
+  }
+
+  private worldToBody(vector: Cesium.Cartesian3, result: Cesium.Cartesian3): Cesium.Cartesian3 {
+    const rotation = Cesium.Matrix3.fromQuaternion(this.orientation, AeroFlightModel.scratchRotation);
+    Cesium.Matrix3.transpose(rotation, rotation);
+    return Cesium.Matrix3.multiplyByVector(rotation, vector, result);
+  }
+
+  public setState(state: { heading: number; pitch: number; roll: number; speed: number }): void {
+    const hpr = AeroFlightModel.scratchHpr;
+    hpr.heading = state.heading;
+    hpr.pitch = state.pitch;
+    hpr.roll = state.roll;
+    Cesium.Quaternion.fromHeadingPitchRoll(hpr, this.orientation);
+
+    // Respawns arrive with no speed; start them at a flyable one
+    const speed = state.speed > 1 ? state.speed : INITIAL_SPEED;
+    this.bodyToWorld(new Cesium.Cartesian3(speed, 0, 0), this.velocity);
+    Cesium.Cartesian3.add(this.velocity, this.wind, this.velocity);
+    this.rates = { roll: 0, pitch: 0, yaw: 0 };
+  }
+
+  public setWind(wind: Cesium.Cartesian3): void {
+    Cesium.Cartesian3.clone(wind, this.wind);
+  }
+
+  /**
+   * Altitude above the ellipsoid, used for air density
+   */
+  public setAltitude(altitude: number): void {
+    this.altitude = altitude;
+  }
+
+  public getState(): AircraftState {
+    const hpr = Cesium.HeadingPitchRoll.fromQuaternion(this.orientation, AeroFlightModel.scratchHpr);
+    return {
+      speed: Cesium.Cartesian3.magnitude(this.velocity),
+      heading: Cesium.Math.zeroToTwoPi(hpr.heading),
+      pitch: hpr.pitch,
+      roll: hpr.roll,
+      verticalVelocity: this.velocity.z,
+    };
+  }
+
+  public getAeroState(): { angleOfAttack: number; sideslip: number; stalled: boolean; throttle: number; airspeed: number } {
+    return {
+      angleOfAttack: this.angleOfAttack,
+      sideslip: this.sideslip,
+      stalled: this.stalled,
+      throttle: this.throttle,
+      airspeed: Cesium.Cartesian3.distance(this.velocity, this.wind),
+    };
+  }
+}
@@ -1,24 +1,72 @@
 import * as Cesium from 'cesium';
-import { Vehicle, VehicleConfig } from '../Vehicle';
-import { AircraftPhysics, AircraftInput } from './AircraftPhysics';
+import { VehicleConfig, VehicleState } from '../Vehicle';
+import { FlyingVehicle } from '../FlyingVehicle';
+import {
+  AircraftPhysics,
+  AircraftInput,
+  AircraftConfig as ArcadePhysicsConfig,
+  FlightModel,
+  FlightModelType
+} from './AircraftPhysics';
+import { AeroConfig, AeroFlightModel } from './AeroFlightModel';
+import { GroundRoll, GroundRollConfig } from './GroundRoll';
+import { ImpactReport, TouchdownReport, gradeTouchdown, isLandable } from '../ImpactModel';
+import type { Environment } from '../../core/Environment';
 
-interface AircraftConfig extends VehicleConfig {
+export interface AircraftConfig extends VehicleConfig {
+  flightModel?: FlightModelType; // defaults to 'arcade'
+  physics?: Partial<ArcadePhysicsConfig>; // arcade tuning
+  aero?: Partial<AeroConfig>;
+  groundRoll?: Partial<GroundRollConfig>; // rotation speed defaults to 1.2 × the arcade minimum speed
 }
 
-export class Aircraft extends Vehicle {
-  private physics: AircraftPhysics;
+const DEFAULT_ARCADE_PHYSICS: ArcadePhysicsConfig = {
+  minSpeed: 15,
+  maxSpeed: 1200,
+  speedChangeRate: 25,
+  turnRate: Cesium.Math.toRadians(45),
+  climbRate: 20,
+  gravity: 2,
+  rollRate: Cesium.Math.toRadians(60),
+  maxRoll: Cesium.Math.toRadians(45),
+  pitchRate: Cesium.Math.toRadians(60),
+  maxPitch: Cesium.Math.toRadians(60)
+};
+
+const DEFAULT_GROUND_ROLL: Omit<GroundRollConfig, 'rotationSpeed'> = {
+  liftOffPitch: Cesium.Math.toRadians(8),
+  rotationRate: Cesium.Math.toRadians(4),
+  thrustAcceleration: 4,
+  rollingFriction: 0.4,
+  brakeDeceleration: 5,
+  steeringRate: Cesium.Math.toRadians(25),
+  gearHeight: 1.5,
+};
+
+// Banked further than this, a wingtip touches before the wheels
+const MAX_TOUCHDOWN_ROLL = Cesium.Math.toRadians(15);
+// Ground this far below the wheels means the aircraft has rolled off an edge
+const GROUND_LOST_HEIGHT = 3;
+
+export class Aircraft extends FlyingVehicle {
+  private physics: FlightModel;
+  private flightModel: FlightModelType;
+  private groundRoll: GroundRoll;
+  private gearHeight: number;
+  private gearDown: boolean = true;
+  private onGround: boolean = false;
+  private pendingGroundStart: boolean = false;
+  private lastTouchdown: TouchdownReport | null = null;
   private input: AircraftInput = {
-    throttle: false,
-    brake: false,
-    turnLeft: false,
-    turnRight: false,
-    altitudeUp: false,
-    altitudeDown: false,
-    rollLeft: false,
-    rollRight: false
+    throttle: 0,
+    brake: 0,
+    turnLeft: 0,
+    turnRight: 0,
+    altitudeUp: 0,
+    altitudeDown: 0,
+    rollLeft: 0,
+    rollRight: 0
   };
-  private framesSinceCollisionCheck: number = 0;
-  private crashed: boolean = false;
 
   private static readonly scratchTransform = new Cesium.Matrix4();
   private static readonly scratchWorldForward = new Cesium.Cartesian3();
@@ -28,25 +76,65 @@ export class Aircraft extends Vehicle {
   private static readonly scratchUp = new Cesium.Cartesian3();
   private static readonly scratchVerticalDeltaVec = new Cesium.Cartesian3();
   private static readonly scratchTotalDelta = new Cesium.Cartesian3();
-  private static readonly scratchLocalForward = new Cesium.Cartesian3();
-  private static readonly scratchWorldForwardCollision = new Cesium.Cartesian3();
-  private static readonly scratchProbe = new Cesium.Cartesian3();
-  private static readonly scratchScaled = new Cesium.Cartesian3();
+  private static readonly scratchWind = new Cesium.Cartesian3();
+  private static readonly scratchRollForward = new Cesium.Cartesian3();
+  private static readonly scratchRollDelta = new Cesium.Cartesian3();
+  private static readonly scratchGroundCartographic = new Cesium.Cartographic();
 
   constructor(id: string, config: AircraftConfig) {
     super(id, config);
-    this.physics = new AircraftPhysics({
-      minSpeed: 15,
-      maxSpeed: 1200,
-      speedChangeRate: 25,
-      turnRate: Cesium.Math.toRadians(45),
-      climbRate: 20,
-      gravity: 2,
-      rollRate: Cesium.Math.toRadians(60),
-      maxRoll: Cesium.Math.toRadians(45),
-      pitchRate: Cesium.Math.toRadians(60),
-      maxPitch: Cesium.Math.toRadians(60)
-    }, this.hpRoll.heading);
+    this.flightModel = config.flightModel ?? 'arcade';
+    const arcadeConfig = { ...DEFAULT_ARCADE_PHYSICS, ...config.physics };
+    this.physics = this.flightModel === 'aero'
+      ? new AeroFlightModel(config.aero, this.hpRoll.heading)
+      : new AircraftPhysics(arcadeConfig, this.hpRoll.heading);
+
+    const groundRollConfig = { ...DEFAULT_GROUND_ROLL, rotationSpeed: arcadeConfig.minSpeed * 1.2, ...config.groundRoll };
+    this.groundRoll = new GroundRoll(groundRollConfig);
+    this.gearHeight = groundRollConfig.gearHeight;
+  }
+
+  public getFlightModel(): FlightModelType {
+    return this.flightModel;
+  }
+
+  public setEnvironment(environment: Environment | null): void {
+    super.setEnvironment(environment);
+    if (!environment) {
+      this.physics.setWind(Cesium.Cartesian3.ZERO);
+    }
+  }
+
+  public setState(state: VehicleState): void {
+    super.setState(state);
+    this.physics.setState(state);
+    this.onGround = false;
+  }
+
+  public isGearDown(): boolean {
+    return this.gearDown;
+  }
+
+  public isOnGround(): boolean {
+    return this.onGround;
+  }
+
+  public getLastTouchdown(): TouchdownReport | null {
+    return this.lastTouchdown;
+  }
+
+  public toggleGear(): void {
+    // The squat switch keeps the gear down while the weight is on the wheels
+    if (this.onGround) return;
+    this.gearDown = !this.gearDown;
+    console.log(`⚙️ Gear ${this.gearDown ? 'down' : 'up'}`);
+  }
+
+  /**
+   * Settle onto the ground below at rest, gear down, once the tiles there have loaded
+   */
+  public startOnGround(): void {
+    this.pendingGroundStart = true;
   }
 
   protected onModelReady(): void {
@@ -61,6 +149,21 @@ export class Aircraft extends Vehicle {
   public update(deltaTime: number): void {
     if (!this.isReady || this.crashed || !this.physicsEnabled) return;
 
+    if (this.pendingGroundStart) {
+      this.tryGroundStart();
+      return;
+    }
+    if (this.onGround) {
+      this.updateGroundRoll(deltaTime);
+      return;
+    }
+
+    if (this.physics instanceof AeroFlightModel) {
+      this.physics.setAltitude(Cesium.Cartographic.fromCartesian(this.position).height);
+    }
+    if (this.environment) {
+      this.physics.setWind(this.environment.getWind(this.position, Aircraft.scratchWind));
+    }
     const result = this.physics.update(deltaTime, this.input);
 
     this.hpRoll.heading = result.heading;
@@ -106,70 +209,131 @@ export class Aircraft extends Vehicle {
     this.velocity = result.speed;
     this.speed = Math.abs(result.speed);
 
-    this.framesSinceCollisionCheck++;
-    if (this.framesSinceCollisionCheck >= 8) {
-      this.framesSinceCollisionCheck = 0;
-      this.performCollisionCheck();
+    this.updateFlightData(deltaTime);
+    this.checkForCollision(deltaTime);
+
+    this.updateModelMatrix();
+  }
+
+  private updateGroundRoll(deltaTime: number): void {
+    const result = this.groundRoll.update(deltaTime, this.input);
+    this.hpRoll.heading = result.heading;
+    this.hpRoll.pitch = result.pitch;
+    this.hpRoll.roll = 0;
+
+    Cesium.Transforms.eastNorthUpToFixedFrame(this.position, undefined, Aircraft.scratchENU);
+    const forward = Aircraft.scratchRollForward;
+    forward.x = Math.cos(result.heading) * result.speed * deltaTime;
+    forward.y = -Math.sin(result.heading) * result.speed * deltaTime;
+    forward.z = 0;
+    const delta = Cesium.Matrix4.multiplyByPointAsVector(Aircraft.scratchENU, forward, Aircraft.scratchRollDelta);
+    Cesium.Cartesian3.add(this.position, delta, this.position);
+
+    this.velocity = result.speed;
+    this.speed = result.speed;
+
+    if (result.liftOff) {
+      this.leaveGround();
+      console.log(`🛫 ${this.id} airborne at ${result.speed.toFixed(0)} m/s`);
+    } else {
+      this.followGround();
     }
 
+    this.updateFlightData(deltaTime);
+    this.checkForCollision(deltaTime);
     this.updateModelMatrix();
   }
 
-  private performCollisionCheck(): void {
+  /**
+   * Keep the wheels on the surface below, using the same probe as the crash check
+   */
+  private followGround(): void {
     if (!this.primitive || !this.sceneRef) return;
 
-    const currentHeight = Cesium.Cartographic.fromCartesian(this.position).height;
     const ground = this.sceneRef.clampToHeight(this.position, [this.primitive]);
-    if (ground) {
-      const groundHeight = Cesium.Cartographic.fromCartesian(ground).height;
-      if (currentHeight <= groundHeight + 0.5) {
-        this.crash();
-        return;
-      }
+    if (!ground) return;
+
+    const groundHeight = Cesium.Cartographic.fromCartesian(ground).height;
+    const cartographic = Cesium.Cartographic.fromCartesian(this.position, Cesium.Ellipsoid.WGS84, Aircraft.scratchGroundCartographic);
+    if (cartographic.height - this.gearHeight - groundHeight > GROUND_LOST_HEIGHT) {
+      this.leaveGround();
+      return;
     }
+    this.setWheelHeight(cartographic, groundHeight);
+  }
 
-    Cesium.Transforms.eastNorthUpToFixedFrame(this.position, undefined, Aircraft.scratchTransform);
-    Aircraft.scratchLocalForward.x = Math.cos(this.hpRoll.heading);
-    Aircraft.scratchLocalForward.y = -Math.sin(this.hpRoll.heading);
-    Aircraft.scratchLocalForward.z = 0;
-    
-    const worldForward = Cesium.Matrix4.multiplyByPointAsVector(
-      Aircraft.scratchTransform, 
-      Aircraft.scratchLocalForward, 
-      Aircraft.scratchWorldForwardCollision
-    );
-    Cesium.Cartesian3.normalize(worldForward, worldForward);
-
-    const probeDistance = 2.0;
-    Cesium.Cartesian3.multiplyByScalar(worldForward, probeDistance, Aircraft.scratchScaled);
-    const probe = Cesium.Cartesian3.add(
-      this.position,
-      Aircraft.scratchScaled,
-      Aircraft.scratchProbe
+  private leaveGround(): void {
+    this.onGround = false;
+    this.physics.setState({
+      heading: this.hpRoll.heading,
+      pitch: this.hpRoll.pitch,
+      roll: 0,
+      speed: this.groundRoll.getSpeed(),
+    });
+  }
+
+  private enterGroundRoll(groundHeight: number, speed: number): void {
+    this.onGround = true;
+    this.groundRoll.start(speed, this.hpRoll.heading);
+    this.hpRoll.pitch = 0;
+    this.hpRoll.roll = 0;
+    const cartographic = Cesium.Cartographic.fromCartesian(this.position, Cesium.Ellipsoid.WGS84, Aircraft.scratchGroundCartographic);
+    this.setWheelHeight(cartographic, groundHeight);
+    this.velocity = speed;
+    this.speed = speed;
+  }
+
+  private setWheelHeight(cartographic: Cesium.Cartographic, groundHeight: number): void {
+    Cesium.Cartesian3.fromRadians(
+      cartographic.longitude,
+      cartographic.latitude,
+      groundHeight + this.gearHeight,
+      Cesium.Ellipsoid.WGS84,
+      this.position
     );
-    const ahead = this.sceneRef.clampToHeight(probe, [this.primitive]);
-    if (ahead) {
-      const aheadHeight = Cesium.Cartographic.fromCartesian(ahead).height;
-      const myHeight = Cesium.Cartographic.fromCartesian(this.position).height;
-      if (aheadHeight > myHeight + 0.5) {
-        this.crash();
-      }
-    }
   }
 
-  private crash(): void {
-    this.crashed = true;
-    this.velocity = 0;
-    this.speed = 0;
-    console.log('✈️ Aircraft crashed');
+  private tryGroundStart(): void {
+    if (!this.primitive || !this.sceneRef) return;
+
+    // Nothing to stand on until the tiles below have streamed in
+    const ground = this.sceneRef.clampToHeight(this.position, [this.primitive]);
+    if (!ground) return;
+
+    this.pendingGroundStart = false;
+    this.gearDown = true;
+    this.enterGroundRoll(Cesium.Cartographic.fromCartesian(ground).height, 0);
+    this.updateModelMatrix();
+    console.log(`🛬 ${this.id} parked on the ground`);
   }
 
-  public isCrashed(): boolean {
-    return this.crashed;
+  // Sitting on its wheels the origin is gearHeight up; touch down a little before that
+  protected getGroundClearance(): number {
+    return this.gearDown ? this.gearHeight * 0.75 : super.getGroundClearance();
   }
 
-  public resetCrash(): void {
-    this.crashed = false;
+  /**
+   * Land when the wheels meet the ground gently, wings level and gear down
+   */
+  protected touchDown(report: ImpactReport, groundHeight: number): boolean {
+    if (!isLandable(report)) return false;
+
+    if (!this.gearDown) {
+      const bellyLanding: ImpactReport = { ...report, cause: 'gearUp', damage: 'damaged' };
+      this.recordImpact(bellyLanding);
+      this.crash(bellyLanding);
+      return true;
+    }
+    if (Math.abs(this.hpRoll.roll) > MAX_TOUCHDOWN_ROLL) return false;
+
+    const touchdown = gradeTouchdown(report.verticalSpeed, this.speed);
+    this.lastTouchdown = touchdown;
+    if (touchdown.grade === 'hard') {
+      this.recordImpact(report);
+    }
+    this.enterGroundRoll(groundHeight, this.speed);
+    console.log(`🛬 ${this.id} touchdown: ${touchdown.grade} at ${touchdown.verticalSpeed.toFixed(1)} m/s (score ${touchdown.score})`);
+    return true;
   }
 
   public setInput(input: Partial<AircraftInput>): void {
@@ -1,14 +1,17 @@
 import * as Cesium from 'cesium';
 
+/**
+ * How far each control is held, 0 to 1: keys give full deflection, gamepad axes anything between
+ */
 export interface AircraftInput {
-  throttle: boolean;
-  brake: boolean;
-  turnLeft: boolean;
-  turnRight: boolean;
-  altitudeUp: boolean;
-  altitudeDown: boolean;
-  rollLeft: boolean;
-  rollRight: boolean;
+  throttle: number;
+  brake: number;
+  turnLeft: number;
+  turnRight: number;
+  altitudeUp: number;
+  altitudeDown: number;
+  rollLeft: number;
+  rollRight: number;
   targetSpeed?: number;
 }
 
@@ -34,24 +37,51 @@ export interface AircraftState {
 }
 
 export interface AircraftUpdateResult {
-  positionDelta: Cesium.Cartesian3;
-  verticalDelta: number;
+  positionDelta: Cesium.Cartesian3; // in the aircraft's heading/pitch/roll frame
+  verticalDelta: number; // along local up, on top of positionDelta
   heading: number;
   pitch: number;
   roll: number;
   speed: number;
 }
 
-export class AircraftPhysics {
+export type FlightModelType = 'arcade' | 'aero';
+
+/**
+ * Physics backend of an Aircraft
+ */
+export interface FlightModel {
+  update(deltaTime: number, input: AircraftInput): AircraftUpdateResult;
+  getState(): AircraftState;
+  /**
+   * Take over an externally set pose (teleport, respawn, replay)
+   */
+  setState(state: { heading: number; pitch: number; roll: number; speed: number }): void;
+  /**
+   * Air-mass velocity around the aircraft, east-north-up in m/s
+   */
+  setWind(wind: Cesium.Cartesian3): void;
+}
+
+/**
+ * Arcade flight model: speed, heading and climb follow the input directly
+ */
+export class AircraftPhysics implements FlightModel {
   private currentSpeed: number;
   private targetSpeed: number;
   private heading: number;
   private pitch: number;
   private roll: number;
   private verticalVelocity: number;
+  private wind = new Cesium.Cartesian3();
 
   private static readonly scratchLocalForward = new Cesium.Cartesian3(1, 0, 0);
   private static readonly scratchPositionDelta = new Cesium.Cartesian3();
+  private static readonly scratchHpr = new Cesium.HeadingPitchRoll();
+  private static readonly scratchOrientation = new Cesium.Quaternion();
+  private static readonly scratchRotation = new Cesium.Matrix3();
+  private static readonly scratchHorizontalWind = new Cesium.Cartesian3();
+  private static readonly scratchDrift = new Cesium.Cartesian3();
 
   constructor(private config: AircraftConfig, initialHeading: number = 0) {
     this.currentSpeed = config.minSpeed;
@@ -66,7 +96,7 @@ export class AircraftPhysics {
     if (input.targetSpeed !== undefined) {
       this.targetSpeed = Math.max(this.config.minSpeed, Math.min(this.config.maxSpeed, input.targetSpeed));
     } else {
-      const targetDelta = (input.throttle ? 1 : 0) - (input.brake ? 1 : 0);
+      const targetDelta = input.throttle - input.brake;
       if (targetDelta !== 0) {
         this.targetSpeed += targetDelta * this.config.speedChangeRate * deltaTime;
       }
@@ -78,34 +108,26 @@ export class AircraftPhysics {
     const speedStep = Cesium.Math.clamp(speedDiff, -maxSpeedStep, maxSpeedStep);
     this.currentSpeed += speedStep;
 
-    let rollInput = 0;
-    if (input.rollLeft || input.turnLeft) rollInput -= 1;
-    if (input.rollRight || input.turnRight) rollInput += 1;
+    // Roll and turn keys both bank the arcade model, the stronger of the two wins
+    const rollInput = Math.max(input.rollRight, input.turnRight) - Math.max(input.rollLeft, input.turnLeft);
 
     const targetRoll = rollInput * this.config.maxRoll;
     this.roll = Cesium.Math.lerp(this.roll, targetRoll, 0.15);
 
-    let turnInput = 0;
-    if (input.turnLeft || input.rollLeft) turnInput -= 1;
-    if (input.turnRight || input.rollRight) turnInput += 1;
-
     const rollTurnFactor = this.roll / this.config.maxRoll;
-    const totalTurnInput = turnInput + rollTurnFactor;
+    const totalTurnInput = rollInput + rollTurnFactor;
 
     this.heading = Cesium.Math.zeroToTwoPi(this.heading + totalTurnInput * this.config.turnRate * deltaTime);
 
-    let climbInput = 0;
-    if (input.altitudeUp) climbInput += 1;
-    if (input.altitudeDown) climbInput -= 1;
+    const climbInput = input.altitudeUp - input.altitudeDown;
 
     const targetVerticalVelocity = climbInput * this.config.climbRate;
     const vvLerp = 0.1;
     this.verticalVelocity = Cesium.Math.lerp(this.verticalVelocity, targetVerticalVelocity, vvLerp);
 
+    // Holding the nose up fights gravity in proportion to the deflection
     const gravityEffect = -this.config.gravity * deltaTime;
-    if (!input.altitudeUp) {
-      this.verticalVelocity += gravityEffect;
-    }
+    this.verticalVelocity += gravityEffect * (1 - input.altitudeUp);
 
     const targetPitch = Cesium.Math.toRadians(30) * climbInput;
     this.pitch = Cesium.Math.lerp(this.pitch, targetPitch, 0.08);
@@ -117,7 +139,25 @@ export class AircraftPhysics {
       AircraftPhysics.scratchPositionDelta
     );
 
-    const verticalDelta = this.verticalVelocity * deltaTime;
+    // The air mass carries the aircraft along; rotate its drift into the heading/pitch/roll frame
+    if (this.wind.x !== 0 || this.wind.y !== 0) {
+      const hpr = AircraftPhysics.scratchHpr;
+      hpr.heading = this.heading;
+      hpr.pitch = this.pitch;
+      hpr.roll = this.roll;
+      const orientation = Cesium.Quaternion.fromHeadingPitchRoll(hpr, AircraftPhysics.scratchOrientation);
+      const rotation = Cesium.Matrix3.fromQuaternion(orientation, AircraftPhysics.scratchRotation);
+      Cesium.Matrix3.transpose(rotation, rotation);
+
+      const horizontalWind = AircraftPhysics.scratchHorizontalWind;
+      horizontalWind.x = this.wind.x * deltaTime;
+      horizontalWind.y = this.wind.y * deltaTime;
+      horizontalWind.z = 0;
+      const drift = Cesium.Matrix3.multiplyByVector(rotation, horizontalWind, AircraftPhysics.scratchDrift);
+      Cesium.Cartesian3.add(positionDelta, drift, positionDelta);
+    }
+
+    const verticalDelta = (this.verticalVelocity + this.wind.z) * deltaTime;
 
     return {
       positionDelta,
@@ -129,6 +169,19 @@ export class AircraftPhysics {
     };
   }
 
+  public setState(state: { heading: number; pitch: number; roll: number; speed: number }): void {
+    this.heading = state.heading;
+    this.pitch = state.pitch;
+    this.roll = state.roll;
+    this.currentSpeed = Math.max(this.config.minSpeed, state.speed);
+    this.targetSpeed = this.currentSpeed;
+    this.verticalVelocity = 0;
+  }
+
+  public setWind(wind: Cesium.Cartesian3): void {
+    Cesium.Cartesian3.clone(wind, this.wind);
+  }
+
   public getState(): AircraftState {
     return {
       speed: this.currentSpeed,
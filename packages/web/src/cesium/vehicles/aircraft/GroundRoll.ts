@@ -0,0 +1,74 @@
+import * as Cesium from 'cesium';
+import type { AircraftInput } from './AircraftPhysics';
+
+export interface GroundRollConfig {
+  rotationSpeed: number; // m/s at which the nose can come up
+  liftOffPitch: number; // rad, pitch at which the wings fly
+  rotationRate: number; // rad/s the nose comes up at
+  thrustAcceleration: number; // m/s² at full throttle
+  rollingFriction: number; // m/s² lost coasting on the wheels
+  brakeDeceleration: number; // m/s² with the wheel brakes on
+  steeringRate: number; // rad/s of nosewheel turn at taxi speed
+  gearHeight: number; // m from the wheels to the model origin
+}
+
+export interface GroundRollResult {
+  speed: number;
+  heading: number;
+  pitch: number;
+  liftOff: boolean;
+}
+
+// Above this the nosewheel is backed off so a fast roll stays straight
+const NOSEWHEEL_FADE_SPEED = 30;
+
+/**
+ * Aircraft on its wheels: throttle accelerates, the wheels drag, S brakes and the
+ * rudder pedals steer the nosewheel. Holding pitch-up past rotation speed raises the
+ * nose until the aircraft lifts off.
+ */
+export class GroundRoll {
+  private speed: number = 0;
+  private heading: number = 0;
+  private pitch: number = 0;
+
+  constructor(private config: GroundRollConfig) {}
+
+  /**
+   * Put the wheels down at the given speed and heading, nose level
+   */
+  public start(speed: number, heading: number): void {
+    this.speed = Math.max(0, speed);
+    this.heading = heading;
+    this.pitch = 0;
+  }
+
+  public update(deltaTime: number, input: AircraftInput): GroundRollResult {
+    const c = this.config;
+
+    const acceleration = -c.rollingFriction + input.throttle * c.thrustAcceleration - input.brake * c.brakeDeceleration;
+    this.speed = Math.max(0, this.speed + acceleration * deltaTime);
+
+    const steer = input.turnRight - input.turnLeft;
+    // No steering standing still; full authority at taxi speed, fading on the take-off roll
+    const authority = Math.min(1, this.speed / 3) * Cesium.Math.clamp(1 - this.speed / (NOSEWHEEL_FADE_SPEED * 3), 0.2, 1);
+    this.heading = Cesium.Math.zeroToTwoPi(this.heading + steer * c.steeringRate * authority * deltaTime);
+
+    // Partial back-pressure lifts the nose wheel without flying off
+    const rotating = input.altitudeUp > 0 && this.speed >= c.rotationSpeed;
+    const targetPitch = rotating ? c.liftOffPitch * input.altitudeUp : 0;
+    const step = c.rotationRate * deltaTime;
+    this.pitch += Cesium.Math.clamp(targetPitch - this.pitch, -step, step);
+
+    return {
+      speed: this.speed,
+      heading: this.heading,
+      pitch: this.pitch,
+      liftOff: rotating && this.pitch >= c.liftOffPitch * 0.8,
+    };
+  }
+
+  public getSpeed(): number {
+    return this.speed;
+  }
+}
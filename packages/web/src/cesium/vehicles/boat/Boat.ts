@@ -0,0 +1,269 @@
+import * as Cesium from 'cesium';
+import { Vehicle, VehicleConfig, VehicleState } from '../Vehicle';
+import type { Environment } from '../../core/Environment';
+import { BoatConfig, BoatInput, BoatPhysics } from './BoatPhysics';
+import { WaterDetector } from './WaterDetector';
+import { BoatWake } from './BoatWake';
+
+export interface BoatVehicleConfig extends VehicleConfig {
+  physics?: Partial<BoatConfig>;
+  hullLength?: number; // m, sets where the wake starts and how waves pitch the hull
+}
+
+export const DEFAULT_BOAT_PHYSICS: BoatConfig = {
+  maxSpeed: 18,
+  maxReverseSpeed: 4,
+  acceleration: 3,
+  waterDrag: 0.15,
+  turnRate: Cesium.Math.toRadians(25),
+  rudderSpeed: 4,
+  maxHeel: Cesium.Math.toRadians(10),
+  planingTrim: Cesium.Math.toRadians(6),
+};
+
+// InputManager actions and the boat control each one works
+const BOAT_CONTROLS: Record<string, keyof BoatInput> = {
+  throttle: 'throttle',
+  brake: 'reverse',
+  turnLeft: 'rudderLeft',
+  turnRight: 'rudderRight',
+  targetSpeed: 'targetSpeed',
+};
+
+const WATER_CHECK_INTERVAL = 8; // frames between shore probes
+const SETTLE_RATE = 3; // 1/s, how quickly the hull follows the water surface
+const CALM_WAVE_HEIGHT = 0.15; // m, swell amplitude with no wind
+const WAVE_HEIGHT_PER_WIND = 0.05; // m of amplitude per m/s of wind
+const DRAFT = 0.4; // m the hull sits below the surface
+
+/**
+ * Surface vessel: holds sea level rather than clamping to the seabed mesh, rides the
+ * swell and leaves a wake. Stops when it runs into land.
+ */
+export class Boat extends Vehicle {
+  private physics: BoatPhysics;
+  private waterDetector = new WaterDetector();
+  private wake: BoatWake | null = null;
+  private environment: Environment | null = null;
+  private hullLength: number;
+  private time: number = 0;
+  private framesSinceWaterCheck: number = 0;
+  private aground: boolean = false;
+  private input: BoatInput = {
+    throttle: 0,
+    reverse: 0,
+    rudderLeft: 0,
+    rudderRight: 0
+  };
+
+  private static readonly scratchENU = new Cesium.Matrix4();
+  private static readonly scratchForward = new Cesium.Cartesian3();
+  private static readonly scratchWorldDelta = new Cesium.Cartesian3();
+  private static readonly scratchProbe = new Cesium.Cartesian3();
+  private static readonly scratchCartographic = new Cesium.Cartographic();
+  private static readonly scratchWind = new Cesium.Cartesian3();
+  private static readonly scratchHullFrame = new Cesium.Matrix4();
+
+  constructor(id: string, config: BoatVehicleConfig) {
+    super(id, config);
+    this.physics = new BoatPhysics({ ...DEFAULT_BOAT_PHYSICS, ...config.physics }, this.hpRoll.heading);
+    this.hullLength = config.hullLength ?? 8;
+  }
+
+  public async initialize(scene: Cesium.Scene): Promise<void> {
+    await super.initialize(scene);
+    this.wake = new BoatWake(scene, this.hullLength / 2);
+  }
+
+  /**
+   * Wind from this environment raises the waves
+   */
+  public setEnvironment(environment: Environment | null): void {
+    this.environment = environment;
+  }
+
+  public setState(state: VehicleState): void {
+    super.setState(state);
+    this.physics.setState({ heading: state.heading, velocity: state.velocity });
+  }
+
+  public isAground(): boolean {
+    return this.aground;
+  }
+
+  public isOnWater(): boolean {
+    return this.waterDetector.getSeaLevel() !== null;
+  }
+
+  public update(deltaTime: number): void {
+    if (!this.isReady || !this.physicsEnabled) return;
+    this.time += deltaTime;
+
+    this.framesSinceWaterCheck++;
+    if (this.framesSinceWaterCheck >= WATER_CHECK_INTERVAL) {
+      this.framesSinceWaterCheck = 0;
+      this.checkWater();
+    }
+
+    const result = this.physics.update(deltaTime, this.input);
+    this.hpRoll.heading = result.heading;
+    this.velocity = this.physics.getVelocity();
+    this.speed = result.speed;
+
+    // Move along the heading on the local horizontal plane
+    Cesium.Transforms.eastNorthUpToFixedFrame(this.position, undefined, Boat.scratchENU);
+    const forward = this.getLocalForward(Boat.scratchForward);
+    Cesium.Cartesian3.multiplyByScalar(forward, result.distance, forward);
+    const worldDelta = Cesium.Matrix4.multiplyByPointAsVector(Boat.scratchENU, forward, Boat.scratchWorldDelta);
+    Cesium.Cartesian3.add(this.position, worldDelta, this.position);
+
+    this.float(deltaTime, result.heel, result.trim);
+    this.updateModelMatrix();
+
+    if (this.wake) {
+      const hullFrame = Cesium.Transforms.headingPitchRollToFixedFrame(
+        this.position,
+        this.hpRoll,
+        Cesium.Ellipsoid.WGS84,
+        undefined,
+        Boat.scratchHullFrame
+      );
+      this.wake.update(hullFrame, this.speed);
+    }
+  }
+
+  /**
+   * Find sea level when needed and stop the boat at the shoreline
+   */
+  private checkWater(): void {
+    if (!this.primitive || !this.sceneRef) return;
+    const exclude = [this.primitive];
+
+    if (this.waterDetector.needsCalibration(this.position)) {
+      this.waterDetector.calibrate(this.position, this.sceneRef, exclude);
+    }
+
+    const velocity = this.physics.getVelocity();
+    if (Math.abs(velocity) < 0.1) return;
+
+    // Look ahead of the bow (or stern, going astern) by about half a second of travel
+    const lookAhead = Math.sign(velocity) * (this.hullLength / 2 + Math.abs(velocity) * 0.5);
+    Cesium.Transforms.eastNorthUpToFixedFrame(this.position, undefined, Boat.scratchENU);
+    const forward = this.getLocalForward(Boat.scratchForward);
+    Cesium.Cartesian3.multiplyByScalar(forward, lookAhead, forward);
+    const offset = Cesium.Matrix4.multiplyByPointAsVector(Boat.scratchENU, forward, Boat.scratchWorldDelta);
+    const probe = Cesium.Cartesian3.add(this.position, offset, Boat.scratchProbe);
+
+    if (!this.waterDetector.isWater(probe, this.sceneRef, exclude)) {
+      if (!this.aground) {
+        console.log(`🪨 ${this.id} ran aground`);
+      }
+      this.aground = true;
+      const pushBack = this.physics.ground();
+      Cesium.Cartesian3.normalize(offset, offset);
+      Cesium.Cartesian3.multiplyByScalar(offset, Math.abs(pushBack), offset);
+      Cesium.Cartesian3.subtract(this.position, offset, this.position);
+    } else {
+      this.aground = false;
+    }
+  }
+
+  /**
+   * Settle the hull onto the swell: heave from the wave height under the boat, pitch
+   * and roll from the slope between bow and stern, port and starboard.
+   */
+  private float(deltaTime: number, heel: number, trim: number): void {
+    const cartographic = Cesium.Cartographic.fromCartesian(this.position, Cesium.Ellipsoid.WGS84, Boat.scratchCartographic);
+    const seaLevel = this.waterDetector.getSeaLevel();
+
+    let windX = 0;
+    let windY = 0;
+    if (this.environment) {
+      const wind = this.environment.getWind(this.position, Boat.scratchWind);
+      windX = wind.x;
+      windY = wind.y;
+    }
+    const windSpeed = Math.hypot(windX, windY);
+    const amplitude = CALM_WAVE_HEIGHT + windSpeed * WAVE_HEIGHT_PER_WIND;
+    // Swell runs downwind; with no wind it comes from the south-west
+    const swellX = windSpeed > 0.1 ? windX / windSpeed : Math.SQRT1_2;
+    const swellY = windSpeed > 0.1 ? windY / windSpeed : Math.SQRT1_2;
+
+    // Local metres around the boat, good enough to phase the waves
+    const radius = Cesium.Ellipsoid.WGS84.maximumRadius;
+    const east = cartographic.longitude * radius * Math.cos(cartographic.latitude);
+    const north = cartographic.latitude * radius;
+
+    const forwardX = Math.cos(this.hpRoll.heading);
+    const forwardY = -Math.sin(this.hpRoll.heading);
+    const rightX = -Math.sin(this.hpRoll.heading);
+    const rightY = -Math.cos(this.hpRoll.heading);
+    const halfLength = this.hullLength / 2;
+    const halfBeam = this.hullLength / 6;
+
+    const wave = (x: number, y: number) => this.waveHeight(x, y, swellX, swellY, amplitude);
+    const heave = wave(east, north);
+    const bow = wave(east + forwardX * halfLength, north + forwardY * halfLength);
+    const stern = wave(east - forwardX * halfLength, north - forwardY * halfLength);
+    const starboard = wave(east + rightX * halfBeam, north + rightY * halfBeam);
+    const port = wave(east - rightX * halfBeam, north - rightY * halfBeam);
+
+    const blend = Math.min(1, SETTLE_RATE * deltaTime);
+    this.hpRoll.pitch += (Math.atan2(bow - stern, this.hullLength) + trim - this.hpRoll.pitch) * blend;
+    this.hpRoll.roll += (Math.atan2(port - starboard, halfBeam * 2) + heel - this.hpRoll.roll) * blend;
+
+    // Until sea level is known, hold the current height rather than guess
+    if (seaLevel !== null) {
+      const targetHeight = seaLevel - DRAFT + heave;
+      cartographic.height += (targetHeight - cartographic.height) * blend;
+      Cesium.Cartesian3.fromRadians(
+        cartographic.longitude,
+        cartographic.latitude,
+        cartographic.height,
+        Cesium.Ellipsoid.WGS84,
+        this.position
+      );
+    }
+  }
+
+  /**
+   * Two swell trains a little apart in direction and period, so the sea never looks
+   * perfectly regular
+   */
+  private waveHeight(x: number, y: number, swellX: number, swellY: number, amplitude: number): number {
+    const along = x * swellX + y * swellY;
+    const across = -x * swellY + y * swellX;
+    const primary = Math.sin(along * 0.12 - this.time * 1.3);
+    const secondary = Math.sin((along * 0.9 + across * 0.35) * 0.2 - this.time * 1.9 + 1.7);
+    return amplitude * (primary * 0.7 + secondary * 0.3);
+  }
+
+  private getLocalForward(result: Cesium.Cartesian3): Cesium.Cartesian3 {
+    result.x = Math.cos(this.hpRoll.heading);
+    result.y = -Math.sin(this.hpRoll.heading);
+    result.z = 0;
+    return result;
+  }
+
+  public setInput(input: Record<string, boolean | number | undefined>): void {
+    for (const [action, value] of Object.entries(input)) {
+      const control = BOAT_CONTROLS[action] ?? (action in this.input ? action as keyof BoatInput : undefined);
+      if (control === 'targetSpeed') {
+        this.input.targetSpeed = value as number | undefined;
+      } else if (control) {
+        this.input[control] = Number(value ?? 0);
+      }
+    }
+  }
+
+  public setVisible(visible: boolean): void {
+    super.setVisible(visible);
+    this.wake?.setVisible(visible);
+  }
+
+  public destroy(): void {
+    this.wake?.destroy();
+    this.wake = null;
+    super.destroy();
+  }
+}
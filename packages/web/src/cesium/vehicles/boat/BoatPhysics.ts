@@ -0,0 +1,108 @@
+import * as Cesium from 'cesium';
+
+/**
+ * Lever and rudder deflection, 0 to 1
+ */
+export interface BoatInput {
+  throttle: number;
+  reverse: number;
+  rudderLeft: number;
+  rudderRight: number;
+  targetSpeed?: number; // m/s held at full throttle, from the throttle slider
+}
+
+export interface BoatConfig {
+  maxSpeed: number; // m/s
+  maxReverseSpeed: number; // m/s
+  acceleration: number; // m/s² at full throttle
+  waterDrag: number; // 1/s, how quickly the hull coasts to a stop
+  turnRate: number; // rad/s at full rudder once the rudder has bite
+  rudderSpeed: number; // m/s at which the rudder reaches full authority
+  maxHeel: number; // rad, bank into a full-rudder turn at top speed
+  planingTrim: number; // rad, bow rise when accelerating hard
+}
+
+export interface BoatUpdateResult {
+  distance: number; // m moved along the heading this step, negative astern
+  heading: number;
+  heel: number;
+  trim: number;
+  speed: number;
+}
+
+/**
+ * Displacement hull on flat water: the propeller pushes along the heading, water drag
+ * slows it, and the rudder only turns the boat while water flows past it.
+ */
+export class BoatPhysics {
+  private velocity: number = 0;
+  private heading: number;
+  private heel: number = 0;
+  private trim: number = 0;
+
+  constructor(private config: BoatConfig, initialHeading: number = 0) {
+    this.heading = initialHeading;
+  }
+
+  public update(deltaTime: number, input: BoatInput): BoatUpdateResult {
+    const c = this.config;
+
+    let thrust = 0;
+    if (input.throttle > 0) {
+      const target = (input.targetSpeed !== undefined ? Cesium.Math.clamp(input.targetSpeed, 0, c.maxSpeed) : c.maxSpeed) * input.throttle;
+      thrust = this.velocity < target ? c.acceleration * input.throttle : 0;
+    } else if (input.reverse > 0) {
+      thrust = this.velocity > -c.maxReverseSpeed * input.reverse ? -c.acceleration * 0.5 * input.reverse : 0;
+    }
+
+    const previousVelocity = this.velocity;
+    this.velocity += (thrust - this.velocity * c.waterDrag) * deltaTime;
+    this.velocity = Cesium.Math.clamp(this.velocity, -c.maxReverseSpeed, c.maxSpeed);
+    if (input.throttle === 0 && input.reverse === 0 && Math.abs(this.velocity) < 0.05) {
+      this.velocity = 0;
+    }
+
+    // Rudder authority grows with flow over it; turning astern is reversed
+    const rudder = input.rudderRight - input.rudderLeft;
+    const authority = Math.min(1, Math.abs(this.velocity) / c.rudderSpeed);
+    const turnRate = rudder * c.turnRate * authority * Math.sign(this.velocity);
+    this.heading = Cesium.Math.zeroToTwoPi(this.heading + turnRate * deltaTime);
+
+    // Lean into the turn and lift the bow under acceleration
+    const speedFraction = Math.abs(this.velocity) / c.maxSpeed;
+    const targetHeel = rudder * c.maxHeel * speedFraction * authority;
+    const acceleration = deltaTime > 0 ? (this.velocity - previousVelocity) / deltaTime : 0;
+    const targetTrim = Cesium.Math.clamp(acceleration / c.acceleration, 0, 1) * c.planingTrim + speedFraction * c.planingTrim * 0.3;
+    const blend = Math.min(1, 2 * deltaTime);
+    this.heel += (targetHeel - this.heel) * blend;
+    this.trim += (targetTrim - this.trim) * blend;
+
+    return {
+      distance: this.velocity * deltaTime,
+      heading: this.heading,
+      heel: this.heel,
+      trim: this.trim,
+      speed: Math.abs(this.velocity),
+    };
+  }
+
+  /**
+   * Run aground: kill the way on and push the hull back off the shore
+   */
+  public ground(): number {
+    const pushBack = -Math.sign(this.velocity) * 1.5;
+    this.velocity = 0;
+    return pushBack;
+  }
+
+  public setState(state: { heading: number; velocity: number }): void {
+    this.heading = state.heading;
+    this.velocity = state.velocity;
+    this.heel = 0;
+    this.trim = 0;
+  }
+
+  public getVelocity(): number {
+    return this.velocity;
+  }
+}
@@ -0,0 +1,86 @@
+import * as Cesium from 'cesium';
+
+// Below this speed the hull leaves no visible wake
+const MIN_WAKE_SPEED = 1.5;
+const MAX_EMISSION_RATE = 120;
+
+/**
+ * Foam trail behind a boat. Particles are left in world space where they were
+ * emitted, so the wake stays on the water as the boat moves on and spreads out
+ * behind it.
+ */
+export class BoatWake {
+  private scene: Cesium.Scene;
+  private particles: Cesium.ParticleSystem;
+  private sternOffset: number;
+
+  private static readonly scratchTranslation = new Cesium.Cartesian3();
+  private static readonly scratchEmitterMatrix = new Cesium.Matrix4();
+
+  constructor(scene: Cesium.Scene, sternOffset: number) {
+    this.scene = scene;
+    this.sternOffset = sternOffset;
+    this.particles = scene.primitives.add(
+      new Cesium.ParticleSystem({
+        image: BoatWake.createFoamImage(),
+        startColor: Cesium.Color.WHITE.withAlpha(0.8),
+        endColor: Cesium.Color.WHITE.withAlpha(0),
+        startScale: 1,
+        endScale: 4,
+        minimumParticleLife: 2,
+        maximumParticleLife: 4,
+        minimumSpeed: 0.5,
+        maximumSpeed: 1.5,
+        imageSize: new Cesium.Cartesian2(2, 2),
+        emissionRate: 0,
+        emitter: new Cesium.CircleEmitter(1.5),
+        sizeInMeters: true,
+      })
+    );
+  }
+
+  /**
+   * Move the emitter to the stern and scale the foam with speed. The matrix is the
+   * hull frame: x forward, z up.
+   */
+  public update(modelMatrix: Cesium.Matrix4, speed: number): void {
+    const strength = speed < MIN_WAKE_SPEED ? 0 : Math.min(1, speed / 20);
+    this.particles.emissionRate = strength * MAX_EMISSION_RATE;
+    this.particles.maximumSpeed = 1.5 + strength * 3;
+
+    // Assigned rather than written in place: the setters compare to flag the matrices dirty
+    this.particles.modelMatrix = modelMatrix;
+    // The circle emitter sprays up the hull's z axis; sit it on the waterline at the stern
+    BoatWake.scratchTranslation.x = -this.sternOffset;
+    this.particles.emitterModelMatrix = Cesium.Matrix4.fromTranslation(
+      BoatWake.scratchTranslation,
+      BoatWake.scratchEmitterMatrix
+    );
+  }
+
+  public setVisible(visible: boolean): void {
+    this.particles.show = visible;
+  }
+
+  public destroy(): void {
+    try {
+      this.scene.primitives.remove(this.particles);
+    } catch {}
+  }
+
+  private static createFoamImage(): HTMLCanvasElement {
+    const canvas = document.createElement('canvas');
+    canvas.width = 32;
+    canvas.height = 32;
+    const ctx = canvas.getContext('2d');
+    if (ctx) {
+      const gradient = ctx.createRadialGradient(16, 16, 0, 16, 16, 16);
+      gradient.addColorStop(0, 'rgba(255, 255, 255, 1)');
+      gradient.addColorStop(0.6, 'rgba(235, 245, 255, 0.5)');
+      gradient.addColorStop(1, 'rgba(235, 245, 255, 0)');
+      ctx.fillStyle = gradient;
+      ctx.fillRect(0, 0, 32, 32);
+    }
+    return canvas;
+  }
+}
@@ -0,0 +1,95 @@
+import * as Cesium from 'cesium';
+
+// Sea level sits within this of the ellipsoid everywhere (geoid undulation)
+const MAX_SEA_LEVEL_OFFSET = 110;
+// Open water in the photorealistic mesh is flat to within this
+const FLAT_TOLERANCE = 0.75;
+// Surface this far above sea level is land, a quay or a hull
+const SHORE_HEIGHT = 1.2;
+const CALIBRATION_RADIUS = 25;
+// Recalibrate once the boat has travelled this far from the last fix
+const RECALIBRATION_DISTANCE = 5000;
+
+/**
+ * Finds water in the tileset, which has no water mask: open water is the lowest,
+ * flattest surface around, and anything standing clear of it is shore.
+ * Heights are ellipsoidal, as sampled from the scene.
+ */
+export class WaterDetector {
+  private seaLevel: number | null = null;
+  private calibratedAt: Cesium.Cartesian3 | null = null;
+
+  private static readonly scratchCartographic = new Cesium.Cartographic();
+  private static readonly scratchSample = new Cesium.Cartographic();
+
+  /**
+   * Estimate sea level from a ring of surface samples around a position. Returns
+   * true once a flat patch of water was found.
+   */
+  public calibrate(position: Cesium.Cartesian3, scene: Cesium.Scene, exclude: any[]): boolean {
+    const center = Cesium.Cartographic.fromCartesian(position, Cesium.Ellipsoid.WGS84, WaterDetector.scratchCartographic);
+    const metresToRadians = 1 / Cesium.Ellipsoid.WGS84.maximumRadius;
+    const heights: number[] = [];
+
+    for (let i = 0; i <= 8; i++) {
+      const angle = (i / 8) * Cesium.Math.TWO_PI;
+      const radius = i === 8 ? 0 : CALIBRATION_RADIUS;
+      const height = this.sampleAt(
+        scene,
+        center.longitude + (Math.cos(angle) * radius * metresToRadians) / Math.cos(center.latitude),
+        center.latitude + Math.sin(angle) * radius * metresToRadians,
+        exclude
+      );
+      if (height !== undefined && Math.abs(height) < MAX_SEA_LEVEL_OFFSET) {
+        heights.push(height);
+      }
+    }
+    if (heights.length < 3) return false;
+
+    // Water is the lowest surface; accept it if enough of the ring agrees
+    const lowest = Math.min(...heights);
+    const water = heights.filter((height) => height - lowest < FLAT_TOLERANCE);
+    if (water.length < 3) return false;
+
+    this.seaLevel = water.reduce((sum, height) => sum + height, 0) / water.length;
+    this.calibratedAt = Cesium.Cartesian3.clone(position, this.calibratedAt ?? undefined);
+    console.log(`🌊 Sea level at ${this.seaLevel.toFixed(1)} m`);
+    return true;
+  }
+
+  public needsCalibration(position: Cesium.Cartesian3): boolean {
+    return !this.calibratedAt || Cesium.Cartesian3.distance(position, this.calibratedAt) > RECALIBRATION_DISTANCE;
+  }
+
+  /**
+   * Ellipsoidal height of the water surface, or null before calibration
+   */
+  public getSeaLevel(): number | null {
+    return this.seaLevel;
+  }
+
+  /**
+   * Whether the surface at a position is water. Unknown (unloaded tiles) counts as water
+   * so a boat is never stopped by a hole in the mesh.
+   */
+  public isWater(position: Cesium.Cartesian3, scene: Cesium.Scene, exclude: any[]): boolean {
+    if (this.seaLevel === null) return true;
+
+    const cartographic = Cesium.Cartographic.fromCartesian(position, Cesium.Ellipsoid.WGS84, WaterDetector.scratchCartographic);
+    const height = this.sampleAt(scene, cartographic.longitude, cartographic.latitude, exclude);
+    return height === undefined || height - this.seaLevel < SHORE_HEIGHT;
+  }
+
+  private sampleAt(scene: Cesium.Scene, longitude: number, latitude: number, exclude: any[]): number | undefined {
+    if (!scene.sampleHeightSupported) return undefined;
+    try {
+      const sample = WaterDetector.scratchSample;
+      sample.longitude = longitude;
+      sample.latitude = latitude;
+      sample.height = 0;
+      return scene.sampleHeight(sample, exclude);
+    } catch {
+      return undefined;
+    }
+  }
+}
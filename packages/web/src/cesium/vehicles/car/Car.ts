@@ -3,6 +3,21 @@ import { Vehicle, VehicleConfig } from '../Vehicle';
 import { CarPhysics, PhysicsConfig, PhysicsInput } from './CarPhysics';
 import { TerrainClamping } from './TerrainClamping';
 
+export interface CarConfig extends VehicleConfig {
+  physics?: Partial<PhysicsConfig>;
+}
+
+const DEFAULT_CAR_PHYSICS: PhysicsConfig = {
+  vehicleMass: 2400,
+  engineForce: 80000,
+  brakeForce: 120000,
+  rollingResistance: 0.15,
+  airDragCoefficient: 2.5,
+  maxSpeed: 120,
+  wheelbase: 8.0,
+  maxSteeringAngle: Cesium.Math.toRadians(15)
+};
+
 export class Car extends Vehicle {
   private physics: CarPhysics;
   private terrainClamping: TerrainClamping;
@@ -22,10 +37,10 @@ export class Car extends Vehicle {
   private targetRoll: number = 0;
 
   private input: PhysicsInput = {
-    throttle: false,
-    brake: false,
-    turnLeft: false,
-    turnRight: false
+    throttle: 0,
+    brake: 0,
+    turnLeft: 0,
+    turnRight: 0
   };
 
   private static readonly scratchTransform = new Cesium.Matrix4();
@@ -34,21 +49,10 @@ export class Car extends Vehicle {
   private static readonly scratchBounceVector = new Cesium.Cartesian3();
   private static readonly scratchCarHPR = new Cesium.HeadingPitchRoll();
 
-  constructor(id: string, config: VehicleConfig) {
+  constructor(id: string, config: CarConfig) {
     super(id, config);
 
-    const physicsConfig: PhysicsConfig = {
-      vehicleMass: 2400,
-      engineForce: 80000,
-      brakeForce: 120000,
-      rollingResistance: 0.15,
-      airDragCoefficient: 2.5,
-      maxSpeed: 120,
-      wheelbase: 8.0,
-      maxSteeringAngle: Cesium.Math.toRadians(15)
-    };
-
-    this.physics = new CarPhysics(physicsConfig);
+    this.physics = new CarPhysics({ ...DEFAULT_CAR_PHYSICS, ...config.physics });
     this.terrainClamping = new TerrainClamping(0);
     this.currentVehicleHeading = this.hpRoll.heading;
     this.currentVehiclePitch = this.hpRoll.pitch;
@@ -11,11 +11,14 @@ export interface PhysicsConfig {
   maxSteeringAngle?: number;
 }
 
+/**
+ * Pedal and steering deflection, 0 to 1
+ */
 export interface PhysicsInput {
-  throttle: boolean;
-  brake: boolean;
-  turnLeft: boolean;
-  turnRight: boolean;
+  throttle: number;
+  brake: number;
+  turnLeft: number;
+  turnRight: number;
 }
 
 export interface PhysicsResult {
@@ -86,15 +89,13 @@ export class CarPhysics {
   private calculatePhysics(deltaTime: number, input: PhysicsInput): Pick<PhysicsResult, 'velocity' | 'acceleration' | 'speed'> {
     let netForce = 0;
 
-    if (input.throttle) {
-      netForce += this.config.engineForce;
-    }
+    netForce += this.config.engineForce * input.throttle;
     
-    if (input.brake) {
+    if (input.brake > 0) {
       if (this.velocity > 0.5) {
-        netForce -= this.config.brakeForce;
+        netForce -= this.config.brakeForce * input.brake;
       } else {
-        netForce -= this.config.engineForce * 0.6;
+        netForce -= this.config.engineForce * 0.6 * input.brake;
       }
     }
     
@@ -114,7 +115,7 @@ export class CarPhysics {
     this.velocity += this.acceleration * deltaTime;
     this.velocity = Math.max(-this.config.maxSpeed * 0.5, Math.min(this.config.maxSpeed, this.velocity));
     
-    if (!input.throttle && !input.brake && Math.abs(this.velocity) > 0.1) {
+    if (input.throttle === 0 && input.brake === 0 && Math.abs(this.velocity) > 0.1) {
       const naturalDeceleration = 8.0;
       if (this.velocity > 0) {
         this.velocity = Math.max(0, this.velocity - naturalDeceleration * deltaTime);
@@ -137,9 +138,7 @@ export class CarPhysics {
       return { turnRate: 0, frontWheelAngle: 0, steeringReduction: 1 };
     }
 
-    let targetSteeringInput = 0;
-    if (input.turnLeft) targetSteeringInput = -1;
-    if (input.turnRight) targetSteeringInput = 1;
+    const targetSteeringInput = input.turnRight - input.turnLeft;
     
     const steeringLerpRate = Math.abs(this.velocity) < 5 ? 0.05 : 0.1;
     this.steeringInput += (targetSteeringInput - this.steeringInput) * steeringLerpRate;
@@ -0,0 +1,170 @@
+import * as Cesium from 'cesium';
+import { VehicleConfig, VehicleState } from '../Vehicle';
+import { FlyingVehicle } from '../FlyingVehicle';
+import { ImpactReport, isLandable } from '../ImpactModel';
+import type { Environment } from '../../core/Environment';
+import { RotorcraftConfig, RotorcraftInput, RotorcraftPhysics } from './RotorcraftPhysics';
+
+export interface RotorcraftVehicleConfig extends VehicleConfig {
+  physics?: Partial<RotorcraftConfig>;
+}
+
+export const DEFAULT_ROTORCRAFT_PHYSICS: RotorcraftConfig = {
+  maxForwardSpeed: 70,
+  maxSidewaysSpeed: 20,
+  maxClimbRate: 10,
+  maxDescentRate: 8,
+  acceleration: 8,
+  verticalAcceleration: 6,
+  yawRate: Cesium.Math.toRadians(60),
+  yawResponse: 3,
+  maxTilt: Cesium.Math.toRadians(25),
+  tiltResponse: 4,
+};
+
+// InputManager actions and the rotor control each one works
+const ROTORCRAFT_CONTROLS: Record<string, keyof RotorcraftInput> = {
+  altitudeUp: 'collectiveUp',
+  altitudeDown: 'collectiveDown',
+  throttle: 'cyclicForward',
+  brake: 'cyclicBack',
+  rollLeft: 'cyclicLeft',
+  rollRight: 'cyclicRight',
+  turnLeft: 'yawLeft',
+  turnRight: 'yawRight',
+};
+
+/**
+ * Helicopter or multirotor: hovers, climbs vertically, strafes and yaws in place
+ */
+export class Rotorcraft extends FlyingVehicle {
+  private physics: RotorcraftPhysics;
+  private input: RotorcraftInput = {
+    collectiveUp: 0,
+    collectiveDown: 0,
+    cyclicForward: 0,
+    cyclicBack: 0,
+    cyclicLeft: 0,
+    cyclicRight: 0,
+    yawLeft: 0,
+    yawRight: 0
+  };
+
+  private grounded: boolean = false;
+
+  private static readonly scratchENU = new Cesium.Matrix4();
+  private static readonly scratchWorldDelta = new Cesium.Cartesian3();
+  private static readonly scratchWind = new Cesium.Cartesian3();
+
+  constructor(id: string, config: RotorcraftVehicleConfig) {
+    super(id, config);
+    this.physics = new RotorcraftPhysics({ ...DEFAULT_ROTORCRAFT_PHYSICS, ...config.physics }, this.hpRoll.heading);
+  }
+
+  public setEnvironment(environment: Environment | null): void {
+    super.setEnvironment(environment);
+    if (!environment) {
+      this.physics.setWind(Cesium.Cartesian3.ZERO);
+    }
+  }
+
+  public setState(state: VehicleState): void {
+    super.setState(state);
+    this.physics.setState(state);
+    this.grounded = false;
+  }
+
+  protected onModelReady(): void {
+    if (this.primitive) {
+      this.primitive.activeAnimations.addAll({
+        multiplier: 1.5,
+        loop: Cesium.ModelAnimationLoop.REPEAT
+      });
+    }
+  }
+
+  public update(deltaTime: number): void {
+    if (!this.isReady || this.crashed || !this.physicsEnabled) return;
+
+    if (this.environment) {
+      this.physics.setWind(this.environment.getWind(this.position, Rotorcraft.scratchWind));
+    }
+    const result = this.physics.update(deltaTime, this.input);
+    if (this.grounded && result.displacement.z > 0) {
+      this.grounded = false;
+    }
+
+    this.hpRoll.heading = result.heading;
+    this.hpRoll.pitch = result.pitch;
+    this.hpRoll.roll = result.roll;
+
+    Cesium.Transforms.eastNorthUpToFixedFrame(this.position, undefined, Rotorcraft.scratchENU);
+    const worldDelta = Cesium.Matrix4.multiplyByPointAsVector(
+      Rotorcraft.scratchENU,
+      result.displacement,
+      Rotorcraft.scratchWorldDelta
+    );
+    Cesium.Cartesian3.add(this.position, worldDelta, this.position);
+
+    this.velocity = result.speed;
+    this.speed = result.speed;
+
+    this.updateFlightData(deltaTime);
+    this.checkForCollision(deltaTime);
+    this.updateModelMatrix();
+  }
+
+  /**
+   * Settle onto the skids on gentle ground contact: level, stopped, and lifted off again
+   * with the collective. Only a hard landing counts as damage.
+   */
+  protected touchDown(report: ImpactReport, groundHeight: number): boolean {
+    if (!isLandable(report)) return false;
+
+    if (report.damage === 'hardLanding') {
+      this.recordImpact(report);
+    }
+    const wasGrounded = this.grounded;
+    const cartographic = Cesium.Cartographic.fromCartesian(this.position);
+    cartographic.height = groundHeight + this.getGroundClearance();
+    this.setState({
+      ...this.getState(),
+      position: Cesium.Cartographic.toCartesian(cartographic),
+      pitch: 0,
+      roll: 0,
+      speed: 0,
+    });
+    this.grounded = true;
+
+    if (!wasGrounded) {
+      console.log(`🚁 ${this.id} landed at ${report.verticalSpeed.toFixed(1)} m/s descent`);
+    }
+    return true;
+  }
+
+  /**
+   * Probe along the direction of travel, which for a rotorcraft need not be the nose
+   */
+  protected getProbeDirection(result: Cesium.Cartesian3): Cesium.Cartesian3 {
+    this.physics.getAirVelocity(result);
+    result.z = 0;
+    // Hovering: nothing ahead to hit
+    if (Cesium.Cartesian3.magnitude(result) < 1) {
+      return Cesium.Cartesian3.clone(Cesium.Cartesian3.ZERO, result);
+    }
+    return result;
+  }
+
+  public setInput(input: Record<string, boolean | number | undefined>): void {
+    for (const [action, value] of Object.entries(input)) {
+      if (action === 'targetSpeed') {
+        this.input.forwardSpeed = value as number | undefined;
+        continue;
+      }
+      const control = ROTORCRAFT_CONTROLS[action] ?? (action in this.input ? action as keyof RotorcraftInput : undefined);
+      if (control && control !== 'forwardSpeed') {
+        this.input[control] = Number(value ?? 0);
+      }
+    }
+  }
+}
@@ -0,0 +1,167 @@
+import * as Cesium from 'cesium';
+
+/**
+ * Pilot controls, each deflected from 0 to 1. Collective climbs and descends, cyclic
+ * tilts the rotor disc to fly forward, back and sideways, pedals yaw.
+ */
+export interface RotorcraftInput {
+  collectiveUp: number;
+  collectiveDown: number;
+  cyclicForward: number;
+  cyclicBack: number;
+  cyclicLeft: number;
+  cyclicRight: number;
+  yawLeft: number;
+  yawRight: number;
+  forwardSpeed?: number; // m/s at full cyclicForward, from the throttle slider
+}
+
+export interface RotorcraftConfig {
+  maxForwardSpeed: number; // m/s
+  maxSidewaysSpeed: number; // m/s
+  maxClimbRate: number; // m/s
+  maxDescentRate: number; // m/s
+  acceleration: number; // m/s² the cyclic can produce
+  verticalAcceleration: number; // m/s² the collective can produce
+  yawRate: number; // rad/s
+  yawResponse: number; // 1/s, how quickly the yaw rate follows the pedals
+  maxTilt: number; // rad, visual pitch and bank at full acceleration
+  tiltResponse: number; // 1/s
+}
+
+export interface RotorcraftState {
+  speed: number;
+  heading: number;
+  pitch: number;
+  roll: number;
+  verticalVelocity: number;
+}
+
+export interface RotorcraftUpdateResult {
+  displacement: Cesium.Cartesian3; // local east-north-up, m
+  heading: number;
+  pitch: number;
+  roll: number;
+  speed: number; // over the ground
+}
+
+const GRAVITY = 9.81;
+
+/**
+ * Hover physics: with the controls centred the rotorcraft holds its height and bleeds
+ * off its speed through the air. The cyclic sets a target velocity in the heading frame,
+ * the collective a target climb rate; the craft accelerates towards them and tilts
+ * with the acceleration like a real rotor disc.
+ */
+export class RotorcraftPhysics {
+  private airVelocity = new Cesium.Cartesian3(); // east-north-up, relative to the air
+  private heading: number;
+  private pitch: number = 0;
+  private roll: number = 0;
+  private yawRate: number = 0;
+  private wind = new Cesium.Cartesian3();
+
+  private static readonly scratchTarget = new Cesium.Cartesian3();
+  private static readonly scratchChange = new Cesium.Cartesian3();
+  private static readonly scratchDisplacement = new Cesium.Cartesian3();
+
+  constructor(private config: RotorcraftConfig, initialHeading: number = 0) {
+    this.heading = initialHeading;
+  }
+
+  public update(deltaTime: number, input: RotorcraftInput): RotorcraftUpdateResult {
+    const c = this.config;
+
+    const yawInput = input.yawRight - input.yawLeft;
+    this.yawRate += (yawInput * c.yawRate - this.yawRate) * Math.min(1, c.yawResponse * deltaTime);
+    this.heading = Cesium.Math.zeroToTwoPi(this.heading + this.yawRate * deltaTime);
+
+    // Cyclic commands a velocity in the heading frame
+    let forwardCommand = (input.cyclicForward - input.cyclicBack) * c.maxForwardSpeed;
+    if (input.cyclicForward > 0 && input.forwardSpeed !== undefined) {
+      forwardCommand = Cesium.Math.clamp(input.forwardSpeed, 0, c.maxForwardSpeed) * input.cyclicForward;
+    }
+    const sidewaysCommand = (input.cyclicRight - input.cyclicLeft) * c.maxSidewaysSpeed;
+
+    const collective = input.collectiveUp - input.collectiveDown;
+    const climbCommand = collective > 0 ? collective * c.maxClimbRate : collective * c.maxDescentRate;
+
+    // Heading-frame axes in east-north-up; heading turns clockwise from east
+    const forwardX = Math.cos(this.heading);
+    const forwardY = -Math.sin(this.heading);
+    const rightX = -Math.sin(this.heading);
+    const rightY = -Math.cos(this.heading);
+
+    const target = RotorcraftPhysics.scratchTarget;
+    target.x = forwardX * forwardCommand + rightX * sidewaysCommand;
+    target.y = forwardY * forwardCommand + rightY * sidewaysCommand;
+    target.z = climbCommand;
+
+    // Accelerate towards the target, limited by what the rotor can deliver
+    const change = Cesium.Cartesian3.subtract(target, this.airVelocity, RotorcraftPhysics.scratchChange);
+    const horizontalChange = Math.hypot(change.x, change.y);
+    const maxHorizontal = c.acceleration * deltaTime;
+    if (horizontalChange > maxHorizontal) {
+      change.x *= maxHorizontal / horizontalChange;
+      change.y *= maxHorizontal / horizontalChange;
+    }
+    const maxVertical = c.verticalAcceleration * deltaTime;
+    change.z = Cesium.Math.clamp(change.z, -maxVertical, maxVertical);
+    Cesium.Cartesian3.add(this.airVelocity, change, this.airVelocity);
+
+    // Tilt the disc with the horizontal acceleration: nose down to speed up, bank into a slide
+    const accelForward = deltaTime > 0 ? (change.x * forwardX + change.y * forwardY) / deltaTime : 0;
+    const accelRight = deltaTime > 0 ? (change.x * rightX + change.y * rightY) / deltaTime : 0;
+    const targetPitch = Cesium.Math.clamp(-Math.atan2(accelForward, GRAVITY), -c.maxTilt, c.maxTilt);
+    const targetRoll = Cesium.Math.clamp(Math.atan2(accelRight, GRAVITY), -c.maxTilt, c.maxTilt);
+    const tiltBlend = Math.min(1, c.tiltResponse * deltaTime);
+    this.pitch += (targetPitch - this.pitch) * tiltBlend;
+    this.roll += (targetRoll - this.roll) * tiltBlend;
+
+    // The air mass carries the craft along
+    const displacement = RotorcraftPhysics.scratchDisplacement;
+    displacement.x = (this.airVelocity.x + this.wind.x) * deltaTime;
+    displacement.y = (this.airVelocity.y + this.wind.y) * deltaTime;
+    displacement.z = (this.airVelocity.z + this.wind.z) * deltaTime;
+
+    return {
+      displacement,
+      heading: this.heading,
+      pitch: this.pitch,
+      roll: this.roll,
+      speed: deltaTime > 0 ? Cesium.Cartesian3.magnitude(displacement) / deltaTime : 0,
+    };
+  }
+
+  /**
+   * Take over an externally set pose, coming to a hover
+   */
+  public setState(state: { heading: number; pitch: number; roll: number }): void {
+    this.heading = state.heading;
+    this.pitch = state.pitch;
+    this.roll = state.roll;
+    this.yawRate = 0;
+    Cesium.Cartesian3.clone(Cesium.Cartesian3.ZERO, this.airVelocity);
+  }
+
+  /**
+   * Air-mass velocity around the craft, east-north-up in m/s
+   */
+  public setWind(wind: Cesium.Cartesian3): void {
+    Cesium.Cartesian3.clone(wind, this.wind);
+  }
+
+  public getAirVelocity(result: Cesium.Cartesian3): Cesium.Cartesian3 {
+    return Cesium.Cartesian3.clone(this.airVelocity, result);
+  }
+
+  public getState(): RotorcraftState {
+    return {
+      speed: Cesium.Cartesian3.magnitude(this.airVelocity),
+      heading: this.heading,
+      pitch: this.pitch,
+      roll: this.roll,
+      verticalVelocity: this.airVelocity.z,
+    };
+  }
+}
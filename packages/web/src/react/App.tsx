@@ -5,11 +5,16 @@ import { BuilderModeUI } from './layouts/BuilderModeUI';
 import { ModeToggle } from './features/builder/components/ModeToggle';
 import { useGameMode } from './hooks/useGameMode';
 import { ThrottleSlider } from './features/controls/components/mobile/ThrottleSlider';
+import { TouchControls } from './features/controls/components/mobile/TouchControls';
 import { isMobileDevice } from './shared/utils/mobileDetect';
 import { useGameMethod } from './hooks/useGameMethod';
 import { HUD } from './features/hud/components/HUD';
 import { CrashScreen } from './features/crash/components/CrashScreen';
 import { RecordingStatus } from './features/hud/components/RecordingStatus';
+import { RenderProgress } from './features/hud/components/RenderProgress';
+import { RaceHUD } from './features/race/components/RaceHUD';
+import { RaceToggle } from './features/race/components/RaceToggle';
+import { Minimap } from './features/minimap/components/Minimap';
 
 export function App() {
   const { mode } = useGameMode();
@@ -27,23 +32,32 @@ export function App() {
       <DebugPanel />
       
       {/* Mode toggle button */}
-      <div className="fixed bottom-4 right-4 z-50 pointer-events-auto">
+      <div className="fixed bottom-4 right-4 z-50 pointer-events-auto flex gap-2">
+        {mode !== 'builder' && <RaceToggle />}
         <ModeToggle />
       </div>
       
       {/* Mode-specific UI */}
       {mode === 'play' && !isMobile && <StudioModeUI />}
       {mode === 'builder' && <BuilderModeUI />}
+      {mode === 'race' && <RaceHUD />}
 
       {/* Always visible HUD */}
       <HUD />
+      {!isMobile && (
+        <div className="fixed bottom-16 right-4 z-50 pointer-events-auto flex flex-col items-end">
+          <Minimap />
+        </div>
+      )}
 
       {/* Mobile controls */}
       {isMobile && <ThrottleSlider onChange={handleThrottleChange} />}
+      {isMobile && mode !== 'builder' && <TouchControls />}
 
       {/* Overlays */}
       <CrashScreen />
       <RecordingStatus />
+      <RenderProgress />
     </>
   );
 }
@@ -0,0 +1,37 @@
+import type { GameObjectType } from '../../../../cesium/objects/GameObject';
+
+export const OBJECT_TYPE_OPTIONS: { id: GameObjectType; label: string; icon: string }[] = [
+  { id: 'waypoint', label: 'Waypoint', icon: '📍' },
+  { id: 'ring', label: 'Ring', icon: '⭕' },
+  { id: 'collectible', label: 'Collectible', icon: '⭐' },
+  { id: 'start', label: 'Start', icon: '🟢' },
+  { id: 'finish', label: 'Finish', icon: '🏁' },
+];
+
+interface ObjectTypePickerProps {
+  value: GameObjectType;
+  onChange: (type: GameObjectType) => void;
+}
+
+export function ObjectTypePicker({ value, onChange }: ObjectTypePickerProps) {
+  return (
+    <div className="fixed top-32 left-1/2 -translate-x-1/2 z-50 animate-fade-in">
+      <div className="glass-panel p-1.5 flex gap-1">
+        {OBJECT_TYPE_OPTIONS.map(option => (
+          <button
+            key={option.id}
+            onClick={() => onChange(option.id)}
+            className={`px-3 py-2 rounded text-xs font-medium transition-all duration-200 flex items-center gap-1.5 ${
+              value === option.id
+                ? 'bg-future-primary/20 text-white border border-future-primary/40'
+                : 'text-white/60 hover:text-white hover:bg-white/10 border border-transparent'
+            }`}
+          >
+            <span>{option.icon}</span>
+            <span>{option.label}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
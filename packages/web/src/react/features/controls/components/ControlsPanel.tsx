@@ -1,30 +1,31 @@
-import { useState, useEffect } from 'react';
+import { useState, useCallback } from 'react';
 import { Panel } from '../../../shared/components/Panel';
 import { ControlButton } from './ControlButton';
-import { VEHICLE_CONTROLS, CAMERA_CONTROLS, MODE_CONTROLS, BUILDER_CONTROLS } from '../constants';
+import { GamepadSettings } from './GamepadSettings';
+import { MouseSettings } from './MouseSettings';
+import { KeyBindingsEditor } from './KeyBindingsEditor';
+import { VEHICLE_CONTROLS, ROTORCRAFT_CONTROLS, BOAT_CONTROLS, GAMEPAD_CONTROLS, MOUSE_CONTROLS, CAMERA_CONTROLS, MODE_CONTROLS, BUILDER_CONTROLS } from '../constants';
+import type { ControlItem } from '../constants';
 import { useGameMode } from '../../../hooks/useGameMode';
+import { useGameEventCallback } from '../../../hooks/useGameEvent';
+import { useKeyBindings } from '../hooks/useKeyBindings';
 
 export function ControlsPanel() {
   const [isOpen, setIsOpen] = useState(false);
   const { mode } = useGameMode();
 
-  useEffect(() => {
-    const handleKeyPress = (e: KeyboardEvent) => {
-      // Don't trigger shortcuts when typing in form fields
-      const target = e.target as HTMLElement;
-      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable)) {
-        return;
-      }
+  const [editingBindings, setEditingBindings] = useState(false);
+  const { keysFor } = useKeyBindings();
 
-      if (e.key === '?' || (e.shiftKey && e.key === '/')) {
-        e.preventDefault();
-        setIsOpen(prev => !prev);
-      }
-    };
+  useGameEventCallback('studioAction', useCallback(({ action }) => {
+    if (action === 'toggleControls') {
+      setIsOpen(prev => !prev);
+    }
+  }, []));
 
-    window.addEventListener('keydown', handleKeyPress);
-    return () => window.removeEventListener('keydown', handleKeyPress);
-  }, []);
+  const context = mode === 'builder' ? 'builder' : 'play';
+  const keysOf = (control: ControlItem) => control.keys ?? keysFor(context, control.actions ?? []);
+  const toggleKeys = keysFor(context, ['toggleControls']);
 
   return (
     <>
@@ -33,7 +34,7 @@ export function ControlsPanel() {
         className="fixed bottom-8 left-8 z-50 w-12 h-12 flex items-center justify-center
                    glass-panel hover:bg-white/10 transition-all duration-300
                    text-white/60 hover:text-white text-lg group"
-        title="Show Controls (?)"
+        title={`Show Controls (${toggleKeys.join(', ') || '?'})`}
       >
         <span className="group-hover:scale-110 transition-transform">?</span>
       </button>
@@ -49,7 +50,7 @@ export function ControlsPanel() {
                       Builder Camera
                     </div>
                     {BUILDER_CONTROLS.map((control, idx) => (
-                      <ControlButton key={idx} keys={control.keys} description={control.description} />
+                      <ControlButton key={idx} keys={keysOf(control)} description={control.description} />
                     ))}
                   </div>
 
@@ -58,7 +59,7 @@ export function ControlsPanel() {
                       Modes
                     </div>
                     {MODE_CONTROLS.map((control, idx) => (
-                      <ControlButton key={idx} keys={control.keys} description={control.description} />
+                      <ControlButton key={idx} keys={keysOf(control)} description={control.description} />
                     ))}
                   </div>
                 </>
@@ -69,16 +70,54 @@ export function ControlsPanel() {
                       Vehicle
                     </div>
                     {VEHICLE_CONTROLS.map((control, idx) => (
-                      <ControlButton key={idx} keys={control.keys} description={control.description} />
+                      <ControlButton key={idx} keys={keysOf(control)} description={control.description} />
                     ))}
                   </div>
 
+                  <div className="border-t border-white/5 pt-4 space-y-2.5">
+                    <div className="text-[10px] text-white/40 uppercase tracking-wider font-semibold mb-2">
+                      Helicopter / Quad
+                    </div>
+                    {ROTORCRAFT_CONTROLS.map((control, idx) => (
+                      <ControlButton key={idx} keys={keysOf(control)} description={control.description} />
+                    ))}
+                  </div>
+
+                  <div className="border-t border-white/5 pt-4 space-y-2.5">
+                    <div className="text-[10px] text-white/40 uppercase tracking-wider font-semibold mb-2">
+                      Boat
+                    </div>
+                    {BOAT_CONTROLS.map((control, idx) => (
+                      <ControlButton key={idx} keys={keysOf(control)} description={control.description} />
+                    ))}
+                  </div>
+
+                  <div className="border-t border-white/5 pt-4 space-y-2.5">
+                    <div className="text-[10px] text-white/40 uppercase tracking-wider font-semibold mb-2">
+                      Gamepad
+                    </div>
+                    {GAMEPAD_CONTROLS.map((control, idx) => (
+                      <ControlButton key={idx} keys={keysOf(control)} description={control.description} />
+                    ))}
+                    <GamepadSettings />
+                  </div>
+
+                  <div className="border-t border-white/5 pt-4 space-y-2.5">
+                    <div className="text-[10px] text-white/40 uppercase tracking-wider font-semibold mb-2">
+                      Mouse
+                    </div>
+                    {MOUSE_CONTROLS.map((control, idx) => (
+                      <ControlButton key={idx} keys={keysOf(control)} description={control.description} />
+                    ))}
+                    <MouseSettings />
+                  </div>
+
                   <div className="border-t border-white/5 pt-4 space-y-2.5">
                     <div className="text-[10px] text-white/40 uppercase tracking-wider font-semibold mb-2">
                       Camera
                     </div>
                     {CAMERA_CONTROLS.map((control, idx) => (
-                      <ControlButton key={idx} keys={control.keys} description={control.description} />
+                      <ControlButton key={idx} keys={keysOf(control)} description={control.description} />
                     ))}
                   </div>
 
@@ -87,21 +126,31 @@ export function ControlsPanel() {
                       Modes
                     </div>
                     {MODE_CONTROLS.map((control, idx) => (
-                      <ControlButton key={idx} keys={control.keys} description={control.description} />
+                      <ControlButton key={idx} keys={keysOf(control)} description={control.description} />
                     ))}
                   </div>
                 </>
               )}
 
-              <div className="border-t border-white/5 pt-3">
+              <div className="border-t border-white/5 pt-3 flex items-center justify-between gap-3">
                 <div className="text-[10px] text-white/30">
-                  Press <kbd className="px-1 py-0.5 bg-white/5 rounded text-white/50">?</kbd> to close
+                  {toggleKeys.length > 0 && (
+                    <>Press <kbd className="px-1 py-0.5 bg-white/5 rounded text-white/50">{toggleKeys[0]}</kbd> to close</>
+                  )}
                 </div>
+                <button
+                  onClick={() => setEditingBindings(true)}
+                  className="text-[10px] text-future-accent hover:text-white transition-colors"
+                >
+                  Customize keys
+                </button>
               </div>
             </div>
           </Panel>
         </div>
       )}
+
+      {editingBindings && <KeyBindingsEditor onClose={() => setEditingBindings(false)} />}
     </>
   );
 }
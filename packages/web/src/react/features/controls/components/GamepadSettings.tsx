@@ -0,0 +1,86 @@
+import { useCallback, useState } from 'react';
+import { useGameMethod } from '../../../hooks/useGameMethod';
+import { useGameEventCallback } from '../../../hooks/useGameEvent';
+import type { GamepadStatusData } from '../../../../cesium/bridge/types';
+
+/**
+ * Connected controller, its profile and the stick response for that profile
+ */
+export function GamepadSettings() {
+  const { getGamepadStatus, getGamepadProfiles, setGamepadProfile, setGamepadTuning } = useGameMethod();
+  const [status, setStatus] = useState<GamepadStatusData>(() => getGamepadStatus());
+  const [profiles, setProfiles] = useState(() => getGamepadProfiles());
+
+  useGameEventCallback('gamepadChanged', useCallback((data) => {
+    setStatus(data);
+  }, []));
+
+  if (!status.connected) {
+    return (
+      <div className="text-[11px] text-white/40">
+        No controller detected. Connect one and press any button.
+      </div>
+    );
+  }
+
+  const profile = profiles.find(p => p.id === status.profileId);
+
+  const updateTuning = (key: 'deadzone' | 'curve', value: number) => {
+    if (!profile) return;
+    setGamepadTuning(profile.id, { [key]: value });
+    setProfiles(profiles.map(p => (p.id === profile.id ? { ...p, [key]: value } : p)));
+  };
+
+  return (
+    <div className="space-y-2.5">
+      <div className="text-[11px] text-future-success truncate" title={status.id ?? undefined}>
+        🎮 {status.id}
+      </div>
+
+      <select
+        value={status.profileId ?? ''}
+        onChange={(e) => setGamepadProfile(e.target.value)}
+        className="w-full bg-black/40 border border-white/10 rounded px-2 py-1 text-xs text-white focus:outline-none focus:border-future-primary"
+      >
+        {profiles.map(p => (
+          <option key={p.id} value={p.id}>{p.name}</option>
+        ))}
+      </select>
+
+      {profile && (
+        <>
+          <label className="block space-y-1">
+            <div className="flex justify-between text-[11px] text-white/60">
+              <span>Deadzone</span>
+              <span className="tabular-nums">{Math.round(profile.deadzone * 100)}%</span>
+            </div>
+            <input
+              type="range"
+              min="0"
+              max="0.4"
+              step="0.01"
+              value={profile.deadzone}
+              onChange={(e) => updateTuning('deadzone', Number(e.target.value))}
+              className="w-full h-1 bg-white/20 rounded-lg appearance-none cursor-pointer"
+            />
+          </label>
+          <label className="block space-y-1">
+            <div className="flex justify-between text-[11px] text-white/60">
+              <span>Response Curve</span>
+              <span className="tabular-nums">{profile.curve === 0 ? 'Linear' : `${Math.round(profile.curve * 100)}%`}</span>
+            </div>
+            <input
+              type="range"
+              min="0"
+              max="1"
+              step="0.05"
+              value={profile.curve}
+              onChange={(e) => updateTuning('curve', Number(e.target.value))}
+              className="w-full h-1 bg-white/20 rounded-lg appearance-none cursor-pointer"
+            />
+          </label>
+        </>
+      )}
+    </div>
+  );
+}
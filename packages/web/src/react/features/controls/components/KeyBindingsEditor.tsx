@@ -0,0 +1,160 @@
+import { useEffect, useState } from 'react';
+import { Panel } from '../../../shared/components/Panel';
+import { Button } from '../../../shared/components/Button';
+import { useGameMethod } from '../../../hooks/useGameMethod';
+import { useKeyBindings } from '../hooks/useKeyBindings';
+import { ACTION_LABELS } from '../constants';
+import { BINDING_CONTEXTS, CONTEXT_ACTIONS, formatKeyCode } from '../../../../cesium/input/KeyBindings';
+import type { BindingConflict, BindingContext } from '../../../../cesium/input/KeyBindings';
+import type { InputAction } from '../../../../cesium/input/InputManager';
+import { cn } from '../../../shared/utils/cn';
+
+const CONTEXT_LABELS: Record<BindingContext, string> = {
+  play: 'Flying',
+  builder: 'Builder',
+  studio: 'Studio',
+};
+
+interface PendingBinding {
+  code: string;
+  action: InputAction;
+  conflict: BindingConflict;
+}
+
+interface KeyBindingsEditorProps {
+  onClose: () => void;
+}
+
+/**
+ * Rebind keys per context. "+" listens for the next key; a key already in use asks before it moves.
+ */
+export function KeyBindingsEditor({ onClose }: KeyBindingsEditorProps) {
+  const { bindKey, unbindKey, resetKeyBindings } = useGameMethod();
+  const { bindings } = useKeyBindings();
+  const [context, setContext] = useState<BindingContext>('play');
+  const [capturing, setCapturing] = useState<InputAction | null>(null);
+  const [pending, setPending] = useState<PendingBinding | null>(null);
+
+  useEffect(() => {
+    if (!capturing) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Capture phase so the game never sees the key being assigned
+      e.preventDefault();
+      e.stopPropagation();
+
+      if (e.code === 'Escape') {
+        setCapturing(null);
+        return;
+      }
+
+      const conflict = bindKey(context, e.code, capturing);
+      if (conflict) {
+        setPending({ code: e.code, action: capturing, conflict });
+      }
+      setCapturing(null);
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [capturing, context, bindKey]);
+
+  const switchContext = (next: BindingContext) => {
+    setContext(next);
+    setCapturing(null);
+    setPending(null);
+  };
+
+  const replacePending = () => {
+    if (!pending) return;
+    bindKey(context, pending.code, pending.action, true);
+    setPending(null);
+  };
+
+  const entries = Object.entries(bindings[context]);
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/50 animate-fade-in">
+      <Panel title="Key Bindings" className="w-[420px] max-h-[80vh] overflow-y-auto">
+        <div className="space-y-4">
+          <div className="flex gap-1">
+            {BINDING_CONTEXTS.map(ctx => (
+              <button
+                key={ctx}
+                onClick={() => switchContext(ctx)}
+                className={cn(
+                  'flex-1 px-3 py-1.5 text-xs rounded-lg transition-colors',
+                  ctx === context ? 'bg-future-primary text-white' : 'bg-white/5 text-white/60 hover:bg-white/10'
+                )}
+              >
+                {CONTEXT_LABELS[ctx]}
+              </button>
+            ))}
+          </div>
+
+          {pending && (
+            <div className="p-3 rounded-lg border border-future-warning/40 bg-future-warning/10 space-y-2">
+              <div className="text-xs text-white/80">
+                <kbd className="px-1.5 py-0.5 bg-white/10 rounded">{formatKeyCode(pending.code)}</kbd> is already bound to
+                {' '}{ACTION_LABELS[pending.conflict.action] ?? pending.conflict.action}
+                {pending.conflict.context !== context && ` (${CONTEXT_LABELS[pending.conflict.context]})`}.
+              </div>
+              <div className="flex gap-2">
+                <Button size="sm" onClick={replacePending}>Replace</Button>
+                <Button size="sm" variant="ghost" onClick={() => setPending(null)}>Cancel</Button>
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            {CONTEXT_ACTIONS[context].map(action => (
+              <div key={action} className="flex items-center justify-between gap-3">
+                <span className="text-xs text-white/70">{ACTION_LABELS[action] ?? action}</span>
+                <div className="flex flex-wrap justify-end gap-1.5">
+                  {entries.filter(([, bound]) => bound === action).map(([code]) => (
+                    <kbd
+                      key={code}
+                      className="flex items-center gap-1 px-2 py-1 text-[10px] font-medium text-white bg-white/5 border border-white/10 rounded-lg"
+                    >
+                      {formatKeyCode(code)}
+                      <button
+                        onClick={() => unbindKey(context, code)}
+                        className="text-white/30 hover:text-red-400 transition-colors"
+                        title="Remove"
+                      >
+                        ×
+                      </button>
+                    </kbd>
+                  ))}
+                  <button
+                    onClick={() => setCapturing(capturing === action ? null : action)}
+                    className={cn(
+                      'px-2 py-1 text-[10px] rounded-lg border transition-colors',
+                      capturing === action
+                        ? 'border-future-accent text-future-accent animate-pulse'
+                        : 'border-white/10 text-white/40 hover:text-white hover:border-white/20'
+                    )}
+                  >
+                    {capturing === action ? 'Press a key…' : '+'}
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex justify-between gap-2 border-t border-white/5 pt-3">
+            <div className="flex gap-2">
+              <Button size="sm" variant="secondary" onClick={() => resetKeyBindings(context)}>
+                Reset {CONTEXT_LABELS[context]}
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => resetKeyBindings()}>
+                Reset All
+              </Button>
+            </div>
+            <Button size="sm" onClick={onClose}>Done</Button>
+          </div>
+        </div>
+      </Panel>
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+import { useCallback, useState } from 'react';
+import { useGameMethod } from '../../../hooks/useGameMethod';
+import { useGameEventCallback } from '../../../hooks/useGameEvent';
+import type { MouseStatusData } from '../../../../cesium/bridge/types';
+import type { MouseMode } from '../../../../cesium/input/MouseInput';
+import { cn } from '../../../shared/utils/cn';
+
+const MODES: { id: MouseMode; label: string }[] = [
+  { id: 'off', label: 'Off' },
+  { id: 'yoke', label: 'Yoke' },
+  { id: 'look', label: 'Look (FPV)' },
+];
+
+/**
+ * Mouse as a flight yoke or FPV gimbal look, with sensitivity and invert
+ */
+export function MouseSettings() {
+  const { getMouseStatus, setMouseSettings } = useGameMethod();
+  const [status, setStatus] = useState<MouseStatusData>(() => getMouseStatus());
+
+  useGameEventCallback('mouseControlChanged', useCallback((data) => {
+    setStatus(data);
+  }, []));
+
+  return (
+    <div className="space-y-2.5">
+      <div className="flex gap-1">
+        {MODES.map(mode => (
+          <button
+            key={mode.id}
+            onClick={() => setMouseSettings({ mode: mode.id })}
+            className={cn(
+              'flex-1 px-2 py-1 text-[11px] rounded transition-colors',
+              status.mode === mode.id ? 'bg-future-primary text-white' : 'bg-white/5 text-white/60 hover:bg-white/10'
+            )}
+          >
+            {mode.label}
+          </button>
+        ))}
+      </div>
+
+      {status.mode !== 'off' && (
+        <>
+          <div className={cn('text-[11px]', status.locked ? 'text-future-success' : 'text-white/40')}>
+            {status.locked ? '🖱️ Mouse captured, Esc to release' : 'Click the view to capture the mouse'}
+          </div>
+          <label className="block space-y-1">
+            <div className="flex justify-between text-[11px] text-white/60">
+              <span>Sensitivity</span>
+              <span className="tabular-nums">{status.sensitivity.toFixed(1)}×</span>
+            </div>
+            <input
+              type="range"
+              min="0.2"
+              max="3"
+              step="0.1"
+              value={status.sensitivity}
+              onChange={(e) => setMouseSettings({ sensitivity: Number(e.target.value) })}
+              className="w-full h-1 bg-white/20 rounded-lg appearance-none cursor-pointer"
+            />
+          </label>
+          <label className="flex items-center justify-between text-[11px] text-white/60 cursor-pointer">
+            <span>Invert Y</span>
+            <input
+              type="checkbox"
+              checked={status.invertY}
+              onChange={(e) => setMouseSettings({ invertY: e.target.checked })}
+              className="accent-future-primary"
+            />
+          </label>
+        </>
+      )}
+    </div>
+  );
+}
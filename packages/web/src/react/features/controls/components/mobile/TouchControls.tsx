@@ -0,0 +1,162 @@
+import { useCallback, useState } from 'react';
+import { Panel } from '../../../../shared/components/Panel';
+import { VirtualStick } from './VirtualStick';
+import { useGameMethod } from '../../../../hooks/useGameMethod';
+import { useGameEventCallback } from '../../../../hooks/useGameEvent';
+import { HapticFeedback } from '../../../../shared/utils/haptics';
+import { cn } from '../../../../shared/utils/cn';
+import type { TouchStatusData } from '../../../../../cesium/bridge/types';
+import type { StickLayout } from '../../../../../cesium/input/TouchInputManager';
+
+const STICK_LABELS: Record<StickLayout, { left: string; right: string }> = {
+  mode1: { left: 'Pitch · Yaw', right: 'Throttle · Roll' },
+  mode2: { left: 'Throttle · Yaw', right: 'Pitch · Roll' },
+};
+
+/**
+ * Dual virtual sticks plus their settings: layout, deadzone and tilt-to-steer
+ */
+export function TouchControls() {
+  const { getTouchStatus, setTouchStick, setTouchConfig, enableTilt, disableTilt, calibrateTilt } = useGameMethod();
+  const [status, setStatus] = useState<TouchStatusData | null>(() => getTouchStatus());
+  const [showSettings, setShowSettings] = useState(false);
+  const [tiltDenied, setTiltDenied] = useState(false);
+
+  useGameEventCallback('touchControlsChanged', useCallback((data) => {
+    setStatus(data);
+  }, []));
+
+  if (!status) return null;
+
+  const labels = STICK_LABELS[status.layout];
+
+  const toggleTilt = async () => {
+    HapticFeedback.selection();
+    if (status.tiltEnabled) {
+      disableTilt();
+      return;
+    }
+    // Has to run straight from the tap for iOS to show its permission prompt
+    const granted = await enableTilt();
+    setTiltDenied(!granted);
+    if (granted) HapticFeedback.success();
+  };
+
+  const handleCalibrate = () => {
+    calibrateTilt();
+    HapticFeedback.success();
+  };
+
+  return (
+    <>
+      <VirtualStick
+        label={labels.left}
+        className="left-0 w-[40vw] h-[55vh]"
+        onMove={(x, y) => setTouchStick('left', x, y)}
+      />
+      <VirtualStick
+        label={labels.right}
+        className="right-24 w-[40vw] h-[55vh]"
+        onMove={(x, y) => setTouchStick('right', x, y)}
+      />
+
+      <button
+        onClick={() => setShowSettings(!showSettings)}
+        className="fixed top-8 right-28 z-50 w-10 h-10 flex items-center justify-center glass-panel text-white/60 text-sm"
+        title="Touch Controls"
+      >
+        🕹️
+      </button>
+
+      {showSettings && (
+        <div className="fixed top-20 right-28 z-50 animate-fade-in">
+          <Panel title="Touch Controls" className="w-64">
+            <div className="space-y-3">
+              <div className="flex gap-1">
+                {(['mode1', 'mode2'] as const).map(layout => (
+                  <button
+                    key={layout}
+                    onClick={() => {
+                      HapticFeedback.selection();
+                      setTouchConfig({ layout });
+                    }}
+                    className={cn(
+                      'flex-1 px-2 py-1.5 text-xs rounded-lg transition-colors',
+                      status.layout === layout ? 'bg-future-primary text-white' : 'bg-white/5 text-white/60'
+                    )}
+                  >
+                    {layout === 'mode1' ? 'Mode 1' : 'Mode 2'}
+                  </button>
+                ))}
+              </div>
+              <div className="text-[10px] text-white/40">
+                Left: {labels.left} · Right: {labels.right}
+              </div>
+
+              <label className="block space-y-1">
+                <div className="flex justify-between text-[11px] text-white/60">
+                  <span>Deadzone</span>
+                  <span className="tabular-nums">{Math.round(status.deadzone * 100)}%</span>
+                </div>
+                <input
+                  type="range"
+                  min="0"
+                  max="0.3"
+                  step="0.01"
+                  value={status.deadzone}
+                  onChange={(e) => setTouchConfig({ deadzone: Number(e.target.value) })}
+                  className="w-full h-1 bg-white/20 rounded-lg appearance-none cursor-pointer"
+                />
+              </label>
+
+              {status.tiltAvailable && (
+                <div className="border-t border-white/5 pt-3 space-y-2.5">
+                  <div className="flex items-center justify-between">
+                    <span className="text-xs text-white/70">Tilt to steer</span>
+                    <button
+                      onClick={toggleTilt}
+                      className={cn(
+                        'px-3 py-1 text-xs rounded-lg transition-colors',
+                        status.tiltEnabled ? 'bg-future-success/20 text-future-success' : 'bg-white/5 text-white/60'
+                      )}
+                    >
+                      {status.tiltEnabled ? 'On' : 'Off'}
+                    </button>
+                  </div>
+                  {tiltDenied && (
+                    <div className="text-[10px] text-red-400">Motion sensors are blocked for this site</div>
+                  )}
+                  {status.tiltEnabled && (
+                    <>
+                      <label className="block space-y-1">
+                        <div className="flex justify-between text-[11px] text-white/60">
+                          <span>Tilt Sensitivity</span>
+                          <span className="tabular-nums">{status.tiltSensitivity.toFixed(1)}×</span>
+                        </div>
+                        <input
+                          type="range"
+                          min="0.25"
+                          max="3"
+                          step="0.05"
+                          value={status.tiltSensitivity}
+                          onChange={(e) => setTouchConfig({ tiltSensitivity: Number(e.target.value) })}
+                          className="w-full h-1 bg-white/20 rounded-lg appearance-none cursor-pointer"
+                        />
+                      </label>
+                      <button
+                        onClick={handleCalibrate}
+                        className="w-full py-1.5 text-xs rounded-lg bg-white/5 text-white/70"
+                      >
+                        Calibrate (hold level, then tap)
+                      </button>
+                    </>
+                  )}
+                </div>
+              )}
+            </div>
+          </Panel>
+        </div>
+      )}
+    </>
+  );
+}
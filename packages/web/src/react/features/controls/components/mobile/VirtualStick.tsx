@@ -0,0 +1,106 @@
+import { useRef, useState } from 'react';
+import { HapticFeedback } from '../../../../shared/utils/haptics';
+import { cn } from '../../../../shared/utils/cn';
+
+// Knob travel from the centre in px
+const RADIUS = 56;
+// Deflection past which the stick counts as at its stop
+const EDGE = 0.95;
+
+interface VirtualStickProps {
+  label: string;
+  className?: string;
+  // x and y from -1 to 1, up and right positive
+  onMove: (x: number, y: number) => void;
+}
+
+/**
+ * A floating thumbstick: it centres wherever the thumb lands inside its zone and springs
+ * back on release. Each stick follows its own touch, so both can be held at once.
+ */
+export function VirtualStick({ label, className, onMove }: VirtualStickProps) {
+  const [origin, setOrigin] = useState<{ x: number; y: number } | null>(null);
+  const [knob, setKnob] = useState({ x: 0, y: 0 });
+  const touchId = useRef<number | null>(null);
+  const atEdge = useRef(false);
+
+  const findTouch = (touches: React.TouchList) => {
+    for (let i = 0; i < touches.length; i++) {
+      if (touches[i].identifier === touchId.current) return touches[i];
+    }
+    return null;
+  };
+
+  const handleTouchStart = (e: React.TouchEvent) => {
+    e.stopPropagation();
+    if (touchId.current !== null) return;
+
+    const touch = e.changedTouches[0];
+    touchId.current = touch.identifier;
+    setOrigin({ x: touch.clientX, y: touch.clientY });
+    setKnob({ x: 0, y: 0 });
+    HapticFeedback.light();
+  };
+
+  const handleTouchMove = (e: React.TouchEvent) => {
+    e.stopPropagation();
+    const touch = findTouch(e.changedTouches);
+    if (!touch || !origin) return;
+
+    let dx = touch.clientX - origin.x;
+    let dy = touch.clientY - origin.y;
+    const distance = Math.hypot(dx, dy);
+    if (distance > RADIUS) {
+      dx = (dx / distance) * RADIUS;
+      dy = (dy / distance) * RADIUS;
+    }
+    setKnob({ x: dx, y: dy });
+
+    const deflection = Math.min(distance, RADIUS) / RADIUS;
+    if (deflection >= EDGE && !atEdge.current) {
+      HapticFeedback.selection();
+    }
+    atEdge.current = deflection >= EDGE;
+
+    onMove(dx / RADIUS, -dy / RADIUS);
+  };
+
+  const handleTouchEnd = (e: React.TouchEvent) => {
+    e.stopPropagation();
+    if (!findTouch(e.changedTouches)) return;
+
+    touchId.current = null;
+    atEdge.current = false;
+    setOrigin(null);
+    setKnob({ x: 0, y: 0 });
+    onMove(0, 0);
+  };
+
+  return (
+    <div
+      className={cn('fixed bottom-0 z-40', className)}
+      onTouchStart={handleTouchStart}
+      onTouchMove={handleTouchMove}
+      onTouchEnd={handleTouchEnd}
+      onTouchCancel={handleTouchEnd}
+      style={{ touchAction: 'none' }}
+    >
+      {origin ? (
+        <div
+          className="fixed pointer-events-none"
+          style={{ left: origin.x - RADIUS, top: origin.y - RADIUS, width: RADIUS * 2, height: RADIUS * 2 }}
+        >
+          <div className="absolute inset-0 rounded-full border border-white/20 bg-white/5" />
+          <div
+            className="absolute w-12 h-12 rounded-full bg-white/30 border border-white/40"
+            style={{ left: RADIUS - 24 + knob.x, top: RADIUS - 24 + knob.y }}
+          />
+        </div>
+      ) : (
+        <div className="absolute bottom-10 left-1/2 -translate-x-1/2 w-28 h-28 rounded-full border border-white/10 flex items-center justify-center pointer-events-none">
+          <span className="text-[10px] text-white/30 uppercase tracking-wider">{label}</span>
+        </div>
+      )}
+    </div>
+  );
+}
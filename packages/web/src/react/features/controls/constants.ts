@@ -1,33 +1,99 @@
+import type { InputAction } from '../../../cesium/input/InputManager';
+
+/**
+ * A line in the controls panel. Keyboard items list actions and show whatever is bound to them;
+ * gamepad and mouse items have fixed keys.
+ */
 export interface ControlItem {
-  keys: string[];
+  actions?: InputAction[];
+  keys?: string[];
   description: string;
 }
 
 export const VEHICLE_CONTROLS: ControlItem[] = [
-  { keys: ['W', '↑'], description: 'Throttle / Altitude Up' },
-  { keys: ['S', '↓'], description: 'Brake / Altitude Down' },
-  { keys: ['A', 'D', '←', '→'], description: 'Roll' },
+  { actions: ['throttle', 'altitudeUp'], description: 'Throttle / Altitude Up' },
+  { actions: ['brake', 'altitudeDown'], description: 'Brake / Altitude Down' },
+  { actions: ['turnLeft', 'turnRight'], description: 'Roll' },
+  { actions: ['toggleGear'], description: 'Landing Gear' },
+  { actions: ['brake'], description: 'Wheel Brakes (on ground)' },
+  { actions: ['altitudeUp'], description: 'Rotate for Take-off' },
+  { actions: ['restart'], description: 'Restart' },
+];
+
+export const ROTORCRAFT_CONTROLS: ControlItem[] = [
+  { actions: ['altitudeUp', 'altitudeDown'], description: 'Collective (Climb/Descend)' },
+  { actions: ['throttle', 'brake'], description: 'Cyclic Forward/Back' },
+  { actions: ['rollLeft', 'rollRight'], description: 'Strafe Left/Right' },
+  { actions: ['turnLeft', 'turnRight'], description: 'Yaw Left/Right' },
+];
+
+export const BOAT_CONTROLS: ControlItem[] = [
+  { actions: ['throttle'], description: 'Throttle' },
+  { actions: ['brake'], description: 'Reverse' },
+  { actions: ['turnLeft', 'turnRight'], description: 'Rudder' },
+];
+
+export const GAMEPAD_CONTROLS: ControlItem[] = [
+  { keys: ['RT', 'LT'], description: 'Throttle / Brake' },
+  { keys: ['L Stick'], description: 'Pitch / Turn' },
+  { keys: ['R Stick'], description: 'Roll' },
+  { keys: ['A'], description: 'Landing Gear' },
+  { keys: ['Y'], description: 'Switch Camera' },
+  { keys: ['View'], description: 'Restart' },
+];
+
+export const MOUSE_CONTROLS: ControlItem[] = [
+  { keys: ['Click'], description: 'Capture Mouse' },
+  { keys: ['Esc'], description: 'Release Mouse' },
+  { keys: ['Middle Click'], description: 'Centre Yoke' },
 ];
 
 export const CAMERA_CONTROLS: ControlItem[] = [
-  { keys: ['C'], description: 'Switch Camera' },
+  { actions: ['switchCamera'], description: 'Switch Camera' },
+  { actions: ['toggleHud'], description: 'Toggle Minimal HUD' },
 ];
 
 export const MODE_CONTROLS: ControlItem[] = [
-  { keys: ['M'], description: 'Toggle Rover/Aircraft' },
-  { keys: ['V'], description: 'Toggle Collision' },
-  { keys: ['B'], description: 'Toggle Builder Mode' },
+  { actions: ['toggleRoverMode'], description: 'Toggle Rover/Aircraft' },
+  { actions: ['toggleCollision'], description: 'Toggle Collision' },
+  { actions: ['toggleBuilder'], description: 'Toggle Builder Mode' },
 ];
 
 export const BUILDER_CONTROLS: ControlItem[] = [
-  { keys: ['W', 'A', 'S', 'D'], description: 'Move Spawn Cursor' },
-  { keys: ['↑', '↓'], description: 'Cursor Up/Down' },
-  { keys: ['Space'], description: 'Spawn Object' },
+  { actions: ['builderForward', 'builderLeft', 'builderBack', 'builderRight'], description: 'Move Spawn Cursor' },
+  { actions: ['builderUp', 'builderDown'], description: 'Cursor Up/Down' },
+  { actions: ['spawnObject'], description: 'Spawn Object' },
   { keys: ['Mouse Drag'], description: 'Look Around' },
   { keys: ['Scroll'], description: 'Zoom In/Out' },
-  { keys: ['B'], description: 'Exit Builder Mode' },
+  { actions: ['toggleBuilder'], description: 'Exit Builder Mode' },
 ];
 
-
-
-
+export const ACTION_LABELS: Partial<Record<InputAction, string>> = {
+  throttle: 'Throttle / Forward',
+  brake: 'Brake / Reverse',
+  turnLeft: 'Turn / Roll Left',
+  turnRight: 'Turn / Roll Right',
+  altitudeUp: 'Pitch Up / Climb',
+  altitudeDown: 'Pitch Down / Descend',
+  rollLeft: 'Roll / Strafe Left',
+  rollRight: 'Roll / Strafe Right',
+  toggleGear: 'Landing Gear',
+  cameraDown: 'Camera Down',
+  cameraCloser: 'Camera Closer',
+  cameraFarther: 'Camera Farther',
+  switchCamera: 'Switch Camera',
+  toggleRoverMode: 'Toggle Rover/Aircraft',
+  toggleCollision: 'Toggle Collision',
+  toggleBuilder: 'Toggle Builder Mode',
+  restart: 'Restart',
+  builderForward: 'Move Forward',
+  builderBack: 'Move Back',
+  builderLeft: 'Move Left',
+  builderRight: 'Move Right',
+  builderUp: 'Move Up',
+  builderDown: 'Move Down',
+  spawnObject: 'Spawn Object',
+  toggleHud: 'Toggle Minimal HUD',
+  toggleControls: 'Toggle Controls Panel',
+  toggleDebug: 'Toggle Debug Panel',
+};
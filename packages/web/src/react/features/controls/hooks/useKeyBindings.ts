@@ -0,0 +1,35 @@
+import { useCallback, useState } from 'react';
+import { useGameEventCallback } from '../../../hooks/useGameEvent';
+import { useGameMethod } from '../../../hooks/useGameMethod';
+import { formatKeyCode } from '../../../../cesium/input/KeyBindings';
+import type { BindingContext, KeyBindingMap } from '../../../../cesium/input/KeyBindings';
+import type { InputAction } from '../../../../cesium/input/InputManager';
+
+export function useKeyBindings() {
+  const { getKeyBindings } = useGameMethod();
+  const [bindings, setBindings] = useState<KeyBindingMap>(() => getKeyBindings());
+
+  useGameEventCallback('keyBindingsChanged', useCallback((data) => {
+    setBindings(data);
+  }, []));
+
+  /**
+   * Labels of the keys bound to any of the actions, falling back to the studio shortcuts
+   */
+  const keysFor = useCallback((context: BindingContext, actions: InputAction[]): string[] => {
+    const labels: string[] = [];
+    for (const action of actions) {
+      for (const ctx of [context, 'studio'] as const) {
+        for (const [code, bound] of Object.entries(bindings[ctx])) {
+          const label = formatKeyCode(code);
+          if (bound === action && !labels.includes(label)) {
+            labels.push(label);
+          }
+        }
+      }
+    }
+    return labels;
+  }, [bindings]);
+
+  return { bindings, keysFor };
+}
@@ -2,15 +2,30 @@ import { useState, useEffect } from 'react';
 import { useGameEvent } from '../../../hooks/useGameEvent';
 import { useGameMethod } from '../../../hooks/useGameMethod';
 import { Button } from '../../../shared/components/Button';
+import type { CrashData } from '../../../../cesium/bridge/types';
+import type { DamageState, ImpactCause } from '../../../../cesium/vehicles/ImpactModel';
+
+const DAMAGE_TITLES: Partial<Record<DamageState, string>> = {
+  damaged: 'Damaged',
+  destroyed: 'Destroyed',
+};
+
+const CAUSE_DESCRIPTIONS: Record<ImpactCause, string> = {
+  terrain: 'Hit the ground',
+  obstacle: 'Flew into an obstacle',
+  gearUp: 'Landed with the gear up',
+};
 
 export function CrashScreen() {
   const [isCrashed, setIsCrashed] = useState(false);
+  const [impact, setImpact] = useState<CrashData | null>(null);
   const crashData = useGameEvent('crashed');
   const { restart } = useGameMethod();
 
   useEffect(() => {
     if (crashData) {
       setIsCrashed(crashData.crashed);
+      setImpact(crashData.crashed ? crashData : null);
     }
   }, [crashData]);
 
@@ -40,17 +55,34 @@ export function CrashScreen() {
     <div className="fixed inset-0 z-[150] bg-black/50 backdrop-blur-md flex items-center justify-center animate-fade-in">
       <div className="relative max-w-md w-full mx-4">
         <div className="glass-panel p-8 text-center space-y-6">
-          <div className="text-5xl mb-2">💥</div>
+          <div className="text-5xl mb-2">{impact?.damage === 'damaged' ? '🔧' : '💥'}</div>
           
           <div className="space-y-2">
             <h2 className="text-2xl font-bold bg-gradient-to-r from-future-primary to-future-secondary bg-clip-text text-transparent">
-              Crashed
+              {(impact?.damage && DAMAGE_TITLES[impact.damage]) ?? 'Crashed'}
             </h2>
             <p className="text-white/50 text-sm">
-              Don't worry, happens to the best pilots
+              {(impact?.cause && CAUSE_DESCRIPTIONS[impact.cause]) ?? "Don't worry, happens to the best pilots"}
             </p>
           </div>
 
+          {impact?.impactSpeed !== undefined && (
+            <div className="grid grid-cols-2 gap-3">
+              <div className="glass-panel px-3 py-2">
+                <div className="text-[10px] text-white/40 uppercase tracking-wider">Impact speed</div>
+                <div className="text-lg font-light tabular-nums text-white">
+                  {Math.round(impact.impactSpeed * 3.6)} <span className="text-xs text-white/50">km/h</span>
+                </div>
+              </div>
+              <div className="glass-panel px-3 py-2">
+                <div className="text-[10px] text-white/40 uppercase tracking-wider">Impact angle</div>
+                <div className="text-lg font-light tabular-nums text-white">
+                  {Math.round(impact.impactAngle ?? 0)}°
+                </div>
+              </div>
+            </div>
+          )}
+
           <div className="space-y-3 pt-2">
             <Button
               onClick={restart}
@@ -62,7 +94,7 @@ export function CrashScreen() {
             </Button>
             
             <div className="text-[10px] text-white/30">
-              Press <kbd className="px-1.5 py-0.5 bg-white/5 border border-white/10 rounded text-white/50 font-mono text-[10px]">R</kbd> to restart
+              Press <kbd className="px-1.5 py-0.5 bg-white/5 border border-white/10 rounded text-white/50 font-mono text-[10px]">R</kbd> to restart from the last checkpoint or the start of the flight
             </div>
           </div>
         </div>
@@ -1,35 +1,26 @@
-import { useState, useEffect } from 'react';
+import { useState, useCallback } from 'react';
 import { Panel } from '../../../shared/components/Panel';
 import { Button } from '../../../shared/components/Button';
 import { useGameMethod } from '../../../hooks/useGameMethod';
+import { useGameEventCallback } from '../../../hooks/useGameEvent';
 import { useDebugInfo } from '../hooks/useDebugInfo';
 import { useQualitySettings } from '../hooks/useQualitySettings';
 import { QualityPresets } from './QualityPresets';
 import { QualityControls } from './QualityControls';
+import { EnvironmentControls } from './EnvironmentControls';
 
 export function DebugPanel() {
   const [isOpen, setIsOpen] = useState(false);
-  const { toggleCollisionDetection, toggleRoverMode, toggleVehicleType, switchCamera } = useGameMethod();
+  const { toggleCollisionDetection, toggleRoverMode, toggleVehicleType, switchCamera, getFlightModel, setFlightModel } = useGameMethod();
+  const [flightModel, setFlightModelState] = useState(() => getFlightModel());
   const { collisionEnabled, heightLockEnabled, fps } = useDebugInfo();
   const { config, updateSetting, applyPreset } = useQualitySettings();
 
-  useEffect(() => {
-    const handleKeyPress = (e: KeyboardEvent) => {
-      // Don't trigger shortcuts when typing in form fields
-      const target = e.target as HTMLElement;
-      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable)) {
-        return;
-      }
-
-      if (e.key === '`' || e.key === '~') {
-        e.preventDefault();
-        setIsOpen(prev => !prev);
-      }
-    };
-
-    window.addEventListener('keydown', handleKeyPress);
-    return () => window.removeEventListener('keydown', handleKeyPress);
-  }, []);
+  useGameEventCallback('studioAction', useCallback(({ action }) => {
+    if (action === 'toggleDebug') {
+      setIsOpen(prev => !prev);
+    }
+  }, []));
 
   return (
     <>
@@ -64,6 +55,10 @@ export function DebugPanel() {
                 <QualityControls config={config} onUpdateSetting={updateSetting} />
               </div>
 
+              <div className="border-t border-white/10 pt-4">
+                <EnvironmentControls />
+              </div>
+
               <div className="border-t border-white/10 pt-4 space-y-2">
                 <div className="text-[11px] text-white/70 uppercase tracking-wider mb-2 font-medium">Game Controls</div>
                 <Button
@@ -101,6 +96,19 @@ export function DebugPanel() {
                 >
                   🔄 Switch Vehicle (M)
                 </Button>
+
+                <Button
+                  onClick={() => {
+                    const next = flightModel === 'arcade' ? 'aero' : 'arcade';
+                    setFlightModelState(next);
+                    setFlightModel(next);
+                  }}
+                  variant={flightModel === 'aero' ? 'primary' : 'secondary'}
+                  size="sm"
+                  className="w-full"
+                >
+                  ✈️ Flight Model: {flightModel === 'aero' ? 'Realistic' : 'Arcade'}
+                </Button>
               </div>
 
               <div className="border-t border-white/10 pt-3">
@@ -0,0 +1,72 @@
+import { useState } from 'react';
+import { useGameMethod } from '../../../hooks/useGameMethod';
+import type { EnvironmentSettings } from '../../../../cesium/core/Environment';
+import { Slider, Toggle } from './QualityControls';
+
+/**
+ * Wind, turbulence and lift settings for the flight environment
+ */
+export function EnvironmentControls() {
+  const { getEnvironmentSettings, setEnvironmentSettings } = useGameMethod();
+  const [settings, setSettings] = useState<EnvironmentSettings>(() => getEnvironmentSettings());
+
+  const update = <K extends keyof EnvironmentSettings>(key: K, value: EnvironmentSettings[K]) => {
+    const change = { [key]: value };
+    setEnvironmentSettings(change);
+    setSettings(prev => ({ ...prev, ...change }));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="text-[11px] text-white/70 uppercase tracking-wider font-medium">Weather</div>
+      <Slider
+        label="Wind Speed"
+        value={settings.windSpeed}
+        min={0}
+        max={25}
+        step={1}
+        onChange={(v) => update('windSpeed', v)}
+        suffix=" m/s"
+      />
+      <Slider
+        label="Wind From"
+        value={settings.windDirection}
+        min={0}
+        max={355}
+        step={5}
+        onChange={(v) => update('windDirection', v)}
+        suffix="°"
+      />
+      <Slider
+        label="Gusts"
+        value={settings.gustiness * 100}
+        min={0}
+        max={100}
+        step={5}
+        onChange={(v) => update('gustiness', v / 100)}
+        suffix="%"
+      />
+      <Slider
+        label="Turbulence"
+        value={settings.turbulence * 100}
+        min={0}
+        max={100}
+        step={5}
+        onChange={(v) => update('turbulence', v / 100)}
+        suffix="%"
+      />
+      <Toggle
+        label="Thermals"
+        value={settings.thermals}
+        onChange={(v) => update('thermals', v)}
+        description="Rising columns of warm air"
+      />
+      <Toggle
+        label="Ridge Lift"
+        value={settings.ridgeLift}
+        onChange={(v) => update('ridgeLift', v)}
+        description="Wind deflected up by slopes"
+      />
+    </div>
+  );
+}
@@ -35,7 +35,7 @@ interface SliderProps {
   suffix?: string;
 }
 
-function Slider({ label, value, min, max, step, onChange, suffix = '' }: SliderProps) {
+export function Slider({ label, value, min, max, step, onChange, suffix = '' }: SliderProps) {
   return (
     <div className="space-y-1">
       <div className="flex items-center justify-between">
@@ -68,7 +68,7 @@ interface ToggleProps {
   description?: string;
 }
 
-function Toggle({ label, value, onChange, description }: ToggleProps) {
+export function Toggle({ label, value, onChange, description }: ToggleProps) {
   return (
     <div className="flex items-center justify-between">
       <div className="flex-1">
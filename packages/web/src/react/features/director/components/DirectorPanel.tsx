@@ -1,15 +1,11 @@
 import { useState, useEffect } from 'react';
 import { Panel } from '../../../shared/components/Panel';
 import { useGameMethod } from '../../../hooks/useGameMethod';
+import { useGameEventCallback } from '../../../hooks/useGameEvent';
 import { useCameraPosition } from '../../../hooks/useCameraPosition';
-
-interface Waypoint {
-  lat: number;
-  lon: number;
-  name: string;
-}
-
-type FlightMode = 'linear' | 'orbit' | 'lock';
+import { SegmentTimingControls } from '../../../shared/components/SegmentTimingControls';
+import type { SegmentTiming } from '../../../../cesium/camera/CameraPath';
+import type { FlightMode, ProjectWaypoint as Waypoint } from '../../../../cesium/project/ProjectFile';
 
 export function DirectorPanel() {
   const [isPortrait, setIsPortrait] = useState(false);
@@ -30,22 +26,27 @@ export function DirectorPanel() {
     setCameraSpeed,
     teleportTo,
     calculateAutoAltitude,
-    calculateAutoAltitudeForPath
+    calculateAutoAltitudeForPath,
+    getDirectorSettings,
+    setDirectorSettings
   } = useGameMethod();
 
+  // Director settings live in the project session so they survive tab switches and saves
+  const [initialSettings] = useState(() => getDirectorSettings());
+
   const cameraPosition = useCameraPosition();
 
   const [cityName, setCityName] = useState('');
-  const [waypoints, setWaypoints] = useState<Waypoint[]>([]);
+  const [waypoints, setWaypoints] = useState<Waypoint[]>(initialSettings.waypoints);
   const [isSearching, setIsSearching] = useState(false);
 
   // New State for Flight Modes
-  const [flightMode, setFlightMode] = useState<FlightMode>('linear');
-  const [orbitRadius, setOrbitRadius] = useState(500);
+  const [flightMode, setFlightMode] = useState<FlightMode>(initialSettings.flightMode);
+  const [orbitRadius, setOrbitRadius] = useState(initialSettings.orbitRadius);
 
   // New State for Flight Parameters
-  const [flightAltitude, setFlightAltitude] = useState(200);
-  const [flightSpeed, setFlightSpeed] = useState(60); // Content-creation default: 60 m/s
+  const [flightAltitude, setFlightAltitude] = useState(initialSettings.altitude);
+  const [flightSpeed, setFlightSpeed] = useState(initialSettings.speed); // Content-creation default: 60 m/s
 
   // Speed presets for content creation
   const SPEED_PRESETS = [
@@ -62,6 +63,29 @@ export function DirectorPanel() {
   const [autoAltitudeMode, setAutoAltitudeMode] = useState(false);
   const [sceneType, setSceneType] = useState<string | null>(null);
 
+  useEffect(() => {
+    setDirectorSettings({
+      waypoints,
+      flightMode,
+      orbitRadius,
+      altitude: flightAltitude,
+      speed: flightSpeed,
+    });
+  }, [waypoints, flightMode, orbitRadius, flightAltitude, flightSpeed, setDirectorSettings]);
+
+  // Waypoints added elsewhere, e.g. by clicking the minimap
+  useGameEventCallback('waypointAdded', (waypoint) => {
+    setWaypoints(prev => [...prev, waypoint]);
+  });
+
+  useGameEventCallback('projectLoaded', (project) => {
+    setWaypoints(project.director.waypoints);
+    setFlightMode(project.director.flightMode);
+    setOrbitRadius(project.director.orbitRadius);
+    setFlightAltitude(project.director.altitude);
+    setFlightSpeed(project.director.speed);
+  });
+
   // Sync Camera Speed with Flight Speed slider
   useEffect(() => {
     setCameraSpeed(flightSpeed);
@@ -149,7 +173,7 @@ export function DirectorPanel() {
         await new Promise(resolve => setTimeout(resolve, 500));
 
         console.log('Flight Plan created:', waypoints);
-        await flyPath(waypoints.map(wp => ({ lat: wp.lat, lon: wp.lon })), { speed: flightSpeed, altitude: flightAltitude });
+        await flyPath(waypoints.map(toPathWaypoint), { speed: flightSpeed, altitude: flightAltitude });
       } else if (flightMode === 'orbit') {
         const target = waypoints[waypoints.length - 1];
         startOrbit(target.lat, target.lon, flightAltitude, orbitRadius, 0.2, () => {
@@ -180,7 +204,7 @@ export function DirectorPanel() {
           const lockPath = [startPoint, ...waypoints];
           // The target to lock ON is the last waypoint.
           // Pass speed to flyPathWithTargetLock options
-          flyPathWithTargetLock(lockPath.map(p => ({ lat: p.lat, lon: p.lon })), { lat: target.lat, lon: target.lon }, { speed: flightSpeed }); 
+          flyPathWithTargetLock(lockPath.map(toPathWaypoint), { lat: target.lat, lon: target.lon }, { speed: flightSpeed }); 
         }
       }
     } catch (e) {
@@ -200,6 +224,10 @@ export function DirectorPanel() {
     }
   };
 
+  const updateWaypointTiming = (index: number, timing: SegmentTiming) => {
+    setWaypoints(waypoints.map((wp, i) => (i === index ? { ...wp, ...timing } : wp)));
+  };
+
   const handleStopRecording = () => {
     stopRecording();
     setIsRecording(false);
@@ -428,7 +456,7 @@ export function DirectorPanel() {
           </div>
 
           {/* Waypoints List */}
-          <div className="max-h-40 overflow-y-auto space-y-2">
+          <div className="max-h-60 overflow-y-auto space-y-2">
             <h3 className="text-xs font-semibold text-white/50 uppercase tracking-wider">
               Waypoints ({waypoints.length})
             </h3>
@@ -446,6 +474,13 @@ export function DirectorPanel() {
                       <div className="text-xs text-white/40 font-mono">
                         {wp.lat.toFixed(2)}, {wp.lon.toFixed(2)}
                       </div>
+                      <div className="mt-1">
+                        <SegmentTimingControls
+                          timing={wp}
+                          defaultEasing={flightMode === 'lock' ? 'linear' : 'easeInOut'}
+                          onChange={(timing) => updateWaypointTiming(idx, timing)}
+                        />
+                      </div>
                     </div>
                   </div>
                 ))}
@@ -479,3 +514,7 @@ export function DirectorPanel() {
     </div>
   );
 }
+
+function toPathWaypoint(wp: { lat: number; lon: number } & SegmentTiming) {
+  return { lat: wp.lat, lon: wp.lon, easing: wp.easing, bezier: wp.bezier, hold: wp.hold };
+}
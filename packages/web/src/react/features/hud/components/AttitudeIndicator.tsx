@@ -0,0 +1,61 @@
+import { useVehicleState } from '../hooks/useVehicleState';
+
+const SIZE = 132;
+const RADIUS = SIZE / 2;
+// Pixels the horizon moves per degree of pitch
+const PITCH_SCALE = 2.2;
+const LADDER_STEPS = [-30, -20, -10, 10, 20, 30];
+
+/**
+ * Artificial horizon: the sky/ground disc pitches and banks behind a fixed aircraft symbol
+ */
+export function AttitudeIndicator() {
+  const { pitch, roll } = useVehicleState();
+  const pitchDeg = pitch * 180 / Math.PI;
+  const rollDeg = roll * 180 / Math.PI;
+  const offset = Math.max(-60, Math.min(60, pitchDeg)) * PITCH_SCALE;
+
+  return (
+    <div className="glass-panel p-1.5 rounded-full">
+      <svg width={SIZE} height={SIZE} viewBox={`${-RADIUS} ${-RADIUS} ${SIZE} ${SIZE}`}>
+        <defs>
+          <clipPath id="attitude-clip">
+            <circle r={RADIUS - 2} />
+          </clipPath>
+        </defs>
+
+        <g clipPath="url(#attitude-clip)">
+          <g transform={`rotate(${-rollDeg}) translate(0 ${offset})`}>
+            <rect x={-SIZE * 2} y={-SIZE * 4} width={SIZE * 4} height={SIZE * 4} fill="rgba(56, 189, 248, 0.35)" />
+            <rect x={-SIZE * 2} y={0} width={SIZE * 4} height={SIZE * 4} fill="rgba(146, 96, 48, 0.45)" />
+            <line x1={-SIZE * 2} x2={SIZE * 2} y1={0} y2={0} stroke="white" strokeWidth={1.5} />
+            {LADDER_STEPS.map((step) => {
+              const y = -step * PITCH_SCALE;
+              const half = step % 20 === 0 ? 22 : 14;
+              return (
+                <g key={step} stroke="white" strokeOpacity={0.7} strokeWidth={1}>
+                  <line x1={-half} x2={half} y1={y} y2={y} strokeDasharray={step < 0 ? '3 2' : undefined} />
+                  <text x={half + 4} y={y + 3} fill="white" fillOpacity={0.7} stroke="none" fontSize={8}>
+                    {Math.abs(step)}
+                  </text>
+                </g>
+              );
+            })}
+          </g>
+        </g>
+
+        {/* Bank pointer, fixed to the aircraft */}
+        <polygon points={`0,${-RADIUS + 4} -5,${-RADIUS + 12} 5,${-RADIUS + 12}`} fill="#f59e0b" />
+
+        {/* Aircraft symbol */}
+        <g stroke="#f59e0b" strokeWidth={3} strokeLinecap="round" fill="none">
+          <line x1={-34} x2={-12} y1={0} y2={0} />
+          <line x1={12} x2={34} y1={0} y2={0} />
+          <circle r={2.5} fill="#f59e0b" stroke="none" />
+        </g>
+
+        <circle r={RADIUS - 2} fill="none" stroke="rgba(255, 255, 255, 0.25)" strokeWidth={1.5} />
+      </svg>
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+import { useVehicleState } from '../hooks/useVehicleState';
+
+// Full-scale deflection of the VSI needle, m/s
+const VSI_RANGE = 15;
+
+function Readout({ label, value, unit, className = 'text-white' }: { label: string; value: string; unit: string; className?: string }) {
+  return (
+    <div className="flex items-baseline justify-between gap-3">
+      <span className="text-[9px] text-white/50 uppercase tracking-widest font-medium w-8">{label}</span>
+      <span className={`text-lg font-light tabular-nums tracking-tight ${className}`}>{value}</span>
+      <span className="text-[9px] text-white/40 w-5">{unit}</span>
+    </div>
+  );
+}
+
+/**
+ * Altimeter (MSL and above ground), vertical speed and g-load for flying vehicles
+ */
+export function FlightInstruments() {
+  const { altitude, altitudeAgl, verticalVelocity = 0, gLoad = 1 } = useVehicleState();
+  const vsiFraction = Math.max(-1, Math.min(1, verticalVelocity / VSI_RANGE));
+  const gClass = gLoad > 4 || gLoad < -1 ? 'text-red-400' : gLoad > 2.5 || gLoad < 0 ? 'text-future-warning' : 'text-white';
+  const aglClass = altitudeAgl !== null && altitudeAgl < 50 ? 'text-future-warning' : 'text-white';
+
+  return (
+    <div className="glass-panel px-4 py-3 flex gap-4">
+      <div className="flex flex-col justify-center min-w-[9rem]">
+        <Readout label="Alt" value={Math.round(altitude).toLocaleString()} unit="m" />
+        <Readout
+          label="AGL"
+          value={altitudeAgl === null ? '---' : Math.round(altitudeAgl).toLocaleString()}
+          unit="m"
+          className={aglClass}
+        />
+        <Readout
+          label="VS"
+          value={`${verticalVelocity >= 0 ? '+' : ''}${verticalVelocity.toFixed(1)}`}
+          unit="m/s"
+        />
+        <Readout label="G" value={gLoad.toFixed(1)} unit="g" className={gClass} />
+      </div>
+
+      {/* Vertical speed bar: climb fills up from the centre, descent down */}
+      <div className="relative w-1.5 rounded-full bg-white/10">
+        <div className="absolute left-0 right-0 top-1/2 h-px bg-white/40" />
+        <div
+          className={`absolute left-0 right-0 rounded-full ${vsiFraction >= 0 ? 'bg-future-success' : 'bg-future-warning'}`}
+          style={vsiFraction >= 0
+            ? { bottom: '50%', height: `${vsiFraction * 50}%` }
+            : { top: '50%', height: `${-vsiFraction * 50}%` }}
+        />
+      </div>
+    </div>
+  );
+}
@@ -1,14 +1,71 @@
+import { useCallback, useState } from 'react';
 import { Panel } from '../../../shared/components/Panel';
 import { Speedometer } from './Speedometer';
+import { LandingStatus } from './LandingStatus';
+import { AttitudeIndicator } from './AttitudeIndicator';
+import { HeadingTape } from './HeadingTape';
+import { FlightInstruments } from './FlightInstruments';
+import { useVehicleState } from '../hooks/useVehicleState';
+import { useGameEventCallback } from '../../../hooks/useGameEvent';
+import { toCompassHeading } from '../../../shared/utils/compass';
+
+/**
+ * Single line of speed, altitude and heading, small enough to keep in recordings
+ */
+function MinimalOverlay() {
+  const { speed, altitude, heading } = useVehicleState();
 
-export function HUD() {
   return (
-    <div className="fixed bottom-8 left-1/2 -translate-x-1/2 z-50 flex flex-col items-center gap-4">
-      <Panel variant="minimal">
-        <Speedometer />
-      </Panel>
+    <div className="text-[11px] text-white/70 tabular-nums tracking-wider drop-shadow">
+      {Math.round(speed)} km/h · {Math.round(altitude).toLocaleString()} m · {String(Math.round(toCompassHeading(heading)) % 360).padStart(3, '0')}°
     </div>
   );
 }
 
+export function HUD() {
+  const { verticalVelocity } = useVehicleState();
+  const [minimal, setMinimal] = useState(false);
+  const isFlying = verticalVelocity !== undefined;
+
+  useGameEventCallback('studioAction', useCallback(({ action }) => {
+    if (action === 'toggleHud') {
+      setMinimal(prev => !prev);
+    }
+  }, []));
+
+  if (minimal) {
+    return (
+      <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 flex items-center gap-3">
+        <MinimalOverlay />
+        <button
+          onClick={() => setMinimal(false)}
+          className="text-[10px] text-white/30 hover:text-white/70 transition-colors"
+          title="Show full HUD (H)"
+        >
+          HUD
+        </button>
+      </div>
+    );
+  }
 
+  return (
+    <div className="fixed bottom-8 left-1/2 -translate-x-1/2 z-50 flex flex-col items-center gap-4">
+      <LandingStatus />
+      {isFlying && <HeadingTape />}
+      <div className="flex items-end gap-4">
+        {isFlying && <AttitudeIndicator />}
+        <Panel variant="minimal">
+          <Speedometer />
+        </Panel>
+        {isFlying && <FlightInstruments />}
+      </div>
+      <button
+        onClick={() => setMinimal(true)}
+        className="text-[10px] text-white/30 hover:text-white/70 uppercase tracking-widest transition-colors"
+        title="Minimal overlay for clean recordings (H)"
+      >
+        Minimal HUD
+      </button>
+    </div>
+  );
+}
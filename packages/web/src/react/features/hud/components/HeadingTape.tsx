@@ -0,0 +1,56 @@
+import { useVehicleState } from '../hooks/useVehicleState';
+import { toCompassHeading } from '../../../shared/utils/compass';
+
+const WIDTH = 240;
+const HEIGHT = 40;
+// Pixels per degree of heading
+const SCALE = 4;
+const HALF_SPAN = WIDTH / SCALE / 2;
+const CARDINALS: Record<number, string> = { 0: 'N', 90: 'E', 180: 'S', 270: 'W' };
+
+/**
+ * Scrolling compass tape with the current bearing read out in the middle
+ */
+export function HeadingTape() {
+  const { heading } = useVehicleState();
+  const bearing = toCompassHeading(heading);
+
+  const ticks: number[] = [];
+  for (let deg = Math.ceil((bearing - HALF_SPAN) / 5) * 5; deg <= bearing + HALF_SPAN; deg += 5) {
+    ticks.push(deg);
+  }
+
+  return (
+    <div className="glass-panel px-2 py-1">
+      <svg width={WIDTH} height={HEIGHT}>
+        {ticks.map((deg) => {
+          const x = WIDTH / 2 + (deg - bearing) * SCALE;
+          const wrapped = ((deg % 360) + 360) % 360;
+          const major = wrapped % 10 === 0;
+          const label = CARDINALS[wrapped] ?? (wrapped % 30 === 0 ? String(wrapped / 10).padStart(2, '0') : null);
+          return (
+            <g key={deg}>
+              <line x1={x} x2={x} y1={HEIGHT} y2={HEIGHT - (major ? 9 : 5)} stroke="white" strokeOpacity={0.6} />
+              {label && (
+                <text
+                  x={x}
+                  y={HEIGHT - 12}
+                  textAnchor="middle"
+                  fontSize={10}
+                  fill={CARDINALS[wrapped] ? '#38bdf8' : 'white'}
+                  fillOpacity={0.8}
+                >
+                  {label}
+                </text>
+              )}
+            </g>
+          );
+        })}
+        <rect x={WIDTH / 2 - 18} y={0} width={36} height={14} rx={3} fill="rgba(6, 8, 17, 0.85)" stroke="#f59e0b" strokeWidth={1} />
+        <text x={WIDTH / 2} y={11} textAnchor="middle" fontSize={10} fill="#f59e0b" className="tabular-nums">
+          {String(Math.round(bearing) % 360).padStart(3, '0')}
+        </text>
+      </svg>
+    </div>
+  );
+}
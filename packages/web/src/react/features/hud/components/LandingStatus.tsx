@@ -0,0 +1,85 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useGameMethod } from '../../../hooks/useGameMethod';
+import { useGameEventCallback } from '../../../hooks/useGameEvent';
+import type { LandingGearData, TouchdownData } from '../../../../cesium/bridge/types';
+import type { TouchdownGrade } from '../../../../cesium/vehicles/ImpactModel';
+
+const TOUCHDOWN_STYLES: Record<TouchdownGrade, { label: string; className: string }> = {
+  butter: { label: 'Butter', className: 'text-future-success' },
+  smooth: { label: 'Smooth', className: 'text-future-primary' },
+  firm: { label: 'Firm', className: 'text-future-warning' },
+  hard: { label: 'Hard', className: 'text-red-400' },
+};
+
+const TOUCHDOWN_DISPLAY_MS = 5000;
+
+/**
+ * Gear state and the last touchdown's score, shown while flying an aircraft
+ */
+export function LandingStatus() {
+  const { listVehicles, getActiveVehicleId, toggleLandingGear, startOnGround } = useGameMethod();
+  const [vehicles] = useState(() => listVehicles());
+  const [activeId, setActiveId] = useState(() => getActiveVehicleId());
+  const [gear, setGear] = useState<LandingGearData>({ gearDown: true, onGround: false });
+  const [touchdown, setTouchdown] = useState<TouchdownData | null>(null);
+
+  useGameEventCallback('vehicleChanged', useCallback((data) => {
+    setActiveId(data.id);
+  }, []));
+  useGameEventCallback('landingGearChanged', useCallback((data) => {
+    setGear(data);
+  }, []));
+  useGameEventCallback('touchdown', useCallback((data) => {
+    setTouchdown(data);
+  }, []));
+
+  useEffect(() => {
+    if (!touchdown) return;
+    const timeout = setTimeout(() => setTouchdown(null), TOUCHDOWN_DISPLAY_MS);
+    return () => clearTimeout(timeout);
+  }, [touchdown]);
+
+  const kind = vehicles.find(v => v.id === activeId)?.kind;
+  if (kind !== 'aircraft') return null;
+
+  return (
+    <div className="flex flex-col items-center gap-2">
+      {touchdown && (
+        <div className="glass-panel px-4 py-2 text-center animate-fade-in">
+          <div className={`text-sm font-semibold ${TOUCHDOWN_STYLES[touchdown.grade].className}`}>
+            {TOUCHDOWN_STYLES[touchdown.grade].label} landing · {touchdown.score}
+          </div>
+          <div className="text-[10px] text-white/50 tabular-nums">
+            {touchdown.verticalSpeed.toFixed(1)} m/s sink
+          </div>
+        </div>
+      )}
+
+      <div className="flex items-center gap-2">
+        <button
+          onClick={toggleLandingGear}
+          disabled={gear.onGround}
+          className={`glass-panel px-3 py-1.5 text-[10px] font-semibold uppercase tracking-wider transition-colors disabled:cursor-default ${
+            gear.gearDown ? 'text-future-success' : 'text-white/50 hover:text-white/80'
+          }`}
+          title="Toggle landing gear (L)"
+        >
+          Gear {gear.gearDown ? 'Down' : 'Up'}
+        </button>
+        {gear.onGround ? (
+          <span className="glass-panel px-3 py-1.5 text-[10px] font-semibold uppercase tracking-wider text-future-primary">
+            On Ground
+          </span>
+        ) : (
+          <button
+            onClick={startOnGround}
+            className="glass-panel px-3 py-1.5 text-[10px] font-medium text-white/50 hover:text-white/80 transition-colors"
+            title="Park on the ground below for a take-off roll"
+          >
+            Park Below
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
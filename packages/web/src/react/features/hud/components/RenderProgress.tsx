@@ -0,0 +1,42 @@
+import { Panel } from '../../../shared/components/Panel';
+import { useGameEvent } from '../../../hooks/useGameEvent';
+import { useGameMethod } from '../../../hooks/useGameMethod';
+
+export function RenderProgress() {
+  const progress = useGameEvent('offlineRenderProgress');
+  const { cancelOfflineRender } = useGameMethod();
+
+  if (!progress?.active) return null;
+
+  const percent = progress.totalFrames > 0
+    ? Math.round((progress.frame / progress.totalFrames) * 100)
+    : 0;
+  const isEncoding = progress.phase === 'encoding';
+
+  return (
+    <div className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 z-[100] pointer-events-auto">
+      <Panel className="flex flex-col items-center gap-4 p-8 min-w-[320px]">
+        <div className="text-xl font-bold text-[#00f3ff]">
+          {isEncoding ? 'Encoding video...' : 'Rendering frames...'}
+        </div>
+        <div className="w-full h-2 bg-white/10 rounded-full overflow-hidden">
+          <div
+            className="h-full bg-gradient-to-r from-future-primary to-future-accent transition-all"
+            style={{ width: `${isEncoding ? 100 : percent}%` }}
+          />
+        </div>
+        <div className="text-sm text-white/70 font-mono">
+          {progress.frame} / {progress.totalFrames} frames
+        </div>
+        {!isEncoding && (
+          <button
+            onClick={cancelOfflineRender}
+            className="px-4 py-1.5 rounded text-xs font-medium bg-white/10 text-white/80 hover:bg-white/20 transition-colors"
+          >
+            Cancel
+          </button>
+        )}
+      </Panel>
+    </div>
+  );
+}
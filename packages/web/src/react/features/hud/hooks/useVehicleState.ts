@@ -9,7 +9,9 @@ export function useVehicleState() {
     heading: vehicleState?.heading ?? 0,
     pitch: vehicleState?.pitch ?? 0,
     roll: vehicleState?.roll ?? 0,
+    altitude: vehicleState?.altitude ?? 0,
+    verticalVelocity: vehicleState?.verticalVelocity,
+    altitudeAgl: vehicleState?.altitudeAgl ?? null,
+    gLoad: vehicleState?.gLoad,
   };
 }
-
-
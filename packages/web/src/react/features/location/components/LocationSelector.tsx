@@ -10,6 +10,7 @@ export interface Location {
   altitude: number;
   heading?: number;
   emoji: string;
+  onGround?: boolean; // park aircraft on the runway instead of arriving in the air
 }
 
 const LOCATIONS: Location[] = [
@@ -26,12 +27,14 @@ const LOCATIONS: Location[] = [
   { id: 'singapore', name: 'Marina Bay', country: 'Singapore', longitude: 103.8591, latitude: 1.2868, altitude: 300, heading: 90, emoji: '🏙️' },
   { id: 'barcelona', name: 'Sagrada Familia', country: 'Spain', longitude: 2.1744, latitude: 41.4036, altitude: 300, heading: 0, emoji: '⛪' },
   { id: 'goth', name: 'Gothenburg', country: 'Sweden', longitude: 11.9746, latitude: 57.7089, altitude: 200, heading: 180, emoji: '🇸🇪' },
+  { id: 'lhr', name: 'Heathrow Runway 27L', country: 'UK', longitude: -0.4325, latitude: 51.4648, altitude: 150, heading: 180, emoji: '🛫', onGround: true },
+  { id: 'sfo', name: 'SFO Runway 28R', country: 'USA', longitude: -122.3575, latitude: 37.6137, altitude: 100, heading: 207, emoji: '🛫', onGround: true },
 ];
 
 export function LocationSelector() {
   const [isOpen, setIsOpen] = useState(false);
   const [search, setSearch] = useState('');
-  const { teleportTo } = useGameMethod();
+  const { teleportTo, startOnGround } = useGameMethod();
   const dropdownRef = useRef<HTMLDivElement>(null);
 
   const filteredLocations = LOCATIONS.filter(
@@ -42,6 +45,9 @@ export function LocationSelector() {
 
   const handleSelect = (location: Location) => {
     teleportTo(location.longitude, location.latitude, location.altitude, location.heading);
+    if (location.onGround) {
+      startOnGround();
+    }
     setIsOpen(false);
     setSearch('');
   };
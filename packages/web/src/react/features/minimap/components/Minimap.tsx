@@ -0,0 +1,239 @@
+import { useCallback, useState } from 'react';
+import type { MouseEvent } from 'react';
+import { useGameMethod } from '../../../hooks/useGameMethod';
+import { useGameEvent, useGameEventCallback } from '../../../hooks/useGameEvent';
+import { toCompassHeading } from '../../../shared/utils/compass';
+import type { GameObjectType } from '../../../../cesium/objects/GameObject';
+
+type MapOrientation = 'northUp' | 'trackUp';
+
+interface LatLon {
+  lat: number;
+  lon: number;
+}
+
+const SIZE = 200;
+const HALF = SIZE / 2;
+const EARTH_RADIUS = 6378137;
+const DEG = Math.PI / 180;
+// Map radius options, metres from the centre to the edge
+const RANGES = [500, 1000, 2500, 5000, 10000, 25000, 50000, 100000];
+const DEFAULT_RANGE_INDEX = 3;
+
+const OBJECT_COLORS: Record<GameObjectType, string> = {
+  waypoint: '#38bdf8',
+  ring: '#7c3aed',
+  collectible: '#f59e0b',
+  start: '#22c55e',
+  finish: '#ef4444',
+};
+
+function formatDistance(metres: number): string {
+  return metres >= 1000 ? `${(metres / 1000).toFixed(metres >= 10000 ? 0 : 1)} km` : `${Math.round(metres)} m`;
+}
+
+/**
+ * Local east/north offset in metres; flat-earth is plenty at minimap ranges
+ */
+function toLocal(point: LatLon, center: LatLon): { east: number; north: number } {
+  const dLon = ((point.lon - center.lon + 540) % 360) - 180;
+  return {
+    east: dLon * DEG * EARTH_RADIUS * Math.cos(center.lat * DEG),
+    north: (point.lat - center.lat) * DEG * EARTH_RADIUS,
+  };
+}
+
+/**
+ * 2D map centred on the camera with the vehicle, the director route, builder objects and
+ * the flight guide line. Click anywhere on it to add a waypoint there.
+ */
+export function Minimap() {
+  const { getDirectorSettings, getBuilderObjects, getFlightGuideTarget, addWaypoint } = useGameMethod();
+  const [waypoints, setWaypoints] = useState(() => getDirectorSettings().waypoints);
+  const [objects, setObjects] = useState(() => getBuilderObjects());
+  const [guideTarget, setGuideTarget] = useState(() => getFlightGuideTarget());
+  const [orientation, setOrientation] = useState<MapOrientation>('northUp');
+  const [rangeIndex, setRangeIndex] = useState(DEFAULT_RANGE_INDEX);
+  const [collapsed, setCollapsed] = useState(false);
+
+  const camera = useGameEvent('cameraPositionChanged', { throttle: 100 });
+  const vehicle = useGameEvent('vehicleStateChanged', { throttle: 100 });
+
+  useGameEventCallback('waypointsChanged', useCallback((data) => {
+    setWaypoints(data.waypoints);
+  }, []));
+  useGameEventCallback('builderObjectsChanged', useCallback((data) => {
+    setObjects(data.objects);
+  }, []));
+  useGameEventCallback('flightGuideChanged', useCallback((data) => {
+    setGuideTarget(data.target);
+  }, []));
+
+  const center: LatLon = { lat: camera?.latitude ?? 0, lon: camera?.longitude ?? 0 };
+  const bearing = vehicle ? toCompassHeading(vehicle.heading) : (camera?.heading ?? 0);
+  const range = RANGES[rangeIndex];
+  const scale = HALF / range;
+  const rotation = orientation === 'trackUp' ? -bearing * DEG : 0;
+  const cos = Math.cos(rotation);
+  const sin = Math.sin(rotation);
+
+  const toScreen = (point: LatLon) => {
+    const { east, north } = toLocal(point, center);
+    const x = east * scale;
+    const y = -north * scale;
+    return { x: HALF + x * cos - y * sin, y: HALF + x * sin + y * cos };
+  };
+
+  const handleClick = (e: MouseEvent<SVGSVGElement>) => {
+    if (!camera) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = (e.clientX - rect.left) * (SIZE / rect.width) - HALF;
+    const y = (e.clientY - rect.top) * (SIZE / rect.height) - HALF;
+    // Undo the track-up rotation, then the scale
+    const east = (x * cos + y * sin) / scale;
+    const north = -(-x * sin + y * cos) / scale;
+    const lat = center.lat + north / EARTH_RADIUS / DEG;
+    const lon = center.lon + east / (EARTH_RADIUS * Math.cos(center.lat * DEG)) / DEG;
+    addWaypoint(lat, lon);
+  };
+
+  if (collapsed) {
+    return (
+      <button
+        onClick={() => setCollapsed(false)}
+        className="glass-panel px-3 py-1.5 text-[10px] font-semibold uppercase tracking-wider text-white/50 hover:text-white/80 transition-colors"
+      >
+        🗺️ Map
+      </button>
+    );
+  }
+
+  const route = waypoints.map(toScreen);
+  const marker = vehicle ? toScreen({ lat: vehicle.latitude, lon: vehicle.longitude }) : null;
+  const guide = guideTarget ? toScreen(guideTarget) : null;
+  const guideOffset = guideTarget ? toLocal(guideTarget, center) : null;
+  const guideDistance = guideOffset ? Math.hypot(guideOffset.east, guideOffset.north) : 0;
+  const north = { x: HALF + HALF * 0.86 * Math.sin(rotation), y: HALF - HALF * 0.86 * Math.cos(rotation) };
+
+  return (
+    <div className="glass-panel p-2 space-y-2 animate-fade-in">
+      <div className="flex items-center justify-between gap-2 text-[10px]">
+        <button
+          onClick={() => setOrientation(orientation === 'northUp' ? 'trackUp' : 'northUp')}
+          className="px-2 py-0.5 rounded bg-white/10 text-white/70 hover:bg-white/20 transition-colors uppercase tracking-wider font-semibold"
+          title="Switch between north-up and track-up"
+        >
+          {orientation === 'northUp' ? 'North Up' : 'Track Up'}
+        </button>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => setRangeIndex(Math.max(0, rangeIndex - 1))}
+            disabled={rangeIndex === 0}
+            className="w-5 h-5 rounded bg-white/10 text-white/70 hover:bg-white/20 disabled:opacity-30 transition-colors"
+            title="Zoom in"
+          >
+            +
+          </button>
+          <span className="w-12 text-center text-white/60 tabular-nums">{formatDistance(range)}</span>
+          <button
+            onClick={() => setRangeIndex(Math.min(RANGES.length - 1, rangeIndex + 1))}
+            disabled={rangeIndex === RANGES.length - 1}
+            className="w-5 h-5 rounded bg-white/10 text-white/70 hover:bg-white/20 disabled:opacity-30 transition-colors"
+            title="Zoom out"
+          >
+            −
+          </button>
+          <button
+            onClick={() => setCollapsed(true)}
+            className="w-5 h-5 rounded text-white/40 hover:text-white/80 transition-colors"
+            title="Hide map"
+          >
+            ×
+          </button>
+        </div>
+      </div>
+
+      <svg
+        width={SIZE}
+        height={SIZE}
+        onClick={handleClick}
+        className="block rounded-lg bg-future-darker/60 cursor-crosshair"
+        style={{ overflow: 'hidden' }}
+      >
+        <title>Click to add a waypoint here</title>
+
+        {/* Range rings */}
+        <circle cx={HALF} cy={HALF} r={HALF / 2} fill="none" stroke="white" strokeOpacity={0.1} />
+        <circle cx={HALF} cy={HALF} r={HALF - 1} fill="none" stroke="white" strokeOpacity={0.1} />
+        <text x={HALF + 3} y={HALF / 2 - 3} fontSize={8} fill="white" fillOpacity={0.3}>
+          {formatDistance(range / 2)}
+        </text>
+
+        <text x={north.x} y={north.y + 3} textAnchor="middle" fontSize={10} fontWeight={600} fill="#38bdf8">
+          N
+        </text>
+
+        {/* Builder objects */}
+        {objects.map((object) => {
+          const p = toScreen(object);
+          return (
+            <rect
+              key={object.id}
+              x={p.x - 2.5}
+              y={p.y - 2.5}
+              width={5}
+              height={5}
+              transform={`rotate(45 ${p.x} ${p.y})`}
+              fill={OBJECT_COLORS[object.type]}
+              fillOpacity={0.8}
+            />
+          );
+        })}
+
+        {/* Planned route */}
+        {route.length > 1 && (
+          <polyline
+            points={route.map(p => `${p.x},${p.y}`).join(' ')}
+            fill="none"
+            stroke="#4a90ff"
+            strokeOpacity={0.7}
+            strokeWidth={1.5}
+            strokeDasharray="4 3"
+          />
+        )}
+        {route.map((p, index) => (
+          <g key={index}>
+            <circle cx={p.x} cy={p.y} r={6} fill="#4a90ff" fillOpacity={0.85} />
+            <text x={p.x} y={p.y + 3} textAnchor="middle" fontSize={8} fontWeight={600} fill="white">
+              {index + 1}
+            </text>
+          </g>
+        ))}
+
+        {/* Flight guide from the camera to its target */}
+        {guide && (
+          <line x1={HALF} y1={HALF} x2={guide.x} y2={guide.y} stroke="#facc15" strokeOpacity={0.8} strokeWidth={1.5} />
+        )}
+
+        {/* Camera, at the centre */}
+        <circle cx={HALF} cy={HALF} r={2.5} fill="white" fillOpacity={0.6} />
+
+        {/* Vehicle */}
+        {marker && (
+          <g transform={`translate(${marker.x} ${marker.y}) rotate(${orientation === 'trackUp' ? 0 : bearing})`}>
+            <polygon points="0,-8 5,6 0,3 -5,6" fill="#f59e0b" stroke="#060811" strokeWidth={1} />
+          </g>
+        )}
+      </svg>
+
+      <div className="flex items-center justify-between text-[10px] text-white/50 tabular-nums">
+        <span>HDG {String(Math.round(bearing) % 360).padStart(3, '0')}°</span>
+        {guideTarget ? (
+          <span className="text-yellow-300/80">→ {formatDistance(guideDistance)}</span>
+        ) : (
+          <span>{waypoints.length} waypoint{waypoints.length === 1 ? '' : 's'}</span>
+        )}
+      </div>
+    </div>
+  );
+}
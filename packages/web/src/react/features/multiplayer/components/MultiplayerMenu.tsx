@@ -0,0 +1,154 @@
+import { useCallback, useState } from 'react';
+import { useGameMethod } from '../../../hooks/useGameMethod';
+import { useGameEventCallback } from '../../../hooks/useGameEvent';
+import { cn } from '../../../shared/utils/cn';
+import type { MultiplayerStatusData, OnlinePlayer } from '../../../../cesium/bridge/types';
+
+const DEFAULT_RELAY_URL = import.meta.env.VITE_RELAY_URL || 'ws://localhost:8787';
+
+const CONNECTION_LABELS: Record<MultiplayerStatusData['connection'], string> = {
+  offline: 'Offline',
+  connecting: 'Connecting…',
+  online: 'Online',
+  error: 'Error',
+};
+
+/**
+ * Dropdown to join a relay room and see who else is flying in it
+ */
+export function MultiplayerMenu() {
+  const { joinMultiplayer, leaveMultiplayer, getMultiplayerStatus, getOnlinePlayers, listVehicles, getActiveVehicleId } = useGameMethod();
+  const [vehicles] = useState(() => listVehicles());
+  const [activeVehicleId, setActiveVehicleId] = useState(() => getActiveVehicleId());
+  const [status, setStatus] = useState(() => getMultiplayerStatus());
+  const [players, setPlayers] = useState<Map<string, OnlinePlayer>>(
+    () => new Map(getOnlinePlayers().map(player => [player.id, player]))
+  );
+  const [url, setUrl] = useState(DEFAULT_RELAY_URL);
+  const [name, setName] = useState(() => `Pilot-${Math.floor(Math.random() * 9000 + 1000)}`);
+  const [isOpen, setIsOpen] = useState(false);
+
+  useGameEventCallback('vehicleChanged', useCallback((data) => {
+    setActiveVehicleId(data.id);
+  }, []));
+
+  useGameEventCallback('multiplayerStatusChanged', useCallback((data) => {
+    setStatus(data);
+  }, []));
+
+  useGameEventCallback('playersUpdated', useCallback((data) => {
+    setPlayers(previous => {
+      const next = data.updateType === 'full' ? new Map<string, OnlinePlayer>() : new Map(previous);
+      for (const player of data.players) {
+        next.set(player.id, player);
+      }
+      return next;
+    });
+  }, []));
+
+  const isConnected = status.connection === 'online' || status.connection === 'connecting';
+
+  const handleJoin = () => {
+    if (!url.trim() || !name.trim()) return;
+    joinMultiplayer(url.trim(), name.trim());
+  };
+
+  const vehicleIcon = (id: string) => vehicles.find(v => v.id === id)?.icon ?? '✈️';
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="glass-panel px-4 py-2.5 hover:bg-white/10 transition-all duration-300 group"
+        title="Multiplayer"
+      >
+        <div className="flex items-center gap-2">
+          <span className="text-lg">🌐</span>
+          <span className="text-xs font-medium text-white/80 group-hover:text-white transition-colors">
+            {status.connection === 'online' ? `${players.size + 1} online` : CONNECTION_LABELS[status.connection]}
+          </span>
+          <span className={`text-xs text-white/40 transition-transform ${isOpen ? 'rotate-180' : ''}`}>▼</span>
+        </div>
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-64 glass-panel p-3 space-y-3 animate-fade-in z-50">
+          <label className="block space-y-1">
+            <span className="text-[11px] text-white/60">Relay</span>
+            <input
+              type="text"
+              value={url}
+              disabled={isConnected}
+              onChange={(e) => setUrl(e.target.value)}
+              className="w-full px-2 py-1.5 text-xs rounded-lg bg-white/5 text-white border border-white/10 disabled:opacity-50"
+            />
+          </label>
+          <label className="block space-y-1">
+            <span className="text-[11px] text-white/60">Name</span>
+            <input
+              type="text"
+              value={name}
+              maxLength={24}
+              disabled={isConnected}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleJoin()}
+              className="w-full px-2 py-1.5 text-xs rounded-lg bg-white/5 text-white border border-white/10 disabled:opacity-50"
+            />
+          </label>
+
+          <button
+            onClick={isConnected ? leaveMultiplayer : handleJoin}
+            className={cn(
+              'w-full py-1.5 text-xs rounded-lg transition-colors',
+              isConnected ? 'bg-white/5 text-white/70 hover:bg-white/10' : 'bg-future-primary text-white'
+            )}
+          >
+            {isConnected ? 'Leave' : 'Join'}
+          </button>
+
+          <div className="flex items-center gap-2 text-[11px]">
+            <span
+              className={cn(
+                'w-1.5 h-1.5 rounded-full',
+                status.connection === 'online' && 'bg-future-success',
+                status.connection === 'connecting' && 'bg-future-warning',
+                status.connection === 'offline' && 'bg-white/30',
+                status.connection === 'error' && 'bg-red-400'
+              )}
+            />
+            <span className={status.connection === 'error' ? 'text-red-400' : 'text-white/60'}>
+              {status.error ?? CONNECTION_LABELS[status.connection]}
+            </span>
+          </div>
+
+          {status.connection === 'online' && (
+            <div className="border-t border-white/5 pt-2 space-y-1">
+              <div className="flex items-center gap-2 px-2 py-1 text-xs text-white">
+                <span>{vehicleIcon(activeVehicleId ?? '')}</span>
+                <span className="flex-1 truncate">{status.name}</span>
+                <span className="text-[10px] text-white/40">you</span>
+              </div>
+              {[...players.values()].map(player => (
+                <div key={player.id} className="flex items-center gap-2 px-2 py-1 text-xs text-white/70">
+                  <span>{vehicleIcon(player.vehicleType)}</span>
+                  <span className="flex-1 truncate">{player.name}</span>
+                </div>
+              ))}
+              {players.size === 0 && (
+                <div className="px-2 text-[10px] text-white/40">Nobody else here yet</div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Click outside to close */}
+      {isOpen && (
+        <div
+          className="fixed inset-0 z-40"
+          onClick={() => setIsOpen(false)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+import { useRef, useState } from 'react';
+import { useGameMethod } from '../../../hooks/useGameMethod';
+import { useGameEventCallback } from '../../../hooks/useGameEvent';
+import { GHOST_FILE_EXTENSION } from '../../../../cesium/modes/GhostManager';
+import type { GhostStateData } from '../../../../cesium/bridge/types';
+
+interface GhostControlsProps {
+  formatTime: (seconds: number) => string;
+}
+
+export function GhostControls({ formatTime }: GhostControlsProps) {
+  const { getGhostState, setGhostVisible, clearGhost, exportGhost, importGhost } = useGameMethod();
+  const [ghost, setGhost] = useState<GhostStateData>(() => getGhostState());
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useGameEventCallback('ghostStateChanged', (state) => {
+    setGhost(state);
+  });
+
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // allow re-selecting the same file
+    if (!file) return;
+
+    try {
+      await importGhost(file);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not load ghost');
+    }
+  };
+
+  const buttonClass = 'text-[10px] px-2 py-1 rounded bg-white/5 hover:bg-white/10 text-white/60 hover:text-white disabled:opacity-30 transition-colors';
+
+  return (
+    <div className="border-t border-white/5 pt-2 space-y-2">
+      <div className="flex items-center justify-between text-[11px]">
+        <label className="flex items-center gap-2 text-white/50 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={ghost.visible}
+            onChange={(e) => setGhostVisible(e.target.checked)}
+            className="accent-future-primary"
+          />
+          👻 Ghost
+        </label>
+        <span className="font-mono text-white/70">
+          {ghost.lapTime !== null ? formatTime(ghost.lapTime) : 'none'}
+        </span>
+      </div>
+      <div className="flex gap-1">
+        <button onClick={exportGhost} disabled={!ghost.available} className={buttonClass}>Export</button>
+        <button onClick={() => fileInputRef.current?.click()} className={buttonClass}>Import</button>
+        <button onClick={clearGhost} disabled={!ghost.available} className={buttonClass}>Clear</button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={GHOST_FILE_EXTENSION}
+          onChange={handleFileSelected}
+          className="hidden"
+        />
+      </div>
+      {error && <div className="text-[10px] text-red-400">{error}</div>}
+    </div>
+  );
+}
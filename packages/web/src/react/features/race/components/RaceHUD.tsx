@@ -0,0 +1,98 @@
+import { useRaceState } from '../hooks/useRaceState';
+import { GhostControls } from './GhostControls';
+
+const formatTime = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds - minutes * 60;
+  return `${minutes}:${rest.toFixed(2).padStart(5, '0')}`;
+};
+
+const formatDelta = (delta: number) => `${delta >= 0 ? '+' : '-'}${Math.abs(delta).toFixed(2)}`;
+
+const PHASE_LABELS = {
+  idle: 'No course',
+  armed: 'Fly through the start gate',
+  running: 'Racing',
+  finished: 'Finished',
+};
+
+export function RaceHUD() {
+  const { state, lastLap, restartRace } = useRaceState();
+  const recentSplits = state.splits.slice(-5);
+
+  return (
+    <div className="fixed top-8 right-8 z-50 w-64 animate-fade-in">
+      <div className="glass-panel p-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <div className={`w-1.5 h-1.5 rounded-full ${state.phase === 'running' ? 'bg-future-success' : 'bg-future-warning'} animate-pulse-subtle`} />
+            <span className="text-xs font-medium text-white/80 tracking-wide">{PHASE_LABELS[state.phase]}</span>
+          </div>
+          <button
+            onClick={restartRace}
+            disabled={state.phase === 'idle'}
+            className="text-[10px] px-2 py-1 rounded bg-white/5 hover:bg-white/10 text-white/60 hover:text-white disabled:opacity-30 transition-colors"
+          >
+            Restart
+          </button>
+        </div>
+
+        <div className="flex items-end justify-between">
+          <div>
+            <div className="text-[10px] text-white/40 uppercase tracking-wider">
+              Lap {state.lap}/{state.totalLaps}
+            </div>
+            <div className="text-2xl font-mono text-white tabular-nums">{formatTime(state.lapTime)}</div>
+          </div>
+          <div className="text-right">
+            <div className="text-[10px] text-white/40 uppercase tracking-wider">Best</div>
+            <div className="text-sm font-mono text-future-primary tabular-nums">
+              {state.bestLapTime !== null ? formatTime(state.bestLapTime) : '--:--.--'}
+            </div>
+          </div>
+        </div>
+
+        {state.gateCount > 0 && (
+          <div className="text-[10px] text-white/50">
+            Checkpoint {Math.min(state.nextGate + 1, state.gateCount)}/{state.gateCount}
+          </div>
+        )}
+
+        {recentSplits.length > 0 && (
+          <div className="border-t border-white/5 pt-2 space-y-1">
+            {recentSplits.map(split => (
+              <div key={`${split.gateIndex}-${split.time}`} className="flex justify-between text-[11px] font-mono">
+                <span className="text-white/50">CP {split.gateIndex + 1}</span>
+                {split.missed ? (
+                  <span className="text-red-400">MISSED</span>
+                ) : (
+                  <span className="flex gap-2">
+                    <span className="text-white/80">{formatTime(split.time)}</span>
+                    {split.delta !== null && (
+                      <span className={split.delta <= 0 ? 'text-future-success' : 'text-red-400'}>
+                        {formatDelta(split.delta)}
+                      </span>
+                    )}
+                  </span>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {lastLap && (
+          <div className="border-t border-white/5 pt-2 text-[11px] flex justify-between">
+            <span className="text-white/50">Last lap</span>
+            <span className="font-mono text-white/80">
+              {formatTime(lastLap.time)}
+              {lastLap.best && <span className="text-future-primary ml-1">★</span>}
+              {!lastLap.clean && <span className="text-red-400 ml-1">({lastLap.missedGates} missed)</span>}
+            </span>
+          </div>
+        )}
+
+        {state.phase !== 'idle' && <GhostControls formatTime={formatTime} />}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,19 @@
+import { useGameMode } from '../../../hooks/useGameMode';
+
+export function RaceToggle() {
+  const { mode, setMode } = useGameMode();
+  const isRace = mode === 'race';
+
+  return (
+    <button
+      onClick={() => setMode(isRace ? 'play' : 'race')}
+      className="glass-panel px-4 py-2.5 hover:bg-white/10 transition-all duration-300
+                 text-white/80 hover:text-white text-xs font-medium tracking-wide
+                 flex items-center gap-2"
+      title={isRace ? 'Leave the time trial' : 'Race the course placed in builder mode'}
+    >
+      <span>🏁</span>
+      <span>{isRace ? 'End Race' : 'Race'}</span>
+    </button>
+  );
+}
@@ -0,0 +1,22 @@
+import { useState } from 'react';
+import { useGameEvent, useGameEventCallback } from '../../../hooks/useGameEvent';
+import { useGameMethod } from '../../../hooks/useGameMethod';
+import type { RaceLapData } from '../../../../cesium/bridge/types';
+
+export function useRaceState() {
+  const { getRaceState, restartRace } = useGameMethod();
+  const [initialState] = useState(() => getRaceState());
+  const [lastLap, setLastLap] = useState<RaceLapData | null>(null);
+
+  const state = useGameEvent('raceStateChanged', { throttle: 50 }) ?? initialState;
+
+  useGameEventCallback('raceLap', (lap) => {
+    setLastLap(lap);
+  });
+
+  return {
+    state,
+    lastLap,
+    restartRace,
+  };
+}
@@ -1,25 +1,39 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { Panel } from '../../../shared/components/Panel';
+import { DEFAULT_EXPORT_SETTINGS } from '../../../../cesium/project/ProjectFile';
+import type { ExportSettingsData } from '../../../../cesium/project/ProjectFile';
 
-type Resolution = '720p' | '1080p' | '4k';
-type AspectRatio = '16:9' | '9:16' | '1:1' | '4:5';
-type ExportFormat = 'mp4' | 'webm' | 'gif';
+type ExportSettings = ExportSettingsData;
+type Resolution = ExportSettings['resolution'];
+type AspectRatio = ExportSettings['aspectRatio'];
+type ExportFormat = ExportSettings['format'];
+type ReplayCamera = ExportSettings['replayCamera'];
 
-interface ExportSettings {
-  resolution: Resolution;
-  aspectRatio: AspectRatio;
-  format: ExportFormat;
-  quality: number;
-  fps: number;
-  filename: string;
-}
-
-const RESOLUTION_SIZES = {
-  '720p': { '16:9': '1280×720', '9:16': '720×1280', '1:1': '720×720', '4:5': '576×720' },
-  '1080p': { '16:9': '1920×1080', '9:16': '1080×1920', '1:1': '1080×1080', '4:5': '864×1080' },
-  '4k': { '16:9': '3840×2160', '9:16': '2160×3840', '1:1': '2160×2160', '4:5': '1728×2160' },
+const RESOLUTION_SIZES: Record<Resolution, Record<AspectRatio, { width: number; height: number }>> = {
+  '720p': {
+    '16:9': { width: 1280, height: 720 },
+    '9:16': { width: 720, height: 1280 },
+    '1:1': { width: 720, height: 720 },
+    '4:5': { width: 576, height: 720 },
+  },
+  '1080p': {
+    '16:9': { width: 1920, height: 1080 },
+    '9:16': { width: 1080, height: 1920 },
+    '1:1': { width: 1080, height: 1080 },
+    '4:5': { width: 864, height: 1080 },
+  },
+  '4k': {
+    '16:9': { width: 3840, height: 2160 },
+    '9:16': { width: 2160, height: 3840 },
+    '1:1': { width: 2160, height: 2160 },
+    '4:5': { width: 1728, height: 2160 },
+  },
 };
 
+export function getExportDimensions(settings: ExportSettings): { width: number; height: number } {
+  return RESOLUTION_SIZES[settings.resolution][settings.aspectRatio];
+}
+
 const ASPECT_RATIO_LABELS = {
   '16:9': { icon: '🖥️', label: 'Landscape', platform: 'YouTube, Desktop' },
   '9:16': { icon: '📱', label: 'Portrait', platform: 'TikTok, Reels, Shorts' },
@@ -27,12 +41,28 @@ const ASPECT_RATIO_LABELS = {
   '4:5': { icon: '📷', label: 'Portrait+', platform: 'Instagram, Pinterest' },
 };
 
+const REPLAY_CAMERAS: { id: ReplayCamera; label: string }[] = [
+  { id: 'recorded', label: '🎞️ As Recorded' },
+  { id: 'follow', label: '🎥 Follow' },
+  { id: 'followClose', label: '📹 Close-Up' },
+  { id: 'fpv', label: '🚁 FPV Drone' },
+  { id: 'cinematic', label: '🎬 Cinematic' },
+];
+
 interface ExportPanelProps {
   onExport: (settings: ExportSettings) => void;
   onTakeScreenshot: () => void;
   isRecording: boolean;
-  onStartRecording: () => void;
+  onStartRecording: (settings: ExportSettings) => void;
   onStopRecording: () => void;
+  isTrackRecording: boolean;
+  hasTrack: boolean;
+  isReplaying: boolean;
+  onToggleTrackRecording: () => void;
+  onReplay: (camera: ReplayCamera) => void;
+  onStopReplay: () => void;
+  initialSettings?: ExportSettings;
+  onSettingsChange?: (settings: ExportSettings) => void;
 }
 
 export function ExportPanel({
@@ -41,23 +71,29 @@ export function ExportPanel({
   isRecording,
   onStartRecording,
   onStopRecording,
+  isTrackRecording,
+  hasTrack,
+  isReplaying,
+  onToggleTrackRecording,
+  onReplay,
+  onStopReplay,
+  initialSettings = DEFAULT_EXPORT_SETTINGS,
+  onSettingsChange,
 }: ExportPanelProps) {
-  const [settings, setSettings] = useState<ExportSettings>({
-    resolution: '1080p',
-    aspectRatio: '16:9',
-    format: 'mp4',
-    quality: 90,
-    fps: 30,
-    filename: 'skystudio_export',
-  });
+  const [settings, setSettings] = useState<ExportSettings>(initialSettings);
 
   const [showAdvanced, setShowAdvanced] = useState(false);
 
+  useEffect(() => {
+    onSettingsChange?.(settings);
+  }, [settings, onSettingsChange]);
+
   const updateSettings = (updates: Partial<ExportSettings>) => {
     setSettings(prev => ({ ...prev, ...updates }));
   };
 
-  const currentSize = RESOLUTION_SIZES[settings.resolution][settings.aspectRatio];
+  const { width, height } = getExportDimensions(settings);
+  const currentSize = `${width}×${height}`;
 
   return (
     <Panel title="📤 Export Settings" className="w-80">
@@ -65,7 +101,7 @@ export function ExportPanel({
         {/* Quick Record Controls */}
         <div className="grid grid-cols-2 gap-2">
           <button
-            onClick={isRecording ? onStopRecording : onStartRecording}
+            onClick={isRecording ? onStopRecording : () => onStartRecording(settings)}
             className={`flex items-center justify-center gap-2 py-3 rounded-lg font-medium transition-all ${
               isRecording 
                 ? 'bg-red-500 hover:bg-red-600 text-white animate-pulse' 
@@ -93,6 +129,45 @@ export function ExportPanel({
           </button>
         </div>
 
+        {/* Flight Track (telemetry record & replay) */}
+        <div className="space-y-2 p-3 bg-white/5 rounded-lg border border-white/10">
+          <label className="text-xs text-white/50 uppercase tracking-wider">Flight Track</label>
+          <button
+            onClick={onToggleTrackRecording}
+            disabled={isReplaying}
+            className={`w-full py-2 rounded-lg text-sm font-medium transition-all disabled:opacity-40 ${
+              isTrackRecording
+                ? 'bg-amber-500 text-black animate-pulse'
+                : 'bg-white/10 text-white/80 hover:bg-white/20'
+            }`}
+          >
+            {isTrackRecording ? '⏹ Stop Track' : '📼 Record Track'}
+          </button>
+          <div className="flex gap-2">
+            <select
+              value={settings.replayCamera}
+              onChange={(e) => updateSettings({ replayCamera: e.target.value as ReplayCamera })}
+              disabled={!hasTrack || isReplaying}
+              className="flex-1 bg-black/40 border border-white/10 rounded px-2 py-1.5 text-xs text-white focus:outline-none focus:border-future-primary disabled:opacity-40"
+            >
+              {REPLAY_CAMERAS.map(camera => (
+                <option key={camera.id} value={camera.id}>{camera.label}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => (isReplaying ? onStopReplay() : onReplay(settings.replayCamera))}
+              disabled={!hasTrack || isTrackRecording}
+              className={`px-3 py-1.5 rounded text-xs font-medium transition-colors disabled:opacity-40 ${
+                isReplaying
+                  ? 'bg-yellow-500 text-black hover:bg-yellow-400'
+                  : 'bg-future-primary text-white hover:bg-future-primary/80'
+              }`}
+            >
+              {isReplaying ? '⏹ Stop' : '▶️ Replay'}
+            </button>
+          </div>
+        </div>
+
         {/* Aspect Ratio Selector */}
         <div className="space-y-2">
           <label className="text-xs text-white/50 uppercase tracking-wider">Aspect Ratio</label>
@@ -209,6 +284,24 @@ export function ExportPanel({
               </div>
             </div>
 
+            {/* Duration (only used without a flight track) */}
+            {!hasTrack && (
+              <div className="space-y-1">
+                <div className="flex justify-between text-xs">
+                  <span className="text-white/60">Duration</span>
+                  <span className="text-white/80">{settings.duration}s</span>
+                </div>
+                <input
+                  type="range"
+                  min="1"
+                  max="120"
+                  value={settings.duration}
+                  onChange={(e) => updateSettings({ duration: parseInt(e.target.value) })}
+                  className="w-full h-1 bg-white/20 rounded-lg appearance-none cursor-pointer"
+                />
+              </div>
+            )}
+
             {/* Filename */}
             <div className="space-y-1">
               <label className="text-xs text-white/60">Filename</label>
@@ -225,11 +318,17 @@ export function ExportPanel({
         {/* Export Button */}
         <button
           onClick={() => onExport(settings)}
-          className="w-full py-3 rounded-lg font-medium bg-gradient-to-r from-green-500 to-emerald-500 hover:from-green-600 hover:to-emerald-600 text-white transition-all flex items-center justify-center gap-2"
+          disabled={isRecording || isTrackRecording || isReplaying}
+          className="w-full py-3 rounded-lg font-medium bg-gradient-to-r from-green-500 to-emerald-500 hover:from-green-600 hover:to-emerald-600 text-white transition-all flex items-center justify-center gap-2 disabled:opacity-40"
         >
           <span>💾</span>
           Export Video
         </button>
+        <p className="text-xs text-white/40 text-center">
+          {hasTrack
+            ? 'Renders the flight track frame by frame'
+            : `Renders ${settings.duration}s of live simulation frame by frame`}
+        </p>
 
         {/* Presets */}
         <div className="pt-2 border-t border-white/10">
@@ -1,7 +1,11 @@
 import { useState, useRef } from 'react';
 import { Panel } from '../../../shared/components/Panel';
+import { SegmentTimingControls } from '../../../shared/components/SegmentTimingControls';
+import type { KeyframeInterpolation } from '../../../../cesium/managers/KeyframeAnimator';
+import type { SegmentTiming } from '../../../../cesium/camera/CameraPath';
+import { useInputContext } from '../../../hooks/useInputContext';
 
-interface Keyframe {
+interface Keyframe extends SegmentTiming {
     id: string;
     time: number; // in seconds
     lat: number;
@@ -25,6 +29,8 @@ interface FlightTimelineProps {
     currentTime: number;
     totalDuration: number;
     onSeek: (time: number) => void;
+    interpolation?: KeyframeInterpolation;
+    onInterpolationChange?: (interpolation: KeyframeInterpolation) => void;
 }
 
 export function FlightTimeline({
@@ -39,10 +45,15 @@ export function FlightTimeline({
     currentTime,
     totalDuration,
     onSeek,
+    interpolation,
+    onInterpolationChange,
 }: FlightTimelineProps) {
     const [selectedKeyframe, setSelectedKeyframe] = useState<string | null>(null);
     const [_isDragging, setIsDragging] = useState(false);
     const timelineRef = useRef<HTMLDivElement>(null);
+    // The timeline takes the keyboard from the vehicle once clicked, until focus leaves it
+    const [isEditing, setIsEditing] = useState(false);
+    useInputContext('timeline', isEditing);
 
     // Calculate playhead position
     const playheadPosition = totalDuration > 0 ? (currentTime / totalDuration) * 100 : 0;
@@ -73,186 +84,219 @@ export function FlightTimeline({
     };
 
     return (
-        <Panel title="⏱️ Flight Timeline" className="w-full">
-            <div className="space-y-4">
-                {/* Transport Controls */}
-                <div className="flex items-center justify-between">
-                    <div className="flex items-center gap-2">
-                        <button
-                            onClick={() => onSeek(0)}
-                            className="p-2 rounded-lg bg-white/5 hover:bg-white/10 text-white/70 hover:text-white transition-colors"
-                            title="Go to start"
-                        >
-                            ⏮️
-                        </button>
-                        <button
-                            onClick={isPlaying ? onStopPreview : onPlayPreview}
-                            className={`p-3 rounded-lg font-medium transition-all ${isPlaying
-                                    ? 'bg-yellow-500 text-black hover:bg-yellow-400'
-                                    : 'bg-future-primary text-white hover:bg-future-primary/80'
-                                }`}
-                            title={isPlaying ? 'Pause' : 'Play'}
-                        >
-                            {isPlaying ? '⏸️' : '▶️'}
-                        </button>
+        <div
+            tabIndex={-1}
+            className="outline-none"
+            onFocus={() => setIsEditing(true)}
+            onBlur={(e) => {
+                if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsEditing(false);
+            }}
+        >
+            <Panel title="⏱️ Flight Timeline" className="w-full">
+                <div className="space-y-4">
+                    {/* Transport Controls */}
+                    <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-2">
+                            <button
+                                onClick={() => onSeek(0)}
+                                className="p-2 rounded-lg bg-white/5 hover:bg-white/10 text-white/70 hover:text-white transition-colors"
+                                title="Go to start"
+                            >
+                                ⏮️
+                            </button>
+                            <button
+                                onClick={isPlaying ? onStopPreview : onPlayPreview}
+                                className={`p-3 rounded-lg font-medium transition-all ${isPlaying
+                                        ? 'bg-yellow-500 text-black hover:bg-yellow-400'
+                                        : 'bg-future-primary text-white hover:bg-future-primary/80'
+                                    }`}
+                                title={isPlaying ? 'Pause' : 'Play'}
+                            >
+                                {isPlaying ? '⏸️' : '▶️'}
+                            </button>
+                            <button
+                                onClick={() => onSeek(totalDuration)}
+                                className="p-2 rounded-lg bg-white/5 hover:bg-white/10 text-white/70 hover:text-white transition-colors"
+                                title="Go to end"
+                            >
+                                ⏭️
+                            </button>
+                        </div>
+
+                        <div className="flex items-center gap-3 text-sm font-mono">
+                            <span className="text-future-primary">{formatTime(currentTime)}</span>
+                            <span className="text-white/40">/</span>
+                            <span className="text-white/60">{formatTime(totalDuration)}</span>
+                        </div>
+
+                        {interpolation && onInterpolationChange && (
+                            <select
+                                value={interpolation}
+                                onChange={(e) => onInterpolationChange(e.target.value as KeyframeInterpolation)}
+                                className="bg-black/40 border border-white/10 rounded px-2 py-1.5 text-xs text-white focus:outline-none focus:border-future-primary"
+                                title="Position curve"
+                            >
+                                <option value="catmullRom">Catmull-Rom</option>
+                                <option value="hermite">Hermite</option>
+                            </select>
+                        )}
+
                         <button
-                            onClick={() => onSeek(totalDuration)}
-                            className="p-2 rounded-lg bg-white/5 hover:bg-white/10 text-white/70 hover:text-white transition-colors"
-                            title="Go to end"
+                            onClick={onAddKeyframe}
+                            className="flex items-center gap-2 px-3 py-2 rounded-lg bg-gradient-to-r from-future-primary to-future-secondary text-white text-sm font-medium hover:opacity-90 transition-opacity"
                         >
-                            ⏭️
+                            ➕ Add Keyframe
                         </button>
                     </div>
 
-                    <div className="flex items-center gap-3 text-sm font-mono">
-                        <span className="text-future-primary">{formatTime(currentTime)}</span>
-                        <span className="text-white/40">/</span>
-                        <span className="text-white/60">{formatTime(totalDuration)}</span>
-                    </div>
-
-                    <button
-                        onClick={onAddKeyframe}
-                        className="flex items-center gap-2 px-3 py-2 rounded-lg bg-gradient-to-r from-future-primary to-future-secondary text-white text-sm font-medium hover:opacity-90 transition-opacity"
+                    {/* Timeline Track */}
+                    <div
+                        ref={timelineRef}
+                        className="relative h-20 bg-gradient-to-r from-black/40 via-black/30 to-black/40 rounded-xl border border-white/10 cursor-pointer overflow-hidden"
+                        onClick={handleTimelineClick}
                     >
-                        ➕ Add Keyframe
-                    </button>
-                </div>
+                        {/* Grid Lines */}
+                        <div className="absolute inset-0 flex">
+                            {Array.from({ length: 10 }).map((_, i) => (
+                                <div
+                                    key={i}
+                                    className="flex-1 border-r border-white/5 last:border-r-0"
+                                />
+                            ))}
+                        </div>
 
-                {/* Timeline Track */}
-                <div
-                    ref={timelineRef}
-                    className="relative h-20 bg-gradient-to-r from-black/40 via-black/30 to-black/40 rounded-xl border border-white/10 cursor-pointer overflow-hidden"
-                    onClick={handleTimelineClick}
-                >
-                    {/* Grid Lines */}
-                    <div className="absolute inset-0 flex">
-                        {Array.from({ length: 10 }).map((_, i) => (
-                            <div
-                                key={i}
-                                className="flex-1 border-r border-white/5 last:border-r-0"
-                            />
-                        ))}
-                    </div>
+                        {/* Keyframes */}
+                        <div className="absolute inset-0">
+                            {keyframes.map((kf, index) => {
+                                const position = (kf.time / totalDuration) * 100;
+                                const isSelected = selectedKeyframe === kf.id;
+
+                                return (
+                                    <div
+                                        key={kf.id}
+                                        className={`absolute top-1/2 -translate-y-1/2 -translate-x-1/2 cursor-grab active:cursor-grabbing z-10 ${isSelected ? 'scale-125 z-20' : ''
+                                            }`}
+                                        style={{ left: `${position}%` }}
+                                        onClick={(e) => {
+                                            e.stopPropagation();
+                                            setSelectedKeyframe(kf.id);
+                                            onPreview(kf.id);
+                                        }}
+                                        draggable
+                                        onDragStart={() => setIsDragging(true)}
+                                        onDragEnd={() => setIsDragging(false)}
+                                    >
+                                        <div className={`w-4 h-10 rounded-full transition-all ${isSelected
+                                                ? 'bg-gradient-to-b from-future-primary to-future-secondary shadow-glow'
+                                                : 'bg-gradient-to-b from-white/60 to-white/40 hover:from-white hover:to-white/60'
+                                            }`} />
+                                        <div className={`absolute -bottom-5 left-1/2 -translate-x-1/2 text-[10px] whitespace-nowrap ${isSelected ? 'text-future-primary' : 'text-white/50'
+                                            }`}>
+                                            {kf.label || `KF ${index + 1}`}
+                                        </div>
+                                    </div>
+                                );
+                            })}
+                        </div>
+
+                        {/* Playhead */}
+                        <div
+                            className="absolute top-0 bottom-0 w-0.5 bg-red-500 z-30 pointer-events-none"
+                            style={{ left: `${playheadPosition}%` }}
+                        >
+                            <div className="absolute -top-1 left-1/2 -translate-x-1/2 w-3 h-3 bg-red-500 rotate-45" />
+                        </div>
 
-                    {/* Keyframes */}
-                    <div className="absolute inset-0">
-                        {keyframes.map((kf, index) => {
-                            const position = (kf.time / totalDuration) * 100;
-                            const isSelected = selectedKeyframe === kf.id;
+                        {/* Time markers */}
+                        <div className="absolute bottom-0 left-0 right-0 h-5 flex text-[10px] text-white/30">
+                            {Array.from({ length: 11 }).map((_, i) => (
+                                <div key={i} className="flex-1 text-center pt-1">
+                                    {formatTime((totalDuration / 10) * i)}
+                                </div>
+                            ))}
+                        </div>
+                    </div>
 
-                            return (
+                    {/* Keyframe List */}
+                    <div className="max-h-48 overflow-y-auto space-y-1">
+                        {keyframes.length === 0 ? (
+                            <div className="text-center py-4 text-white/40 text-sm">
+                                No keyframes yet. Add your first keyframe to start!
+                            </div>
+                        ) : (
+                            keyframes.map((kf, index) => (
                                 <div
                                     key={kf.id}
-                                    className={`absolute top-1/2 -translate-y-1/2 -translate-x-1/2 cursor-grab active:cursor-grabbing z-10 ${isSelected ? 'scale-125 z-20' : ''
+                                    className={`flex items-center gap-3 p-2 rounded-lg transition-colors cursor-pointer ${selectedKeyframe === kf.id
+                                            ? 'bg-future-primary/20 border border-future-primary/40'
+                                            : 'bg-white/5 hover:bg-white/10'
                                         }`}
-                                    style={{ left: `${position}%` }}
-                                    onClick={(e) => {
-                                        e.stopPropagation();
+                                    onClick={() => {
                                         setSelectedKeyframe(kf.id);
                                         onPreview(kf.id);
                                     }}
-                                    draggable
-                                    onDragStart={() => setIsDragging(true)}
-                                    onDragEnd={() => setIsDragging(false)}
                                 >
-                                    <div className={`w-4 h-10 rounded-full transition-all ${isSelected
-                                            ? 'bg-gradient-to-b from-future-primary to-future-secondary shadow-glow'
-                                            : 'bg-gradient-to-b from-white/60 to-white/40 hover:from-white hover:to-white/60'
-                                        }`} />
-                                    <div className={`absolute -bottom-5 left-1/2 -translate-x-1/2 text-[10px] whitespace-nowrap ${isSelected ? 'text-future-primary' : 'text-white/50'
-                                        }`}>
-                                        {kf.label || `KF ${index + 1}`}
+                                    <div className="w-6 h-6 rounded-full bg-gradient-to-br from-future-primary to-future-secondary flex items-center justify-center text-xs font-bold">
+                                        {index + 1}
+                                    </div>
+                                    <div className="flex-1 min-w-0">
+                                        <input
+                                            type="text"
+                                            value={kf.label || `Keyframe ${index + 1}`}
+                                            onChange={(e) => {
+                                                const updated = keyframes.map(k =>
+                                                    k.id === kf.id ? { ...k, label: e.target.value } : k
+                                                );
+                                                onKeyframesChange(updated);
+                                            }}
+                                            className="bg-transparent text-sm text-white font-medium focus:outline-none w-full"
+                                            onClick={(e) => e.stopPropagation()}
+                                        />
+                                        <div className="text-xs text-white/50 font-mono">
+                                            {formatTime(kf.time)} • Alt: {kf.altitude.toFixed(0)}m
+                                        </div>
+                                        <div className="mt-1">
+                                            <SegmentTimingControls
+                                                timing={kf}
+                                                defaultEasing="linear"
+                                                onChange={(timing) => {
+                                                    const updated = keyframes.map(k =>
+                                                        k.id === kf.id ? { ...k, ...timing } : k
+                                                    );
+                                                    onKeyframesChange(updated);
+                                                }}
+                                            />
+                                        </div>
                                     </div>
+                                    <button
+                                        onClick={(e) => {
+                                            e.stopPropagation();
+                                            onDeleteKeyframe(kf.id);
+                                        }}
+                                        className="p-1.5 rounded hover:bg-red-500/20 text-red-400 transition-colors"
+                                    >
+                                        🗑️
+                                    </button>
                                 </div>
-                            );
-                        })}
+                            ))
+                        )}
                     </div>
 
-                    {/* Playhead */}
-                    <div
-                        className="absolute top-0 bottom-0 w-0.5 bg-red-500 z-30 pointer-events-none"
-                        style={{ left: `${playheadPosition}%` }}
-                    >
-                        <div className="absolute -top-1 left-1/2 -translate-x-1/2 w-3 h-3 bg-red-500 rotate-45" />
-                    </div>
-
-                    {/* Time markers */}
-                    <div className="absolute bottom-0 left-0 right-0 h-5 flex text-[10px] text-white/30">
-                        {Array.from({ length: 11 }).map((_, i) => (
-                            <div key={i} className="flex-1 text-center pt-1">
-                                {formatTime((totalDuration / 10) * i)}
-                            </div>
-                        ))}
+                    {/* Quick Actions */}
+                    <div className="flex gap-2 pt-2 border-t border-white/10">
+                        <button className="flex-1 py-2 rounded-lg bg-white/5 hover:bg-white/10 text-white/60 hover:text-white text-sm transition-colors">
+                            📋 Copy Path
+                        </button>
+                        <button className="flex-1 py-2 rounded-lg bg-white/5 hover:bg-white/10 text-white/60 hover:text-white text-sm transition-colors">
+                            📥 Import
+                        </button>
+                        <button className="flex-1 py-2 rounded-lg bg-white/5 hover:bg-white/10 text-white/60 hover:text-white text-sm transition-colors">
+                            📤 Export
+                        </button>
                     </div>
                 </div>
-
-                {/* Keyframe List */}
-                <div className="max-h-32 overflow-y-auto space-y-1">
-                    {keyframes.length === 0 ? (
-                        <div className="text-center py-4 text-white/40 text-sm">
-                            No keyframes yet. Add your first keyframe to start!
-                        </div>
-                    ) : (
-                        keyframes.map((kf, index) => (
-                            <div
-                                key={kf.id}
-                                className={`flex items-center gap-3 p-2 rounded-lg transition-colors cursor-pointer ${selectedKeyframe === kf.id
-                                        ? 'bg-future-primary/20 border border-future-primary/40'
-                                        : 'bg-white/5 hover:bg-white/10'
-                                    }`}
-                                onClick={() => {
-                                    setSelectedKeyframe(kf.id);
-                                    onPreview(kf.id);
-                                }}
-                            >
-                                <div className="w-6 h-6 rounded-full bg-gradient-to-br from-future-primary to-future-secondary flex items-center justify-center text-xs font-bold">
-                                    {index + 1}
-                                </div>
-                                <div className="flex-1 min-w-0">
-                                    <input
-                                        type="text"
-                                        value={kf.label || `Keyframe ${index + 1}`}
-                                        onChange={(e) => {
-                                            const updated = keyframes.map(k =>
-                                                k.id === kf.id ? { ...k, label: e.target.value } : k
-                                            );
-                                            onKeyframesChange(updated);
-                                        }}
-                                        className="bg-transparent text-sm text-white font-medium focus:outline-none w-full"
-                                        onClick={(e) => e.stopPropagation()}
-                                    />
-                                    <div className="text-xs text-white/50 font-mono">
-                                        {formatTime(kf.time)} • Alt: {kf.altitude.toFixed(0)}m
-                                    </div>
-                                </div>
-                                <button
-                                    onClick={(e) => {
-                                        e.stopPropagation();
-                                        onDeleteKeyframe(kf.id);
-                                    }}
-                                    className="p-1.5 rounded hover:bg-red-500/20 text-red-400 transition-colors"
-                                >
-                                    🗑️
-                                </button>
-                            </div>
-                        ))
-                    )}
-                </div>
-
-                {/* Quick Actions */}
-                <div className="flex gap-2 pt-2 border-t border-white/10">
-                    <button className="flex-1 py-2 rounded-lg bg-white/5 hover:bg-white/10 text-white/60 hover:text-white text-sm transition-colors">
-                        📋 Copy Path
-                    </button>
-                    <button className="flex-1 py-2 rounded-lg bg-white/5 hover:bg-white/10 text-white/60 hover:text-white text-sm transition-colors">
-                        📥 Import
-                    </button>
-                    <button className="flex-1 py-2 rounded-lg bg-white/5 hover:bg-white/10 text-white/60 hover:text-white text-sm transition-colors">
-                        📤 Export
-                    </button>
-                </div>
-            </div>
-        </Panel>
+            </Panel>
+        </div>
     );
 }
 
@@ -0,0 +1,94 @@
+import { useRef, useState } from 'react';
+import { useGameMethod } from '../../../hooks/useGameMethod';
+import { useGameEventCallback } from '../../../hooks/useGameEvent';
+import { PROJECT_FILE_EXTENSION } from '../../../../cesium/project/ProjectFile';
+
+export function ProjectMenu() {
+  const { saveProject, loadProject, getProjectName } = useGameMethod();
+  const [isOpen, setIsOpen] = useState(false);
+  const [projectName, setProjectName] = useState(() => getProjectName());
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useGameEventCallback('projectLoaded', (project) => {
+    setProjectName(project.name);
+  });
+
+  const handleSave = () => {
+    saveProject(projectName);
+    setError(null);
+    setIsOpen(false);
+  };
+
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // allow re-selecting the same file
+    if (!file) return;
+
+    try {
+      await loadProject(file);
+      setError(null);
+      setIsOpen(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not load project');
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-all ${
+          isOpen ? 'bg-white/10 text-white' : 'text-white/60 hover:bg-white/10 hover:text-white'
+        }`}
+      >
+        <span className="text-lg">📁</span>
+        <span className="text-sm font-medium">Project</span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full right-0 mt-2 w-64 glass-panel p-3 space-y-3">
+          <div className="space-y-1">
+            <label className="text-xs text-white/50 uppercase tracking-wider">Project Name</label>
+            <input
+              type="text"
+              value={projectName}
+              onChange={(e) => setProjectName(e.target.value)}
+              className="w-full bg-black/30 border border-white/10 rounded px-3 py-1.5 text-sm text-white focus:outline-none focus:border-future-primary"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <button
+              onClick={handleSave}
+              className="py-2 rounded-lg text-sm font-medium bg-future-primary text-white hover:bg-future-primary/80 transition-colors"
+            >
+              💾 Save
+            </button>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="py-2 rounded-lg text-sm font-medium bg-white/10 text-white/80 hover:bg-white/20 transition-colors"
+            >
+              📂 Load
+            </button>
+          </div>
+
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={`${PROJECT_FILE_EXTENSION},application/json`}
+            onChange={handleFileSelected}
+            className="hidden"
+          />
+
+          {error && (
+            <p className="text-xs text-red-400 break-words">⚠️ {error}</p>
+          )}
+          <p className="text-[10px] text-white/40">
+            Saves waypoints, flight settings, builder objects, quality and export settings.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
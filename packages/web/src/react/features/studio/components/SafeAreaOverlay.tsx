@@ -0,0 +1,71 @@
+import { useEffect, useState } from 'react';
+import { useGameBridge } from '../../../hooks/useGameBridge';
+
+interface SafeAreaOverlayProps {
+  width: number;
+  height: number;
+}
+
+// Broadcast-style guides: keep action inside 90% and titles inside 80% of the frame
+const ACTION_SAFE = 0.9;
+const TITLE_SAFE = 0.8;
+
+export function SafeAreaOverlay({ width, height }: SafeAreaOverlayProps) {
+  const bridge = useGameBridge();
+  const [viewport, setViewport] = useState({ width: window.innerWidth, height: window.innerHeight });
+
+  useEffect(() => {
+    const handleResize = () => setViewport({ width: window.innerWidth, height: window.innerHeight });
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
+  }, []);
+
+  // Letterbox the live view to the output aspect so the guides frame what gets captured
+  useEffect(() => {
+    bridge.setPreviewRenderSize({ width, height });
+    return () => bridge.setPreviewRenderSize(null);
+  }, [bridge, width, height]);
+
+  // Same fit as the letterboxed canvas
+  const scale = Math.min(viewport.width / width, viewport.height / height);
+  const frameWidth = Math.floor(width * scale);
+  const frameHeight = Math.floor(height * scale);
+
+  return (
+    <div className="fixed inset-0 z-40 pointer-events-none flex items-center justify-center">
+      <div
+        className="relative border border-white/40"
+        style={{
+          width: frameWidth,
+          height: frameHeight,
+          boxShadow: '0 0 0 100vmax rgba(0, 0, 0, 0.55)',
+        }}
+      >
+        <SafeAreaGuide ratio={ACTION_SAFE} label="Action safe" />
+        <SafeAreaGuide ratio={TITLE_SAFE} label="Title safe" />
+        <div className="absolute top-1/2 left-1/2 w-6 h-6 -translate-x-1/2 -translate-y-1/2">
+          <div className="absolute top-1/2 left-0 w-full h-px bg-white/40" />
+          <div className="absolute left-1/2 top-0 h-full w-px bg-white/40" />
+        </div>
+        <div className="absolute -top-6 left-0 text-[10px] font-mono text-white/60">
+          {width}×{height}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function SafeAreaGuide({ ratio, label }: { ratio: number; label: string }) {
+  const inset = `${((1 - ratio) / 2) * 100}%`;
+
+  return (
+    <div
+      className="absolute border border-dashed border-future-primary/50"
+      style={{ top: inset, right: inset, bottom: inset, left: inset }}
+    >
+      <span className="absolute top-1 left-1 text-[9px] uppercase tracking-wider text-future-primary/70">
+        {label}
+      </span>
+    </div>
+  );
+}
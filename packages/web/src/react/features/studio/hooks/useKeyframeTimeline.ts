@@ -0,0 +1,86 @@
+import { useEffect, useState } from 'react';
+import { useGameEvent } from '../../../hooks/useGameEvent';
+import { useGameMethod } from '../../../hooks/useGameMethod';
+import type { Keyframe } from '../components/FlightTimeline';
+import type { KeyframeInterpolation } from '../../../../cesium/managers/KeyframeAnimator';
+
+// Spacing for newly captured keyframes and the minimum length shown on the timeline
+const KEYFRAME_SPACING = 5;
+const MIN_TIMELINE_DURATION = 10;
+
+export function useKeyframeTimeline() {
+  const {
+    getKeyframes,
+    getKeyframeInterpolation,
+    addKeyframe,
+    setKeyframes: setAnimatorKeyframes,
+    setKeyframeInterpolation,
+    seekKeyframes,
+    playKeyframes,
+    pauseKeyframes,
+    stopKeyframes,
+  } = useGameMethod();
+
+  const [keyframes, setKeyframes] = useState<Keyframe[]>(() => getKeyframes());
+  const [interpolation, setInterpolation] = useState<KeyframeInterpolation>(() => getKeyframeInterpolation());
+  const animatorState = useGameEvent('keyframeStateChanged');
+
+  // Hand the camera back when the timeline is closed
+  useEffect(() => {
+    return () => stopKeyframes();
+  }, []);
+
+  // Animator time is relative to the first keyframe
+  const startTime = keyframes.length > 0 ? keyframes[0].time : 0;
+  const endTime = keyframes.length > 0 ? keyframes[keyframes.length - 1].time : 0;
+  const currentTime = startTime + (animatorState?.time ?? 0);
+  const totalDuration = Math.max(endTime, MIN_TIMELINE_DURATION);
+
+  const updateKeyframes = (updated: Keyframe[]) => {
+    const sorted = [...updated].sort((a, b) => a.time - b.time);
+    setKeyframes(sorted);
+    setAnimatorKeyframes(sorted);
+  };
+
+  const handleAddKeyframe = () => {
+    const time = keyframes.length > 0 ? endTime + KEYFRAME_SPACING : 0;
+    const keyframe = addKeyframe(time, `Keyframe ${keyframes.length + 1}`);
+    setKeyframes(prev => [...prev, keyframe].sort((a, b) => a.time - b.time));
+  };
+
+  const handleDeleteKeyframe = (id: string) => {
+    updateKeyframes(keyframes.filter(kf => kf.id !== id));
+  };
+
+  const handlePreview = (id: string) => {
+    const keyframe = keyframes.find(kf => kf.id === id);
+    if (keyframe) {
+      seekKeyframes(keyframe.time - startTime);
+    }
+  };
+
+  const handleSeek = (time: number) => {
+    seekKeyframes(time - startTime);
+  };
+
+  const handleInterpolationChange = (value: KeyframeInterpolation) => {
+    setInterpolation(value);
+    setKeyframeInterpolation(value);
+  };
+
+  return {
+    keyframes,
+    interpolation,
+    isPlaying: animatorState?.playing ?? false,
+    currentTime,
+    totalDuration,
+    updateKeyframes,
+    addKeyframe: handleAddKeyframe,
+    deleteKeyframe: handleDeleteKeyframe,
+    preview: handlePreview,
+    seek: handleSeek,
+    play: () => playKeyframes(),
+    pause: pauseKeyframes,
+    setInterpolation: handleInterpolationChange,
+  };
+}
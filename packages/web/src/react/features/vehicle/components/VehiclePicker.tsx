@@ -0,0 +1,77 @@
+import { useCallback, useState } from 'react';
+import { useGameMethod } from '../../../hooks/useGameMethod';
+import { useGameEventCallback } from '../../../hooks/useGameEvent';
+
+/**
+ * Dropdown of the registered vehicles; picking one swaps it in at the current position
+ */
+export function VehiclePicker() {
+  const { listVehicles, getActiveVehicleId, spawnVehicle } = useGameMethod();
+  const [vehicles] = useState(() => listVehicles());
+  const [activeId, setActiveId] = useState(() => getActiveVehicleId());
+  const [isOpen, setIsOpen] = useState(false);
+
+  useGameEventCallback('vehicleChanged', useCallback((data) => {
+    setActiveId(data.id);
+  }, []));
+
+  const current = vehicles.find(v => v.id === activeId) || vehicles[0];
+
+  const handleSelect = (id: string) => {
+    setIsOpen(false);
+    if (id === activeId) return;
+    spawnVehicle(id).catch((error: Error) => console.warn('⚠️ Could not spawn vehicle:', error.message));
+  };
+
+  if (!current) return null;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="glass-panel px-4 py-2.5 hover:bg-white/10 transition-all duration-300 group"
+        title="Choose Vehicle"
+      >
+        <div className="flex items-center gap-2">
+          <span className="text-lg">{current.icon}</span>
+          <span className="text-xs font-medium text-white/80 group-hover:text-white transition-colors">
+            {current.name}
+          </span>
+          <span className={`text-xs text-white/40 transition-transform ${isOpen ? 'rotate-180' : ''}`}>▼</span>
+        </div>
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-56 glass-panel p-2 space-y-1 animate-fade-in z-50">
+          {vehicles.map((vehicle) => (
+            <button
+              key={vehicle.id}
+              onClick={() => handleSelect(vehicle.id)}
+              className={`w-full flex items-center gap-3 px-3 py-2 rounded-lg transition-colors ${vehicle.id === activeId
+                  ? 'bg-future-primary/30 text-white'
+                  : 'hover:bg-white/10 text-white/70'
+                }`}
+            >
+              <span className="text-xl">{vehicle.icon}</span>
+              <div className="text-left flex-1">
+                <div className="text-sm font-medium">{vehicle.name}</div>
+                <div className="text-xs text-white/50">{vehicle.description}</div>
+              </div>
+              {vehicle.id === activeId && (
+                <span className="text-future-primary text-sm">✓</span>
+              )}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Click outside to close */}
+      {isOpen && (
+        <div
+          className="fixed inset-0 z-40"
+          onClick={() => setIsOpen(false)}
+        />
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,23 @@
 import { useGameBridge } from './useGameBridge';
 import type { CameraType } from '../../cesium/managers/CameraManager';
-import type { VehicleStateData } from '../../cesium/bridge/types';
+import type { GameMode, VehicleStateData } from '../../cesium/bridge/types';
 import type { QualityConfig } from '../../cesium/core/Scene';
+import type { OfflineRenderOptions } from '../../cesium/managers/RecordingManager';
+import type { CameraKeyframe, KeyframeInterpolation } from '../../cesium/managers/KeyframeAnimator';
+import type { PathWaypoint } from '../../cesium/managers/AutopilotManager';
+import type { DirectorSettings, ExportSettingsData } from '../../cesium/project/ProjectFile';
+import type { GameObjectType } from '../../cesium/objects/GameObject';
+import type { RaceState } from '../../cesium/modes/RaceManager';
+import type { GhostState } from '../../cesium/modes/GhostManager';
+import type { FlightModelType } from '../../cesium/vehicles/aircraft/AircraftPhysics';
+import type { GamepadTuning } from '../../cesium/input/GamepadProfiles';
+import type { InputAction } from '../../cesium/input/InputManager';
+import type { BindingContext } from '../../cesium/input/KeyBindings';
+import type { MouseSettings } from '../../cesium/input/MouseInput';
+import type { StickSide, TouchControlConfig } from '../../cesium/input/TouchInputManager';
+import type { InputContextId } from '../../cesium/input/InputContexts';
+import type { EnvironmentSettings } from '../../cesium/core/Environment';
+import type { VehicleSummary } from '../../cesium/vehicles/VehicleRegistry';
 
 export function useGameMethod() {
   const bridge = useGameBridge();
@@ -11,6 +27,9 @@ export function useGameMethod() {
     getCameraType: (): CameraType => bridge.getCameraType(),
     toggleRoverMode: () => bridge.toggleRoverMode(),
     toggleVehicleType: () => bridge.toggleVehicleType(),
+    listVehicles: (): VehicleSummary[] => bridge.listVehicles(),
+    getActiveVehicleId: (): string | null => bridge.getActiveVehicleId(),
+    spawnVehicle: (id: string) => bridge.spawnVehicle(id),
     getRoverMode: (): boolean => bridge.getRoverMode(),
     toggleCollisionDetection: () => bridge.toggleCollisionDetection(),
     getCollisionDetection: (): boolean => bridge.getCollisionDetection(),
@@ -18,25 +37,91 @@ export function useGameMethod() {
     teleportTo: (longitude: number, latitude: number, altitude: number, heading?: number) =>
       bridge.teleportTo(longitude, latitude, altitude, heading),
     restart: () => bridge.restart(),
+    startOnGround: () => bridge.startOnGround(),
+    toggleLandingGear: () => bridge.toggleLandingGear(),
+    getGamepadStatus: () => bridge.getGamepadStatus(),
+    getGamepadProfiles: () => bridge.getGamepadProfiles(),
+    setGamepadProfile: (profileId: string) => bridge.setGamepadProfile(profileId),
+    setGamepadTuning: (profileId: string, tuning: Partial<GamepadTuning>) => bridge.setGamepadTuning(profileId, tuning),
+    getMouseStatus: () => bridge.getMouseStatus(),
+    setMouseSettings: (settings: Partial<MouseSettings>) => bridge.setMouseSettings(settings),
+    getTouchStatus: () => bridge.getTouchStatus(),
+    setTouchStick: (side: StickSide, x: number, y: number) => bridge.setTouchStick(side, x, y),
+    setTouchConfig: (config: Partial<Omit<TouchControlConfig, 'tiltEnabled'>>) => bridge.setTouchConfig(config),
+    enableTilt: () => bridge.enableTilt(),
+    disableTilt: () => bridge.disableTilt(),
+    calibrateTilt: () => bridge.calibrateTilt(),
+    getKeyBindings: () => bridge.getKeyBindings(),
+    bindKey: (context: BindingContext, code: string, action: InputAction, replace?: boolean) =>
+      bridge.bindKey(context, code, action, replace),
+    unbindKey: (context: BindingContext, code: string) => bridge.unbindKey(context, code),
+    resetKeyBindings: (context?: BindingContext) => bridge.resetKeyBindings(context),
+    pushInputContext: (id: InputContextId) => bridge.pushInputContext(id),
+    popInputContext: (id: InputContextId) => bridge.popInputContext(id),
+    joinMultiplayer: (url: string, name: string) => bridge.joinMultiplayer(url, name),
+    leaveMultiplayer: () => bridge.leaveMultiplayer(),
+    getMultiplayerStatus: () => bridge.getMultiplayerStatus(),
+    getOnlinePlayers: () => bridge.getOnlinePlayers(),
     getQualitySettings: (): QualityConfig => bridge.getQualitySettings(),
     updateQualitySettings: (config: Partial<QualityConfig>) => bridge.updateQualitySettings(config),
     applyQualityPreset: (preset: 'performance' | 'balanced' | 'quality' | 'ultra') => bridge.applyQualityPreset(preset),
     toggleBuilderMode: () => bridge.toggleBuilderMode(),
-    setMode: (mode: 'play' | 'builder') => bridge.setMode(mode),
+    setMode: (mode: GameMode) => bridge.setMode(mode),
     getMode: () => bridge.getMode(),
+    setFlightModel: (model: FlightModelType) => bridge.setFlightModel(model),
+    getFlightModel: (): FlightModelType => bridge.getFlightModel(),
+    getEnvironmentSettings: (): EnvironmentSettings => bridge.getEnvironmentSettings(),
+    setEnvironmentSettings: (settings: Partial<EnvironmentSettings>) => bridge.setEnvironmentSettings(settings),
+    restartRace: () => bridge.restartRace(),
+    getRaceState: (): RaceState => bridge.getRaceState(),
+    getGhostState: (): GhostState => bridge.getGhostState(),
+    setGhostVisible: (visible: boolean) => bridge.setGhostVisible(visible),
+    clearGhost: () => bridge.clearGhost(),
+    exportGhost: () => bridge.exportGhost(),
+    importGhost: (file: Blob) => bridge.importGhost(file),
+    setBuilderObjectType: (type: GameObjectType) => bridge.setBuilderObjectType(type),
+    getBuilderObjectType: (): GameObjectType => bridge.getBuilderObjectType(),
     setThrottle: (percent: number) => bridge.setThrottle(percent),
-    flyPath: (waypoints: { lat: number; lon: number }[], options?: { speed?: number; altitude?: number }) => bridge.flyPath(waypoints, options),
-    startRecording: () => bridge.startRecording(),
+    flyPath: (waypoints: PathWaypoint[], options?: { speed?: number; altitude?: number }) => bridge.flyPath(waypoints, options),
+    startRecording: (size?: { width: number; height: number }) => bridge.startRecording(size),
     stopRecording: (fileName?: string) => bridge.stopRecording(fileName),
+    setPreviewRenderSize: (size: { width: number; height: number } | null) => bridge.setPreviewRenderSize(size),
+    startTrackRecording: () => bridge.startTrackRecording(),
+    stopTrackRecording: () => bridge.stopTrackRecording(),
+    hasTrack: () => bridge.hasTrack(),
+    startReplay: (camera?: 'recorded' | CameraType, loop?: boolean) => bridge.startReplay(camera, loop),
+    stopReplay: () => bridge.stopReplay(),
+    renderOffline: (options: OfflineRenderOptions) => bridge.renderOffline(options),
+    cancelOfflineRender: () => bridge.cancelOfflineRender(),
+    addKeyframe: (time: number, label?: string) => bridge.addKeyframe(time, label),
+    getKeyframes: (): CameraKeyframe[] => bridge.getKeyframes(),
+    getKeyframeInterpolation: (): KeyframeInterpolation => bridge.getKeyframeInterpolation(),
+    setKeyframes: (keyframes: CameraKeyframe[]) => bridge.setKeyframes(keyframes),
+    removeKeyframe: (id: string) => bridge.removeKeyframe(id),
+    setKeyframeInterpolation: (interpolation: KeyframeInterpolation) => bridge.setKeyframeInterpolation(interpolation),
+    seekKeyframes: (time: number) => bridge.seekKeyframes(time),
+    playKeyframes: (loop?: boolean) => bridge.playKeyframes(loop),
+    pauseKeyframes: () => bridge.pauseKeyframes(),
+    stopKeyframes: () => bridge.stopKeyframes(),
+    saveProject: (name?: string) => bridge.saveProject(name),
+    loadProject: (file: Blob) => bridge.loadProject(file),
+    getProjectName: () => bridge.getProjectName(),
+    getDirectorSettings: (): DirectorSettings => bridge.getDirectorSettings(),
+    setDirectorSettings: (settings: Partial<DirectorSettings>) => bridge.setDirectorSettings(settings),
+    getExportSettings: (): ExportSettingsData => bridge.getExportSettings(),
+    setExportSettings: (settings: Partial<ExportSettingsData>) => bridge.setExportSettings(settings),
     startOrbit: (lat: number, lon: number, height: number, radius?: number, speed?: number, onComplete?: () => void) =>
       bridge.startOrbit(lat, lon, height, radius, speed, onComplete),
     stopOrbit: () => bridge.stopOrbit(),
-    flyPathWithTargetLock: (waypoints: { lat: number; lon: number }[], target: { lat: number; lon: number }, options?: { speed?: number; duration?: number }) =>
+    flyPathWithTargetLock: (waypoints: PathWaypoint[], target: { lat: number; lon: number }, options?: { speed?: number; duration?: number }) =>
       bridge.flyPathWithTargetLock(waypoints, target, options || {}),
     stopLock: () => bridge.stopLock(),
     setVehicleVisibility: (visible: boolean) => bridge.setVehicleVisibility(visible),
     showFlightGuide: (target: { lat: number; lon: number }) => bridge.showFlightGuide(target),
     hideFlightGuide: () => bridge.hideFlightGuide(),
+    getFlightGuideTarget: () => bridge.getFlightGuideTarget(),
+    addWaypoint: (lat: number, lon: number, name?: string) => bridge.addWaypoint(lat, lon, name),
+    getBuilderObjects: () => bridge.getBuilderObjects(),
     getCurrentCameraPosition: () => bridge.getCurrentCameraPosition(),
     setCameraSpeed: (speed: number) => bridge.setCameraSpeed(speed),
     // Auto altitude methods for best view
@@ -3,7 +3,7 @@ import { useGameEventCallback } from './useGameEvent';
 import { useState, useEffect } from 'react';
 import type { ModeChangedData } from '../../cesium/bridge/types';
 
-export type GameMode = 'play' | 'builder';
+export type GameMode = 'play' | 'builder' | 'race';
 
 export function useGameMode() {
   const [mode, setMode] = useState<GameMode>('play');
@@ -24,6 +24,7 @@ export function useGameMode() {
     mode,
     isBuilder: mode === 'builder',
     isPlay: mode === 'play',
+    isRace: mode === 'race',
     toggleBuilder: methods.toggleBuilderMode,
     setMode: methods.setMode,
   };
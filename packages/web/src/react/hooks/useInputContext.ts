@@ -0,0 +1,16 @@
+import { useEffect } from 'react';
+import { useGameBridge } from './useGameBridge';
+import type { InputContextId } from '../../cesium/input/InputContexts';
+
+/**
+ * Hold an input context on top of the stack while active, so keys stop reaching the game underneath
+ */
+export function useInputContext(id: InputContextId, active: boolean = true): void {
+  const bridge = useGameBridge();
+
+  useEffect(() => {
+    if (!active) return;
+    bridge.pushInputContext(id);
+    return () => bridge.popInputContext(id);
+  }, [bridge, id, active]);
+}
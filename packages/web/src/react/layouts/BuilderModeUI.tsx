@@ -1,10 +1,22 @@
+import { useState } from 'react';
 import { BuilderHUD } from '../features/builder/components/BuilderHUD';
+import { ObjectTypePicker } from '../features/builder/components/ObjectTypePicker';
+import { useGameMethod } from '../hooks/useGameMethod';
+import type { GameObjectType } from '../../cesium/objects/GameObject';
 
 export function BuilderModeUI() {
+  const { getBuilderObjectType, setBuilderObjectType } = useGameMethod();
+  const [objectType, setObjectType] = useState<GameObjectType>(() => getBuilderObjectType());
+
+  const handleObjectTypeChange = (type: GameObjectType) => {
+    setBuilderObjectType(type);
+    setObjectType(type);
+  };
+
   return (
     <>
-      <BuilderHUD />
-      {/* More builder components will be added here */}
+      <BuilderHUD objectType={objectType} />
+      <ObjectTypePicker value={objectType} onChange={handleObjectTypeChange} />
     </>
   );
 }
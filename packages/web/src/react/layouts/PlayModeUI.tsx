@@ -1,6 +1,8 @@
 import { HUD } from '../features/hud/components/HUD';
 import { ControlsPanel } from '../features/controls/components/ControlsPanel';
 import { CameraControls } from '../features/camera/components/CameraControls';
+import { VehiclePicker } from '../features/vehicle/components/VehiclePicker';
+import { MultiplayerMenu } from '../features/multiplayer/components/MultiplayerMenu';
 import { CrashScreen } from '../features/crash/components/CrashScreen';
 import { DirectorPanel } from '../features/director/components/DirectorPanel';
 
@@ -9,6 +11,8 @@ export function PlayModeUI() {
     <>
       <ControlsPanel />
       <div className="fixed top-8 right-8 z-50 flex gap-2 pointer-events-auto">
+        <MultiplayerMenu />
+        <VehiclePicker />
         <CameraControls />
       </div>
       <HUD />
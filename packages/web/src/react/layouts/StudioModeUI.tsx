@@ -1,19 +1,53 @@
-import { useState } from 'react';
+import { useCallback, useState } from 'react';
 import { DirectorPanel } from '../features/director/components/DirectorPanel';
 import { CameraControls } from '../features/camera/components/CameraControls';
+import { VehiclePicker } from '../features/vehicle/components/VehiclePicker';
+import { MultiplayerMenu } from '../features/multiplayer/components/MultiplayerMenu';
 import { LocationLibrary } from '../features/studio/components/LocationLibrary';
-import { ExportPanel } from '../features/studio/components/ExportPanel';
+import { ExportPanel, getExportDimensions } from '../features/studio/components/ExportPanel';
+import { SafeAreaOverlay } from '../features/studio/components/SafeAreaOverlay';
+import { FlightTimeline } from '../features/studio/components/FlightTimeline';
+import { useKeyframeTimeline } from '../features/studio/hooks/useKeyframeTimeline';
+import { ProjectMenu } from '../features/studio/components/ProjectMenu';
 import { useGameMethod } from '../hooks/useGameMethod';
+import { useGameEvent, useGameEventCallback } from '../hooks/useGameEvent';
 import type { Location } from '../features/studio/components/LocationLibrary';
+import type { ExportSettings } from '../features/studio/components/ExportPanel';
+import type { CameraType } from '../../cesium/managers/CameraManager';
 
 export function StudioModeUI() {
-  const [activePanel, setActivePanel] = useState<'director' | 'locations' | 'export'>('director');
+  const [activePanel, setActivePanel] = useState<'director' | 'locations' | 'export' | 'timeline'>('director');
   const [isRecording, setIsRecording] = useState(false);
+  const [isTrackRecording, setIsTrackRecording] = useState(false);
+  const [projectRevision, setProjectRevision] = useState(0);
   const { 
     teleportTo, 
+    addWaypoint,
     startRecording, 
-    stopRecording 
+    stopRecording,
+    startTrackRecording,
+    stopTrackRecording,
+    hasTrack,
+    startReplay,
+    stopReplay,
+    renderOffline,
+    getExportSettings,
+    setExportSettings: setProjectExportSettings
   } = useGameMethod();
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(() => getExportSettings());
+
+  // A loaded project replaces the export settings, remount the panel so it picks them up
+  useGameEventCallback('projectLoaded', useCallback((project) => {
+    setExportSettings(project.exportSettings);
+    setProjectRevision(revision => revision + 1);
+  }, []));
+
+  const handleExportSettingsChange = useCallback((settings: ExportSettings) => {
+    setExportSettings(settings);
+    setProjectExportSettings(settings);
+  }, []);
+  const replayState = useGameEvent('replayStateChanged');
+  const isReplaying = replayState?.active ?? false;
 
   // Handle location selection - teleport to location
   const handleSelectLocation = (location: Location) => {
@@ -21,15 +55,25 @@ export function StudioModeUI() {
   };
 
   // Handle adding waypoint from location
-  const handleAddWaypoint = (_location: Location) => {
-    // TODO: Integrate with director panel waypoints
-    console.log('Add waypoint:', _location);
+  const handleAddWaypoint = (location: Location) => {
+    addWaypoint(location.lat, location.lon, location.name);
   };
 
   // Export handlers
-  const handleExport = (settings: Parameters<typeof console.log>[0]) => {
-    console.log('Export with settings:', settings);
-    // TODO: Implement export functionality
+  const handleExport = (settings: ExportSettings) => {
+    const { width, height } = getExportDimensions(settings);
+    const renderFromTrack = hasTrack();
+
+    renderOffline({
+      fps: settings.fps,
+      width,
+      height,
+      format: settings.format,
+      quality: settings.quality,
+      fileName: settings.filename,
+      duration: renderFromTrack ? undefined : settings.duration,
+      replay: renderFromTrack ? { camera: settings.replayCamera } : undefined,
+    });
   };
 
   const handleTakeScreenshot = () => {
@@ -37,8 +81,8 @@ export function StudioModeUI() {
     console.log('Taking screenshot...');
   };
 
-  const handleStartRecording = () => {
-    startRecording();
+  const handleStartRecording = (settings: ExportSettings) => {
+    startRecording(getExportDimensions(settings));
     setIsRecording(true);
   };
 
@@ -47,6 +91,20 @@ export function StudioModeUI() {
     setIsRecording(false);
   };
 
+  const handleToggleTrackRecording = () => {
+    if (isTrackRecording) {
+      stopTrackRecording();
+      setIsTrackRecording(false);
+    } else {
+      startTrackRecording();
+      setIsTrackRecording(true);
+    }
+  };
+
+  const handleReplay = (camera: 'recorded' | CameraType) => {
+    startReplay(camera);
+  };
+
   return (
     <>
       {/* Top Bar */}
@@ -70,11 +128,21 @@ export function StudioModeUI() {
             isActive={activePanel === 'export'} 
             onClick={() => setActivePanel('export')} 
           />
+          <PanelTab 
+            icon="⏱️" 
+            label="Timeline" 
+            isActive={activePanel === 'timeline'} 
+            onClick={() => setActivePanel('timeline')} 
+          />
+          <div className="w-px h-6 bg-white/10 mx-1" />
+          <ProjectMenu />
         </div>
       </div>
 
       {/* Camera Controls - Top Right */}
-      <div className="fixed top-4 right-4 z-50 pointer-events-auto">
+      <div className="fixed top-4 right-4 z-50 pointer-events-auto flex gap-2">
+        <MultiplayerMenu />
+        <VehiclePicker />
         <CameraControls />
       </div>
 
@@ -87,6 +155,7 @@ export function StudioModeUI() {
             onAddWaypoint={handleAddWaypoint}
           />
         )}
+        {activePanel === 'timeline' && <TimelinePanel />}
         {activePanel === 'export' && (
           <ExportPanel 
             onExport={handleExport}
@@ -94,10 +163,24 @@ export function StudioModeUI() {
             isRecording={isRecording}
             onStartRecording={handleStartRecording}
             onStopRecording={handleStopRecording}
+            isTrackRecording={isTrackRecording}
+            hasTrack={!isTrackRecording && hasTrack()}
+            isReplaying={isReplaying}
+            onToggleTrackRecording={handleToggleTrackRecording}
+            onReplay={handleReplay}
+            onStopReplay={stopReplay}
+            key={projectRevision}
+            initialSettings={exportSettings}
+            onSettingsChange={handleExportSettingsChange}
           />
         )}
       </div>
 
+      {/* Safe-area guides for the chosen output framing */}
+      {activePanel === 'export' && (
+        <SafeAreaOverlay {...getExportDimensions(exportSettings)} />
+      )}
+
       {/* Recording Indicator */}
       {isRecording && (
         <div className="fixed top-4 left-4 z-[60] pointer-events-none">
@@ -131,6 +214,31 @@ export function StudioModeUI() {
   );
 }
 
+// Keyframe timeline, kept in its own component so the camera is released when the tab closes
+function TimelinePanel() {
+  const timeline = useKeyframeTimeline();
+
+  return (
+    <div className="w-[520px]">
+      <FlightTimeline
+        keyframes={timeline.keyframes}
+        onKeyframesChange={timeline.updateKeyframes}
+        onAddKeyframe={timeline.addKeyframe}
+        onDeleteKeyframe={timeline.deleteKeyframe}
+        onPreview={timeline.preview}
+        onPlayPreview={timeline.play}
+        onStopPreview={timeline.pause}
+        isPlaying={timeline.isPlaying}
+        currentTime={timeline.currentTime}
+        totalDuration={timeline.totalDuration}
+        onSeek={timeline.seek}
+        interpolation={timeline.interpolation}
+        onInterpolationChange={timeline.setInterpolation}
+      />
+    </div>
+  );
+}
+
 // Panel Tab Component
 interface PanelTabProps {
   icon: string;
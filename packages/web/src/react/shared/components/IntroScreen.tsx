@@ -100,14 +100,19 @@ function MobileControls() {
         <h3 className="text-xs uppercase tracking-wider text-white/40 font-semibold">Touch Controls</h3>
         <div className="space-y-2.5">
           <TouchControlRow 
-            icon="↔️" 
-            action="Swipe Left/Right" 
-            description="Roll plane (banking)"
+            icon="🕹️" 
+            action="Left Stick" 
+            description="Throttle and yaw (mode 2)"
           />
           <TouchControlRow 
-            icon="↕️" 
-            action="Swipe Up/Down" 
-            description="Climb/Descend"
+            icon="🕹️" 
+            action="Right Stick" 
+            description="Pitch and roll (mode 2)"
+          />
+          <TouchControlRow 
+            icon="📱" 
+            action="Tilt" 
+            description="Steer by tilting, turn on under 🕹️"
           />
           <TouchControlRow 
             icon="🎚️" 
@@ -0,0 +1,76 @@
+import type { BezierHandles, EasingType, SegmentTiming } from '../../../cesium/camera/CameraPath';
+import { DEFAULT_BEZIER } from '../../../cesium/camera/CameraPath';
+
+const EASING_OPTIONS: { id: EasingType; label: string }[] = [
+  { id: 'linear', label: 'Linear' },
+  { id: 'easeIn', label: 'Ease In' },
+  { id: 'easeOut', label: 'Ease Out' },
+  { id: 'easeInOut', label: 'Ease In/Out' },
+  { id: 'cubic', label: 'Cubic' },
+  { id: 'bezier', label: 'Bezier' },
+];
+
+interface SegmentTimingControlsProps {
+  timing: SegmentTiming;
+  defaultEasing: EasingType;
+  onChange: (timing: SegmentTiming) => void;
+}
+
+/**
+ * Compact editor for the easing into a point and the hold after reaching it
+ */
+export function SegmentTimingControls({ timing, defaultEasing, onChange }: SegmentTimingControlsProps) {
+  const easing = timing.easing ?? defaultEasing;
+  const bezier = timing.bezier ?? DEFAULT_BEZIER;
+
+  const updateBezier = (index: number, value: number) => {
+    const handles = [...bezier] as BezierHandles;
+    // x handles must stay inside 0-1 for the curve to be a function of time
+    handles[index] = index % 2 === 0 ? Math.min(1, Math.max(0, value)) : value;
+    onChange({ ...timing, bezier: handles });
+  };
+
+  return (
+    <div className="space-y-1" onClick={(e) => e.stopPropagation()}>
+      <div className="flex items-center gap-1">
+        <select
+          value={easing}
+          onChange={(e) => onChange({ ...timing, easing: e.target.value as EasingType })}
+          className="flex-1 bg-black/40 border border-white/10 rounded px-1 py-0.5 text-[10px] text-white focus:outline-none focus:border-future-primary"
+          title="Easing into this point"
+        >
+          {EASING_OPTIONS.map(option => (
+            <option key={option.id} value={option.id}>{option.label}</option>
+          ))}
+        </select>
+        <label className="flex items-center gap-1 text-[10px] text-white/50" title="Hold after arriving">
+          ⏸
+          <input
+            type="number"
+            min="0"
+            step="0.5"
+            value={timing.hold ?? 0}
+            onChange={(e) => onChange({ ...timing, hold: Math.max(0, Number(e.target.value)) })}
+            className="w-10 bg-black/40 border border-white/10 rounded px-1 py-0.5 text-[10px] text-white focus:outline-none focus:border-future-primary"
+          />
+          s
+        </label>
+      </div>
+      {easing === 'bezier' && (
+        <div className="grid grid-cols-4 gap-1">
+          {bezier.map((value, index) => (
+            <input
+              key={index}
+              type="number"
+              step="0.05"
+              value={value}
+              onChange={(e) => updateBezier(index, Number(e.target.value))}
+              className="w-full bg-black/40 border border-white/10 rounded px-1 py-0.5 text-[10px] text-white font-mono focus:outline-none focus:border-future-primary"
+              title={['x1', 'y1', 'x2', 'y2'][index]}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
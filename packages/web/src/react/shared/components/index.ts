@@ -1,5 +1,6 @@
 export { Button } from './Button';
 export { Panel } from './Panel';
 export { IntroScreen } from './IntroScreen';
+export { SegmentTimingControls } from './SegmentTimingControls';
 
 
@@ -0,0 +1,7 @@
+/**
+ * Vehicle heading in radians (0 = east, clockwise) as a compass bearing in degrees (0 = north)
+ */
+export function toCompassHeading(heading: number): number {
+  const degrees = heading * 180 / Math.PI + 90;
+  return ((degrees % 360) + 360) % 360;
+}